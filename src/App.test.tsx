@@ -1,4 +1,5 @@
-import { render, screen, waitFor } from "@testing-library/react";
+import { fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import mermaid from "mermaid";
 import App from "./App";
 
 // Mock mermaid module
@@ -11,6 +12,10 @@ jest.mock("mermaid", () => ({
 }));
 
 describe("App Component", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
   it("renders the application header", async () => {
     render(<App />);
 
@@ -48,4 +53,148 @@ describe("App Component", () => {
       expect(container.querySelector(".example-chart")).toBeInTheDocument();
     });
   });
+
+  it("re-renders the chart when a task is edited", async () => {
+    render(<App />);
+    const launch = within(screen.getByRole("group", { name: "Launch" }));
+
+    fireEvent.change(launch.getByLabelText("Name"), {
+      target: { value: "Go live" },
+    });
+
+    await waitFor(() => {
+      const calls = (mermaid.render as jest.Mock).mock.calls;
+      expect(calls[calls.length - 1][1]).toContain("Go live");
+    });
+  });
+
+  it("switches to the source editor with the same data", () => {
+    render(<App />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Source" }));
+
+    expect(screen.getByRole("button", { name: "Source" })).toHaveAttribute(
+      "aria-pressed",
+      "true"
+    );
+    expect(
+      (screen.getByLabelText("JSON source") as HTMLTextAreaElement).value
+    ).toContain('"title": "Software Development Project"');
+    expect(screen.queryByLabelText("Gantt chart editor")).not.toBeInTheDocument();
+  });
+
+  it("replaces the chart with tasks imported from CSV", () => {
+    render(<App />);
+
+    fireEvent.change(screen.getByLabelText("CSV text"), {
+      target: {
+        value: "Section,ID,Name,Start,Duration\nWork,kickoff,Kickoff,2024-01-01,1d",
+      },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Import" }));
+
+    expect(screen.getByRole("group", { name: "Kickoff" })).toBeInTheDocument();
+    expect(
+      screen.queryByRole("group", { name: "Launch" })
+    ).not.toBeInTheDocument();
+  });
+
+  it("restores the last chart after a reload", () => {
+    const { unmount } = render(<App />);
+    const launch = within(screen.getByRole("group", { name: "Launch" }));
+    fireEvent.change(launch.getByLabelText("Name"), {
+      target: { value: "Go live" },
+    });
+    unmount();
+
+    render(<App />);
+
+    expect(screen.getByRole("group", { name: "Go live" })).toBeInTheDocument();
+    expect(screen.getByLabelText("Document")).toHaveDisplayValue(
+      "Untitled chart"
+    );
+  });
+
+  it("undoes and redoes edits from the buttons and the keyboard", () => {
+    render(<App />);
+    const undoButton = screen.getByRole("button", { name: "Undo" });
+    expect(undoButton).toBeDisabled();
+
+    const launch = within(screen.getByRole("group", { name: "Launch" }));
+    fireEvent.change(launch.getByLabelText("Name"), {
+      target: { value: "Go live" },
+    });
+
+    expect(undoButton).toHaveAttribute("title", 'Undo: Rename task "Launch"');
+    fireEvent.click(undoButton);
+    expect(screen.getByRole("group", { name: "Launch" })).toBeInTheDocument();
+
+    fireEvent.keyDown(document.body, {
+      key: "z",
+      ctrlKey: true,
+      shiftKey: true,
+    });
+    expect(screen.getByRole("group", { name: "Go live" })).toBeInTheDocument();
+
+    fireEvent.keyDown(document.body, { key: "z", ctrlKey: true });
+    expect(screen.getByRole("group", { name: "Launch" })).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Redo" })).toBeEnabled();
+  });
+
+  it("undoes a drag on the interactive chart in one step", () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole("button", { name: "Interactive" }));
+    const chart = within(
+      screen.getByRole("img", { name: "Software Development Project" })
+    );
+
+    const bar = chart.getByText("Gather Requirements");
+    fireEvent.mouseDown(bar, { button: 0, clientX: 100 });
+    fireEvent.mouseMove(window, { clientX: 150 });
+    fireEvent.mouseMove(window, { clientX: 200 });
+    fireEvent.mouseUp(window);
+
+    const undoButton = screen.getByRole("button", { name: "Undo" });
+    expect(undoButton).toHaveAttribute(
+      "title",
+      'Undo: Move "Gather Requirements"'
+    );
+    fireEvent.click(undoButton);
+    expect(undoButton).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Redo" })).toHaveAttribute(
+      "title",
+      'Redo: Move "Gather Requirements"'
+    );
+  });
+
+  it("explains drags that the chart refuses", () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole("button", { name: "Interactive" }));
+    const chart = within(
+      screen.getByRole("img", { name: "Software Development Project" })
+    );
+
+    fireEvent.mouseDown(chart.getByText("System Design"), {
+      button: 0,
+      clientX: 100,
+    });
+    fireEvent.mouseMove(window, { clientX: 200 });
+    fireEvent.mouseUp(window);
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      'Task "design" starts when "requirements" ends'
+    );
+    expect(screen.getByRole("button", { name: "Undo" })).toBeDisabled();
+  });
+
+  it("leaves undo to text fields while they have focus", () => {
+    render(<App />);
+    const launch = within(screen.getByRole("group", { name: "Launch" }));
+    const name = launch.getByLabelText("Name");
+    fireEvent.change(name, { target: { value: "Go live" } });
+
+    fireEvent.keyDown(name, { key: "z", ctrlKey: true });
+
+    expect(screen.getByRole("group", { name: "Go live" })).toBeInTheDocument();
+  });
 });
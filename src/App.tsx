@@ -1,6 +1,36 @@
+import { useEffect, useMemo, useState } from "react";
 import "./App.css";
-import { GanttChart } from "./components";
-import { GanttData } from "./types";
+import {
+  BaselineManager,
+  CsvImporter,
+  DocumentManager,
+  GanttChart,
+  GanttEditor,
+  SourceEditor,
+  WorkloadView,
+} from "./components";
+import {
+  ChartCommand,
+  GanttData,
+  GanttRenderer,
+  SavedHistory,
+} from "./types";
+import {
+  beginTransaction,
+  commitTransaction,
+  createHistory,
+  downloadBlob,
+  exportCsvTasks,
+  exportIcs,
+  exportXlsxTasks,
+  formatDate,
+  recordChange,
+  redo,
+  restoreHistory,
+  saveDocument,
+  saveHistory,
+  undo,
+} from "./utils";
 
 /**
  * Example Gantt chart data demonstrating a software development project.
@@ -11,6 +41,11 @@ const exampleGanttData: GanttData = {
     dateFormat: "YYYY-MM-DD",
     excludes: ["saturday", "sunday"],
   },
+  resources: [
+    { id: "alice", name: "Alice" },
+    { id: "bob", name: "Bob" },
+    { id: "carol", name: "Carol" },
+  ],
   sections: [
     {
       name: "Planning",
@@ -21,6 +56,7 @@ const exampleGanttData: GanttData = {
           start: "2024-01-01",
           duration: { value: 5, unit: "d" },
           status: ["done"],
+          assignees: [{ resourceId: "alice" }],
         },
         {
           id: "design",
@@ -29,6 +65,7 @@ const exampleGanttData: GanttData = {
           duration: { value: 7, unit: "d" },
           after: "requirements",
           status: ["done"],
+          assignees: [{ resourceId: "alice" }],
         },
       ],
     },
@@ -42,6 +79,7 @@ const exampleGanttData: GanttData = {
           duration: { value: 14, unit: "d" },
           after: "design",
           status: ["active"],
+          assignees: [{ resourceId: "bob" }],
         },
         {
           id: "frontend",
@@ -50,14 +88,19 @@ const exampleGanttData: GanttData = {
           duration: { value: 14, unit: "d" },
           after: "design",
           status: ["active"],
+          assignees: [
+            { resourceId: "alice" },
+            { resourceId: "bob", allocation: 25 },
+          ],
         },
         {
           id: "integration",
           name: "Integration",
           start: "",
           duration: { value: 5, unit: "d" },
-          after: "backend",
+          after: ["backend", "frontend"],
           status: ["crit"],
+          assignees: [{ resourceId: "bob" }],
         },
       ],
     },
@@ -70,6 +113,7 @@ const exampleGanttData: GanttData = {
           start: "",
           duration: { value: 7, unit: "d" },
           after: "integration",
+          assignees: [{ resourceId: "carol" }],
         },
         {
           id: "deployment",
@@ -78,6 +122,7 @@ const exampleGanttData: GanttData = {
           duration: { value: 2, unit: "d" },
           after: "testing",
           status: ["crit"],
+          assignees: [{ resourceId: "bob" }, { resourceId: "carol" }],
         },
         {
           id: "launch",
@@ -92,7 +137,144 @@ const exampleGanttData: GanttData = {
   ],
 };
 
+/**
+ * Starting point for documents created with the New button: one task
+ * starting today.
+ */
+function createBlankChart(): GanttData {
+  return {
+    config: { dateFormat: "YYYY-MM-DD" },
+    sections: [
+      {
+        name: "Section 1",
+        tasks: [
+          {
+            id: "task1",
+            name: "New task",
+            start: formatDate(new Date(), "YYYY-MM-DD"),
+            duration: { value: 1, unit: "d" },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Downloads the chart's tasks as a CSV file. The byte order mark lets
+ * spreadsheets detect UTF-8.
+ */
+function downloadCsv(data: GanttData): void {
+  const csv = new Blob(["\uFEFF", exportCsvTasks(data)], {
+    type: "text/csv;charset=utf-8",
+  });
+  downloadBlob(csv, "tasks.csv");
+}
+
+/**
+ * Downloads the chart's tasks as an Excel workbook.
+ */
+function downloadXlsx(data: GanttData): void {
+  const xlsx = new Blob([exportXlsxTasks(data)], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  downloadBlob(xlsx, "tasks.xlsx");
+}
+
+/**
+ * Downloads the chart's tasks as calendar events, or explains why the
+ * chart cannot be scheduled. Events are identified by the document they
+ * come from, so charts that share task IDs do not overwrite each other's.
+ * The chart is saved first, so the events carry the revision it is saved
+ * as and a calendar takes them over ones from earlier revisions.
+ */
+function downloadIcs(
+  data: GanttData,
+  documentId: string,
+  history: SavedHistory
+): void {
+  const saved = saveDocument(documentId, data, window.localStorage, history);
+  if (!saved.success) {
+    window.alert(saved.error);
+    return;
+  }
+  const result = exportIcs(data, {
+    uidDomain: `${documentId}.ganttifier`,
+    sequence: saved.document!.revision,
+  });
+  if (!result.success) {
+    window.alert(result.error);
+    return;
+  }
+  const ics = new Blob([result.ics!], { type: "text/calendar" });
+  downloadBlob(ics, "tasks.ics");
+}
+
+/**
+ * Whether a key press is meant for an editable field, which has its own
+ * undo, rather than for the chart.
+ */
+function isEditingText(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      target.closest("input, textarea, select") !== null)
+  );
+}
+
 function App(): JSX.Element {
+  const [history, setHistory] = useState(() =>
+    createHistory(exampleGanttData)
+  );
+  const ganttData = history.present;
+  const setGanttData = (data: GanttData, command: ChartCommand) =>
+    setHistory((current) => recordChange(current, data, command));
+  const [documentId, setDocumentId] = useState<string>();
+  const openDocument = (
+    data: GanttData,
+    saved: SavedHistory | undefined,
+    id: string
+  ) => {
+    setHistory(restoreHistory(data, saved));
+    setDocumentId(id);
+  };
+  const savedHistory = useMemo(() => saveHistory(history), [history]);
+  const lastChange = history.past[history.past.length - 1];
+  const nextChange = history.future[0];
+  const [view, setView] = useState<"form" | "source">("form");
+  const [renderer, setRenderer] = useState<GanttRenderer>("mermaid");
+  const [dragError, setDragError] = useState<string>();
+  const [blankChart] = useState(createBlankChart);
+  const [baselineName, setBaselineName] = useState<string>();
+  const baseline = ganttData.baselines?.find(
+    (item) => item.name === baselineName
+  );
+
+  // Everything a drag on the chart changes is undone in one step
+  const startChartDrag = () => {
+    setDragError(undefined);
+    setHistory(beginTransaction);
+  };
+
+  // Ctrl+Z undoes, and Ctrl+Shift+Z or Ctrl+Y redoes (Cmd on macOS)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditingText(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        setHistory(undo);
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        setHistory(redo);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   return (
     <div className="App">
       <header className="App-header">
@@ -100,7 +282,127 @@ function App(): JSX.Element {
         <p>Create beautiful Gantt charts with structured data</p>
       </header>
       <main className="App-main">
-        <GanttChart data={exampleGanttData} className="example-chart" />
+        <DocumentManager
+          data={ganttData}
+          onOpen={openDocument}
+          history={savedHistory}
+          template={blankChart}
+        />
+        <div className="App-history" role="group" aria-label="History">
+          <button
+            type="button"
+            disabled={!lastChange}
+            title={lastChange && `Undo: ${lastChange.label}`}
+            onClick={() => setHistory(undo)}
+          >
+            Undo
+          </button>
+          <button
+            type="button"
+            disabled={!nextChange}
+            title={nextChange && `Redo: ${nextChange.label}`}
+            onClick={() => setHistory(redo)}
+          >
+            Redo
+          </button>
+        </div>
+        <details className="App-csv">
+          <summary>Import and export</summary>
+          <button type="button" onClick={() => downloadCsv(ganttData)}>
+            Export CSV
+          </button>
+          <button type="button" onClick={() => downloadXlsx(ganttData)}>
+            Export XLSX
+          </button>
+          <button
+            type="button"
+            disabled={!documentId}
+            onClick={() => downloadIcs(ganttData, documentId!, savedHistory)}
+          >
+            Export calendar
+          </button>
+          <CsvImporter
+            config={ganttData.config}
+            resources={ganttData.resources}
+            onImport={setGanttData}
+          />
+        </details>
+        <details className="App-workload">
+          <summary>Workload</summary>
+          <WorkloadView
+            data={ganttData}
+            onChange={setGanttData}
+          />
+        </details>
+        <details className="App-baselines">
+          <summary>Baselines</summary>
+          <BaselineManager
+            data={ganttData}
+            onChange={setGanttData}
+            selected={baselineName}
+            onSelect={setBaselineName}
+          />
+        </details>
+        <div className="App-views" role="group" aria-label="Editor">
+          <button
+            type="button"
+            aria-pressed={view === "form"}
+            onClick={() => setView("form")}
+          >
+            Form
+          </button>
+          <button
+            type="button"
+            aria-pressed={view === "source"}
+            onClick={() => setView("source")}
+          >
+            Source
+          </button>
+        </div>
+        <div className="App-views" role="group" aria-label="Chart">
+          <button
+            type="button"
+            aria-pressed={renderer === "mermaid"}
+            onClick={() => setRenderer("mermaid")}
+          >
+            Mermaid
+          </button>
+          <button
+            type="button"
+            aria-pressed={renderer === "native"}
+            onClick={() => setRenderer("native")}
+            title="Drag bars to move tasks and their right edge to resize them"
+          >
+            Interactive
+          </button>
+        </div>
+        {dragError && (
+          <p className="App-drag-error" role="alert">
+            {dragError}
+          </p>
+        )}
+        {view === "form" ? (
+          <div className="App-workspace">
+            <aside className="App-editor">
+              <GanttEditor data={ganttData} onChange={setGanttData} />
+            </aside>
+            <GanttChart
+              data={ganttData}
+              className="example-chart"
+              exportable
+              // Mermaid cannot draw baselines, so the native renderer takes
+              // over while one is being compared
+              renderer={baseline ? "native" : renderer}
+              baseline={baseline}
+              onChange={setGanttData}
+              onChangeRejected={setDragError}
+              onDragStart={startChartDrag}
+              onDragEnd={() => setHistory(commitTransaction)}
+            />
+          </div>
+        ) : (
+          <SourceEditor data={ganttData} onChange={setGanttData} />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import { BaselineManager } from "./BaselineManager";
+import { GanttData } from "../types";
+
+describe("BaselineManager Component", () => {
+  const data: GanttData = {
+    sections: [
+      {
+        name: "Work",
+        tasks: [
+          {
+            id: "design",
+            name: "Design",
+            start: "2024-01-01",
+            duration: { value: 2, unit: "d" },
+          },
+          {
+            id: "build",
+            name: "Build",
+            start: "",
+            after: "design",
+            duration: { value: 3, unit: "d" },
+          },
+        ],
+      },
+    ],
+  };
+
+  const approved: GanttData = {
+    ...data,
+    baselines: [
+      {
+        name: "Approved",
+        createdAt: new Date(2023, 11, 20).toISOString(),
+        tasks: [
+          {
+            id: "design",
+            name: "Design",
+            sectionName: "Work",
+            start: "2024-01-01 00:00",
+            end: "2024-01-03 00:00",
+            isMilestone: false,
+          },
+          {
+            id: "build",
+            name: "Build",
+            sectionName: "Work",
+            start: "2024-01-02 00:00",
+            end: "2024-01-05 00:00",
+            isMilestone: false,
+          },
+          {
+            id: "review",
+            name: "Review",
+            sectionName: "Work",
+            start: "2024-01-05 00:00",
+            end: "2024-01-06 00:00",
+            isMilestone: false,
+          },
+        ],
+      },
+    ],
+  };
+
+  /**
+   * Renders the manager around its own chart and selection state.
+   */
+  function renderManager(initial: GanttData, selected?: string) {
+    const onChange = jest.fn();
+    function Harness(): JSX.Element {
+      const [current, setCurrent] = useState(initial);
+      const [name, setName] = useState(selected);
+      return (
+        <BaselineManager
+          data={current}
+          onChange={(next) => {
+            onChange(next);
+            setCurrent(next);
+          }}
+          selected={name}
+          onSelect={setName}
+        />
+      );
+    }
+    render(<Harness />);
+    return { onChange };
+  }
+
+  it("saves a baseline and compares with it", () => {
+    const { onChange } = renderManager(data);
+
+    fireEvent.change(screen.getByLabelText("Baseline name"), {
+      target: { value: "Kickoff" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Save baseline" }));
+
+    expect(onChange.mock.calls[0][0].baselines).toEqual([
+      expect.objectContaining({ name: "Kickoff" }),
+    ]);
+    expect(screen.getByLabelText("Compare with")).toHaveValue("Kickoff");
+    expect(screen.getByRole("status")).toHaveTextContent("2 unchanged");
+    expect(screen.getByLabelText("Baseline name")).toHaveValue("");
+  });
+
+  it("requires a name", () => {
+    const { onChange } = renderManager(data);
+
+    fireEvent.click(screen.getByRole("button", { name: "Save baseline" }));
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Baseline name is required"
+    );
+  });
+
+  it("lists each task's change and slip in working days", () => {
+    renderManager(approved, "Approved");
+
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "1 removed, 1 moved, 1 unchanged"
+    );
+    const build = within(screen.getByRole("row", { name: /^Build/ }));
+    expect(
+      build.getAllByRole("cell").map((cell) => cell.textContent)
+    ).toEqual(["Moved", "Jan 02 – Jan 05", "Jan 03 – Jan 06", "+1", "+1"]);
+    expect(screen.getByRole("row", { name: /^Review/ })).toHaveClass(
+      "baseline-manager-row--removed"
+    );
+  });
+
+  it("deletes the selected baseline after confirming", () => {
+    const confirm = jest.spyOn(window, "confirm").mockReturnValue(true);
+    const { onChange } = renderManager(approved, "Approved");
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+
+    expect(confirm).toHaveBeenCalledWith('Delete baseline "Approved"?');
+    expect(onChange.mock.calls[0][0].baselines).toEqual([]);
+    expect(screen.queryByLabelText("Compare with")).toBeNull();
+    expect(screen.queryByRole("table")).toBeNull();
+  });
+});
@@ -0,0 +1,220 @@
+import { FormEvent, useId, useMemo, useState } from "react";
+import { BaselineManagerProps, VarianceKind } from "../types";
+import {
+  compareToBaseline,
+  createBaseline,
+  formatAxisDate,
+  removeBaseline,
+  saveBaseline,
+} from "../utils";
+
+/**
+ * Labels for each kind of variance, in the order they are summarised.
+ */
+const KIND_LABELS: Record<VarianceKind, string> = {
+  added: "Added",
+  removed: "Removed",
+  moved: "Moved",
+  rescoped: "Re-scoped",
+  unchanged: "Unchanged",
+};
+
+/**
+ * Formats a slip in working days with its sign, e.g. "+2" or "-0.5".
+ */
+function formatSlip(days: number | undefined): string {
+  if (days === undefined) {
+    return "";
+  }
+  return days > 0 ? `+${days}` : `${days}`;
+}
+
+/**
+ * Formats a task's dates for the variance table, e.g. "Jan 01 – Jan 05".
+ */
+function formatSpan(start?: Date, end?: Date): string {
+  if (!start || !end) {
+    return "";
+  }
+  const from = formatAxisDate(start, "%b %d");
+  return `${from} – ${formatAxisDate(end, "%b %d")}`;
+}
+
+/**
+ * Saves named baselines of a chart and reports how the current plan has
+ * drifted from one of them.
+ *
+ * Saving takes a snapshot with createBaseline and stores it in the chart's
+ * `baselines` through `onChange`, replacing a baseline of the same name
+ * once confirmed. Picking a baseline under Compare with lists every task's
+ * variance from compareToBaseline: whether it was added, removed, moved or
+ * re-scoped, and its start and finish slip in working days. The selected
+ * baseline is controlled so the chart can draw it too.
+ *
+ * @example
+ * ```tsx
+ * <BaselineManager
+ *   data={data}
+ *   onChange={setData}
+ *   selected={baselineName}
+ *   onSelect={setBaselineName}
+ * />
+ * ```
+ */
+export function BaselineManager({
+  data,
+  onChange,
+  selected,
+  onSelect,
+  className = "",
+}: BaselineManagerProps): JSX.Element {
+  const idPrefix = `baseline-manager-${useId().replace(/:/g, "")}`;
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const baselines = data.baselines ?? [];
+  const baseline = baselines.find((item) => item.name === selected);
+  const variance = useMemo(
+    () => (baseline ? compareToBaseline(data, baseline) : null),
+    [data, baseline]
+  );
+
+  const save = (event: FormEvent) => {
+    event.preventDefault();
+    const result = createBaseline(data, name);
+    if (!result.success) {
+      setError(result.error!);
+      return;
+    }
+    const taken = result.baseline!;
+    if (
+      baselines.some((item) => item.name === taken.name) &&
+      !window.confirm(`Replace baseline "${taken.name}"?`)
+    ) {
+      return;
+    }
+    setError(null);
+    setName("");
+    onChange(saveBaseline(data, taken), {
+      label: `Save baseline "${taken.name}"`,
+    });
+    onSelect(taken.name);
+  };
+
+  const remove = () => {
+    if (!baseline || !window.confirm(`Delete baseline "${baseline.name}"?`)) {
+      return;
+    }
+    onChange(removeBaseline(data, baseline.name), {
+      label: `Delete baseline "${baseline.name}"`,
+    });
+    onSelect(undefined);
+  };
+
+  const nameId = `${idPrefix}-name`;
+  const selectId = `${idPrefix}-select`;
+  const tasks = variance?.tasks ?? [];
+  const counts = (Object.keys(KIND_LABELS) as VarianceKind[])
+    .map((kind) => ({
+      kind,
+      count: tasks.filter((task) => task.kind === kind).length,
+    }))
+    .filter((item) => item.count > 0)
+    .map((item) => `${item.count} ${KIND_LABELS[item.kind].toLowerCase()}`);
+
+  return (
+    <div className={`baseline-manager ${className}`}>
+      <form className="baseline-manager-save" onSubmit={save}>
+        <label htmlFor={nameId}>Baseline name</label>
+        <input
+          id={nameId}
+          value={name}
+          placeholder="e.g. Approved plan"
+          onChange={(event) => setName(event.target.value)}
+        />
+        <button type="submit">Save baseline</button>
+      </form>
+      {error && (
+        <p className="baseline-manager-error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {baselines.length > 0 && (
+        <div className="baseline-manager-compare">
+          <label htmlFor={selectId}>Compare with</label>
+          <select
+            id={selectId}
+            value={baseline?.name ?? ""}
+            onChange={(event) => onSelect(event.target.value || undefined)}
+          >
+            <option value="">None</option>
+            {baselines.map((item) => (
+              <option key={item.name} value={item.name}>
+                {`${item.name} (saved ${formatAxisDate(
+                  new Date(item.createdAt),
+                  "%b %d"
+                )})`}
+              </option>
+            ))}
+          </select>
+          <button type="button" onClick={remove} disabled={!baseline}>
+            Delete
+          </button>
+        </div>
+      )}
+
+      {variance && !variance.success && (
+        <p className="baseline-manager-error" role="alert">
+          Error comparing with the baseline: {variance.error}
+        </p>
+      )}
+      {variance?.success && (
+        <>
+          <p className="baseline-manager-summary" role="status">
+            {counts.join(", ")}
+          </p>
+          <div className="baseline-manager-scroll">
+            <table className="baseline-manager-table">
+              <caption>Variance against {baseline!.name}</caption>
+              <thead>
+                <tr>
+                  <th scope="col">Task</th>
+                  <th scope="col">Change</th>
+                  <th scope="col">Baseline</th>
+                  <th scope="col">Current</th>
+                  <th scope="col">Start slip</th>
+                  <th scope="col">Finish slip</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tasks.map((task) => (
+                  <tr
+                    key={`${task.kind}-${task.id}`}
+                    className={`baseline-manager-row--${task.kind}`}
+                  >
+                    <th scope="row">{task.name || task.id}</th>
+                    <td>{KIND_LABELS[task.kind]}</td>
+                    <td>{formatSpan(task.baselineStart, task.baselineEnd)}</td>
+                    <td>{formatSpan(task.start, task.end)}</td>
+                    <td className="baseline-manager-slip">
+                      {formatSlip(task.startSlip)}
+                    </td>
+                    <td className="baseline-manager-slip">
+                      {formatSlip(task.finishSlip)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="baseline-manager-note">
+            Slips are in working days; positive means later than planned.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default BaselineManager;
@@ -0,0 +1,73 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { ChartExportToolbar } from "./ChartExportToolbar";
+
+describe("ChartExportToolbar Component", () => {
+  const originalCreateObjectURL = URL.createObjectURL;
+  const originalRevokeObjectURL = URL.revokeObjectURL;
+  let downloads: { name: string; blob: Blob }[];
+
+  beforeEach(() => {
+    downloads = [];
+    let lastBlob: Blob;
+    URL.createObjectURL = jest.fn((blob: Blob) => {
+      lastBlob = blob;
+      return "blob:chart";
+    });
+    URL.revokeObjectURL = jest.fn();
+    jest
+      .spyOn(HTMLAnchorElement.prototype, "click")
+      .mockImplementation(function (this: HTMLAnchorElement) {
+        downloads.push({ name: this.download, blob: lastBlob });
+      });
+  });
+
+  afterEach(() => {
+    URL.createObjectURL = originalCreateObjectURL;
+    URL.revokeObjectURL = originalRevokeObjectURL;
+    jest.restoreAllMocks();
+  });
+
+  it("downloads the chart as SVG", async () => {
+    const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+    svg.setAttribute("viewBox", "0 0 100 50");
+    render(<ChartExportToolbar getSvg={() => svg} filename="roadmap" />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Export SVG" }));
+
+    await waitFor(() => expect(downloads).toHaveLength(1));
+    expect(downloads[0].name).toBe("roadmap.svg");
+    expect(downloads[0].blob.type).toBe("image/svg+xml");
+  });
+
+  it("offers PNG scales and PDF page options", () => {
+    render(<ChartExportToolbar getSvg={() => null} filename="roadmap" />);
+
+    expect(screen.getByLabelText("PNG scale")).toHaveDisplayValue("2× (192 dpi)");
+    expect(screen.getByLabelText("Page")).toHaveDisplayValue("A4");
+    expect(screen.getByLabelText("Orientation")).toHaveDisplayValue(
+      "Landscape"
+    );
+  });
+
+  it("shows why an export failed", async () => {
+    const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const { rerender } = render(
+      <ChartExportToolbar getSvg={() => null} filename="roadmap" />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Export PDF" }));
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "The chart has not been rendered yet"
+    );
+
+    rerender(<ChartExportToolbar getSvg={() => svg} filename="roadmap" />);
+    fireEvent.click(screen.getByRole("button", { name: "Export PNG" }));
+    await waitFor(() => {
+      expect(screen.getByRole("alert")).toHaveTextContent(
+        "Canvas is not supported in this browser"
+      );
+    });
+    expect(downloads).toHaveLength(0);
+  });
+});
@@ -0,0 +1,133 @@
+import { useId, useState } from "react";
+import {
+  ChartExportFormat,
+  ChartExportToolbarProps,
+  ExportResult,
+  PdfOrientation,
+  PdfPageSize,
+} from "../types";
+import { downloadBlob, exportPdf, exportPng, exportSvg } from "../utils";
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+const PAGE_SIZES: { value: PdfPageSize; label: string }[] = [
+  { value: "a4", label: "A4" },
+  { value: "a3", label: "A3" },
+  { value: "letter", label: "Letter" },
+  { value: "legal", label: "Legal" },
+];
+
+/**
+ * Buttons to download a rendered chart as SVG, PNG (at a chosen scale) or
+ * PDF (on a chosen paper size and orientation, split across pages when the
+ * chart is long). Failures are shown next to the buttons.
+ *
+ * @example
+ * ```tsx
+ * <ChartExportToolbar
+ *   getSvg={() => containerRef.current?.querySelector("svg") ?? null}
+ *   filename="roadmap"
+ * />
+ * ```
+ */
+export function ChartExportToolbar({
+  getSvg,
+  filename,
+  className = "",
+}: ChartExportToolbarProps): JSX.Element {
+  const idPrefix = `chart-export-${useId().replace(/:/g, "")}`;
+  const [scale, setScale] = useState(2);
+  const [pageSize, setPageSize] = useState<PdfPageSize>("a4");
+  const [orientation, setOrientation] = useState<PdfOrientation>("landscape");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ChartExportFormat) => {
+    const svg = getSvg();
+    if (!svg) {
+      setError("The chart has not been rendered yet");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    const result: ExportResult =
+      format === "svg"
+        ? await exportSvg(svg)
+        : format === "png"
+        ? await exportPng(svg, { scale })
+        : await exportPdf(svg, { pageSize, orientation });
+    setBusy(false);
+    if (result.success) {
+      downloadBlob(result.blob!, `${filename}.${format}`);
+    } else {
+      setError(result.error!);
+    }
+  };
+
+  const scaleId = `${idPrefix}-scale`;
+  const pageSizeId = `${idPrefix}-page-size`;
+  const orientationId = `${idPrefix}-orientation`;
+
+  return (
+    <div
+      className={`chart-export ${className}`}
+      role="group"
+      aria-label="Export chart"
+    >
+      <button type="button" disabled={busy} onClick={() => handleExport("svg")}>
+        Export SVG
+      </button>
+
+      <label htmlFor={scaleId}>PNG scale</label>
+      <select
+        id={scaleId}
+        value={scale}
+        onChange={(event) => setScale(Number(event.target.value))}
+      >
+        {PNG_SCALES.map((value) => (
+          <option key={value} value={value}>
+            {value}× ({value * 96} dpi)
+          </option>
+        ))}
+      </select>
+      <button type="button" disabled={busy} onClick={() => handleExport("png")}>
+        Export PNG
+      </button>
+
+      <label htmlFor={pageSizeId}>Page</label>
+      <select
+        id={pageSizeId}
+        value={pageSize}
+        onChange={(event) => setPageSize(event.target.value as PdfPageSize)}
+      >
+        {PAGE_SIZES.map(({ value, label }) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <label htmlFor={orientationId}>Orientation</label>
+      <select
+        id={orientationId}
+        value={orientation}
+        onChange={(event) =>
+          setOrientation(event.target.value as PdfOrientation)
+        }
+      >
+        <option value="landscape">Landscape</option>
+        <option value="portrait">Portrait</option>
+      </select>
+      <button type="button" disabled={busy} onClick={() => handleExport("pdf")}>
+        Export PDF
+      </button>
+
+      {error && (
+        <span className="chart-export-error" role="alert">
+          {error}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default ChartExportToolbar;
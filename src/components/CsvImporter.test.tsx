@@ -0,0 +1,132 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { CsvImporter } from "./CsvImporter";
+import { exportXlsxTasks } from "../utils";
+
+const csv = [
+  "Phase,Task,Start,Length,After",
+  "Build,Alpha,2024-01-01,3d,",
+  "Build,Beta,,2d,Alpha",
+].join("\n");
+
+/**
+ * Pastes text into the importer.
+ */
+function paste(text: string) {
+  fireEvent.change(screen.getByLabelText("CSV text"), {
+    target: { value: text },
+  });
+}
+
+describe("CsvImporter Component", () => {
+  it("suggests a mapping and imports once every row is valid", () => {
+    const onImport = jest.fn();
+    render(<CsvImporter config={{ title: "Plan" }} onImport={onImport} />);
+    const importButton = screen.getByRole("button", { name: "Import" });
+    expect(importButton).toBeDisabled();
+
+    paste(csv);
+
+    // "Task" is read as the name; nothing looks like an ID yet
+    expect(screen.getByLabelText("Name")).toHaveValue("1");
+    expect(screen.getByLabelText("ID")).toHaveValue("");
+    expect(screen.getByText(/Row 2: .* is missing an ID/)).toBeInTheDocument();
+    expect(importButton).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("ID"), { target: { value: "1" } });
+
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "2 tasks in 1 section"
+    );
+    fireEvent.click(importButton);
+
+    expect(onImport).toHaveBeenCalledWith(
+      {
+        config: { title: "Plan" },
+        sections: [
+          {
+            name: "Build",
+            tasks: [
+              {
+                id: "Alpha",
+                name: "Alpha",
+                start: "2024-01-01",
+                duration: { value: 3, unit: "d" },
+              },
+              {
+                id: "Beta",
+                name: "Beta",
+                start: "",
+                duration: { value: 2, unit: "d" },
+                after: "Alpha",
+              },
+            ],
+          },
+        ],
+      },
+      { label: "Import CSV" }
+    );
+    expect(screen.getByLabelText("CSV text")).toHaveValue("");
+  });
+
+  it("lists row errors", () => {
+    render(<CsvImporter onImport={jest.fn()} />);
+
+    paste("ID,Name,Start,Duration,Status\na,A,2024-01-01,1d,later\n");
+
+    expect(
+      screen.getByRole("list", { name: "Import problems" })
+    ).toHaveTextContent('Row 2: Unknown status "later"');
+  });
+
+  it("reads a chosen file", async () => {
+    render(<CsvImporter onImport={jest.fn()} />);
+    const file = new File(
+      ["ID,Name,Start,Duration\na,A,2024-01-01,1d\n"],
+      "tasks.csv",
+      { type: "text/csv" }
+    );
+
+    fireEvent.change(screen.getByLabelText("CSV or XLSX file"), {
+      target: { files: [file] },
+    });
+
+    await waitFor(() =>
+      expect(screen.getByRole("status")).toHaveTextContent(
+        "1 task in 1 section"
+      )
+    );
+  });
+
+  it("reads a chosen XLSX file", async () => {
+    const onImport = jest.fn();
+    render(<CsvImporter onImport={onImport} />);
+    const data = {
+      sections: [
+        {
+          name: "Build",
+          tasks: [
+            {
+              id: "a",
+              name: "A",
+              start: "2024-01-01",
+              duration: { value: 1, unit: "d" as const },
+            },
+          ],
+        },
+      ],
+    };
+    const file = new File([exportXlsxTasks(data)], "tasks.xlsx");
+
+    fireEvent.change(screen.getByLabelText("CSV or XLSX file"), {
+      target: { files: [file] },
+    });
+
+    await waitFor(() =>
+      expect(screen.getByRole("status")).toHaveTextContent(
+        "1 task in 1 section"
+      )
+    );
+    fireEvent.click(screen.getByRole("button", { name: "Import" }));
+    expect(onImport).toHaveBeenCalledWith(data, { label: "Import XLSX" });
+  });
+});
@@ -0,0 +1,164 @@
+import { ChangeEvent, useId, useMemo, useState } from "react";
+import { CsvColumnMapping, CsvField, CsvImporterProps } from "../types";
+import { CSV_HEADERS, importCsvTasks, importXlsxTasks } from "../utils";
+
+/**
+ * Imports a task list from a CSV or Excel (XLSX) file, or pasted CSV text.
+ *
+ * Once a file is chosen, each task field can be mapped to one of its
+ * columns; columns are matched to fields by their headers to begin with.
+ * The rows are checked as the mapping changes, and problems are listed
+ * with their row number. The Import button passes the tasks to `onImport`
+ * once every row can be imported. CSV and XLSX files carry no chart-wide
+ * settings, so imported charts get `config` and `resources`.
+ *
+ * @example
+ * ```tsx
+ * <CsvImporter
+ *   config={data.config}
+ *   resources={data.resources}
+ *   onImport={setData}
+ * />
+ * ```
+ */
+export function CsvImporter({
+  config,
+  resources,
+  onImport,
+  className = "",
+}: CsvImporterProps): JSX.Element {
+  const idPrefix = `csv-importer-${useId().replace(/:/g, "")}`;
+  const [text, setText] = useState("");
+  // Contents of a chosen XLSX file, which are read instead of the text
+  const [workbook, setWorkbook] = useState<ArrayBuffer | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | undefined>();
+
+  const result = useMemo(() => {
+    const options = { mapping, config, resources };
+    if (workbook) {
+      return importXlsxTasks(workbook, options);
+    }
+    return text.trim() ? importCsvTasks(text, options) : null;
+  }, [text, workbook, mapping, config, resources]);
+
+  const changeText = (next: string) => {
+    setText(next);
+    setWorkbook(null);
+    setMapping(undefined);
+  };
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    const reader = new FileReader();
+    if (/\.xlsx$/i.test(file.name)) {
+      reader.onload = () => {
+        changeText("");
+        setWorkbook(reader.result as ArrayBuffer);
+      };
+      reader.readAsArrayBuffer(file);
+      return;
+    }
+    reader.onload = () => changeText(String(reader.result ?? ""));
+    reader.readAsText(file);
+  };
+
+  const mapField = (field: CsvField, value: string) => {
+    setMapping({
+      ...result?.mapping,
+      [field]: value === "" ? undefined : Number(value),
+    });
+  };
+
+  const handleImport = () => {
+    if (result?.success) {
+      onImport(result.data!, {
+        label: workbook ? "Import XLSX" : "Import CSV",
+      });
+      changeText("");
+    }
+  };
+
+  const fileId = `${idPrefix}-file`;
+  const textId = `${idPrefix}-text`;
+  const taskCount =
+    result?.data?.sections.reduce(
+      (count, section) => count + section.tasks.length,
+      0
+    ) ?? 0;
+
+  return (
+    <div className={`csv-importer ${className}`}>
+      <div className="csv-importer-source">
+        <label htmlFor={fileId}>CSV or XLSX file</label>
+        <input
+          id={fileId}
+          type="file"
+          accept=".csv,text/csv,.xlsx"
+          onChange={handleFile}
+        />
+        <label htmlFor={textId}>CSV text</label>
+        <textarea
+          id={textId}
+          value={text}
+          rows={6}
+          spellCheck={false}
+          onChange={(event) => changeText(event.target.value)}
+        />
+      </div>
+
+      {result && (
+        <fieldset className="csv-importer-mapping">
+          <legend>Columns</legend>
+          {(Object.keys(CSV_HEADERS) as CsvField[]).map((field) => {
+            const selectId = `${idPrefix}-${field}`;
+            return (
+              <div key={field} className="csv-importer-field">
+                <label htmlFor={selectId}>{CSV_HEADERS[field]}</label>
+                <select
+                  id={selectId}
+                  value={result.mapping[field] ?? ""}
+                  onChange={(event) => mapField(field, event.target.value)}
+                >
+                  <option value="">(not imported)</option>
+                  {result.headers.map((header, column) => (
+                    <option key={column} value={column}>
+                      {header || `Column ${column + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+        </fieldset>
+      )}
+
+      {result && result.errors.length > 0 && (
+        <ul className="csv-importer-errors" aria-label="Import problems">
+          {result.errors.map((error, index) => (
+            <li key={index}>
+              {error.row ? `Row ${error.row}: ` : ""}
+              {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {result?.success && (
+        <p className="csv-importer-summary" role="status">
+          {taskCount} {taskCount === 1 ? "task" : "tasks"} in{" "}
+          {result.data!.sections.length}{" "}
+          {result.data!.sections.length === 1 ? "section" : "sections"}
+        </p>
+      )}
+
+      <button type="button" disabled={!result?.success} onClick={handleImport}>
+        Import
+      </button>
+    </div>
+  );
+}
+
+export default CsvImporter;
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { DocumentManager } from "./DocumentManager";
+import { GanttData } from "../types";
+import { listDocuments, loadDocument } from "../utils";
+
+const initialData: GanttData = {
+  sections: [
+    {
+      name: "Build",
+      tasks: [{ id: "a", name: "A", start: "2024-01-01", duration: "1d" }],
+    },
+  ],
+};
+
+const template: GanttData = {
+  sections: [
+    {
+      name: "Blank",
+      tasks: [{ id: "task1", name: "New", start: "2024-02-01", duration: "1d" }],
+    },
+  ],
+};
+
+/**
+ * Renders the manager with its own chart state, exposing the current data
+ * and a way to edit it.
+ */
+function renderManager() {
+  const state = { data: initialData, setData: (_: GanttData) => {} };
+  function Harness(): JSX.Element {
+    const [data, setData] = useState(initialData);
+    state.data = data;
+    state.setData = setData;
+    return (
+      <DocumentManager
+        data={data}
+        onOpen={setData}
+        template={template}
+        autosaveDelay={500}
+      />
+    );
+  }
+  const view = render(<Harness />);
+  return {
+    ...view,
+    current: () => state.data,
+    edit: (data: GanttData) => act(() => state.setData(data)),
+  };
+}
+
+/**
+ * Returns a copy of a chart with its title changed.
+ */
+function withTitle(data: GanttData, title: string): GanttData {
+  return { ...data, config: { title } };
+}
+
+describe("DocumentManager Component", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("saves the current chart as the first document", () => {
+    renderManager();
+
+    expect(screen.getByLabelText("Document")).toHaveDisplayValue(
+      "Untitled chart"
+    );
+    const [summary] = listDocuments();
+    expect(loadDocument(summary.id).document!.data).toEqual(initialData);
+    expect(screen.getByRole("status")).toHaveTextContent("All changes saved");
+  });
+
+  it("passes the open document's ID to onOpen", () => {
+    const onOpen = jest.fn();
+    render(
+      <DocumentManager data={initialData} onOpen={onOpen} template={template} />
+    );
+
+    const [summary] = listDocuments();
+    expect(onOpen).toHaveBeenLastCalledWith(initialData, undefined, summary.id);
+
+    fireEvent.click(screen.getByRole("button", { name: "New" }));
+    const created = listDocuments().find((item) => item.id !== summary.id)!;
+    expect(onOpen).toHaveBeenLastCalledWith(template, undefined, created.id);
+  });
+
+  it("autosaves edits once they stop", () => {
+    const { edit } = renderManager();
+    const [summary] = listDocuments();
+
+    edit(withTitle(initialData, "One"));
+    act(() => jest.advanceTimersByTime(300));
+    edit(withTitle(initialData, "Two"));
+    expect(screen.getByRole("status")).toHaveTextContent("Unsaved changes");
+    act(() => jest.advanceTimersByTime(300));
+    expect(loadDocument(summary.id).document!.data).toEqual(initialData);
+
+    act(() => jest.advanceTimersByTime(200));
+    expect(loadDocument(summary.id).document!.data.config?.title).toBe("Two");
+    expect(screen.getByRole("status")).toHaveTextContent("All changes saved");
+  });
+
+  it("reopens the last document on load, saving pending edits on unmount", () => {
+    const { edit, unmount } = renderManager();
+    edit(withTitle(initialData, "Pending"));
+    unmount();
+
+    const { current } = renderManager();
+    expect(current().config?.title).toBe("Pending");
+    expect(listDocuments()).toHaveLength(1);
+  });
+
+  it("creates, duplicates and switches between documents", () => {
+    const { current, edit } = renderManager();
+    edit(withTitle(initialData, "Original"));
+
+    fireEvent.click(screen.getByRole("button", { name: "New" }));
+    expect(current()).toEqual(template);
+
+    fireEvent.click(screen.getByRole("button", { name: "Duplicate" }));
+    expect(screen.getByLabelText("Document")).toHaveDisplayValue(
+      "Untitled chart (copy)"
+    );
+    expect(listDocuments()).toHaveLength(3);
+
+    const original = listDocuments().find(
+      (item) => loadDocument(item.id).document!.data.config?.title === "Original"
+    )!;
+    fireEvent.change(screen.getByLabelText("Document"), {
+      target: { value: original.id },
+    });
+    expect(current().config?.title).toBe("Original");
+  });
+
+  it("renames the open document", () => {
+    renderManager();
+    const name = screen.getByLabelText("Name");
+
+    fireEvent.change(name, { target: { value: "Roadmap" } });
+    fireEvent.keyDown(name, { key: "Enter" });
+
+    expect(listDocuments()[0].name).toBe("Roadmap");
+    expect(
+      screen.getByRole("option", { name: "Roadmap" }) as HTMLOptionElement
+    ).toBeInTheDocument();
+
+    fireEvent.change(name, { target: { value: "" } });
+    fireEvent.blur(name);
+    expect(name).toHaveValue("Roadmap");
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "Document name is required"
+    );
+  });
+
+  it("deletes the open document after confirming", () => {
+    const confirm = jest.spyOn(window, "confirm").mockReturnValue(false);
+    const { current } = renderManager();
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+    expect(listDocuments()).toHaveLength(1);
+
+    confirm.mockReturnValue(true);
+    fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+
+    expect(confirm).toHaveBeenCalledWith('Delete "Untitled chart"?');
+    expect(current()).toEqual(template);
+    expect(listDocuments()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,311 @@
+import { useEffect, useId, useRef, useState } from "react";
+import {
+  DocumentManagerProps,
+  DocumentResult,
+  GanttData,
+  GanttDocument,
+  GanttDocumentSummary,
+} from "../types";
+import {
+  createDocument,
+  deleteDocument,
+  duplicateDocument,
+  getLastOpenDocumentId,
+  listDocuments,
+  loadDocument,
+  renameDocument,
+  saveDocument,
+  setLastOpenDocumentId,
+} from "../utils";
+
+const NEW_DOCUMENT_NAME = "Untitled chart";
+
+/**
+ * Save state shown next to the document controls.
+ */
+type SaveStatus =
+  | { kind: "saved" }
+  | { kind: "pending" }
+  | { kind: "error"; message: string };
+
+/**
+ * Document controls for the app: pick, create, rename, duplicate and
+ * delete named charts kept in localStorage.
+ *
+ * Edits to `data` are saved to the open document once no edit has been
+ * made for `autosaveDelay` milliseconds, and straight away when another
+ * document is opened, the component unmounts or the page is closed. On
+ * mount the document that was open last is reopened through `onOpen`; if
+ * there are no documents yet, the current `data` is saved as the first one
+ * and opened.
+ *
+ * With `history`, the chart's undo history is saved along with it and
+ * handed back to `onOpen` when the document is reopened. `onOpen` also
+ * gets the document's ID, e.g. to tell its exports apart from others.
+ *
+ * @example
+ * ```tsx
+ * const [data, setData] = useState(initialData);
+ *
+ * <DocumentManager data={data} onOpen={setData} template={blankChart} />
+ * ```
+ */
+export function DocumentManager({
+  data,
+  onOpen,
+  history,
+  template,
+  autosaveDelay = 1000,
+  storage = window.localStorage,
+  className = "",
+}: DocumentManagerProps): JSX.Element {
+  const idPrefix = `document-manager-${useId().replace(/:/g, "")}`;
+  const [documents, setDocuments] = useState<GanttDocumentSummary[]>([]);
+  const [current, setCurrent] = useState<GanttDocumentSummary | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [status, setStatus] = useState<SaveStatus>({ kind: "saved" });
+
+  // The data last written to (or read from) the open document
+  const savedData = useRef<GanttData | null>(null);
+  const latest = useRef({ data, history, onOpen, current, storage });
+  latest.current = { data, history, onOpen, current, storage };
+
+  const show = (document: GanttDocument) => {
+    const { data: documentData, ...summary } = document;
+    savedData.current = documentData;
+    setCurrent(summary);
+    setDraftName(summary.name);
+    setDocuments(listDocuments(latest.current.storage));
+  };
+
+  const open = (document: GanttDocument) => {
+    show(document);
+    setLastOpenDocumentId(document.id, latest.current.storage);
+    latest.current.onOpen(document.data, document.history, document.id);
+  };
+  const openRef = useRef(open);
+  openRef.current = open;
+
+  // Saves pending edits to the open document, if there are any
+  const flush = (): void => {
+    const {
+      data: pending,
+      history: pendingHistory,
+      current: summary,
+      storage: store,
+    } = latest.current;
+    if (!summary || pending === savedData.current) {
+      return;
+    }
+    const result = saveDocument(summary.id, pending, store, pendingHistory);
+    if (result.success) {
+      savedData.current = pending;
+      setDocuments(listDocuments(store));
+      setStatus({ kind: "saved" });
+    } else {
+      setStatus({ kind: "error", message: result.error! });
+    }
+  };
+  const flushRef = useRef(flush);
+  flushRef.current = flush;
+
+  const report = (result: DocumentResult): result is DocumentResult & {
+    document: GanttDocument;
+  } => {
+    if (!result.success) {
+      setStatus({ kind: "error", message: result.error! });
+    }
+    return result.success;
+  };
+
+  // Reopen the last document, or the most recent readable one, or start
+  // the store with the current chart
+  useEffect(() => {
+    const lastId = getLastOpenDocumentId(storage);
+    const candidates = [
+      ...(lastId ? [lastId] : []),
+      ...listDocuments(storage)
+        .map((item) => item.id)
+        .filter((id) => id !== lastId),
+    ];
+    const errors: string[] = [];
+    for (const id of candidates) {
+      const result = loadDocument(id, storage);
+      if (result.success) {
+        openRef.current(result.document!);
+        setStatus(
+          errors.length > 0
+            ? { kind: "error", message: errors.join("; ") }
+            : { kind: "saved" }
+        );
+        return;
+      }
+      errors.push(result.error!);
+    }
+
+    const created = createDocument(
+      NEW_DOCUMENT_NAME,
+      latest.current.data,
+      storage
+    );
+    if (created.success) {
+      openRef.current(created.document!);
+    }
+    setStatus(
+      !created.success
+        ? { kind: "error", message: created.error! }
+        : errors.length > 0
+        ? { kind: "error", message: errors.join("; ") }
+        : { kind: "saved" }
+    );
+    // Only runs when the store changes, so `open` is called through a ref
+  }, [storage]);
+
+  // Autosave once edits stop for autosaveDelay
+  useEffect(() => {
+    if (!current || data === savedData.current) {
+      return;
+    }
+    setStatus({ kind: "pending" });
+    const timer = setTimeout(() => flushRef.current(), autosaveDelay);
+    return () => clearTimeout(timer);
+  }, [data, current, autosaveDelay]);
+
+  // Save pending edits when the page is closed or the component unmounts
+  useEffect(() => {
+    const handleUnload = () => flushRef.current();
+    window.addEventListener("beforeunload", handleUnload);
+    return () => {
+      window.removeEventListener("beforeunload", handleUnload);
+      handleUnload();
+    };
+  }, []);
+
+  const openDocument = (id: string) => {
+    flush();
+    const result = loadDocument(id, storage);
+    if (report(result)) {
+      open(result.document);
+      setStatus({ kind: "saved" });
+    }
+  };
+
+  const createNew = () => {
+    flush();
+    const result = createDocument(NEW_DOCUMENT_NAME, template, storage);
+    if (report(result)) {
+      open(result.document);
+      setStatus({ kind: "saved" });
+    }
+  };
+
+  const duplicate = () => {
+    if (!current) {
+      return;
+    }
+    flush();
+    const result = duplicateDocument(current.id, storage);
+    if (report(result)) {
+      open(result.document);
+      setStatus({ kind: "saved" });
+    }
+  };
+
+  const rename = () => {
+    if (!current || draftName === current.name) {
+      return;
+    }
+    const result = renameDocument(current.id, draftName, storage);
+    if (report(result)) {
+      // Pending edits stay pending: renaming rewrites the stored chart
+      show(result.document);
+    } else {
+      setDraftName(current.name);
+    }
+  };
+
+  const remove = () => {
+    if (!current || !window.confirm(`Delete "${current.name}"?`)) {
+      return;
+    }
+    const error = deleteDocument(current.id, storage);
+    if (error) {
+      setStatus({ kind: "error", message: error });
+      return;
+    }
+    // Discard the deleted document's pending edits
+    savedData.current = data;
+    const next = listDocuments(storage)
+      .map((item) => loadDocument(item.id, storage))
+      .find((result) => result.success);
+    const result = next ?? createDocument(NEW_DOCUMENT_NAME, template, storage);
+    if (report(result)) {
+      open(result.document);
+      setStatus({ kind: "saved" });
+    }
+  };
+
+  const selectId = `${idPrefix}-select`;
+  const nameId = `${idPrefix}-name`;
+
+  return (
+    <div
+      className={`document-manager ${className}`}
+      role="group"
+      aria-label="Documents"
+    >
+      <label htmlFor={selectId}>Document</label>
+      <select
+        id={selectId}
+        value={current?.id ?? ""}
+        onChange={(event) => openDocument(event.target.value)}
+      >
+        {documents.map((item) => (
+          <option key={item.id} value={item.id}>
+            {item.name}
+          </option>
+        ))}
+      </select>
+
+      <label htmlFor={nameId}>Name</label>
+      <input
+        id={nameId}
+        value={draftName}
+        disabled={!current}
+        onChange={(event) => setDraftName(event.target.value)}
+        onBlur={rename}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") {
+            event.preventDefault();
+            rename();
+          }
+        }}
+      />
+
+      <div className="document-manager-actions">
+        <button type="button" onClick={createNew}>
+          New
+        </button>
+        <button type="button" onClick={duplicate} disabled={!current}>
+          Duplicate
+        </button>
+        <button type="button" onClick={remove} disabled={!current}>
+          Delete
+        </button>
+      </div>
+
+      <span
+        className={`document-manager-status document-manager-status--${status.kind}`}
+        role="status"
+      >
+        {status.kind === "saved"
+          ? "All changes saved"
+          : status.kind === "pending"
+          ? "Unsaved changes"
+          : status.message}
+      </span>
+    </div>
+  );
+}
+
+export default DocumentManager;
@@ -1,4 +1,10 @@
-import { render, screen, waitFor } from "@testing-library/react";
+import {
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+  within,
+} from "@testing-library/react";
 import { GanttChart } from "./GanttChart";
 import { GanttData } from "../types";
 
@@ -85,19 +91,74 @@ describe("GanttChart Component", () => {
     });
   });
 
-  it("logs warning when onTaskClick is provided", async () => {
-    const consoleSpy = jest.spyOn(console, "warn").mockImplementation();
-    const handleClick = jest.fn();
+  describe("task clicks", () => {
+    beforeEach(() => {
+      mockMermaid.render.mockResolvedValue({
+        svg:
+          '<svg data-testid="gantt-svg"><g data-testid="bars">' +
+          '<rect id="task1" class="task done0" data-testid="task1"></rect>' +
+          '<text id="task1-text" class="taskText">Requirements</text>' +
+          '<rect id="task2" class="task" data-testid="task2"></rect>' +
+          "</g></svg>",
+        bindFunctions: jest.fn(),
+      });
+    });
 
-    render(<GanttChart data={validGanttData} onTaskClick={handleClick} />);
+    it("calls onTaskClick with the id of the clicked bar", async () => {
+      const handleClick = jest.fn();
+      render(<GanttChart data={validGanttData} onTaskClick={handleClick} />);
 
-    await waitFor(() => {
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining("onTaskClick is not yet implemented")
+      fireEvent.click(await screen.findByTestId("task2"));
+
+      expect(handleClick).toHaveBeenCalledWith("task2");
+    });
+
+    it("calls onTaskClick when the task label is clicked", async () => {
+      const handleClick = jest.fn();
+      render(<GanttChart data={validGanttData} onTaskClick={handleClick} />);
+
+      fireEvent.click(await screen.findByText("Requirements"));
+
+      expect(handleClick).toHaveBeenCalledWith("task1");
+    });
+
+    it("ignores clicks outside of task elements", async () => {
+      const handleClick = jest.fn();
+      render(<GanttChart data={validGanttData} onTaskClick={handleClick} />);
+
+      fireEvent.click(await screen.findByTestId("bars"));
+
+      expect(handleClick).not.toHaveBeenCalled();
+    });
+
+    it("marks the chart as clickable only when a handler is given", async () => {
+      const { rerender } = render(<GanttChart data={validGanttData} />);
+      expect(screen.getByTestId("gantt-chart")).not.toHaveClass(
+        "gantt-chart--clickable"
+      );
+
+      rerender(<GanttChart data={validGanttData} onTaskClick={jest.fn()} />);
+      expect(screen.getByTestId("gantt-chart")).toHaveClass(
+        "gantt-chart--clickable"
       );
+
+      await waitFor(() => {
+        expect(mockMermaid.render).toHaveBeenCalled();
+      });
     });
 
-    consoleSpy.mockRestore();
+    it("does not call onTaskClick when enableClick is false", async () => {
+      const handleClick = jest.fn();
+      const data: GanttData = {
+        ...validGanttData,
+        config: { ...validGanttData.config, enableClick: false },
+      };
+      render(<GanttChart data={data} onTaskClick={handleClick} />);
+
+      fireEvent.click(await screen.findByTestId("task1"));
+
+      expect(handleClick).not.toHaveBeenCalled();
+    });
   });
 
   it("passes correct mermaid syntax to Mermaid component", async () => {
@@ -180,6 +241,177 @@ describe("GanttChart Component", () => {
     });
   });
 
+  it("lists every validation issue grouped by section", async () => {
+    const dataWithIssues: GanttData = {
+      sections: [
+        {
+          name: "Planning",
+          tasks: [
+            {
+              id: "a",
+              name: "",
+              start: "2024-01-01",
+              duration: { value: 0, unit: "d" },
+            },
+          ],
+        },
+        {
+          name: "Development",
+          tasks: [
+            {
+              id: "b",
+              name: "Build",
+              start: "",
+              duration: { value: 5, unit: "d" },
+              after: "ghost",
+            },
+          ],
+        },
+      ],
+    };
+
+    render(<GanttChart data={dataWithIssues} />);
+
+    const groups = within(screen.getByRole("alert")).getAllByRole("list");
+    expect(groups).toHaveLength(2);
+    expect(
+      screen.getByRole("heading", { name: 'Section "Planning"' })
+    ).toBeInTheDocument();
+    expect(within(groups[0]).getAllByRole("listitem")).toHaveLength(2);
+    expect(
+      screen.getByRole("heading", { name: 'Section "Development"' })
+    ).toBeInTheDocument();
+    expect(screen.getByText(/missing a name/)).toHaveAttribute(
+      "data-code",
+      "TASK_MISSING_NAME"
+    );
+    expect(screen.getByText(/invalid duration value/)).toBeInTheDocument();
+    expect(screen.getByText(/non-existent task/)).toBeInTheDocument();
+  });
+
+  it("shows chart-level issues under a chart heading", () => {
+    render(<GanttChart data={{ sections: [] }} />);
+
+    expect(screen.getByRole("heading", { name: "Chart" })).toBeInTheDocument();
+    expect(screen.getByText(/at least one section/)).toBeInTheDocument();
+  });
+
+  it("marks critical tasks when autoCritical is set", async () => {
+    render(<GanttChart data={validGanttData} autoCritical />);
+
+    await waitFor(() => {
+      expect(mockMermaid.render).toHaveBeenCalled();
+    });
+    const syntax = mockMermaid.render.mock.calls[0][1];
+    expect(syntax).toContain("Requirements : crit, done : task1");
+    expect(syntax).toContain("Implementation : crit : task2");
+  });
+
+  it("draws the chart natively without Mermaid", () => {
+    const onTaskClick = jest.fn();
+    render(
+      <GanttChart
+        data={validGanttData}
+        renderer="native"
+        onTaskClick={onTaskClick}
+      />
+    );
+
+    expect(screen.getByRole("img", { name: "Test Project" })).toBeInTheDocument();
+    expect(mockMermaid.render).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole("button", { name: /^Implementation/ }));
+    expect(onTaskClick).toHaveBeenCalledWith("task2");
+  });
+
+  it("reports validation issues for the native renderer", () => {
+    render(<GanttChart data={{ sections: [] }} renderer="native" />);
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Gantt data must have at least one section"
+    );
+  });
+
+  it("emits updated data when a native bar is dragged", () => {
+    const onChange = jest.fn();
+    render(
+      <GanttChart
+        data={validGanttData}
+        renderer="native"
+        onChange={onChange}
+        autoCritical
+      />
+    );
+
+    // 15 days across the default 790px plot area
+    const task = screen.getByText("Requirements");
+    fireEvent.mouseDown(task, { button: 0, clientX: 0 });
+    fireEvent.mouseMove(window, { clientX: (790 / 15) * 7 });
+    fireEvent.mouseUp(window);
+
+    const updated: GanttData = onChange.mock.calls[0][0];
+    expect(updated.sections[0].tasks[0]).toEqual({
+      ...validGanttData.sections[0].tasks[0],
+      start: "2024-01-08",
+    });
+    expect(updated.sections[1].tasks[0]).toBe(
+      validGanttData.sections[1].tasks[0]
+    );
+  });
+
+  it("calls onDragStart and onDragEnd around the change of a drag", () => {
+    const calls: string[] = [];
+    render(
+      <GanttChart
+        data={validGanttData}
+        renderer="native"
+        onChange={() => calls.push("change")}
+        onDragStart={(taskId, mode) => calls.push(`start ${taskId} ${mode}`)}
+        onDragEnd={() => calls.push("end")}
+      />
+    );
+
+    const task = screen.getByText("Requirements");
+    fireEvent.mouseDown(task, { button: 0, clientX: 0 });
+    fireEvent.mouseMove(window, { clientX: (790 / 15) * 7 });
+    fireEvent.mouseUp(window);
+
+    expect(calls).toEqual(["start task1 move", "change", "end"]);
+  });
+
+  it("reports refused drags", () => {
+    const onChange = jest.fn();
+    const onChangeRejected = jest.fn();
+    render(
+      <GanttChart
+        data={validGanttData}
+        renderer="native"
+        onChange={onChange}
+        onChangeRejected={onChangeRejected}
+      />
+    );
+
+    const task = screen.getByText("Implementation");
+    fireEvent.mouseDown(task, { button: 0, clientX: 300 });
+    fireEvent.mouseMove(window, { clientX: 200 });
+    fireEvent.mouseUp(window);
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(onChangeRejected).toHaveBeenCalledWith(
+      'Task "task2" cannot start before "task1" ends'
+    );
+  });
+
+  it("shows export buttons named after the title when exportable", () => {
+    render(<GanttChart data={validGanttData} renderer="native" exportable />);
+
+    expect(
+      screen.getByRole("group", { name: "Export chart" })
+    ).toBeInTheDocument();
+    expect(screen.getByRole("img", { name: "Test Project" })).toHaveClass(
+      "gantt-native"
+    );
+  });
+
   it("memoizes conversion result", async () => {
     const { rerender } = render(<GanttChart data={validGanttData} />);
 
@@ -1,7 +1,115 @@
-import { useMemo } from "react";
-import { GanttChartProps } from "../types";
-import { convertToMermaidSyntax } from "../utils";
+import { useCallback, useMemo, useRef, MouseEvent } from "react";
+import {
+  DragMode,
+  GanttChartProps,
+  GanttData,
+  RescheduleResult,
+  ValidationIssue,
+} from "../types";
+import {
+  convertToMermaidSyntax,
+  markCriticalTasks,
+  moveTask,
+  resizeTask,
+} from "../utils";
 import { Mermaid } from "./Mermaid";
+import { NativeGanttChart } from "./NativeGanttChart";
+import { ChartExportToolbar } from "./ChartExportToolbar";
+
+/**
+ * Turns a chart title into a file name, e.g. "Q1 Plan" to "q1-plan".
+ */
+function toFilename(title: string | undefined): string {
+  const slug = (title ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "gantt-chart";
+}
+
+/**
+ * Collects every task ID in the chart so click targets can be matched
+ * against the elements Mermaid renders.
+ */
+function collectTaskIds(data: GanttData): Set<string> {
+  const ids = new Set<string>();
+  for (const section of data.sections ?? []) {
+    for (const task of section.tasks ?? []) {
+      ids.add(task.id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Resolves the task ID for a click target inside the rendered SVG.
+ *
+ * Mermaid gives each task bar `id="<taskId>"` and its label
+ * `id="<taskId>-text"`, so we walk up from the target until we find one
+ * of those, stopping at the chart container.
+ */
+function findClickedTaskId(
+  target: Element | null,
+  container: Element,
+  taskIds: Set<string>
+): string | null {
+  let node: Element | null = target;
+  while (node && node !== container) {
+    const id = node.getAttribute("id");
+    if (id) {
+      if (taskIds.has(id)) {
+        return id;
+      }
+      if (id.endsWith("-text") && taskIds.has(id.slice(0, -5))) {
+        return id.slice(0, -5);
+      }
+    }
+    node = node.parentElement;
+  }
+  return null;
+}
+
+/**
+ * A group of validation issues belonging to one section (or the chart).
+ */
+interface IssueGroup {
+  key: string;
+  title: string;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Groups validation issues by section, keeping chart-level issues first.
+ */
+function groupIssuesBySection(
+  issues: ValidationIssue[],
+  data: GanttData
+): IssueGroup[] {
+  const groups = new Map<string, IssueGroup>();
+
+  for (const issue of issues) {
+    const key =
+      issue.sectionIndex === undefined ? "chart" : `section-${issue.sectionIndex}`;
+    if (!groups.has(key)) {
+      const sectionName =
+        issue.sectionIndex === undefined
+          ? undefined
+          : data?.sections?.[issue.sectionIndex]?.name;
+      const title =
+        issue.sectionIndex === undefined
+          ? "Chart"
+          : sectionName
+          ? `Section "${sectionName}"`
+          : `Section ${issue.sectionIndex + 1}`;
+      groups.set(key, { key, title, issues: [] });
+    }
+    groups.get(key)!.issues.push(issue);
+  }
+
+  return Array.from(groups.values()).sort((a, b) =>
+    a.key === "chart" ? -1 : b.key === "chart" ? 1 : 0
+  );
+}
 
 /**
  * GanttChart component for rendering Gantt charts from structured data.
@@ -25,16 +133,94 @@ import { Mermaid } from "./Mermaid";
  *   }]
  * };
  *
- * <GanttChart data={data} />
+ * <GanttChart data={data} onTaskClick={(taskId) => openDrawer(taskId)} />
  * ```
+ *
+ * Task clicks are handled with a delegated listener on the chart container
+ * rather than Mermaid `click` callbacks, so Mermaid can stay on the
+ * `strict` security level. Set `config.enableClick` to `false` to opt out.
+ *
+ * Pass `autoCritical` to tag every task on the critical path as `crit`.
+ *
+ * Pass `renderer="native"` to draw the chart with NativeGanttChart instead
+ * of Mermaid. Validation and error reporting are the same for both.
+ *
+ * With the native renderer, pass `onChange` to let users drag bars to a new
+ * start and drag their right edge to change the duration. Changes are
+ * applied with moveTask and resizeTask; refused changes (such as moving a
+ * task that starts `after` another) go to `onChangeRejected` instead.
+ * `onDragStart` and `onDragEnd` are called around each drag, before and
+ * after the `onChange` it leads to.
+ * Pass `baseline` to draw a baseline's dates as ghost bars below the bars;
+ * Mermaid has no way to draw them, so it is ignored by the Mermaid renderer.
+ *
+ * Pass `exportable` to show buttons that download the rendered chart as
+ * SVG, PNG or PDF, named after `exportFilename` or the chart title.
  */
 export function GanttChart({
   data,
   className = "",
   onTaskClick,
+  autoCritical = false,
+  renderer = "mermaid",
+  onChange,
+  onChangeRejected,
+  onDragStart,
+  onDragEnd,
+  exportable = false,
+  exportFilename,
+  baseline,
 }: GanttChartProps): JSX.Element {
+  const containerRef = useRef<HTMLDivElement>(null);
   // Memoize the conversion to avoid unnecessary recalculations
-  const conversionResult = useMemo(() => convertToMermaidSyntax(data), [data]);
+  const conversionResult = useMemo(
+    () => convertToMermaidSyntax(data, { autoCritical }),
+    [data, autoCritical]
+  );
+  // The native renderer draws the data itself, with the same `crit` tags
+  const chartData = useMemo(
+    () =>
+      autoCritical && renderer === "native" ? markCriticalTasks(data) : data,
+    [data, autoCritical, renderer]
+  );
+  const taskIds = useMemo(() => collectTaskIds(data), [data]);
+
+  const clickEnabled = !!onTaskClick && data.config?.enableClick !== false;
+
+  const handleClick = useCallback(
+    (event: MouseEvent<HTMLDivElement>) => {
+      if (!onTaskClick) {
+        return;
+      }
+      const taskId = findClickedTaskId(
+        event.target as Element,
+        event.currentTarget,
+        taskIds
+      );
+      if (taskId) {
+        onTaskClick(taskId);
+      }
+    },
+    [onTaskClick, taskIds]
+  );
+
+  // Changes apply to the original data, not the copy with `crit` added
+  const handleReschedule = useCallback(
+    (taskId: string, mode: DragMode, result: RescheduleResult) => {
+      if (!result.success) {
+        onChangeRejected?.(result.error!);
+      } else if (result.data !== data) {
+        const task = data.sections
+          .flatMap((section) => section.tasks)
+          .find((item) => item.id === taskId);
+        const verb = mode === "move" ? "Move" : "Resize";
+        onChange?.(result.data!, {
+          label: `${verb} "${task?.name || taskId}"`,
+        });
+      }
+    },
+    [data, onChange, onChangeRejected]
+  );
 
   if (!conversionResult.success) {
     return (
@@ -44,21 +230,85 @@ export function GanttChart({
         aria-live="polite"
       >
         <p>Error creating Gantt chart:</p>
-        <pre>{conversionResult.error}</pre>
+        {groupIssuesBySection(conversionResult.issues ?? [], data).map(
+          (group) => (
+            <div className="gantt-chart-issue-group" key={group.key}>
+              <h4>{group.title}</h4>
+              <ul>
+                {group.issues.map((issue, index) => (
+                  <li
+                    key={`${issue.code}-${issue.path}-${index}`}
+                    className={`gantt-chart-issue gantt-chart-issue--${issue.severity}`}
+                    data-code={issue.code}
+                  >
+                    {issue.severity === "warning" && (
+                      <span className="gantt-chart-issue-severity">Warning: </span>
+                    )}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )
+        )}
       </div>
     );
   }
 
-  // Note: onTaskClick would require Mermaid click callbacks which need
-  // securityLevel: 'loose'. For now, we log a warning if provided.
-  if (onTaskClick) {
-    console.warn(
-      "GanttChart: onTaskClick is not yet implemented. Task click handlers require additional Mermaid configuration."
+  const toolbar = exportable && (
+    <ChartExportToolbar
+      getSvg={() => containerRef.current?.querySelector("svg") ?? null}
+      filename={exportFilename ?? toFilename(data.config?.title)}
+    />
+  );
+
+  if (renderer === "native") {
+    return (
+      <div
+        className={`gantt-chart ${className}`}
+        data-testid="gantt-chart"
+        ref={containerRef}
+      >
+        {toolbar}
+        <NativeGanttChart
+          data={chartData}
+          onTaskClick={onTaskClick}
+          onTaskMove={
+            onChange
+              ? (taskId, start) =>
+                  handleReschedule(
+                    taskId,
+                    "move",
+                    moveTask(data, taskId, start)
+                  )
+              : undefined
+          }
+          onTaskResize={
+            onChange
+              ? (taskId, end) =>
+                  handleReschedule(
+                    taskId,
+                    "resize",
+                    resizeTask(data, taskId, end)
+                  )
+              : undefined
+          }
+          onDragStart={onChange ? onDragStart : undefined}
+          onDragEnd={onChange ? onDragEnd : undefined}
+          baseline={baseline}
+        />
+      </div>
     );
   }
 
   return (
-    <div className={`gantt-chart ${className}`}>
+    <div
+      className={`gantt-chart ${clickEnabled ? "gantt-chart--clickable " : ""}${className}`}
+      onClick={clickEnabled ? handleClick : undefined}
+      data-testid="gantt-chart"
+      ref={containerRef}
+    >
+      {toolbar}
       <Mermaid chart={conversionResult.syntax!} />
     </div>
   );
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import { GanttEditor } from "./GanttEditor";
+import { ChartCommand, GanttData } from "../types";
+
+const initialData: GanttData = {
+  config: { dateFormat: "YYYY-MM-DD" },
+  sections: [
+    {
+      name: "Build",
+      tasks: [
+        {
+          id: "design",
+          name: "Design",
+          start: "2024-01-01",
+          duration: { value: 3, unit: "d" },
+        },
+        {
+          id: "code",
+          name: "Code",
+          start: "",
+          duration: "5d",
+          after: "design",
+          status: ["active"],
+        },
+      ],
+    },
+  ],
+};
+
+/**
+ * Renders the editor with its own state and reports every change.
+ */
+function renderEditor(data: GanttData = initialData) {
+  const changes: GanttData[] = [];
+  const commands: ChartCommand[] = [];
+  function Harness(): JSX.Element {
+    const [current, setCurrent] = useState(data);
+    return (
+      <GanttEditor
+        data={current}
+        onChange={(next, command) => {
+          changes.push(next);
+          commands.push(command);
+          setCurrent(next);
+        }}
+      />
+    );
+  }
+  render(<Harness />);
+  return { changes, commands, latest: () => changes[changes.length - 1] };
+}
+
+/**
+ * Returns the fieldset of a task by its legend.
+ */
+function taskFields(name: string): HTMLElement {
+  return screen.getByRole("group", { name });
+}
+
+describe("GanttEditor Component", () => {
+  it("shows the fields of every task", () => {
+    renderEditor();
+
+    const code = within(taskFields("Code"));
+    expect(code.getByLabelText("Name")).toHaveValue("Code");
+    expect(code.getByLabelText("ID")).toHaveValue("code");
+    expect(code.getByLabelText("Start")).toBeDisabled();
+    expect(code.getByLabelText("Duration")).toHaveValue(5);
+    expect(code.getByLabelText("active")).toBeChecked();
+    expect(
+      (code.getByRole("option", { name: "Design (design)" }) as HTMLOptionElement)
+        .selected
+    ).toBe(true);
+  });
+
+  it("edits task fields", () => {
+    const { commands, latest } = renderEditor();
+    const design = within(taskFields("Design"));
+
+    fireEvent.change(design.getByLabelText("Duration"), {
+      target: { value: "4" },
+    });
+    fireEvent.click(design.getByLabelText("crit"));
+    fireEvent.change(design.getByLabelText("Name"), {
+      target: { value: "Spec" },
+    });
+
+    expect(latest().sections[0].tasks[0]).toEqual({
+      id: "design",
+      name: "Spec",
+      start: "2024-01-01",
+      duration: { value: 4, unit: "d" },
+      status: ["crit"],
+    });
+    expect(commands).toEqual([
+      {
+        label: 'Change duration of "Design"',
+        group: "task:design:duration",
+      },
+      { label: 'Change status of "Design"', group: "task:design:status" },
+      { label: 'Rename task "Design"', group: "task:design:name" },
+    ]);
+  });
+
+  it("edits and clears progress", () => {
+    const { latest } = renderEditor();
+    const progress = within(taskFields("Code")).getByLabelText("Progress (%)");
+
+    fireEvent.change(progress, { target: { value: "60" } });
+    expect(latest().sections[0].tasks[1].progress).toBe(60);
+
+    fireEvent.change(progress, { target: { value: "" } });
+    expect(latest().sections[0].tasks[1]).not.toHaveProperty("progress");
+  });
+
+  it("assigns resources to a task", () => {
+    const { latest } = renderEditor({
+      ...initialData,
+      resources: [
+        { id: "ada", name: "Ada" },
+        { id: "grace", name: "Grace" },
+      ],
+    });
+    const design = within(taskFields("Design"));
+
+    fireEvent.change(design.getByLabelText("Ada"), {
+      target: { value: "50" },
+    });
+    fireEvent.change(design.getByLabelText("Grace"), {
+      target: { value: "100" },
+    });
+    expect(latest().sections[0].tasks[0].assignees).toEqual([
+      { resourceId: "ada", allocation: 50 },
+      { resourceId: "grace", allocation: 100 },
+    ]);
+
+    fireEvent.change(design.getByLabelText("Ada"), { target: { value: "" } });
+    expect(latest().sections[0].tasks[0].assignees).toEqual([
+      { resourceId: "grace", allocation: 100 },
+    ]);
+  });
+
+  it("renames dependencies when an ID is committed", () => {
+    const { changes, latest } = renderEditor();
+    const idInput = within(taskFields("Design")).getByLabelText("ID");
+
+    fireEvent.change(idInput, { target: { value: "spec" } });
+    expect(changes).toHaveLength(0);
+    fireEvent.blur(idInput);
+
+    expect(latest().sections[0].tasks[0].id).toBe("spec");
+    expect(latest().sections[0].tasks[1].after).toBe("spec");
+  });
+
+  it("shows validation issues next to the field", () => {
+    renderEditor();
+    const design = within(taskFields("Design"));
+    const start = design.getByLabelText("Start");
+
+    fireEvent.change(start, { target: { value: "2024-02-30" } });
+
+    expect(start).toHaveAttribute("aria-invalid", "true");
+    expect(design.getByText(/has invalid start date/)).toBeInTheDocument();
+  });
+
+  it("clears the start date when a dependency is picked", () => {
+    const { latest } = renderEditor();
+    const select = within(taskFields("Design")).getByLabelText("Starts after");
+
+    (
+      within(select).getByRole("option", { name: "Code (code)" }) as HTMLOptionElement
+    ).selected = true;
+    fireEvent.change(select);
+
+    expect(latest().sections[0].tasks[0]).toEqual(
+      expect.objectContaining({ after: "code", start: "" })
+    );
+    expect(screen.getAllByText(/Circular dependency detected/)).not.toHaveLength(
+      0
+    );
+  });
+
+  it("adds, reorders and removes sections and tasks", () => {
+    const { latest } = renderEditor();
+
+    fireEvent.click(screen.getByRole("button", { name: "Add task to Build" }));
+    expect(latest().sections[0].tasks[2]).toEqual({
+      id: "task3",
+      name: "New task",
+      start: "",
+      duration: { value: 1, unit: "d" },
+      after: "code",
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Move Code down" }));
+    expect(latest().sections[0].tasks.map((task) => task.id)).toEqual([
+      "design",
+      "task3",
+      "code",
+    ]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Remove Design" }));
+    expect(latest().sections[0].tasks[1].after).toBeUndefined();
+
+    fireEvent.click(screen.getByRole("button", { name: "Add section" }));
+    expect(latest().sections[1]).toEqual({ name: "Section 2", tasks: [] });
+    expect(screen.getByText('Section "Section 2" has no tasks')).toBeInTheDocument();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Move section Section 2 up" })
+    );
+    fireEvent.click(
+      screen.getByRole("button", { name: "Remove section Build" })
+    );
+    expect(latest().sections.map((section) => section.name)).toEqual([
+      "Section 2",
+    ]);
+  });
+});
@@ -0,0 +1,579 @@
+import { useEffect, useId, useMemo, useState } from "react";
+import {
+  ChartCommand,
+  DateFormat,
+  DurationUnit,
+  GanttData,
+  GanttEditorProps,
+  GanttTask,
+  TaskStatus,
+  ValidationIssue,
+} from "../types";
+import {
+  addSection,
+  addTask,
+  collectValidationIssues,
+  formatDate,
+  getAfterIds,
+  nextTaskId,
+  parseDuration,
+  removeSection,
+  removeTask,
+  reorderSection,
+  reorderTask,
+  updateSection,
+  updateTask,
+} from "../utils";
+
+const TASK_STATUSES: TaskStatus[] = ["done", "active", "crit", "milestone"];
+
+const DURATION_UNITS: { value: DurationUnit; label: string }[] = [
+  { value: "d", label: "days" },
+  { value: "w", label: "weeks" },
+  { value: "h", label: "hours" },
+  { value: "m", label: "minutes" },
+];
+
+/**
+ * Unit select value for tasks whose duration is an end date.
+ */
+const END_DATE = "end";
+
+/**
+ * Returns the issues reported for a field path or any path below it,
+ * e.g. "sections[0].tasks[1].duration" also matches ".duration.value".
+ */
+function issuesAt(issues: ValidationIssue[], path: string): ValidationIssue[] {
+  return issues.filter(
+    (issue) =>
+      issue.path === path ||
+      issue.path.startsWith(`${path}.`) ||
+      issue.path.startsWith(`${path}[`)
+  );
+}
+
+/**
+ * Lists the validation issues for one field.
+ */
+function FieldIssues({
+  id,
+  issues,
+}: {
+  id: string;
+  issues: ValidationIssue[];
+}): JSX.Element | null {
+  if (issues.length === 0) {
+    return null;
+  }
+  return (
+    <ul className="gantt-editor-issues" id={id}>
+      {issues.map((issue, index) => (
+        <li
+          key={`${issue.code}-${index}`}
+          className={`gantt-editor-issue gantt-editor-issue--${issue.severity}`}
+          data-code={issue.code}
+        >
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Props shared by the field editors of a single task.
+ */
+interface TaskEditorProps {
+  data: GanttData;
+  task: GanttTask;
+  sectionIndex: number;
+  taskIndex: number;
+  taskCount: number;
+  issues: ValidationIssue[];
+  idPrefix: string;
+  onChange: (data: GanttData, command: ChartCommand) => void;
+}
+
+/**
+ * Editor for one task: name, ID, dependencies, start, duration, progress,
+ * assignees, statuses, and buttons to reorder or remove it.
+ */
+function TaskEditor({
+  data,
+  task,
+  sectionIndex,
+  taskIndex,
+  taskCount,
+  issues,
+  idPrefix,
+  onChange,
+}: TaskEditorProps): JSX.Element {
+  const path = `sections[${sectionIndex}].tasks[${taskIndex}]`;
+  const fieldId = (field: string) => `${idPrefix}-${field}`;
+  const label = task.name || task.id || `Task ${taskIndex + 1}`;
+  const dateFormat: DateFormat = data.config?.dateFormat ?? "YYYY-MM-DD";
+
+  // The ID is committed on blur so `after` references are renamed once,
+  // not on every keystroke
+  const [draftId, setDraftId] = useState(task.id);
+  useEffect(() => setDraftId(task.id), [task.id]);
+
+  // Edits to a field of the task are named after the field, and quick
+  // edits to the same field are undone together
+  const update = (field: string, changes: Partial<GanttTask>) =>
+    onChange(updateTask(data, sectionIndex, taskIndex, changes), {
+      label:
+        field === "name"
+          ? `Rename task "${label}"`
+          : `Change ${field} of "${label}"`,
+      group: `task:${task.id}:${field}`,
+    });
+  const commitId = () => {
+    if (draftId !== task.id) {
+      update("ID", { id: draftId.trim() });
+    }
+  };
+
+  const afterIds = getAfterIds(task);
+  const otherTasks = data.sections
+    .flatMap((section) => section.tasks)
+    .filter((other) => other !== task && other.id);
+
+  const duration =
+    typeof task.duration === "object"
+      ? task.duration
+      : parseDuration(task.duration ?? "");
+  const hasEndDate = !duration && typeof task.duration === "string";
+
+  const fieldIssues = (field: string) => issuesAt(issues, `${path}.${field}`);
+  const renderIssues = (field: string) => (
+    <FieldIssues id={fieldId(`${field}-issues`)} issues={fieldIssues(field)} />
+  );
+  const describedBy = (field: string) =>
+    fieldIssues(field).length > 0
+      ? { "aria-invalid": true, "aria-describedby": fieldId(`${field}-issues`) }
+      : {};
+
+  return (
+    <fieldset className="gantt-editor-task">
+      <legend>{label}</legend>
+
+      <div className="gantt-editor-field">
+        <label htmlFor={fieldId("name")}>Name</label>
+        <input
+          id={fieldId("name")}
+          value={task.name}
+          onChange={(event) =>
+            update("name", { name: event.target.value })
+          }
+          {...describedBy("name")}
+        />
+        {renderIssues("name")}
+      </div>
+
+      <div className="gantt-editor-field">
+        <label htmlFor={fieldId("id")}>ID</label>
+        <input
+          id={fieldId("id")}
+          value={draftId}
+          onChange={(event) => setDraftId(event.target.value)}
+          onBlur={commitId}
+          onKeyDown={(event) => event.key === "Enter" && commitId()}
+          {...describedBy("id")}
+        />
+        {renderIssues("id")}
+      </div>
+
+      <div className="gantt-editor-field">
+        <label htmlFor={fieldId("after")}>Starts after</label>
+        <select
+          id={fieldId("after")}
+          multiple
+          value={afterIds}
+          onChange={(event) => {
+            const selected = Array.from(event.target.selectedOptions).map(
+              (option) => option.value
+            );
+            update("dependencies", {
+              after:
+                selected.length === 0
+                  ? undefined
+                  : selected.length === 1
+                  ? selected[0]
+                  : selected,
+              // A start date is ignored once the task depends on others
+              ...(selected.length > 0 ? { start: "" } : {}),
+            });
+          }}
+          {...describedBy("after")}
+        >
+          {otherTasks.map((other) => (
+            <option key={other.id} value={other.id}>
+              {other.name ? `${other.name} (${other.id})` : other.id}
+            </option>
+          ))}
+        </select>
+        {renderIssues("after")}
+      </div>
+
+      <div className="gantt-editor-field">
+        <label htmlFor={fieldId("start")}>Start</label>
+        <input
+          id={fieldId("start")}
+          value={afterIds.length > 0 ? "" : task.start}
+          placeholder={afterIds.length > 0 ? "After dependencies" : dateFormat}
+          disabled={afterIds.length > 0}
+          onChange={(event) =>
+            update("start", { start: event.target.value })
+          }
+          {...describedBy("start")}
+        />
+        {renderIssues("start")}
+      </div>
+
+      <div className="gantt-editor-field">
+        <label htmlFor={fieldId("duration")}>Duration</label>
+        <div className="gantt-editor-duration">
+          {hasEndDate ? (
+            <input
+              id={fieldId("duration")}
+              value={task.duration as string}
+              placeholder={dateFormat}
+              onChange={(event) =>
+                update("duration", { duration: event.target.value })
+              }
+              {...describedBy("duration")}
+            />
+          ) : (
+            <input
+              id={fieldId("duration")}
+              type="number"
+              min={0}
+              value={duration ? duration.value : ""}
+              onChange={(event) =>
+                update("duration", {
+                  duration: {
+                    value: parseInt(event.target.value, 10) || 0,
+                    unit: duration?.unit ?? "d",
+                  },
+                })
+              }
+              {...describedBy("duration")}
+            />
+          )}
+          <select
+            aria-label={`Duration unit for ${label}`}
+            value={hasEndDate ? END_DATE : duration?.unit ?? "d"}
+            onChange={(event) => {
+              const unit = event.target.value;
+              update("duration", {
+                duration:
+                  unit === END_DATE
+                    ? formatDate(new Date(), dateFormat)
+                    : {
+                        value: duration?.value ?? 1,
+                        unit: unit as DurationUnit,
+                      },
+              });
+            }}
+          >
+            {DURATION_UNITS.map((unit) => (
+              <option key={unit.value} value={unit.value}>
+                {unit.label}
+              </option>
+            ))}
+            <option value={END_DATE}>end date</option>
+          </select>
+        </div>
+        {renderIssues("duration")}
+      </div>
+
+      <div className="gantt-editor-field">
+        <label htmlFor={fieldId("progress")}>Progress (%)</label>
+        <input
+          id={fieldId("progress")}
+          type="number"
+          min={0}
+          max={100}
+          value={task.progress ?? ""}
+          placeholder="Not tracked"
+          onChange={(event) =>
+            update("progress", {
+              progress:
+                event.target.value === ""
+                  ? undefined
+                  : Number(event.target.value),
+            })
+          }
+          {...describedBy("progress")}
+        />
+        {renderIssues("progress")}
+      </div>
+
+      {(data.resources ?? []).length > 0 && (
+        <div className="gantt-editor-field gantt-editor-assignees">
+          <span>Assignees (%)</span>
+          {data.resources!.map((resource, resourceIndex) => {
+            const assignee = task.assignees?.find(
+              (item) => item.resourceId === resource.id
+            );
+            return (
+              <label key={resourceIndex}>
+                {resource.name}
+                <input
+                  type="number"
+                  min={0}
+                  value={assignee ? assignee.allocation ?? 100 : ""}
+                  placeholder="Not assigned"
+                  onChange={(event) => {
+                    const current = task.assignees ?? [];
+                    const allocation = Number(event.target.value);
+                    const assignees =
+                      event.target.value === ""
+                        ? current.filter((item) => item !== assignee)
+                        : assignee
+                        ? current.map((item) =>
+                            item === assignee ? { ...item, allocation } : item
+                          )
+                        : [...current, { resourceId: resource.id, allocation }];
+                    update("assignees", {
+                      assignees: assignees.length > 0 ? assignees : undefined,
+                    });
+                  }}
+                />
+              </label>
+            );
+          })}
+          {renderIssues("assignees")}
+        </div>
+      )}
+
+      <div className="gantt-editor-field gantt-editor-statuses">
+        <span>Status</span>
+        {TASK_STATUSES.map((status) => (
+          <label key={status}>
+            <input
+              type="checkbox"
+              checked={!!task.status?.includes(status)}
+              onChange={(event) => {
+                const statuses = event.target.checked
+                  ? [...(task.status ?? []), status]
+                  : (task.status ?? []).filter((item) => item !== status);
+                update("status", {
+                  status: statuses.length > 0 ? statuses : undefined,
+                });
+              }}
+            />
+            {status}
+          </label>
+        ))}
+      </div>
+
+      <div className="gantt-editor-actions">
+        <button
+          type="button"
+          aria-label={`Move ${label} up`}
+          disabled={taskIndex === 0}
+          onClick={() =>
+            onChange(reorderTask(data, sectionIndex, taskIndex, -1), {
+              label: `Move task "${label}" up`,
+            })
+          }
+        >
+          ↑
+        </button>
+        <button
+          type="button"
+          aria-label={`Move ${label} down`}
+          disabled={taskIndex === taskCount - 1}
+          onClick={() =>
+            onChange(reorderTask(data, sectionIndex, taskIndex, 1), {
+              label: `Move task "${label}" down`,
+            })
+          }
+        >
+          ↓
+        </button>
+        <button
+          type="button"
+          aria-label={`Remove ${label}`}
+          onClick={() =>
+            onChange(removeTask(data, sectionIndex, taskIndex), {
+              label: `Remove task "${label}"`,
+            })
+          }
+        >
+          Remove task
+        </button>
+      </div>
+    </fieldset>
+  );
+}
+
+/**
+ * GanttEditor component for editing GanttData through a form.
+ *
+ * Sections and tasks can be added, removed and reordered, and every task
+ * field edited without writing code. Each field shows the validation
+ * issues reported for it by collectValidationIssues. The component is
+ * controlled: every edit is passed to `onChange` as new GanttData, with
+ * the command that made it for an undo history (see recordChange).
+ *
+ * @example
+ * ```tsx
+ * const [data, setData] = useState(initialData);
+ *
+ * <GanttEditor data={data} onChange={setData} />
+ * <GanttChart data={data} />
+ * ```
+ */
+export function GanttEditor({
+  data,
+  onChange,
+  className = "",
+}: GanttEditorProps): JSX.Element {
+  const idPrefix = `gantt-editor-${useId().replace(/:/g, "")}`;
+  const issues = useMemo(() => collectValidationIssues(data), [data]);
+  const chartIssues = issues.filter(
+    (issue) => !issue.path.startsWith("sections[")
+  );
+
+  // New tasks follow the last task up to their section, or start today
+  const newTask = (sectionIndex: number): GanttTask => {
+    const previous = data.sections
+      .slice(0, sectionIndex + 1)
+      .flatMap((section) => section.tasks)
+      .filter((task) => task.id)
+      .pop();
+    const dateFormat = data.config?.dateFormat ?? "YYYY-MM-DD";
+    const task: GanttTask = {
+      id: nextTaskId(data),
+      name: "New task",
+      start: previous ? "" : formatDate(new Date(), dateFormat),
+      duration: { value: 1, unit: "d" },
+    };
+    return previous ? { ...task, after: previous.id } : task;
+  };
+
+  return (
+    <form
+      className={`gantt-editor ${className}`}
+      aria-label="Gantt chart editor"
+      onSubmit={(event) => event.preventDefault()}
+    >
+      <FieldIssues id={`${idPrefix}-chart-issues`} issues={chartIssues} />
+
+      {data.sections.map((section, sectionIndex) => {
+        const path = `sections[${sectionIndex}]`;
+        const sectionLabel = section.name || `Section ${sectionIndex + 1}`;
+        const nameId = `${idPrefix}-section-${sectionIndex}-name`;
+        const sectionIssues = issues.filter(
+          (issue) =>
+            issue.path === `${path}.name` || issue.path === `${path}.tasks`
+        );
+
+        return (
+          <section className="gantt-editor-section" key={sectionIndex}>
+            <div className="gantt-editor-section-header">
+              <label htmlFor={nameId}>Section</label>
+              <input
+                id={nameId}
+                value={section.name}
+                onChange={(event) =>
+                  onChange(
+                    updateSection(data, sectionIndex, {
+                      name: event.target.value,
+                    }),
+                    {
+                      label: `Rename section "${sectionLabel}"`,
+                      group: `section:${sectionIndex}:name`,
+                    }
+                  )
+                }
+              />
+              <div className="gantt-editor-actions">
+                <button
+                  type="button"
+                  aria-label={`Move section ${sectionLabel} up`}
+                  disabled={sectionIndex === 0}
+                  onClick={() =>
+                    onChange(reorderSection(data, sectionIndex, -1), {
+                      label: `Move section "${sectionLabel}" up`,
+                    })
+                  }
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  aria-label={`Move section ${sectionLabel} down`}
+                  disabled={sectionIndex === data.sections.length - 1}
+                  onClick={() =>
+                    onChange(reorderSection(data, sectionIndex, 1), {
+                      label: `Move section "${sectionLabel}" down`,
+                    })
+                  }
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  aria-label={`Remove section ${sectionLabel}`}
+                  onClick={() =>
+                    onChange(removeSection(data, sectionIndex), {
+                      label: `Remove section "${sectionLabel}"`,
+                    })
+                  }
+                >
+                  Remove section
+                </button>
+              </div>
+            </div>
+            <FieldIssues
+              id={`${idPrefix}-section-${sectionIndex}-issues`}
+              issues={sectionIssues}
+            />
+
+            {section.tasks.map((task, taskIndex) => (
+              <TaskEditor
+                key={taskIndex}
+                data={data}
+                task={task}
+                sectionIndex={sectionIndex}
+                taskIndex={taskIndex}
+                taskCount={section.tasks.length}
+                issues={issues}
+                idPrefix={`${idPrefix}-${sectionIndex}-${taskIndex}`}
+                onChange={onChange}
+              />
+            ))}
+
+            <button
+              type="button"
+              onClick={() =>
+                onChange(addTask(data, sectionIndex, newTask(sectionIndex)), {
+                  label: `Add task to "${sectionLabel}"`,
+                })
+              }
+            >
+              Add task to {sectionLabel}
+            </button>
+          </section>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() =>
+          onChange(addSection(data, `Section ${data.sections.length + 1}`), {
+            label: "Add section",
+          })
+        }
+      >
+        Add section
+      </button>
+    </form>
+  );
+}
+
+export default GanttEditor;
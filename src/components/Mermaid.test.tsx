@@ -96,6 +96,38 @@ describe("Mermaid Component", () => {
     });
   });
 
+  it("reports render errors to onError", async () => {
+    mockMermaid.render.mockRejectedValue(new Error("Parse error on line 2"));
+    const onError = jest.fn();
+
+    render(<Mermaid chart="gantt\n  oops" onError={onError} />);
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith("Parse error on line 2");
+    });
+  });
+
+  it("recovers from an error when the chart changes", async () => {
+    mockMermaid.render.mockRejectedValueOnce(new Error("Parse error"));
+
+    const { rerender } = render(<Mermaid chart="invalid" />);
+    await waitFor(() => {
+      expect(screen.getByRole("alert")).toBeInTheDocument();
+    });
+
+    mockMermaid.render.mockResolvedValue({
+      svg: "<svg>Fixed</svg>",
+      bindFunctions: jest.fn(),
+    });
+    rerender(<Mermaid chart="graph TD; A-->B;" />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("Mermaid diagram")).toHaveTextContent(
+        "Fixed"
+      );
+    });
+  });
+
   it("handles non-Error exceptions", async () => {
     mockMermaid.render.mockRejectedValue("String error");
 
@@ -94,6 +94,9 @@ function generateId(): string {
  * - Error handling for invalid Mermaid syntax
  * - Secure rendering with strict security level
  *
+ * Pass `onError` to receive Mermaid's error message when rendering fails,
+ * e.g. to show it next to the offending line of an editor.
+ *
  * @example
  * ```tsx
  * <Mermaid chart="graph TD; A-->B;" />
@@ -103,14 +106,20 @@ export function Mermaid({
   chart,
   id,
   className = "",
+  onError,
 }: MermaidProps): JSX.Element {
   const containerRef = useRef<HTMLDivElement>(null);
   const [error, setError] = useState<string | null>(null);
   const [renderedSvg, setRenderedSvg] = useState<string>("");
   const uniqueId = useRef(id || generateId());
+  // Kept in a ref so a new callback does not trigger a re-render
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
 
   const renderChart = useCallback(async () => {
-    if (!containerRef.current || !chart) {
+    // The container is not mounted while an error is shown, so only the
+    // chart is checked; otherwise a fixed chart would never re-render
+    if (!chart) {
       return;
     }
 
@@ -126,6 +135,7 @@ export function Mermaid({
         err instanceof Error ? err.message : "Failed to render diagram";
       setError(errorMessage);
       setRenderedSvg("");
+      onErrorRef.current?.(errorMessage);
       console.error("Mermaid rendering error:", err);
     }
   }, [chart]);
@@ -0,0 +1,271 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { NativeGanttChart } from "./NativeGanttChart";
+import { GanttData } from "../types";
+
+describe("NativeGanttChart Component", () => {
+  const data: GanttData = {
+    config: { title: "Launch", axisFormat: "%b %d", tickInterval: "1week" },
+    sections: [
+      {
+        name: "Work",
+        tasks: [
+          {
+            id: "build",
+            name: "Build",
+            start: "2024-01-01",
+            duration: { value: 10, unit: "d" },
+            status: ["crit", "active"],
+          },
+          {
+            id: "launch",
+            name: "Launch",
+            start: "",
+            duration: { value: 0, unit: "d" },
+            after: "build",
+            status: ["milestone"],
+          },
+        ],
+      },
+    ],
+  };
+
+  it("draws sections, bars, milestones, arrows and axis labels", () => {
+    render(<NativeGanttChart data={data} />);
+
+    expect(screen.getByRole("img", { name: "Launch" })).toBeInTheDocument();
+    expect(screen.getByText("Work")).toBeInTheDocument();
+    expect(screen.getAllByTestId("gantt-native-bar")).toHaveLength(1);
+    expect(screen.getAllByTestId("gantt-native-milestone")).toHaveLength(1);
+    expect(screen.getAllByTestId("gantt-native-arrow")).toHaveLength(1);
+    expect(screen.getByText("Jan 07")).toBeInTheDocument();
+  });
+
+  it("adds a class per task status", () => {
+    render(<NativeGanttChart data={data} onTaskClick={jest.fn()} />);
+    const task = screen.getByRole("button", { name: /^Build/ });
+    expect(task).toHaveAttribute("data-task-id", "build");
+    expect(task).toHaveClass(
+      "gantt-native-task",
+      "gantt-native-task--crit",
+      "gantt-native-task--active"
+    );
+  });
+
+  it("shades the completed share of bars with progress", () => {
+    render(
+      <NativeGanttChart
+        data={{
+          sections: [
+            {
+              name: "Work",
+              tasks: [{ ...data.sections[0].tasks[0], progress: 25 }],
+            },
+          ],
+        }}
+      />
+    );
+    const bar = screen.getByTestId("gantt-native-bar");
+    const progress = screen.getByTestId("gantt-native-progress");
+
+    expect(Number(progress.getAttribute("width"))).toBeCloseTo(
+      Number(bar.getAttribute("width")) / 4
+    );
+    expect(screen.getByText("Build (25%)")).toBeInTheDocument();
+  });
+
+  it("draws baseline ghost bars below the bars", () => {
+    render(
+      <NativeGanttChart
+        data={data}
+        baseline={{
+          name: "Plan A",
+          createdAt: "2023-12-01T00:00:00.000Z",
+          tasks: [
+            {
+              id: "build",
+              name: "Build",
+              sectionName: "Work",
+              start: "2024-01-01 00:00",
+              end: "2024-01-06 00:00",
+              isMilestone: false,
+            },
+          ],
+        }}
+      />
+    );
+    const bar = screen.getByTestId("gantt-native-bar");
+    const ghosts = screen.getAllByTestId("gantt-native-baseline");
+
+    expect(ghosts).toHaveLength(1);
+    expect(Number(ghosts[0].getAttribute("width"))).toBeCloseTo(
+      Number(bar.getAttribute("width")) / 2
+    );
+    expect(Number(ghosts[0].getAttribute("y"))).toBe(
+      Number(bar.getAttribute("y")) + Number(bar.getAttribute("height"))
+    );
+    expect(
+      screen.getByText("Build in Plan A: 2024-01-01 – 2024-01-06")
+    ).toBeInTheDocument();
+  });
+
+  it("points arrows at a marker unique to the chart", () => {
+    render(
+      <>
+        <NativeGanttChart data={data} />
+        <NativeGanttChart data={data} />
+      </>
+    );
+    const markerIds = screen
+      .getAllByTestId("gantt-native-marker")
+      .map((marker) => marker.id);
+    expect(new Set(markerIds).size).toBe(2);
+    expect(screen.getAllByTestId("gantt-native-arrow")[0]).toHaveAttribute(
+      "marker-end",
+      `url(#${markerIds[0]})`
+    );
+  });
+
+  it("calls onTaskClick on click and keyboard activation", () => {
+    const onTaskClick = jest.fn();
+    render(<NativeGanttChart data={data} onTaskClick={onTaskClick} />);
+
+    const buttons = screen.getAllByRole("button");
+    fireEvent.click(buttons[0]);
+    fireEvent.keyDown(buttons[1], { key: "Enter" });
+
+    expect(onTaskClick.mock.calls).toEqual([["build"], ["launch"]]);
+  });
+
+  it("does not make tasks interactive when clicks are disabled", () => {
+    render(
+      <NativeGanttChart
+        data={{ ...data, config: { enableClick: false } }}
+        onTaskClick={jest.fn()}
+      />
+    );
+    expect(screen.queryAllByRole("button")).toHaveLength(0);
+  });
+
+  describe("dragging", () => {
+    // 11 days across the default 790px plot area
+    const dayWidth = 790 / 11;
+
+    it("reports a bar dragged to a new start", () => {
+      const onTaskMove = jest.fn();
+      const onTaskClick = jest.fn();
+      render(
+        <NativeGanttChart
+          data={data}
+          onTaskMove={onTaskMove}
+          onTaskClick={onTaskClick}
+        />
+      );
+      const task = screen.getByRole("button", { name: /^Build/ });
+
+      fireEvent.mouseDown(task, { button: 0, clientX: 100 });
+      fireEvent.mouseMove(window, { clientX: 100 + 2 * dayWidth });
+      expect(task).toHaveClass("gantt-native-task--dragging");
+      fireEvent.mouseUp(window);
+      fireEvent.click(task);
+
+      expect(onTaskMove).toHaveBeenCalledWith("build", new Date(2024, 0, 3));
+      expect(onTaskClick).not.toHaveBeenCalled();
+    });
+
+    it("reports a bar resized by its right edge", () => {
+      const onTaskResize = jest.fn();
+      render(<NativeGanttChart data={data} onTaskResize={onTaskResize} />);
+      const handle = screen.getByTestId("gantt-native-resize-handle");
+
+      fireEvent.mouseDown(handle, { button: 0, clientX: 500 });
+      fireEvent.mouseMove(window, { clientX: 500 - 3 * dayWidth });
+      fireEvent.mouseUp(window);
+
+      expect(onTaskResize).toHaveBeenCalledWith("build", new Date(2024, 0, 8));
+    });
+
+    it("handles the next click after a drag released off the bar", () => {
+      const onTaskClick = jest.fn();
+      render(
+        <NativeGanttChart
+          data={data}
+          onTaskMove={jest.fn()}
+          onTaskClick={onTaskClick}
+        />
+      );
+      const task = screen.getByText("Build");
+
+      fireEvent.mouseDown(task, { button: 0, clientX: 100 });
+      fireEvent.mouseMove(window, { clientX: 100 + 2 * dayWidth });
+      fireEvent.mouseUp(window);
+      // The press of the next click
+      fireEvent.mouseDown(task, { button: 0, clientX: 100 });
+      fireEvent.mouseUp(window);
+      fireEvent.click(task);
+
+      expect(onTaskClick).toHaveBeenCalledWith("build");
+    });
+
+    it("calls onDragStart and onDragEnd around each drag", () => {
+      const calls: string[] = [];
+      render(
+        <NativeGanttChart
+          data={data}
+          onTaskMove={(taskId) => calls.push(`move ${taskId}`)}
+          onDragStart={(taskId, mode) => calls.push(`start ${taskId} ${mode}`)}
+          onDragEnd={(taskId, mode) => calls.push(`end ${taskId} ${mode}`)}
+        />
+      );
+      const task = screen.getByText("Build");
+
+      fireEvent.mouseDown(task, { button: 0, clientX: 100 });
+      fireEvent.mouseMove(window, { clientX: 100 + 2 * dayWidth });
+      fireEvent.mouseUp(window);
+      // A press without movement still ends the drag
+      fireEvent.mouseDown(task, { button: 0, clientX: 100 });
+      fireEvent.mouseUp(window);
+
+      expect(calls).toEqual([
+        "start build move",
+        "move build",
+        "end build move",
+        "start build move",
+        "end build move",
+      ]);
+    });
+
+    it("treats a press without movement as a click", () => {
+      const onTaskMove = jest.fn();
+      const onTaskClick = jest.fn();
+      render(
+        <NativeGanttChart
+          data={data}
+          onTaskMove={onTaskMove}
+          onTaskClick={onTaskClick}
+        />
+      );
+      const task = screen.getByRole("button", { name: /^Build/ });
+
+      fireEvent.mouseDown(task, { button: 0, clientX: 100 });
+      fireEvent.mouseUp(window);
+      fireEvent.click(task);
+
+      expect(onTaskMove).not.toHaveBeenCalled();
+      expect(onTaskClick).toHaveBeenCalledWith("build");
+    });
+
+    it("has no resize handles without onTaskResize", () => {
+      render(<NativeGanttChart data={data} />);
+      expect(
+        screen.queryByTestId("gantt-native-resize-handle")
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  it("shows the schedule error for invalid data", () => {
+    render(<NativeGanttChart data={{ sections: [] }} />);
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Error creating Gantt chart:"
+    );
+  });
+});
@@ -0,0 +1,534 @@
+import {
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+  KeyboardEvent,
+  MouseEvent,
+} from "react";
+import {
+  DragMode,
+  NativeGanttChartProps,
+  TaskBarLayout,
+  TaskStatus,
+} from "../types";
+import { computeGanttLayout, formatDate, snapDate } from "../utils";
+
+/**
+ * Approximate width of a label character at the chart's font size, used to
+ * decide whether a task name fits inside its bar.
+ */
+const CHARACTER_WIDTH = 6.5;
+
+/**
+ * Distance in pixels the mouse must travel before a press becomes a drag.
+ */
+const DRAG_THRESHOLD = 3;
+
+/**
+ * Width of the grab area on the right edge of a bar, in pixels.
+ */
+const RESIZE_HANDLE_WIDTH = 8;
+
+/**
+ * A bar being dragged: moved as a whole or resized by its right edge.
+ */
+interface DragState {
+  taskId: string;
+  mode: DragMode;
+  originX: number;
+  deltaX: number;
+}
+
+/**
+ * Default bar colours per status, matching Mermaid's default theme.
+ * They are set as SVG presentation attributes, so CSS rules on the
+ * `gantt-native-task--*` classes take precedence.
+ */
+function barColors(status: TaskStatus[]): { fill: string; stroke: string } {
+  const crit = status.includes("crit");
+  if (status.includes("done")) {
+    return { fill: "#d3d3d3", stroke: crit ? "#ff8888" : "#808080" };
+  }
+  if (status.includes("active")) {
+    return { fill: "#bfc7ff", stroke: crit ? "#ff8888" : "#534fbc" };
+  }
+  return crit
+    ? { fill: "#ff0000", stroke: "#ff8888" }
+    : { fill: "#8a90dd", stroke: "#534fbc" };
+}
+
+/**
+ * Builds the class names for a task bar from its statuses.
+ */
+function taskClassName(bar: TaskBarLayout): string {
+  return [
+    "gantt-native-task",
+    ...bar.status.map((status) => `gantt-native-task--${status}`),
+  ].join(" ");
+}
+
+/**
+ * NativeGanttChart component for drawing Gantt charts as React SVG.
+ *
+ * Unlike GanttChart's default renderer it does not use Mermaid: bars,
+ * milestones, dependency arrows and the time axis are laid out by
+ * computeGanttLayout and drawn as SVG elements, so every element can be
+ * styled and handled in React. Import it directly from this module to
+ * keep Mermaid out of the bundle.
+ *
+ * Tasks with `progress` show the completed share of the bar darker and
+ * the percentage after their name.
+ *
+ * With a `baseline`, each task also gets a thin grey ghost bar of its
+ * baseline dates just below its bar, so slips show at a glance.
+ *
+ * The data is expected to be valid; use GanttChart with
+ * `renderer="native"` to get the converter's validation messages.
+ *
+ * Passing `onTaskMove` makes bars draggable and `onTaskResize` adds a
+ * handle on their right edge. The chart does not change the data itself:
+ * it reports the new start or end, snapped with snapDate, and shows the
+ * bar at its dragged position until the mouse is released.
+ * `onDragStart` and `onDragEnd` bracket each drag, so the changes it leads
+ * to can be grouped, such as into one undo step.
+ *
+ * @example
+ * ```tsx
+ * <NativeGanttChart data={data} onTaskClick={(taskId) => openDrawer(taskId)} />
+ * ```
+ */
+export function NativeGanttChart({
+  data,
+  className = "",
+  onTaskClick,
+  width,
+  onTaskMove,
+  onTaskResize,
+  onDragStart,
+  onDragEnd,
+  baseline,
+}: NativeGanttChartProps): JSX.Element {
+  const result = useMemo(
+    () => computeGanttLayout(data, width ? { width } : {}, baseline),
+    [data, width, baseline]
+  );
+  const markerId = `gantt-arrow-${useId().replace(/:/g, "")}`;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  // Set when a drag ends so the click that follows the mouseup is ignored.
+  // Cleared by the next press, in case no click followed (the mouseup was
+  // off the bar), so it cannot swallow a later click
+  const draggedRef = useRef(false);
+  const dragging = drag !== null;
+
+  // Read by the window listeners, which outlive the render that added them
+  const latest = useRef({ result, data, onTaskMove, onTaskResize, onDragEnd });
+  latest.current = { result, data, onTaskMove, onTaskResize, onDragEnd };
+
+  useEffect(() => {
+    if (!dragging) {
+      return;
+    }
+
+    // The SVG may be scaled by CSS; convert screen pixels to layout units
+    const rect = svgRef.current?.getBoundingClientRect();
+    const layoutWidth = latest.current.result.layout?.width ?? 0;
+    const scale = rect && rect.width > 0 ? layoutWidth / rect.width : 1;
+
+    const handleMouseMove = (event: globalThis.MouseEvent) => {
+      const current = dragRef.current;
+      if (current) {
+        const next = {
+          ...current,
+          deltaX: (event.clientX - current.originX) * scale,
+        };
+        dragRef.current = next;
+        setDrag(next);
+      }
+    };
+
+    // Reports the new start or end of the dragged bar, if it moved
+    const reportDrag = (current: DragState) => {
+      const { result, data, onTaskMove, onTaskResize } = latest.current;
+      const layout = result.layout;
+      const bar = layout?.bars.find((item) => item.id === current.taskId);
+      if (!layout || !bar) {
+        return;
+      }
+      if (Math.abs(current.deltaX) < DRAG_THRESHOLD) {
+        return;
+      }
+      draggedRef.current = true;
+
+      const msPerPixel =
+        (layout.rangeEnd.getTime() - layout.rangeStart.getTime()) /
+        (layout.plotRight - layout.plotLeft);
+      const deltaMs = current.deltaX * msPerPixel;
+      const dateFormat = data.config?.dateFormat ?? "YYYY-MM-DD";
+
+      if (current.mode === "move") {
+        onTaskMove?.(
+          bar.id,
+          snapDate(new Date(bar.start.getTime() + deltaMs), dateFormat)
+        );
+      } else {
+        onTaskResize?.(
+          bar.id,
+          snapDate(new Date(bar.end.getTime() + deltaMs), dateFormat)
+        );
+      }
+    };
+
+    const handleMouseUp = () => {
+      const current = dragRef.current;
+      dragRef.current = null;
+      setDrag(null);
+      if (current) {
+        reportDrag(current);
+        latest.current.onDragEnd?.(current.taskId, current.mode);
+      }
+    };
+
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [dragging]);
+
+  const startDrag = (
+    event: MouseEvent,
+    taskId: string,
+    mode: DragState["mode"]
+  ) => {
+    draggedRef.current = false;
+    if (event.button !== 0) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    const state = { taskId, mode, originX: event.clientX, deltaX: 0 };
+    dragRef.current = state;
+    setDrag(state);
+    onDragStart?.(taskId, mode);
+  };
+
+  if (!result.success) {
+    return (
+      <div
+        className={`gantt-chart-error ${className}`}
+        role="alert"
+        aria-live="polite"
+      >
+        <p>Error creating Gantt chart:</p>
+        <p>{result.error}</p>
+      </div>
+    );
+  }
+
+  const layout = result.layout!;
+  const config = data.config ?? {};
+  const dateFormat = config.dateFormat ?? "YYYY-MM-DD";
+  const clickEnabled = !!onTaskClick && config.enableClick !== false;
+
+  const handleClick = (taskId: string) => {
+    if (draggedRef.current) {
+      draggedRef.current = false;
+      return;
+    }
+    onTaskClick!(taskId);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent, taskId: string) => {
+    if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      onTaskClick!(taskId);
+    }
+  };
+
+  const renderAxis = (y: number, labelOffset: number, key: string) => (
+    <g className="gantt-native-axis" key={key}>
+      {layout.ticks.map((tick) => (
+        <text
+          key={tick.date.getTime()}
+          x={tick.x}
+          y={y + labelOffset}
+          textAnchor="middle"
+          fontSize={11}
+          fill="#333"
+        >
+          {tick.label}
+        </text>
+      ))}
+    </g>
+  );
+
+  return (
+    <svg
+      ref={svgRef}
+      className={`gantt-native ${className}`}
+      width={layout.width}
+      height={layout.height}
+      viewBox={`0 0 ${layout.width} ${layout.height}`}
+      role="img"
+      aria-label={config.title ?? "Gantt chart"}
+    >
+      <defs>
+        <marker
+          id={markerId}
+          data-testid="gantt-native-marker"
+          viewBox="0 0 10 10"
+          refX={10}
+          refY={5}
+          markerWidth={6}
+          markerHeight={6}
+          orient="auto-start-reverse"
+        >
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#666" />
+        </marker>
+      </defs>
+
+      {config.title && (
+        <text
+          className="gantt-native-title"
+          x={layout.width / 2}
+          y={layout.plotTop - (config.topAxis ? 38 : 20)}
+          textAnchor="middle"
+          fontSize={18}
+          fill="#333"
+        >
+          {config.title}
+        </text>
+      )}
+
+      {layout.sections.map((section) => (
+        <g key={section.index} className="gantt-native-section">
+          <rect
+            className={`gantt-native-section-band gantt-native-section-band--${
+              section.index % 2
+            }`}
+            x={0}
+            y={section.y}
+            width={layout.width}
+            height={section.height}
+            fill={section.index % 2 === 0 ? "#f4f4ff" : "#ffffff"}
+          />
+          <text
+            className="gantt-native-section-label"
+            x={8}
+            y={section.y + section.height / 2}
+            dominantBaseline="middle"
+            fontSize={11}
+            fill="#333"
+          >
+            {section.name}
+          </text>
+        </g>
+      ))}
+
+      <g className="gantt-native-grid">
+        {layout.ticks.map((tick) => (
+          <line
+            key={tick.date.getTime()}
+            x1={tick.x}
+            x2={tick.x}
+            y1={layout.plotTop}
+            y2={layout.plotBottom}
+            stroke="#e0e0e0"
+          />
+        ))}
+      </g>
+      {config.topAxis && renderAxis(layout.plotTop, -8, "top-axis")}
+      {renderAxis(layout.plotBottom, 16, "bottom-axis")}
+
+      <g className="gantt-native-arrows">
+        {layout.arrows.map((arrow) => (
+          <path
+            key={`${arrow.fromId}-${arrow.toId}`}
+            className="gantt-native-arrow"
+            data-testid="gantt-native-arrow"
+            d={arrow.path}
+            fill="none"
+            stroke="#666"
+            markerEnd={`url(#${markerId})`}
+          />
+        ))}
+      </g>
+
+      {baseline && (
+        <g className="gantt-native-baselines">
+          {layout.bars.map((bar) => {
+            const ghost = bar.baseline;
+            if (!ghost) {
+              return null;
+            }
+            const centerY = ghost.y + ghost.height / 2;
+            const dates = bar.isMilestone
+              ? formatDate(ghost.start, dateFormat)
+              : `${formatDate(ghost.start, dateFormat)} – ${formatDate(
+                  ghost.end,
+                  dateFormat
+                )}`;
+            const title = `${bar.name} in ${baseline.name}: ${dates}`;
+            return bar.isMilestone ? (
+              <polygon
+                key={bar.id}
+                className="gantt-native-baseline"
+                data-testid="gantt-native-baseline"
+                points={[
+                  `${ghost.x},${ghost.y}`,
+                  `${ghost.x + ghost.height / 2},${centerY}`,
+                  `${ghost.x},${ghost.y + ghost.height}`,
+                  `${ghost.x - ghost.height / 2},${centerY}`,
+                ].join(" ")}
+                fill="#bbb"
+              >
+                <title>{title}</title>
+              </polygon>
+            ) : (
+              <rect
+                key={bar.id}
+                className="gantt-native-baseline"
+                data-testid="gantt-native-baseline"
+                x={ghost.x}
+                y={ghost.y}
+                width={Math.max(1, ghost.width)}
+                height={ghost.height}
+                rx={2}
+                fill="#bbb"
+              >
+                <title>{title}</title>
+              </rect>
+            );
+          })}
+        </g>
+      )}
+
+      {layout.bars.map((bar) => {
+        const colors = barColors(bar.status);
+        const isDragged = drag?.taskId === bar.id;
+        const x = bar.x + (isDragged && drag.mode === "move" ? drag.deltaX : 0);
+        const barWidth = bar.isMilestone
+          ? 0
+          : Math.max(
+              1,
+              bar.width + (isDragged && drag.mode === "resize" ? drag.deltaX : 0)
+            );
+        const centerY = bar.y + bar.height / 2;
+        const label =
+          bar.progress === undefined
+            ? bar.name
+            : `${bar.name} (${bar.progress}%)`;
+        const labelInside =
+          !bar.isMilestone && barWidth > label.length * CHARACTER_WIDTH + 8;
+        const labelX = labelInside
+          ? x + barWidth / 2
+          : x + barWidth + (bar.isMilestone ? bar.height / 2 : 0) + 4;
+        const cursor = onTaskMove
+          ? "move"
+          : clickEnabled
+          ? "pointer"
+          : undefined;
+
+        return (
+          <g
+            key={bar.id}
+            className={`${taskClassName(bar)}${
+              isDragged ? " gantt-native-task--dragging" : ""
+            }`}
+            data-task-id={bar.id}
+            onClick={clickEnabled ? () => handleClick(bar.id) : undefined}
+            onKeyDown={
+              clickEnabled ? (event) => handleKeyDown(event, bar.id) : undefined
+            }
+            onMouseDown={
+              onTaskMove ? (event) => startDrag(event, bar.id, "move") : undefined
+            }
+            role={clickEnabled ? "button" : undefined}
+            tabIndex={clickEnabled ? 0 : undefined}
+            style={cursor ? { cursor } : undefined}
+          >
+            <title>
+              {`${label}: ${formatDate(bar.start, dateFormat)}`}
+              {bar.isMilestone ? "" : ` – ${formatDate(bar.end, dateFormat)}`}
+            </title>
+            {bar.isMilestone ? (
+              <polygon
+                className="gantt-native-milestone"
+                data-testid="gantt-native-milestone"
+                points={[
+                  `${x},${bar.y}`,
+                  `${x + bar.height / 2},${centerY}`,
+                  `${x},${bar.y + bar.height}`,
+                  `${x - bar.height / 2},${centerY}`,
+                ].join(" ")}
+                fill={colors.fill}
+                stroke={colors.stroke}
+              />
+            ) : (
+              <>
+                <rect
+                  className="gantt-native-bar"
+                  data-testid="gantt-native-bar"
+                  x={x}
+                  y={bar.y}
+                  width={barWidth}
+                  height={bar.height}
+                  rx={3}
+                  fill={colors.fill}
+                  stroke={colors.stroke}
+                />
+                {!!bar.progress && (
+                  <rect
+                    className="gantt-native-progress"
+                    data-testid="gantt-native-progress"
+                    x={x}
+                    y={bar.y}
+                    width={(barWidth * Math.min(bar.progress, 100)) / 100}
+                    height={bar.height}
+                    rx={3}
+                    fill={colors.stroke}
+                    fillOpacity={0.5}
+                    pointerEvents="none"
+                  />
+                )}
+              </>
+            )}
+            <text
+              className={`gantt-native-label${
+                labelInside ? "" : " gantt-native-label--outside"
+              }`}
+              x={labelX}
+              y={centerY}
+              textAnchor={labelInside ? "middle" : "start"}
+              dominantBaseline="middle"
+              fontSize={11}
+              fill={labelInside ? "#fff" : "#333"}
+            >
+              {label}
+            </text>
+            {onTaskResize && !bar.isMilestone && (
+              <rect
+                className="gantt-native-resize-handle"
+                data-testid="gantt-native-resize-handle"
+                x={x + barWidth - RESIZE_HANDLE_WIDTH / 2}
+                y={bar.y}
+                width={RESIZE_HANDLE_WIDTH}
+                height={bar.height}
+                fill="transparent"
+                style={{ cursor: "ew-resize" }}
+                onMouseDown={(event) => startDrag(event, bar.id, "resize")}
+              />
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default NativeGanttChart;
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import mermaid from "mermaid";
+import { SourceEditor } from "./SourceEditor";
+import { GanttData } from "../types";
+
+// Mock mermaid module
+jest.mock("mermaid", () => ({
+  initialize: jest.fn(),
+  render: jest.fn(),
+}));
+
+const mockMermaid = mermaid as jest.Mocked<typeof mermaid>;
+
+const initialData: GanttData = {
+  config: { dateFormat: "YYYY-MM-DD" },
+  sections: [
+    {
+      name: "Build",
+      tasks: [
+        { id: "design", name: "Design", start: "2024-01-01", duration: "3d" },
+        { id: "code", name: "Code", start: "", duration: "5d", after: "design" },
+      ],
+    },
+  ],
+};
+
+/**
+ * Renders the editor with its own state and reports every change.
+ */
+function renderEditor(data: GanttData = initialData) {
+  const changes: GanttData[] = [];
+  let replaceData: (data: GanttData) => void = () => undefined;
+  function Harness(): JSX.Element {
+    const [current, setCurrent] = useState(data);
+    replaceData = setCurrent;
+    return (
+      <SourceEditor
+        data={current}
+        onChange={(next) => {
+          changes.push(next);
+          setCurrent(next);
+        }}
+      />
+    );
+  }
+  render(<Harness />);
+  return { changes, replaceData: (next: GanttData) => replaceData(next) };
+}
+
+/**
+ * Returns the diagnostic shown beside a line of the visible source.
+ */
+function diagnosticAt(line: number): Element | null {
+  return document.querySelector(`.source-editor-diagnostic[data-line="${line}"]`);
+}
+
+describe("SourceEditor Component", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockMermaid.render.mockResolvedValue({
+      svg: "<svg>Gantt</svg>",
+      bindFunctions: jest.fn(),
+    });
+  });
+
+  it("shows the data as JSON and renders the generated syntax", async () => {
+    renderEditor();
+
+    expect(screen.getByLabelText("JSON source")).toHaveValue(
+      JSON.stringify(initialData, null, 2)
+    );
+    await waitFor(() => {
+      expect(mockMermaid.render).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.stringContaining("section Build")
+      );
+    });
+  });
+
+  it("passes valid edits to onChange", () => {
+    const { changes } = renderEditor();
+    const edited = JSON.stringify(initialData, null, 2).replace(
+      '"name": "Code"',
+      '"name": "Implement"'
+    );
+
+    fireEvent.change(screen.getByLabelText("JSON source"), {
+      target: { value: edited },
+    });
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].sections[0].tasks[1].name).toBe("Implement");
+  });
+
+  it("shows problems beside the line they belong to", () => {
+    const { changes } = renderEditor();
+    const source = screen.getByLabelText("JSON source");
+    const text = JSON.stringify(initialData, null, 2);
+    const afterLine =
+      text.split("\n").findIndex((line) => line.includes('"after"')) + 1;
+
+    fireEvent.change(source, {
+      target: { value: text.replace('"after": "design"', '"after": "nope"') },
+    });
+    expect(diagnosticAt(afterLine)).toHaveTextContent(
+      `Line ${afterLine}: Task "code" depends on non-existent task: "nope"`
+    );
+    expect(source).toHaveAttribute("aria-invalid", "true");
+
+    fireEvent.change(source, { target: { value: '{\n  "sections": ]\n}' } });
+    expect(diagnosticAt(2)).toHaveTextContent(/^Line 2, column 15: /);
+    expect(
+      screen.getByText("2", { selector: ".source-editor-gutter--error" })
+    ).toBeInTheDocument();
+
+    expect(changes).toHaveLength(0);
+  });
+
+  it("edits the chart as Mermaid text", async () => {
+    const { changes } = renderEditor();
+
+    fireEvent.click(screen.getByRole("tab", { name: "Mermaid" }));
+    const source = screen.getByLabelText("Mermaid source") as HTMLTextAreaElement;
+    expect(source.value).toContain("section Build");
+
+    const text = source.value;
+    fireEvent.change(source, {
+      target: { value: `${text}\n    Test : test, after code, 2d` },
+    });
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].sections[0].tasks[2]).toEqual(
+      expect.objectContaining({ id: "test", after: "code" })
+    );
+    await waitFor(() => {
+      expect(mockMermaid.render).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.stringContaining("Test : test")
+      );
+    });
+  });
+
+  it("shows Mermaid render errors on the line Mermaid reports", async () => {
+    mockMermaid.render.mockRejectedValue(
+      new Error("Parse error on line 3:\n...\nExpecting 'taskData'")
+    );
+    renderEditor();
+
+    fireEvent.click(screen.getByRole("tab", { name: "Generated" }));
+    expect(screen.getByLabelText("Generated Mermaid syntax")).toHaveAttribute(
+      "readonly"
+    );
+
+    await waitFor(() => {
+      expect(diagnosticAt(3)).toHaveTextContent(/^Line 3: Parse error on line 3/);
+    });
+  });
+
+  it("replaces the text when the data changes elsewhere", () => {
+    const { replaceData } = renderEditor();
+
+    act(() =>
+      replaceData({
+        sections: [
+          {
+            name: "Other",
+            tasks: [
+              { id: "x", name: "X", start: "2024-02-01", duration: "1d" },
+            ],
+          },
+        ],
+      })
+    );
+
+    expect(
+      (screen.getByLabelText("JSON source") as HTMLTextAreaElement).value
+    ).toContain('"name": "Other"');
+  });
+});
@@ -0,0 +1,287 @@
+import { useEffect, useId, useMemo, useRef, useState } from "react";
+import {
+  GanttData,
+  SourceDiagnostic,
+  SourceEditorProps,
+  SourceFormat,
+} from "../types";
+import {
+  analyzeJsonSource,
+  analyzeMermaidSource,
+  convertToMermaidSyntax,
+  renderErrorDiagnostic,
+} from "../utils";
+import { Mermaid } from "./Mermaid";
+
+/**
+ * Line height of the source text, in pixels. Diagnostics are positioned
+ * on their line with it, so it is set inline rather than in CSS.
+ */
+const LINE_HEIGHT = 20;
+
+/**
+ * Padding above the first line of the source text, in pixels.
+ */
+const PADDING_TOP = 8;
+
+/**
+ * Tabs of the source pane: the two editable formats and the read-only
+ * Mermaid syntax generated from the data.
+ */
+type SourceTab = SourceFormat | "generated";
+
+const TABS: { value: SourceTab; label: string }[] = [
+  { value: "json", label: "JSON" },
+  { value: "mermaid", label: "Mermaid" },
+  { value: "generated", label: "Generated" },
+];
+
+/**
+ * Writes chart data in an editable format.
+ */
+function sourceText(data: GanttData, format: SourceFormat): string {
+  return format === "json"
+    ? JSON.stringify(data, null, 2)
+    : convertToMermaidSyntax(data).syntax ?? "gantt";
+}
+
+/**
+ * Parses and validates source text in an editable format.
+ */
+function analyze(text: string, format: SourceFormat) {
+  return format === "json"
+    ? analyzeJsonSource(text)
+    : analyzeMermaidSource(text);
+}
+
+/**
+ * Props for the text area of one tab.
+ */
+interface SourceCodeProps {
+  id: string;
+  label: string;
+  text: string;
+  diagnostics: SourceDiagnostic[];
+  onChange?: (text: string) => void;
+}
+
+/**
+ * A text area with line numbers and each diagnostic shown beside the line
+ * it belongs to. Lines with an error or warning are marked in the gutter.
+ */
+function SourceCode({
+  id,
+  label,
+  text,
+  diagnostics,
+  onChange,
+}: SourceCodeProps): JSX.Element {
+  const [scrollTop, setScrollTop] = useState(0);
+  const lineCount = text.split("\n").length;
+
+  const byLine = new Map<number, SourceDiagnostic[]>();
+  for (const diagnostic of diagnostics) {
+    const line = Math.min(Math.max(diagnostic.line, 1), lineCount);
+    byLine.set(line, [...(byLine.get(line) ?? []), diagnostic]);
+  }
+  const lines = Array.from(byLine.keys()).sort((a, b) => a - b);
+  const severityAt = (line: number) =>
+    byLine.get(line)?.some((diagnostic) => diagnostic.severity === "error")
+      ? "error"
+      : "warning";
+  const diagnosticsId = `${id}-diagnostics`;
+
+  return (
+    <div className="source-editor-code">
+      <ol
+        className="source-editor-gutter"
+        aria-hidden="true"
+        style={{
+          lineHeight: `${LINE_HEIGHT}px`,
+          paddingTop: PADDING_TOP,
+          transform: `translateY(${-scrollTop}px)`,
+        }}
+      >
+        {Array.from({ length: lineCount }, (_, index) => (
+          <li
+            key={index}
+            className={
+              byLine.has(index + 1)
+                ? `source-editor-gutter--${severityAt(index + 1)}`
+                : undefined
+            }
+          >
+            {index + 1}
+          </li>
+        ))}
+      </ol>
+      <textarea
+        id={id}
+        aria-label={label}
+        value={text}
+        readOnly={!onChange}
+        spellCheck={false}
+        wrap="off"
+        aria-invalid={lines.some((line) => severityAt(line) === "error")}
+        aria-describedby={lines.length > 0 ? diagnosticsId : undefined}
+        style={{ lineHeight: `${LINE_HEIGHT}px`, paddingTop: PADDING_TOP }}
+        onChange={(event) => onChange?.(event.target.value)}
+        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+      />
+      {lines.length > 0 && (
+        <ul className="source-editor-diagnostics" id={diagnosticsId}>
+          {lines.map((line) => (
+            <li
+              key={line}
+              className={`source-editor-diagnostic source-editor-diagnostic--${severityAt(line)}`}
+              data-line={line}
+              style={{
+                top: PADDING_TOP + (line - 1) * LINE_HEIGHT - scrollTop,
+              }}
+            >
+              {byLine.get(line)!.map((diagnostic, index) => (
+                <span key={index} data-code={diagnostic.code}>
+                  {diagnostic.column
+                    ? `Line ${line}, column ${diagnostic.column}: `
+                    : `Line ${line}: `}
+                  {diagnostic.message}
+                </span>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Split-view source editor: chart data as editable JSON or Mermaid text on
+ * one side and the rendered chart on the other. A third tab shows the
+ * Mermaid syntax generated from the data.
+ *
+ * Problems are shown beside the line they belong to: syntax errors where
+ * parsing stopped, validation issues on the line of the offending field,
+ * section or task, and Mermaid render errors on the line Mermaid reports.
+ * In the JSON tab the chart is rendered from the generated syntax, so
+ * render errors appear in the Generated tab; in the Mermaid tab the text
+ * is rendered as written.
+ *
+ * The component is controlled: whenever the text is valid it is passed to
+ * `onChange` as new GanttData. While the text has errors the chart keeps
+ * showing the last valid data. Switching between JSON and Mermaid rewrites
+ * the text from the last valid data.
+ *
+ * @example
+ * ```tsx
+ * const [data, setData] = useState(initialData);
+ *
+ * <SourceEditor data={data} onChange={setData} />
+ * ```
+ */
+export function SourceEditor({
+  data,
+  onChange,
+  className = "",
+}: SourceEditorProps): JSX.Element {
+  const idPrefix = `source-editor-${useId().replace(/:/g, "")}`;
+  const [tab, setTab] = useState<SourceTab>("json");
+  const [format, setFormat] = useState<SourceFormat>("json");
+  const [text, setText] = useState(() => sourceText(data, "json"));
+  const [renderError, setRenderError] = useState<{
+    chart: string;
+    message: string;
+  } | null>(null);
+
+  // Data changed by the parent (rather than echoed back from onChange)
+  // replaces the text
+  const emitted = useRef(data);
+  useEffect(() => {
+    if (data !== emitted.current) {
+      emitted.current = data;
+      setText(sourceText(data, format));
+    }
+  }, [data, format]);
+
+  const analysis = useMemo(() => analyze(text, format), [text, format]);
+  const generated = useMemo(
+    () => convertToMermaidSyntax(data).syntax ?? "",
+    [data]
+  );
+  const chart = format === "mermaid" ? text : generated;
+  const renderDiagnostics =
+    renderError && renderError.chart === chart
+      ? [renderErrorDiagnostic(renderError.message)]
+      : [];
+
+  const handleTextChange = (next: string) => {
+    setText(next);
+    const result = analyze(next, format);
+    if (result.data && result.syntax !== undefined) {
+      emitted.current = result.data;
+      onChange(result.data, { label: "Edit source", group: "source" });
+    }
+  };
+
+  const selectTab = (next: SourceTab) => {
+    setTab(next);
+    if (next !== "generated" && next !== format) {
+      setFormat(next);
+      setText(sourceText(data, next));
+    }
+  };
+
+  const tabId = (value: SourceTab) => `${idPrefix}-tab-${value}`;
+  const panelId = `${idPrefix}-panel`;
+
+  return (
+    <div className={`source-editor ${className}`}>
+      <div className="source-editor-pane">
+        <div className="source-editor-tabs" role="tablist" aria-label="Source">
+          {TABS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              role="tab"
+              id={tabId(value)}
+              aria-selected={tab === value}
+              aria-controls={panelId}
+              onClick={() => selectTab(value)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div role="tabpanel" id={panelId} aria-labelledby={tabId(tab)}>
+          {tab === "generated" ? (
+            <SourceCode
+              id={`${idPrefix}-generated`}
+              label="Generated Mermaid syntax"
+              text={generated}
+              diagnostics={format === "json" ? renderDiagnostics : []}
+            />
+          ) : (
+            <SourceCode
+              id={`${idPrefix}-${format}`}
+              label={format === "json" ? "JSON source" : "Mermaid source"}
+              text={text}
+              diagnostics={[
+                ...analysis.diagnostics,
+                ...(format === "mermaid" ? renderDiagnostics : []),
+              ]}
+              onChange={handleTextChange}
+            />
+          )}
+        </div>
+      </div>
+      <div className="source-editor-preview">
+        <Mermaid
+          chart={chart}
+          onError={(message) => setRenderError({ chart, message })}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default SourceEditor;
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import { WorkloadView } from "./WorkloadView";
+import { GanttData } from "../types";
+
+describe("WorkloadView Component", () => {
+  const data: GanttData = {
+    resources: [
+      { id: "ada", name: "Ada" },
+      { id: "grace", name: "Grace" },
+    ],
+    sections: [
+      {
+        name: "Work",
+        tasks: [
+          {
+            id: "build",
+            name: "Build",
+            start: "2024-01-01",
+            duration: { value: 2, unit: "d" },
+            assignees: [{ resourceId: "ada" }],
+          },
+          {
+            id: "docs",
+            name: "Docs",
+            start: "2024-01-02",
+            duration: { value: 1, unit: "d" },
+            assignees: [
+              { resourceId: "ada", allocation: 50 },
+              { resourceId: "grace", allocation: 50 },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  it("shows each resource's load per day", () => {
+    render(<WorkloadView data={data} />);
+
+    expect(
+      screen.getAllByRole("columnheader").map((cell) => cell.textContent)
+    ).toEqual(["Resource", "Jan 01", "Jan 02"]);
+    const ada = within(screen.getByRole("row", { name: /^Ada/ }));
+    expect(
+      ada.getAllByRole("cell").map((cell) => cell.textContent)
+    ).toEqual(["100%", "150%"]);
+    expect(ada.getByText("150%")).toHaveClass("workload-view-cell--over");
+    expect(ada.getByText("150%")).toHaveAttribute("title", "Build, Docs");
+  });
+
+  it("lists the resources booked above 100%", () => {
+    render(<WorkloadView data={data} />);
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "Booked above 100%: Ada (1 day, up to 150%)"
+    );
+  });
+
+  it("levels resources and lists the tasks that moved", () => {
+    const onChange = jest.fn();
+    function Harness(): JSX.Element {
+      const [current, setCurrent] = useState(data);
+      return (
+        <WorkloadView
+          data={current}
+          onChange={(next) => {
+            onChange(next);
+            setCurrent(next);
+          }}
+        />
+      );
+    }
+    render(<Harness />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Level resources" }));
+
+    expect(onChange.mock.calls[0][0].sections[0].tasks[1].start).toBe(
+      "2024-01-03"
+    );
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "No one is booked above 100%."
+    );
+    expect(
+      screen.getByRole("button", { name: "Level resources" })
+    ).toBeDisabled();
+    expect(
+      within(screen.getByRole("list", { name: "Moved tasks" })).getByRole(
+        "listitem"
+      )
+    ).toHaveTextContent(
+      'Docs: Jan 02 to Jan 03. Ada is booked at 150% on 2024-01-02; moved to 2024-01-03, after "build" ends.'
+    );
+  });
+
+  it("has no levelling button without onChange", () => {
+    render(<WorkloadView data={data} />);
+    expect(screen.queryByRole("button")).toBeNull();
+  });
+
+  it("explains how to add resources when there are none", () => {
+    render(<WorkloadView data={{ ...data, resources: undefined }} />);
+    expect(screen.getByText(/The chart has no resources/)).toBeInTheDocument();
+  });
+
+  it("shows the schedule error for invalid data", () => {
+    render(<WorkloadView data={{ sections: [] }} />);
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Error analyzing workload:"
+    );
+  });
+});
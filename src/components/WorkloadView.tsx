@@ -0,0 +1,187 @@
+import { useMemo, useState } from "react";
+import { LevelingResult, WorkloadViewProps } from "../types";
+import {
+  analyzeWorkload,
+  formatAxisDate,
+  isExcludedDate,
+  levelResources,
+} from "../utils";
+
+/**
+ * Table of how busy each of the chart's resources is, one row per resource
+ * and one column per day of the schedule.
+ *
+ * Each cell shows the resource's load that day as computed by
+ * analyzeWorkload, with the tasks behind it in its tooltip. Days above
+ * 100% are highlighted, and the resources booked above 100% on any day are
+ * listed above the table.
+ *
+ * With `onChange`, a Level resources button delays tasks with
+ * levelResources until no one is over-allocated, and lists the tasks that
+ * moved and why.
+ *
+ * @example
+ * ```tsx
+ * <WorkloadView data={data} onChange={setData} />
+ * ```
+ */
+export function WorkloadView({
+  data,
+  onChange,
+  className = "",
+}: WorkloadViewProps): JSX.Element {
+  const result = useMemo(() => analyzeWorkload(data), [data]);
+  const [leveling, setLeveling] = useState<LevelingResult | null>(null);
+  // The report belongs to the data it produced and goes once that changes
+  const report = leveling && leveling.data === data ? leveling : null;
+
+  if (!result.success) {
+    return (
+      <div
+        className={`workload-view-error ${className}`}
+        role="alert"
+        aria-live="polite"
+      >
+        <p>Error analyzing workload:</p>
+        <p>{result.error}</p>
+      </div>
+    );
+  }
+
+  const resources = result.resources!;
+  if (resources.length === 0) {
+    return (
+      <p className={`workload-view workload-view-empty ${className}`}>
+        The chart has no resources. Add people to the chart's resources and
+        assign them to tasks to see their workload.
+      </p>
+    );
+  }
+
+  const config = data.config ?? {};
+  const taskNames = new Map(
+    data.sections.flatMap((section) =>
+      section.tasks.map((task): [string, string] => [
+        task.id,
+        task.name || task.id,
+      ])
+    )
+  );
+  const taskLabel = (id: string) => taskNames.get(id) ?? id;
+  const level = () => {
+    const levelled = levelResources(data);
+    if (levelled.success) {
+      setLeveling(levelled);
+      onChange!(levelled.data!, { label: "Level resources" });
+    }
+  };
+  const overallocated = resources
+    .filter((resource) => resource.isOverallocated)
+    .map((resource) => {
+      const days = resource.days.filter((day) => day.isOverallocated).length;
+      const unit = days === 1 ? "day" : "days";
+      return `${resource.name} (${days} ${unit}, up to ${resource.peakLoad}%)`;
+    });
+
+  return (
+    <div className={`workload-view ${className}`}>
+      <p className="workload-view-summary" role="status">
+        {overallocated.length === 0
+          ? "No one is booked above 100%."
+          : `Booked above 100%: ${overallocated.join(", ")}`}
+      </p>
+      {onChange && (
+        <button
+          type="button"
+          disabled={overallocated.length === 0}
+          onClick={level}
+        >
+          Level resources
+        </button>
+      )}
+      {report && (
+        <div className="workload-view-leveling">
+          {report.changes!.length === 0 ? (
+            <p>No task could be moved.</p>
+          ) : (
+            <ul aria-label="Moved tasks">
+              {report.changes!.map((change) => (
+                <li key={change.taskId}>
+                  {taskLabel(change.taskId)}:{" "}
+                  {formatAxisDate(change.previousStart, "%b %d")} to{" "}
+                  {formatAxisDate(change.start, "%b %d")}.{" "}
+                  {change.reasons.join(". ")}.
+                </li>
+              ))}
+            </ul>
+          )}
+          {report.unresolved!.length > 0 && (
+            <p>
+              {report.unresolved!.length}{" "}
+              {report.unresolved!.length === 1
+                ? "over-allocation remains"
+                : "over-allocations remain"}{" "}
+              because none of the tasks involved can be moved.
+            </p>
+          )}
+        </div>
+      )}
+      <div className="workload-view-scroll">
+        <table className="workload-view-table">
+          <caption>Workload</caption>
+          <thead>
+            <tr>
+              <th scope="col">Resource</th>
+              {result.days!.map((day) => (
+                <th
+                  key={day.getTime()}
+                  scope="col"
+                  className={
+                    isExcludedDate(day, config)
+                      ? "workload-view-day--excluded"
+                      : undefined
+                  }
+                >
+                  {formatAxisDate(day, "%b %d")}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {resources.map((resource) => (
+              <tr
+                key={resource.id}
+                className={
+                  resource.isOverallocated
+                    ? "workload-view-resource--over"
+                    : undefined
+                }
+              >
+                <th scope="row">{resource.name}</th>
+                {resource.days.map((day) => (
+                  <td
+                    key={day.date.getTime()}
+                    className={[
+                      "workload-view-cell",
+                      day.isOverallocated ? "workload-view-cell--over" : "",
+                      isExcludedDate(day.date, config)
+                        ? "workload-view-day--excluded"
+                        : "",
+                    ]
+                      .filter(Boolean)
+                      .join(" ")}
+                    title={day.taskIds.map(taskLabel).join(", ")}
+                  >
+                    {day.load > 0 ? `${day.load}%` : ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default WorkloadView;
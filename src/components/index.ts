@@ -1,2 +1,10 @@
 export { Mermaid } from "./Mermaid";
 export { GanttChart } from "./GanttChart";
+export { NativeGanttChart } from "./NativeGanttChart";
+export { GanttEditor } from "./GanttEditor";
+export { SourceEditor } from "./SourceEditor";
+export { DocumentManager } from "./DocumentManager";
+export { ChartExportToolbar } from "./ChartExportToolbar";
+export { CsvImporter } from "./CsvImporter";
+export { WorkloadView } from "./WorkloadView";
+export { BaselineManager } from "./BaselineManager";
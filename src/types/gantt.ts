@@ -39,24 +39,63 @@ export interface GanttTask {
   name: string;
 
   /**
-   * Start date in ISO format (YYYY-MM-DD) or relative reference.
+   * Start date in the chart's dateFormat (YYYY-MM-DD by default) or
+   * relative reference.
    * Can be:
-   * - An ISO date string: "2024-01-15"
+   * - A date string: "2024-01-15", or "2024-01-15 09:30" with a time format
    * - "after" + task ID reference: "after task1" (starts after task1 ends)
    */
   start: string;
 
   /**
    * Duration of the task.
-   * Either a Duration object or end date string.
+   * Either a Duration object, a duration string (e.g., "5d") or an end date
+   * in the chart's dateFormat.
    */
   duration: Duration | string;
 
   /** Optional status indicators */
   status?: TaskStatus[];
 
-  /** Optional dependency - task ID that this task depends on */
-  after?: string;
+  /**
+   * Optional percentage of the work that is complete, from 0 to 100.
+   * A task at 100 counts as `done` even without that status.
+   */
+  progress?: number;
+
+  /** Optional people or teams doing the work, from the chart's resources */
+  assignees?: TaskAssignment[];
+
+  /**
+   * Optional dependency - ID of the task this task starts after.
+   * Pass several IDs to start when the latest of them ends.
+   */
+  after?: string | string[];
+}
+
+/**
+ * A person or team that tasks can be assigned to.
+ */
+export interface GanttResource {
+  /** Unique identifier, referenced by task assignments */
+  id: string;
+
+  /** Display name */
+  name: string;
+}
+
+/**
+ * Assignment of a resource to a task.
+ */
+export interface TaskAssignment {
+  /** ID of the assigned resource */
+  resourceId: string;
+
+  /**
+   * Share of the resource's time the task takes while it runs, as a
+   * percentage (defaults to 100)
+   */
+  allocation?: number;
 }
 
 /**
@@ -72,12 +111,18 @@ export interface GanttSection {
 
 /**
  * Date format options for Mermaid Gantt charts.
+ * Formats with "HH:mm" include a time of day, for tasks measured in
+ * hours or minutes.
  */
 export type DateFormat =
   | "YYYY-MM-DD"
   | "DD-MM-YYYY"
   | "MM-DD-YYYY"
-  | "YYYY/MM/DD";
+  | "YYYY/MM/DD"
+  | "YYYY-MM-DD HH:mm"
+  | "DD-MM-YYYY HH:mm"
+  | "MM-DD-YYYY HH:mm"
+  | "YYYY/MM/DD HH:mm";
 
 /**
  * Days of the week that can be excluded from the chart.
@@ -104,13 +149,29 @@ export interface GanttConfig {
   /** Days to exclude from the chart (e.g., weekends) */
   excludes?: WeekDay[];
 
-  /** Specific dates to exclude (holidays, etc.) in ISO format */
+  /**
+   * Specific dates to exclude (holidays, etc.) in ISO format.
+   * Emitted in the `excludes` directive using the chart's dateFormat.
+   */
   excludeDates?: string[];
 
-  /** Enable click interactions on tasks */
+  /**
+   * Specific dates in ISO format to keep even if `excludes` would skip them
+   * (e.g., a working Saturday).
+   */
+  includes?: string[];
+
+  /**
+   * Enable click interactions on tasks.
+   * Clicks are enabled whenever `onTaskClick` is provided; set this to
+   * `false` to turn them off for a particular chart.
+   */
   enableClick?: boolean;
 
-  /** Display mode: compact reduces vertical spacing */
+  /**
+   * Display mode: compact reduces vertical spacing by placing
+   * non-overlapping tasks of a section on the same row.
+   */
   displayMode?: "default" | "compact";
 
   /** Axis format for the timeline */
@@ -118,6 +179,18 @@ export interface GanttConfig {
 
   /** Tick interval for the timeline axis */
   tickInterval?: string;
+
+  /** Day that weeks start on, used for week-based tick intervals */
+  weekday?: WeekDay;
+
+  /** Show the timeline axis at the top of the chart as well as the bottom */
+  topAxis?: boolean;
+
+  /**
+   * Today marker: "off" hides it, any other value is used as its CSS style
+   * (e.g., "stroke-width:5px,stroke:#0f0").
+   */
+  todayMarker?: string;
 }
 
 /**
@@ -130,6 +203,55 @@ export interface GanttData {
 
   /** Sections containing tasks */
   sections: GanttSection[];
+
+  /**
+   * People and teams tasks can be assigned to. Not part of Mermaid syntax,
+   * so only kept in the JSON form of a chart.
+   */
+  resources?: GanttResource[];
+
+  /**
+   * Snapshots of the schedule to compare the current plan against. Like
+   * resources, they are only kept in the JSON form of a chart.
+   */
+  baselines?: GanttBaseline[];
+}
+
+/**
+ * A task's dates as recorded in a baseline.
+ */
+export interface BaselineTask {
+  /** ID of the task */
+  id: string;
+
+  /** Display name of the task */
+  name: string;
+
+  /** Name of the section containing the task */
+  sectionName: string;
+
+  /** Start, in local time as "YYYY-MM-DD HH:mm" */
+  start: string;
+
+  /** End (exclusive), in local time as "YYYY-MM-DD HH:mm" */
+  end: string;
+
+  /** Whether the task is a milestone */
+  isMilestone: boolean;
+}
+
+/**
+ * A named snapshot of a chart's resolved schedule.
+ */
+export interface GanttBaseline {
+  /** Name of the baseline, unique within the chart */
+  name: string;
+
+  /** When the baseline was taken, as an ISO 8601 timestamp */
+  createdAt: string;
+
+  /** Every task of the chart, in chart order */
+  tasks: BaselineTask[];
 }
 
 /**
@@ -142,8 +264,242 @@ export interface GanttChartProps {
   /** Optional CSS class name */
   className?: string;
 
-  /** Optional callback when a task is clicked */
+  /** Optional callback when a task bar or label is clicked, with the task ID */
+  onTaskClick?: (taskId: string) => void;
+
+  /** Automatically mark tasks on the critical path as `crit` */
+  autoCritical?: boolean;
+
+  /** How the chart is drawn (defaults to "mermaid") */
+  renderer?: GanttRenderer;
+
+  /**
+   * Optional callback with the updated data, and the command for the undo
+   * history, when a task bar is dragged to a new start or resized. Requires
+   * the native renderer.
+   */
+  onChange?: (data: GanttData, command: ChartCommand) => void;
+
+  /** Optional callback with the reason when a drag is refused */
+  onChangeRejected?: (error: string) => void;
+
+  /**
+   * Optional callback when a task bar starts being dragged, before any
+   * `onChange` it leads to (see NativeGanttChartProps.onDragStart)
+   */
+  onDragStart?: (taskId: string, mode: DragMode) => void;
+
+  /** Optional callback when a drag ends, after any `onChange` it led to */
+  onDragEnd?: (taskId: string, mode: DragMode) => void;
+
+  /**
+   * Optional baseline to draw as ghost bars below the current bars.
+   * Requires the native renderer.
+   */
+  baseline?: GanttBaseline;
+
+  /** Show buttons to export the rendered chart as SVG, PNG or PDF */
+  exportable?: boolean;
+
+  /** File name for exports, without extension (defaults to the title) */
+  exportFilename?: string;
+}
+
+/**
+ * Renderers available to GanttChart.
+ * - mermaid: Converts the data to Mermaid syntax and renders it with Mermaid
+ * - native: Draws the chart directly as React SVG elements
+ */
+export type GanttRenderer = "mermaid" | "native";
+
+/**
+ * What dragging a task bar changes: its start ("move") or its end
+ * ("resize").
+ */
+export type DragMode = "move" | "resize";
+
+/**
+ * Props for the NativeGanttChart component.
+ */
+export interface NativeGanttChartProps {
+  /** The Gantt chart data */
+  data: GanttData;
+
+  /** Optional CSS class name */
+  className?: string;
+
+  /** Optional callback when a task bar or label is clicked, with the task ID */
   onTaskClick?: (taskId: string) => void;
+
+  /** Chart width in pixels (defaults to 960) */
+  width?: number;
+
+  /**
+   * Optional callback when a task bar is dragged, with the task ID and its
+   * new start snapped to the chart's date format. Enables dragging.
+   */
+  onTaskMove?: (taskId: string, start: Date) => void;
+
+  /**
+   * Optional callback when a task bar's right edge is dragged, with the
+   * task ID and its new end. Enables resizing.
+   */
+  onTaskResize?: (taskId: string, end: Date) => void;
+
+  /**
+   * Optional callback when a task bar is pressed to be dragged or resized,
+   * so that the changes a drag leads to can be grouped (e.g., into one undo
+   * step)
+   */
+  onDragStart?: (taskId: string, mode: DragMode) => void;
+
+  /**
+   * Optional callback when the mouse is released after onDragStart, after
+   * onTaskMove or onTaskResize. Called even if the bar did not move.
+   */
+  onDragEnd?: (taskId: string, mode: DragMode) => void;
+
+  /** Optional baseline to draw as ghost bars below the current bars */
+  baseline?: GanttBaseline;
+}
+
+/**
+ * Props for the GanttEditor component.
+ */
+export interface GanttEditorProps {
+  /** The Gantt chart data to edit */
+  data: GanttData;
+
+  /** Called with the updated data and the command after every edit */
+  onChange: (data: GanttData, command: ChartCommand) => void;
+
+  /** Optional CSS class name */
+  className?: string;
+}
+
+/**
+ * Props for the SourceEditor component.
+ */
+export interface SourceEditorProps {
+  /** The Gantt chart data to edit */
+  data: GanttData;
+
+  /**
+   * Called with the updated data and the command whenever the source is
+   * valid
+   */
+  onChange: (data: GanttData, command: ChartCommand) => void;
+
+  /** Optional CSS class name */
+  className?: string;
+}
+
+/**
+ * Props for the DocumentManager component.
+ */
+export interface DocumentManagerProps {
+  /** The chart currently being edited, autosaved to the open document */
+  data: GanttData;
+
+  /**
+   * Called with a document's data when it is opened, with its undo
+   * history if one was saved with it, and with the document's ID
+   */
+  onOpen: (
+    data: GanttData,
+    history: SavedHistory | undefined,
+    id: string
+  ) => void;
+
+  /** Optional undo history of `data`, saved along with it */
+  history?: SavedHistory;
+
+  /** Data for documents created with the New button */
+  template: GanttData;
+
+  /** Milliseconds to wait after the last edit before saving (defaults to 1000) */
+  autosaveDelay?: number;
+
+  /** Where documents are stored (defaults to localStorage) */
+  storage?: Storage;
+
+  /** Optional CSS class name */
+  className?: string;
+}
+
+/**
+ * Props for the ChartExportToolbar component.
+ */
+export interface ChartExportToolbarProps {
+  /** Returns the rendered chart to export, or null if there is none */
+  getSvg: () => SVGSVGElement | null;
+
+  /** File name for exports, without extension */
+  filename: string;
+
+  /** Optional CSS class name */
+  className?: string;
+}
+
+/**
+ * Props for the CsvImporter component.
+ */
+export interface CsvImporterProps {
+  /** Config given to imported charts, which CSV files do not carry */
+  config?: GanttConfig;
+
+  /** Resources given to imported charts, which CSV files do not carry */
+  resources?: GanttResource[];
+
+  /**
+   * Called with the imported data and the command when the Import button
+   * is pressed
+   */
+  onImport: (data: GanttData, command: ChartCommand) => void;
+
+  /** Optional CSS class name */
+  className?: string;
+}
+
+/**
+ * Props for the WorkloadView component.
+ */
+export interface WorkloadViewProps {
+  /** The Gantt chart data, with resources and task assignments */
+  data: GanttData;
+
+  /**
+   * Optional callback with the levelled data and the command when the Level
+   * resources button is pressed. The button is only shown when this is
+   * given.
+   */
+  onChange?: (data: GanttData, command: ChartCommand) => void;
+
+  /** Optional CSS class name */
+  className?: string;
+}
+
+/**
+ * Props for the BaselineManager component.
+ */
+export interface BaselineManagerProps {
+  /** The Gantt chart data, whose `baselines` are managed */
+  data: GanttData;
+
+  /**
+   * Called with the updated data and the command when a baseline is saved
+   * or deleted
+   */
+  onChange: (data: GanttData, command: ChartCommand) => void;
+
+  /** Name of the baseline compared against, if any */
+  selected?: string;
+
+  /** Called with the name of the baseline to compare against, or undefined */
+  onSelect: (name: string | undefined) => void;
+
+  /** Optional CSS class name */
+  className?: string;
 }
 
 /**
@@ -158,6 +514,9 @@ export interface MermaidProps {
 
   /** Optional CSS class name */
   className?: string;
+
+  /** Optional callback with Mermaid's error message when rendering fails */
+  onError?: (message: string) => void;
 }
 
 /**
@@ -189,6 +548,73 @@ export interface MermaidConfig {
   logLevel?: "trace" | "debug" | "info" | "warn" | "error" | "fatal";
 }
 
+/**
+ * Stable codes identifying each kind of validation problem.
+ */
+export type ValidationCode =
+  | "MISSING_DATA"
+  | "NO_SECTIONS"
+  | "SECTION_MISSING_NAME"
+  | "SECTION_EMPTY"
+  | "INVALID_CONFIG_VALUE"
+  | "TASK_MISSING_ID"
+  | "INVALID_TASK_ID"
+  | "TASK_MISSING_NAME"
+  | "TASK_MISSING_START"
+  | "TASK_START_IGNORED"
+  | "INVALID_START_DATE"
+  | "TASK_MISSING_DURATION"
+  | "INVALID_DURATION_FORMAT"
+  | "INVALID_DURATION_VALUE"
+  | "INVALID_DURATION_UNIT"
+  | "INVALID_END_DATE"
+  | "END_BEFORE_START"
+  | "INVALID_PROGRESS"
+  | "INVALID_ALLOCATION"
+  | "DUPLICATE_TASK_ID"
+  | "UNKNOWN_DEPENDENCY"
+  | "CIRCULAR_DEPENDENCY"
+  | "DUPLICATE_RESOURCE_ID"
+  | "UNKNOWN_RESOURCE";
+
+/**
+ * Severity of a validation problem.
+ * - error: The chart cannot be rendered
+ * - warning: The chart renders, but probably not as intended
+ */
+export type ValidationSeverity = "error" | "warning";
+
+/**
+ * A single problem found while validating GanttData.
+ */
+export interface ValidationIssue {
+  /** Stable code identifying the kind of problem */
+  code: ValidationCode;
+
+  /** Whether the problem prevents rendering */
+  severity: ValidationSeverity;
+
+  /** Human-readable description */
+  message: string;
+
+  /** Path to the offending field (e.g., "sections[1].tasks[0].duration") */
+  path: string;
+
+  /** Index of the section the problem belongs to, if any */
+  sectionIndex?: number;
+
+  /** ID of the task the problem belongs to, if any */
+  taskId?: string;
+}
+
+/**
+ * Options for convertToMermaidSyntax.
+ */
+export interface ConversionOptions {
+  /** Tag every task on the critical path as `crit` (see markCriticalTasks) */
+  autoCritical?: boolean;
+}
+
 /**
  * Result of converting GanttData to Mermaid syntax.
  */
@@ -199,6 +625,1190 @@ export interface ConversionResult {
   /** The Mermaid syntax string (if successful) */
   syntax?: string;
 
+  /** First error message (if unsuccessful) */
+  error?: string;
+
+  /** Every validation error and warning found, if any */
+  issues?: ValidationIssue[];
+}
+
+/**
+ * Result of parseMermaidGanttSource.
+ */
+export interface ParsedMermaidSource {
+  /** The parsed Gantt data */
+  data: GanttData;
+
+  /**
+   * 1-based line of each config field, section and task, keyed by path
+   * (e.g. "config.title", "sections[0]", "sections[0].tasks[1]")
+   */
+  lines: Record<string, number>;
+}
+
+/**
+ * Text formats GanttData can be edited in.
+ * - json: GanttData as JSON
+ * - mermaid: Mermaid gantt syntax
+ */
+export type SourceFormat = "json" | "mermaid";
+
+/**
+ * A problem found in chart source text, placed on the line it belongs to.
+ */
+export interface SourceDiagnostic {
+  /** 1-based line the problem belongs to */
+  line: number;
+
+  /** 1-based column, when the problem has an exact position */
+  column?: number;
+
+  /** Whether the problem prevents rendering */
+  severity: ValidationSeverity;
+
+  /** Human-readable description */
+  message: string;
+
+  /** Validation code, for problems found by validation */
+  code?: ValidationCode;
+}
+
+/**
+ * Result of analyzing chart source text.
+ */
+export interface SourceAnalysis {
+  /** The parsed data, if the text could be read */
+  data?: GanttData;
+
+  /** Mermaid syntax generated from the data, if it is valid */
+  syntax?: string;
+
+  /** Every problem found, each on its line */
+  diagnostics: SourceDiagnostic[];
+}
+
+/**
+ * A task with concrete start and end times, as computed by resolveSchedule.
+ */
+export interface ResolvedTask {
+  /** ID of the task */
+  id: string;
+
+  /** Display name of the task */
+  name: string;
+
+  /** Name of the section containing the task */
+  sectionName: string;
+
+  /** Index of the section containing the task */
+  sectionIndex: number;
+
+  /** When the task starts */
+  start: Date;
+
+  /**
+   * When the task ends (exclusive).
+   * A 5 day task starting on 2024-01-01 ends at 2024-01-06 00:00.
+   */
+  end: Date;
+
+  /** Whether the task is a milestone */
+  isMilestone: boolean;
+}
+
+/**
+ * Result of resolving a GanttData schedule.
+ */
+export interface ScheduleResult {
+  /** Whether every task could be scheduled */
+  success: boolean;
+
+  /** Resolved tasks in chart order (if successful) */
+  tasks?: ResolvedTask[];
+
   /** Error message (if unsuccessful) */
   error?: string;
 }
+
+/**
+ * How busy a resource is on one day.
+ */
+export interface WorkloadDay {
+  /** Start of the day (local midnight) */
+  date: Date;
+
+  /**
+   * Highest total allocation, as a percentage, of the resource's tasks
+   * running at the same time during the day
+   */
+  load: number;
+
+  /** IDs of the resource's tasks running during the day, in chart order */
+  taskIds: string[];
+
+  /** Whether the load is above 100% */
+  isOverallocated: boolean;
+}
+
+/**
+ * Day-by-day workload of one resource.
+ */
+export interface ResourceWorkload {
+  /** ID of the resource */
+  id: string;
+
+  /** Display name of the resource */
+  name: string;
+
+  /** One entry per day of the schedule, matching WorkloadResult.days */
+  days: WorkloadDay[];
+
+  /** Highest load on any day, as a percentage */
+  peakLoad: number;
+
+  /** Whether the resource is above 100% on any day */
+  isOverallocated: boolean;
+}
+
+/**
+ * Result of analyzing the workload of a chart's resources.
+ */
+export interface WorkloadResult {
+  /** Whether the chart could be scheduled */
+  success: boolean;
+
+  /**
+   * Every day from the start of the first task to the end of the last
+   * (if successful)
+   */
+  days?: Date[];
+
+  /** Workload of each resource, in the order of GanttData.resources */
+  resources?: ResourceWorkload[];
+
+  /** Error message (if unsuccessful) */
+  error?: string;
+}
+
+/**
+ * A resource booked above 100% on one day.
+ */
+export interface WorkloadConflict {
+  /** ID of the over-allocated resource */
+  resourceId: string;
+
+  /** Start of the day (local midnight) */
+  date: Date;
+
+  /** The resource's load that day, as a percentage */
+  load: number;
+
+  /** IDs of the resource's tasks running that day */
+  taskIds: string[];
+}
+
+/**
+ * A task that resource levelling moved.
+ */
+export interface LevelingChange {
+  /** ID of the task */
+  taskId: string;
+
+  /** Start before levelling */
+  previousStart: Date;
+
+  /** End before levelling (exclusive) */
+  previousEnd: Date;
+
+  /** Start after levelling */
+  start: Date;
+
+  /** End after levelling (exclusive) */
+  end: Date;
+
+  /** Why the task moved, one entry per delay */
+  reasons: string[];
+}
+
+/**
+ * Result of levelling a chart's resources.
+ */
+export interface LevelingResult {
+  /** Whether the chart could be scheduled */
+  success: boolean;
+
+  /** The levelled chart (if successful) */
+  data?: GanttData;
+
+  /** Every task that moved, in chart order (if successful) */
+  changes?: LevelingChange[];
+
+  /**
+   * Over-allocations that remain because none of their tasks could be
+   * delayed (if successful)
+   */
+  unresolved?: WorkloadConflict[];
+
+  /** Error message (if unsuccessful) */
+  error?: string;
+}
+
+/**
+ * A baseline task with its dates read back.
+ */
+export interface ParsedBaselineTask extends BaselineTask {
+  /** Start in the baseline */
+  from: Date;
+
+  /** End in the baseline (exclusive) */
+  to: Date;
+}
+
+/**
+ * Result of taking a baseline.
+ */
+export interface BaselineResult {
+  /** Whether the baseline was taken */
+  success: boolean;
+
+  /** The baseline (if successful) */
+  baseline?: GanttBaseline;
+
+  /** Error message (if unsuccessful) */
+  error?: string;
+}
+
+/**
+ * How a task differs from its baseline.
+ * - added: The task is not in the baseline
+ * - removed: The task is only in the baseline
+ * - moved: The task starts or ends at a different time but takes as many
+ *   working days
+ * - rescoped: The task takes a different number of working days
+ * - unchanged: The task starts and ends as in the baseline
+ */
+export type VarianceKind =
+  | "added"
+  | "removed"
+  | "moved"
+  | "rescoped"
+  | "unchanged";
+
+/**
+ * Plan-vs-baseline figures for a single task.
+ */
+export interface TaskVariance {
+  /** ID of the task */
+  id: string;
+
+  /** Display name, from the current chart if the task is still in it */
+  name: string;
+
+  /** Name of the section containing the task */
+  sectionName: string;
+
+  /** How the task differs from the baseline */
+  kind: VarianceKind;
+
+  /** Start in the baseline (unless added) */
+  baselineStart?: Date;
+
+  /** End in the baseline, exclusive (unless added) */
+  baselineEnd?: Date;
+
+  /** Current start (unless removed) */
+  start?: Date;
+
+  /** Current end, exclusive (unless removed) */
+  end?: Date;
+
+  /**
+   * Working days the start moved, positive when it is later than in the
+   * baseline (for tasks in both)
+   */
+  startSlip?: number;
+
+  /**
+   * Working days the finish moved, positive when it is later than in the
+   * baseline (for tasks in both)
+   */
+  finishSlip?: number;
+
+  /**
+   * Working days the task got longer, negative when it got shorter (for
+   * tasks in both)
+   */
+  durationChange?: number;
+}
+
+/**
+ * Result of comparing a chart with a baseline.
+ */
+export interface VarianceResult {
+  /** Whether the chart could be scheduled */
+  success: boolean;
+
+  /**
+   * One entry per task: the chart's tasks in chart order, then the tasks
+   * removed since the baseline (if successful)
+   */
+  tasks?: TaskVariance[];
+
+  /** Error message (if unsuccessful) */
+  error?: string;
+}
+
+/**
+ * Critical path figures for a single task.
+ */
+export interface TaskFloat {
+  /** ID of the task */
+  id: string;
+
+  /** Earliest start, as scheduled */
+  earlyStart: Date;
+
+  /** Earliest finish, as scheduled */
+  earlyFinish: Date;
+
+  /** Latest start that does not delay the project */
+  lateStart: Date;
+
+  /** Latest finish that does not delay the project */
+  lateFinish: Date;
+
+  /** Total float (slack) in milliseconds */
+  totalFloat: number;
+
+  /** Whether the task has no float and so lies on a critical path */
+  isCritical: boolean;
+}
+
+/**
+ * Result of a critical path analysis.
+ */
+export interface CriticalPathResult {
+  /** Whether the analysis succeeded */
+  success: boolean;
+
+  /**
+   * IDs of the tasks along the critical chain, from first to last
+   * (if successful)
+   */
+  criticalPath?: string[];
+
+  /** Float figures for every task in chart order (if successful) */
+  tasks?: TaskFloat[];
+
+  /** Error message (if unsuccessful) */
+  error?: string;
+}
+
+/**
+ * Units accepted in a `tickInterval` (e.g., "1week").
+ */
+export type TickUnit =
+  | "millisecond"
+  | "second"
+  | "minute"
+  | "hour"
+  | "day"
+  | "week"
+  | "month";
+
+/**
+ * A parsed tick interval.
+ */
+export interface TickInterval {
+  /** Number of units between ticks */
+  value: number;
+
+  /** Unit of the interval */
+  unit: TickUnit;
+}
+
+/**
+ * A labelled tick on the time axis.
+ */
+export interface AxisTick {
+  /** Time of the tick */
+  date: Date;
+
+  /** Horizontal position in pixels */
+  x: number;
+
+  /** Label formatted with the chart's axisFormat */
+  label: string;
+}
+
+/**
+ * Position of a task bar in a native chart layout.
+ */
+export interface TaskBarLayout {
+  /** ID of the task */
+  id: string;
+
+  /** Display name of the task */
+  name: string;
+
+  /** Index of the section the task belongs to */
+  sectionIndex: number;
+
+  /** Row the bar is drawn on, counted from the top of the chart */
+  row: number;
+
+  /** Left edge in pixels */
+  x: number;
+
+  /** Top edge in pixels */
+  y: number;
+
+  /** Width in pixels (0 for milestones) */
+  width: number;
+
+  /** Height in pixels */
+  height: number;
+
+  /** Statuses of the task, including `done` derived from its progress */
+  status: TaskStatus[];
+
+  /** Percentage of the task that is complete, if it is tracked */
+  progress?: number;
+
+  /** Whether the task is drawn as a milestone */
+  isMilestone: boolean;
+
+  /** Resolved start time */
+  start: Date;
+
+  /** Resolved end time (exclusive) */
+  end: Date;
+
+  /** Ghost bar of the task's baseline dates, when laid out with a baseline */
+  baseline?: BaselineBarLayout;
+}
+
+/**
+ * Position of a task's baseline dates, drawn as a ghost bar below its bar.
+ */
+export interface BaselineBarLayout {
+  /** Left edge in pixels (the center for milestones) */
+  x: number;
+
+  /** Top edge in pixels */
+  y: number;
+
+  /** Width in pixels (0 for milestones) */
+  width: number;
+
+  /** Height in pixels */
+  height: number;
+
+  /** Start in the baseline */
+  start: Date;
+
+  /** End in the baseline (exclusive) */
+  end: Date;
+}
+
+/**
+ * Position of a section band in a native chart layout.
+ */
+export interface SectionLayout {
+  /** Section name */
+  name: string;
+
+  /** Index of the section in the chart */
+  index: number;
+
+  /** Top edge in pixels */
+  y: number;
+
+  /** Height in pixels */
+  height: number;
+}
+
+/**
+ * A dependency arrow from the end of one task to the start of another.
+ */
+export interface DependencyArrowLayout {
+  /** ID of the task depended on */
+  fromId: string;
+
+  /** ID of the dependent task */
+  toId: string;
+
+  /** SVG path data for the arrow */
+  path: string;
+}
+
+/**
+ * Sizes used when laying out a native chart, in pixels.
+ */
+export interface GanttLayoutOptions {
+  /** Total chart width */
+  width: number;
+
+  /** Height of a task bar */
+  barHeight: number;
+
+  /** Vertical gap between rows */
+  barGap: number;
+
+  /** Width reserved for section names on the left */
+  leftPadding: number;
+
+  /** Space to the right of the plot area */
+  rightPadding: number;
+
+  /** Space above the first row, including the title */
+  topPadding: number;
+
+  /** Height reserved for each time axis */
+  axisHeight: number;
+}
+
+/**
+ * Everything needed to draw a chart natively.
+ */
+export interface GanttLayout {
+  /** Total width in pixels */
+  width: number;
+
+  /** Total height in pixels */
+  height: number;
+
+  /** Left edge of the plot area in pixels */
+  plotLeft: number;
+
+  /** Right edge of the plot area in pixels */
+  plotRight: number;
+
+  /** Top edge of the first row in pixels */
+  plotTop: number;
+
+  /** Bottom edge of the last row in pixels */
+  plotBottom: number;
+
+  /** Start of the time range shown */
+  rangeStart: Date;
+
+  /** End of the time range shown */
+  rangeEnd: Date;
+
+  /** Section bands in chart order */
+  sections: SectionLayout[];
+
+  /** Task bars in chart order */
+  bars: TaskBarLayout[];
+
+  /** Dependency arrows */
+  arrows: DependencyArrowLayout[];
+
+  /** Time axis ticks */
+  ticks: AxisTick[];
+}
+
+/**
+ * Result of laying out a chart for the native renderer.
+ */
+export interface GanttLayoutResult {
+  /** Whether the chart could be laid out */
+  success: boolean;
+
+  /** The layout (if successful) */
+  layout?: GanttLayout;
+
+  /** Error message (if unsuccessful) */
+  error?: string;
+}
+
+/**
+ * Result of moving or resizing a task.
+ */
+export interface RescheduleResult {
+  /** Whether the change was applied */
+  success: boolean;
+
+  /** The updated Gantt data (if successful) */
+  data?: GanttData;
+
+  /** Why the change was refused (if unsuccessful) */
+  error?: string;
+}
+
+/**
+ * A named chart saved in the document store.
+ */
+export interface GanttDocument {
+  /** Unique document ID */
+  id: string;
+
+  /** Name shown in the document list */
+  name: string;
+
+  /** The saved chart */
+  data: GanttData;
+
+  /** When the document was last saved, as an ISO 8601 timestamp */
+  updatedAt: string;
+
+  /**
+   * Number of saves that changed the chart, starting at 0 when the
+   * document is created
+   */
+  revision: number;
+
+  /** Undo history of the chart, if it was saved with one */
+  history?: SavedHistory;
+}
+
+/**
+ * A document in the store's list, without its chart.
+ */
+export type GanttDocumentSummary = Omit<
+  GanttDocument,
+  "data" | "history" | "revision"
+>;
+
+/**
+ * A document as written to storage. The schema version lets documents saved
+ * by older versions be migrated when GanttData changes.
+ */
+export interface StoredGanttDocument {
+  /** Version of the stored format */
+  schemaVersion: number;
+
+  /** The saved document */
+  document: GanttDocument;
+}
+
+/**
+ * The list of stored documents, as written to storage.
+ */
+export interface StoredDocumentIndex {
+  /** Version of the stored format */
+  schemaVersion: number;
+
+  /** Every stored document */
+  documents: GanttDocumentSummary[];
+
+  /** ID of the document that was open last, if any */
+  lastOpenId?: string;
+}
+
+/**
+ * Result of reading or changing a stored document.
+ */
+export interface DocumentResult {
+  /** Whether the operation was successful */
+  success: boolean;
+
+  /** The document (if successful) */
+  document?: GanttDocument;
+
+  /** Error message (if unsuccessful) */
+  error?: string;
+}
+
+/**
+ * File formats a rendered chart can be exported to.
+ */
+export type ChartExportFormat = "svg" | "png" | "pdf";
+
+/**
+ * Options for exporting a chart as PNG.
+ */
+export interface PngExportOptions {
+  /** Pixels per SVG pixel (defaults to 2, or dpi / 96 when dpi is set) */
+  scale?: number;
+
+  /** Resolution recorded in the file (defaults to 96 × scale) */
+  dpi?: number;
+
+  /** Background colour (defaults to white) */
+  background?: string;
+}
+
+/**
+ * Paper sizes for PDF export.
+ */
+export type PdfPageSize = "a4" | "a3" | "letter" | "legal";
+
+/**
+ * Page orientation for PDF export.
+ */
+export type PdfOrientation = "portrait" | "landscape";
+
+/**
+ * Options for exporting a chart as PDF.
+ */
+export interface PdfExportOptions {
+  /** Paper size (defaults to "a4") */
+  pageSize?: PdfPageSize;
+
+  /** Page orientation (defaults to "landscape") */
+  orientation?: PdfOrientation;
+
+  /** Page margin in points (defaults to 36, half an inch) */
+  margin?: number;
+
+  /** Pixels per SVG pixel in the embedded images (defaults to 2) */
+  scale?: number;
+}
+
+/**
+ * The part of a chart image drawn on one PDF page.
+ */
+export interface PdfPageSlice {
+  /** Top of the slice in the image, in pixels */
+  sourceY: number;
+
+  /** Height of the slice in the image, in pixels */
+  sourceHeight: number;
+
+  /** Left edge of the slice on the page, in points */
+  x: number;
+
+  /** Bottom edge of the slice on the page, in points */
+  y: number;
+
+  /** Width of the slice on the page, in points */
+  width: number;
+
+  /** Height of the slice on the page, in points */
+  height: number;
+}
+
+/**
+ * How a chart image is split across PDF pages.
+ */
+export interface PdfPageLayout {
+  /** Page width in points */
+  pageWidth: number;
+
+  /** Page height in points */
+  pageHeight: number;
+
+  /** One slice per page, top of the chart first */
+  slices: PdfPageSlice[];
+}
+
+/**
+ * Result of exporting a chart.
+ */
+export interface ExportResult {
+  /** Whether the export was successful */
+  success: boolean;
+
+  /** The exported file (if successful) */
+  blob?: Blob;
+
+  /** Error message (if unsuccessful) */
+  error?: string;
+}
+
+/**
+ * Task fields that can be read from a CSV column.
+ * - dependsOn: IDs of the tasks the task starts after
+ */
+export type CsvField =
+  | "section"
+  | "id"
+  | "name"
+  | "start"
+  | "end"
+  | "duration"
+  | "status"
+  | "progress"
+  | "dependsOn"
+  | "assignees";
+
+/**
+ * Index of the CSV column each field is read from. Fields without a column
+ * are left empty.
+ */
+export type CsvColumnMapping = Partial<Record<CsvField, number>>;
+
+/**
+ * Options for importCsvTasks.
+ */
+export interface CsvImportOptions {
+  /** Columns to read each field from (defaults to matching the headers) */
+  mapping?: CsvColumnMapping;
+
+  /** Config for the imported chart; its dateFormat is used to read dates */
+  config?: GanttConfig;
+
+  /**
+   * Resources for the imported chart. Assignees that are not among them
+   * are added with their ID as their name.
+   */
+  resources?: GanttResource[];
+}
+
+/**
+ * A problem found in a row of an imported CSV file.
+ */
+export interface CsvRowError {
+  /** 1-based row in the file, counting the header (if the problem has one) */
+  row?: number;
+
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Result of importing tasks from CSV.
+ */
+export interface CsvImportResult {
+  /** Whether every row could be imported */
+  success: boolean;
+
+  /** The imported chart (if successful) */
+  data?: GanttData;
+
+  /** Headers of the file's columns */
+  headers: string[];
+
+  /** Columns the fields were read from */
+  mapping: CsvColumnMapping;
+
+  /** Every problem found, in row order */
+  errors: CsvRowError[];
+}
+
+/**
+ * Kinds of schedule information that an importer could not carry over.
+ * - LINK_TYPE: A start-to-start, finish-to-finish or start-to-finish link
+ * - LINK_LAG: A link with lead or lag time
+ * - SUMMARY_LINK: A link to or from a summary task
+ * - MISSING_LINK: A link to a task that is not in the file
+ * - NESTED_SUMMARY: A summary task inside another, flattened into a section
+ * - RESOURCES: Resources and their assignments to tasks
+ * - CALENDAR_EXCEPTIONS: Holidays and other exceptions in the calendar
+ */
+export type ImportWarningCode =
+  | "LINK_TYPE"
+  | "LINK_LAG"
+  | "SUMMARY_LINK"
+  | "MISSING_LINK"
+  | "NESTED_SUMMARY"
+  | "RESOURCES"
+  | "CALENDAR_EXCEPTIONS";
+
+/**
+ * Schedule information that was left out of an import.
+ */
+export interface ImportWarning {
+  /** Stable code identifying what was left out */
+  code: ImportWarningCode;
+
+  /** Human-readable description */
+  message: string;
+
+  /** Name of the task it belongs to, if any */
+  taskName?: string;
+}
+
+/**
+ * Result of importing a Microsoft Project XML file.
+ */
+export interface MspdiImportResult {
+  /** Whether the file was read and the chart passes validation */
+  success: boolean;
+
+  /** The imported chart (whenever the file could be read) */
+  data?: GanttData;
+
+  /**
+   * Why the file could not be read, or the first validation error of the
+   * imported chart (if unsuccessful)
+   */
+  error?: string;
+
+  /** Every validation error and warning of the imported chart */
+  issues?: ValidationIssue[];
+
+  /** Schedule information that could not be represented */
+  unsupported: ImportWarning[];
+}
+
+/**
+ * Options for exportIcs.
+ */
+export interface IcsExportOptions {
+  /**
+   * Domain part of event UIDs, "<task id>@<uidDomain>". Give each chart
+   * its own, one that stays the same when the chart is edited or renamed,
+   * such as its document ID, so re-exports update the same events
+   */
+  uidDomain: string;
+
+  /**
+   * Revision of the chart, written as each event's SEQUENCE; raise it
+   * whenever the chart changes (defaults to 0)
+   */
+  sequence?: number;
+
+  /** Time of the export, written as each event's DTSTAMP (defaults to now) */
+  timestamp?: Date;
+}
+
+/**
+ * Result of exporting a chart as iCalendar.
+ */
+export interface IcsExportResult {
+  /** Whether the export was successful */
+  success: boolean;
+
+  /** The iCalendar text (if successful) */
+  ics?: string;
+
+  /** Error message (if unsuccessful) */
+  error?: string;
+}
+
+/**
+ * A change to one field of a task, the chart config or the chart.
+ */
+export interface FieldChange<K extends string = string> {
+  /** Name of the field */
+  field: K;
+
+  /** Value before the change (undefined if the field was not set) */
+  before?: unknown;
+
+  /** Value after the change (undefined if the field was removed) */
+  after?: unknown;
+}
+
+/**
+ * How a section differs between two charts.
+ * - added: The section is only in the second chart
+ * - removed: The section is only in the first chart
+ * - renamed: The section has a different name in the second chart
+ */
+export type SectionChangeKind = "added" | "removed" | "renamed";
+
+/**
+ * A section added, removed or renamed between two charts.
+ */
+export interface SectionChange {
+  /** How the section changed */
+  kind: SectionChangeKind;
+
+  /** Name of the section, from the first chart if it was removed */
+  name: string;
+
+  /** Name in the first chart (if renamed) */
+  previousName?: string;
+
+  /** Index of the section, in the first chart if it was removed */
+  index: number;
+}
+
+/**
+ * How a task differs between two charts.
+ * - added: The task is only in the second chart
+ * - removed: The task is only in the first chart
+ * - changed: The task moved to another section or has changed fields
+ */
+export type TaskChangeKind = "added" | "removed" | "changed";
+
+/**
+ * A task added, removed or changed between two charts.
+ */
+export interface TaskChange {
+  /** ID of the task */
+  id: string;
+
+  /** How the task changed */
+  kind: TaskChangeKind;
+
+  /** Name of the task, from the first chart if it was removed */
+  name: string;
+
+  /** Name of the section containing the task (in the first chart if removed) */
+  section: string;
+
+  /** Name of the section the task was in, if it moved between sections */
+  previousSection?: string;
+
+  /** Fields with a different value (only for changed tasks) */
+  fields: FieldChange<keyof GanttTask>[];
+}
+
+/**
+ * Structural differences between two charts.
+ */
+export interface GanttDiff {
+  /**
+   * Sections added or renamed, in the second chart's order, then the
+   * removed ones
+   */
+  sections: SectionChange[];
+
+  /**
+   * Tasks added, removed or changed, matched by ID: the second chart's
+   * tasks in order, then the removed ones
+   */
+  tasks: TaskChange[];
+
+  /** Changed config fields */
+  config: FieldChange<keyof GanttConfig>[];
+
+  /** Other changed chart fields, such as `resources`, compared whole */
+  fields: FieldChange<Exclude<keyof GanttData, "sections" | "config">>[];
+}
+
+/**
+ * Kind of conflict found while merging.
+ * - edit: Both sides changed the same value differently
+ * - delete: One side removed something the other side changed
+ * - invalid: A combination of changes made the chart invalid
+ */
+export type MergeConflictKind = "edit" | "delete" | "invalid";
+
+/**
+ * A conflict found while merging, and how it was resolved.
+ */
+export interface MergeConflict {
+  /** Kind of conflict */
+  kind: MergeConflictKind;
+
+  /**
+   * Location in the merged chart, such as "sections[0].tasks[2].duration"
+   * or "config.title" (empty when the conflicting task was dropped)
+   */
+  path: string;
+
+  /** ID of the task involved, if any */
+  taskId?: string;
+
+  /** Value in the common ancestor */
+  base?: unknown;
+
+  /** Value on our side */
+  ours?: unknown;
+
+  /** Value on their side */
+  theirs?: unknown;
+
+  /** Which side's change was kept */
+  resolution: "ours" | "theirs";
+
+  /** Description of the conflict */
+  message: string;
+}
+
+/**
+ * Result of merging two versions of a chart.
+ */
+export interface MergeResult {
+  /** Whether the versions could be merged */
+  success: boolean;
+
+  /** The merged chart, which passes validation (if successful) */
+  data?: GanttData;
+
+  /** Conflicts found and how they were resolved (if successful) */
+  conflicts?: MergeConflict[];
+
+  /** Error message (if unsuccessful) */
+  error?: string;
+}
+
+/**
+ * One value changed in a chart, with what it was before and after so the
+ * change can be both undone and redone.
+ */
+export interface HistoryChange {
+  /** Keys and indexes leading to the value (e.g., ["sections", 0, "name"]) */
+  path: (string | number)[];
+
+  /**
+   * Set when items were removed from or inserted into the array at `path`:
+   * `before` holds the items removed at this index and `after` the items
+   * inserted in their place
+   */
+  index?: number;
+
+  /** The value before the change (missing if it was not set) */
+  before?: unknown;
+
+  /** The value after the change (missing if it was removed) */
+  after?: unknown;
+}
+
+/**
+ * A change in a chart's undo history.
+ */
+export interface HistoryEntry {
+  /** Label of the command that made the change */
+  label: string;
+
+  /** The values the change replaced, in the order they were changed */
+  changes: HistoryChange[];
+
+  /** Length of `changes` as JSON, counted towards the history's size */
+  size: number;
+
+  /** Group of the command that made the change (see ChartCommand) */
+  group?: string;
+
+  /** When the change was last recorded, in milliseconds since the epoch */
+  time: number;
+}
+
+/**
+ * Undo and redo history of a chart.
+ */
+export interface ChartHistory {
+  /** The current chart */
+  present: GanttData;
+
+  /** Changes that can be undone, oldest first */
+  past: HistoryEntry[];
+
+  /** Changes that can be redone, next first */
+  future: HistoryEntry[];
+
+  /**
+   * Largest total `size` of the entries kept; the oldest undo entries are
+   * dropped first
+   */
+  maxSize: number;
+
+  /**
+   * Open transaction, whose changes become a single entry when it is
+   * committed
+   */
+  transaction?: {
+    /** Label of the last command recorded during the transaction */
+    label?: string;
+
+    /** The chart when the transaction began */
+    data: GanttData;
+  };
+}
+
+/**
+ * Undo history as saved with a document, without the current chart.
+ */
+export type SavedHistory = Pick<ChartHistory, "past" | "future" | "maxSize">;
+
+/**
+ * A named edit of a chart, recorded in its undo history.
+ */
+export interface ChartCommand {
+  /** What the command did (e.g., 'Rename section "Design"') */
+  label: string;
+
+  /**
+   * Commands of the same group made in quick succession, such as typing in
+   * one field, are merged into one entry; commands without a group never
+   * are
+   */
+  group?: string;
+}
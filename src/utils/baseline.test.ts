@@ -0,0 +1,220 @@
+import {
+  compareToBaseline,
+  createBaseline,
+  removeBaseline,
+  saveBaseline,
+} from "./baseline";
+import { GanttData, GanttTask } from "../types";
+
+/**
+ * Wraps tasks in a chart that excludes weekends.
+ */
+function chart(tasks: GanttTask[]): GanttData {
+  return {
+    config: { excludes: ["saturday", "sunday"] },
+    sections: [{ name: "Work", tasks }],
+  };
+}
+
+/**
+ * Design runs Monday to Tuesday, build Wednesday to Friday and docs on
+ * Thursday, in the first week of 2024.
+ */
+const plan = chart([
+  {
+    id: "design",
+    name: "Design",
+    start: "2024-01-01",
+    duration: { value: 2, unit: "d" },
+  },
+  {
+    id: "build",
+    name: "Build",
+    start: "",
+    after: "design",
+    duration: { value: 3, unit: "d" },
+  },
+  {
+    id: "docs",
+    name: "Docs",
+    start: "2024-01-04",
+    duration: { value: 1, unit: "d" },
+  },
+]);
+
+const takenAt = new Date(Date.UTC(2024, 0, 1, 12));
+
+describe("baseline", () => {
+  describe("createBaseline", () => {
+    it("records every task's resolved dates", () => {
+      const result = createBaseline(plan, " Approved ", takenAt);
+
+      expect(result).toEqual({
+        success: true,
+        baseline: {
+          name: "Approved",
+          createdAt: "2024-01-01T12:00:00.000Z",
+          tasks: [
+            {
+              id: "design",
+              name: "Design",
+              sectionName: "Work",
+              start: "2024-01-01 00:00",
+              end: "2024-01-03 00:00",
+              isMilestone: false,
+            },
+            {
+              id: "build",
+              name: "Build",
+              sectionName: "Work",
+              start: "2024-01-03 00:00",
+              // Ends on Saturday, so pushed past the weekend
+              end: "2024-01-08 00:00",
+              isMilestone: false,
+            },
+            {
+              id: "docs",
+              name: "Docs",
+              sectionName: "Work",
+              start: "2024-01-04 00:00",
+              end: "2024-01-05 00:00",
+              isMilestone: false,
+            },
+          ],
+        },
+      });
+    });
+
+    it("requires a name", () => {
+      expect(createBaseline(plan, "  ")).toEqual({
+        success: false,
+        error: "Baseline name is required",
+      });
+    });
+
+    it("returns the schedule error for invalid data", () => {
+      expect(createBaseline({ sections: [] }, "Approved")).toEqual({
+        success: false,
+        error: "Gantt data must have at least one section",
+      });
+    });
+  });
+
+  describe("saveBaseline and removeBaseline", () => {
+    it("adds, replaces and removes baselines by name", () => {
+      const first = createBaseline(plan, "Q1", takenAt).baseline!;
+      const second = createBaseline(plan, "Q2", takenAt).baseline!;
+      const updated = { ...first, createdAt: "2024-02-01T00:00:00.000Z" };
+
+      const saved = saveBaseline(saveBaseline(plan, first), second);
+      expect(saved.baselines).toEqual([first, second]);
+      expect(saveBaseline(saved, updated).baselines).toEqual([
+        updated,
+        second,
+      ]);
+      expect(removeBaseline(saved, "Q1").baselines).toEqual([second]);
+      expect(plan.baselines).toBeUndefined();
+    });
+  });
+
+  describe("compareToBaseline", () => {
+    const baseline = createBaseline(plan, "Approved", takenAt).baseline!;
+
+    it("reports unchanged tasks with no slip", () => {
+      const result = compareToBaseline(plan, baseline);
+
+      expect(result.success).toBe(true);
+      expect(result.tasks!.map((task) => task.kind)).toEqual([
+        "unchanged",
+        "unchanged",
+        "unchanged",
+      ]);
+      expect(result.tasks![0]).toMatchObject({
+        startSlip: 0,
+        finishSlip: 0,
+        durationChange: 0,
+      });
+    });
+
+    it("counts slips in working days and tells moved from re-scoped", () => {
+      const [design, build] = plan.sections[0].tasks;
+      const current = chart([
+        // One day longer, so build starts a day later
+        { ...design, duration: { value: 3, unit: "d" } },
+        build,
+        {
+          id: "review",
+          name: "Review",
+          start: "2024-01-10",
+          duration: { value: 1, unit: "d" },
+        },
+      ]);
+
+      const result = compareToBaseline(current, baseline);
+
+      expect(result.tasks).toEqual([
+        {
+          id: "design",
+          name: "Design",
+          sectionName: "Work",
+          kind: "rescoped",
+          baselineStart: new Date(2024, 0, 1),
+          baselineEnd: new Date(2024, 0, 3),
+          start: new Date(2024, 0, 1),
+          end: new Date(2024, 0, 4),
+          startSlip: 0,
+          finishSlip: 1,
+          durationChange: 1,
+        },
+        {
+          id: "build",
+          name: "Build",
+          sectionName: "Work",
+          kind: "moved",
+          baselineStart: new Date(2024, 0, 3),
+          baselineEnd: new Date(2024, 0, 8),
+          start: new Date(2024, 0, 4),
+          end: new Date(2024, 0, 9),
+          startSlip: 1,
+          finishSlip: 1,
+          durationChange: 0,
+        },
+        {
+          id: "review",
+          name: "Review",
+          sectionName: "Work",
+          kind: "added",
+          start: new Date(2024, 0, 10),
+          end: new Date(2024, 0, 11),
+        },
+        {
+          id: "docs",
+          name: "Docs",
+          sectionName: "Work",
+          kind: "removed",
+          baselineStart: new Date(2024, 0, 4),
+          baselineEnd: new Date(2024, 0, 5),
+        },
+      ]);
+    });
+
+    it("reports tasks that finish earlier with a negative slip", () => {
+      const [design] = plan.sections[0].tasks;
+      const current = chart([{ ...design, start: "2023-12-29" }]);
+
+      // Friday to Tuesday instead of Monday to Wednesday
+      expect(compareToBaseline(current, baseline).tasks![0]).toMatchObject({
+        kind: "moved",
+        startSlip: -1,
+        finishSlip: -1,
+      });
+    });
+
+    it("returns the schedule error for invalid data", () => {
+      expect(compareToBaseline({ sections: [] }, baseline)).toEqual({
+        success: false,
+        error: "Gantt data must have at least one section",
+      });
+    });
+  });
+});
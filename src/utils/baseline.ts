@@ -0,0 +1,194 @@
+import {
+  BaselineResult,
+  BaselineTask,
+  GanttBaseline,
+  GanttData,
+  ParsedBaselineTask,
+  TaskVariance,
+  VarianceResult,
+} from "../types";
+import { formatDate, parseDate } from "./dates";
+import { countWorkingDays, resolveSchedule } from "./schedule";
+
+/**
+ * Format of the dates stored in a baseline. Local time, like the chart's
+ * own dates, and independent of the chart's date format so that a baseline
+ * survives a change of format.
+ */
+const BASELINE_DATE_FORMAT = "YYYY-MM-DD HH:mm";
+
+/**
+ * Reads back the dates of a baseline's tasks. Tasks whose dates cannot be
+ * read are left out, and only the first task with a given ID is kept.
+ * @param baseline - The baseline
+ * @returns The baseline's tasks by ID
+ */
+export function parseBaselineTasks(
+  baseline: GanttBaseline
+): Map<string, ParsedBaselineTask> {
+  const tasks = new Map<string, ParsedBaselineTask>();
+  for (const task of baseline.tasks) {
+    const from = parseDate(task.start, BASELINE_DATE_FORMAT);
+    const to = parseDate(task.end, BASELINE_DATE_FORMAT);
+    if (from && to && !tasks.has(task.id)) {
+      tasks.set(task.id, { ...task, from, to });
+    }
+  }
+  return tasks;
+}
+
+/**
+ * Takes a named snapshot of a chart's resolved schedule.
+ *
+ * The snapshot records each task's resolved start and end rather than its
+ * definition, so it keeps its dates however the chart changes afterwards.
+ * It is not added to the chart; see saveBaseline.
+ *
+ * @param data - The Gantt data to snapshot
+ * @param name - Name of the baseline (e.g., "Approved plan")
+ * @param now - When the baseline is taken (defaults to the current time)
+ * @returns BaselineResult with the baseline, or why it could not be taken
+ */
+export function createBaseline(
+  data: GanttData,
+  name: string,
+  now: Date = new Date()
+): BaselineResult {
+  if (!name.trim()) {
+    return { success: false, error: "Baseline name is required" };
+  }
+
+  const schedule = resolveSchedule(data);
+  if (!schedule.success) {
+    return { success: false, error: schedule.error };
+  }
+
+  const tasks: BaselineTask[] = schedule.tasks!.map((task) => ({
+    id: task.id,
+    name: task.name,
+    sectionName: task.sectionName,
+    start: formatDate(task.start, BASELINE_DATE_FORMAT),
+    end: formatDate(task.end, BASELINE_DATE_FORMAT),
+    isMilestone: task.isMilestone,
+  }));
+
+  return {
+    success: true,
+    baseline: { name: name.trim(), createdAt: now.toISOString(), tasks },
+  };
+}
+
+/**
+ * Adds a baseline to a chart, replacing any baseline with the same name.
+ * @param data - The Gantt data
+ * @param baseline - The baseline to add
+ * @returns A copy of the data with the baseline saved
+ */
+export function saveBaseline(
+  data: GanttData,
+  baseline: GanttBaseline
+): GanttData {
+  const baselines = data.baselines ?? [];
+  const index = baselines.findIndex((item) => item.name === baseline.name);
+  return {
+    ...data,
+    baselines:
+      index === -1
+        ? [...baselines, baseline]
+        : baselines.map((item, i) => (i === index ? baseline : item)),
+  };
+}
+
+/**
+ * Removes a baseline from a chart.
+ * @param data - The Gantt data
+ * @param name - Name of the baseline to remove
+ * @returns A copy of the data without the baseline
+ */
+export function removeBaseline(data: GanttData, name: string): GanttData {
+  return {
+    ...data,
+    baselines: (data.baselines ?? []).filter((item) => item.name !== name),
+  };
+}
+
+/**
+ * Compares a chart's current schedule with a baseline, task by task.
+ *
+ * Tasks are matched by ID. Slips are counted in working days under the
+ * chart's current config, so a task that moves from Friday to Monday over
+ * an excluded weekend slips by one day. A task that takes a different
+ * number of working days than in the baseline is re-scoped; one that only
+ * starts or ends at a different time has moved. Baseline tasks whose dates
+ * cannot be read are treated as not being in the baseline.
+ *
+ * @param data - The Gantt data
+ * @param baseline - The baseline to compare with
+ * @returns VarianceResult with one entry per task, or why the chart could
+ *   not be scheduled
+ */
+export function compareToBaseline(
+  data: GanttData,
+  baseline: GanttBaseline
+): VarianceResult {
+  const schedule = resolveSchedule(data);
+  if (!schedule.success) {
+    return { success: false, error: schedule.error };
+  }
+
+  const config = data.config ?? {};
+  const planned = parseBaselineTasks(baseline);
+
+  const tasks: TaskVariance[] = schedule.tasks!.map((task) => {
+    const base = planned.get(task.id);
+    const current = {
+      id: task.id,
+      name: task.name,
+      sectionName: task.sectionName,
+      start: task.start,
+      end: task.end,
+    };
+    if (!base) {
+      return { ...current, kind: "added" };
+    }
+
+    const startSlip = countWorkingDays(base.from, task.start, config);
+    const finishSlip = countWorkingDays(base.to, task.end, config);
+    const durationChange =
+      Math.round(
+        (countWorkingDays(task.start, task.end, config) -
+          countWorkingDays(base.from, base.to, config)) *
+          100
+      ) / 100;
+    const hasMoved =
+      task.start.getTime() !== base.from.getTime() ||
+      task.end.getTime() !== base.to.getTime();
+
+    return {
+      ...current,
+      kind:
+        durationChange !== 0 ? "rescoped" : hasMoved ? "moved" : "unchanged",
+      baselineStart: base.from,
+      baselineEnd: base.to,
+      startSlip,
+      finishSlip,
+      durationChange,
+    };
+  });
+
+  const currentIds = new Set(schedule.tasks!.map((task) => task.id));
+  planned.forEach((base) => {
+    if (!currentIds.has(base.id)) {
+      tasks.push({
+        id: base.id,
+        name: base.name,
+        sectionName: base.sectionName,
+        kind: "removed",
+        baselineStart: base.from,
+        baselineEnd: base.to,
+      });
+    }
+  });
+
+  return { success: true, tasks };
+}
@@ -0,0 +1,241 @@
+import { crc32 } from "zlib";
+import {
+  buildPdf,
+  exportPng,
+  exportSvg,
+  getSvgSize,
+  layoutPdfPages,
+  serializeSvg,
+  setPngDpi,
+} from "./chartExport";
+
+/**
+ * A 1×1 PNG with only IHDR, IDAT and IEND chunks.
+ */
+const PNG_1X1 = Uint8Array.from(
+  atob(
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg=="
+  ),
+  (char) => char.charCodeAt(0)
+);
+
+/**
+ * Lists the chunk types of a PNG file.
+ */
+function chunkTypes(png: Uint8Array): string[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const types: string[] = [];
+  for (let offset = 8; offset < png.length; ) {
+    types.push(
+      String.fromCharCode(...Array.from(png.subarray(offset + 4, offset + 8)))
+    );
+    offset += 12 + view.getUint32(offset);
+  }
+  return types;
+}
+
+/**
+ * Creates an SVG element from markup and attaches it to the document.
+ */
+function createSvg(markup: string): SVGSVGElement {
+  const container = document.createElement("div");
+  container.innerHTML = markup;
+  document.body.appendChild(container);
+  return container.querySelector("svg")!;
+}
+
+describe("chartExport", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  describe("getSvgSize", () => {
+    it("prefers the viewBox, then numeric width and height", () => {
+      expect(
+        getSvgSize(createSvg('<svg viewBox="0 0 640 480" width="100%"></svg>'))
+      ).toEqual({ width: 640, height: 480 });
+      expect(
+        getSvgSize(createSvg('<svg width="300" height="200"></svg>'))
+      ).toEqual({ width: 300, height: 200 });
+    });
+  });
+
+  describe("serializeSvg", () => {
+    it("writes a standalone document with inlined styles", async () => {
+      const style = document.createElement("style");
+      style.textContent = ".bar { fill: rgb(255, 0, 0); }";
+      document.head.appendChild(style);
+      const svg = createSvg(
+        '<svg viewBox="0 0 100 50" width="100%" style="max-width: 100px;">' +
+          '<rect class="bar" width="10" height="10"></rect>' +
+          '<text style="fill: blue">Task</text></svg>'
+      );
+
+      const text = await serializeSvg(svg);
+      style.remove();
+
+      expect(text).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/);
+      expect(text).toContain('xmlns="http://www.w3.org/2000/svg"');
+      expect(text.match(/xmlns="/g)).toHaveLength(1);
+      expect(text).toContain('xmlns:xlink="http://www.w3.org/1999/xlink"');
+      expect(text).toMatch(/width="100"/);
+      expect(text).toMatch(/height="50"/);
+      expect(text).not.toContain("max-width");
+      expect(text).toMatch(
+        /<rect class="bar"[^>]*style="[^"]*fill: rgb\(255, 0, 0\)/
+      );
+      // The element's own style still wins over inherited values
+      expect(text).toMatch(/<text style="[^"]*; fill: blue"/);
+      // The page is untouched
+      expect(svg.querySelector("rect")!.getAttribute("style")).toBeNull();
+    });
+
+    it("embeds the font files of the fonts it uses", async () => {
+      const fetchFont = jest.fn(async (url: string) =>
+        url.includes("missing")
+          ? { ok: false }
+          : {
+              ok: true,
+              headers: { get: () => null },
+              arrayBuffer: async () => Uint8Array.from([1, 2, 3]).buffer,
+            }
+      );
+      const originalFetch = window.fetch;
+      window.fetch = fetchFont as unknown as typeof fetch;
+      const style = document.createElement("style");
+      style.textContent =
+        '@font-face { font-family: "Chart Sans"; src: url("/fonts/chart.woff2") format("woff2"); }\n' +
+        '@font-face { font-family: "Chart Mono"; src: url("https://fonts.example.com/missing.woff"); }\n' +
+        '@font-face { font-family: "Unused"; src: url("/fonts/unused.woff2"); }';
+      document.head.appendChild(style);
+      const svg = createSvg(
+        '<svg viewBox="0 0 10 10"><text style="font-family: \'Chart Sans\', \'Chart Mono\', sans-serif">Task</text></svg>'
+      );
+
+      const text = await serializeSvg(svg);
+      style.remove();
+      window.fetch = originalFetch;
+
+      expect(fetchFont).toHaveBeenCalledWith(
+        "http://localhost/fonts/chart.woff2"
+      );
+      expect(fetchFont).toHaveBeenCalledTimes(2);
+      expect(text).toContain('url("data:font/woff2;base64,AQID")');
+      expect(text).not.toMatch(/url\((?!\s*["']?data:)/);
+      expect(text).not.toContain("missing.woff");
+      expect(text).not.toContain("Unused");
+    });
+
+    it("exports as an SVG blob", async () => {
+      const result = await exportSvg(
+        createSvg('<svg viewBox="0 0 10 10"></svg>')
+      );
+      expect(result.success).toBe(true);
+      expect(result.blob!.type).toBe("image/svg+xml");
+    });
+  });
+
+  describe("setPngDpi", () => {
+    it("adds a pHYs chunk after IHDR", () => {
+      const png = setPngDpi(PNG_1X1, 192);
+
+      expect(chunkTypes(png)).toEqual(["IHDR", "pHYs", "IDAT", "IEND"]);
+      const offset = 8 + 12 + 13;
+      const view = new DataView(png.buffer);
+      expect(view.getUint32(offset + 8)).toBe(Math.round(192 / 0.0254));
+      expect(view.getUint32(offset + 12)).toBe(Math.round(192 / 0.0254));
+      expect(png[offset + 16]).toBe(1);
+      expect(view.getUint32(offset + 17)).toBe(
+        crc32(png.subarray(offset + 4, offset + 17))
+      );
+    });
+
+    it("replaces an existing pHYs chunk", () => {
+      const png = setPngDpi(setPngDpi(PNG_1X1, 72), 300);
+      expect(chunkTypes(png)).toEqual(["IHDR", "pHYs", "IDAT", "IEND"]);
+    });
+  });
+
+  describe("layoutPdfPages", () => {
+    it("fits the chart to the page width on one page", () => {
+      const layout = layoutPdfPages(1440, 400, { pageSize: "letter" });
+
+      expect(layout.pageWidth).toBe(792);
+      expect(layout.pageHeight).toBe(612);
+      expect(layout.slices).toEqual([
+        {
+          sourceY: 0,
+          sourceHeight: 400,
+          x: 36,
+          y: 376,
+          width: 720,
+          height: 200,
+        },
+      ]);
+    });
+
+    it("splits long charts across pages", () => {
+      const layout = layoutPdfPages(720, 2000, {
+        pageSize: "letter",
+        orientation: "portrait",
+        margin: 0,
+      });
+
+      expect(layout.pageWidth).toBe(612);
+      expect(layout.slices.map((slice) => slice.sourceHeight)).toEqual([
+        931, 931, 138,
+      ]);
+      expect(layout.slices[1].sourceY).toBe(931);
+      expect(layout.slices[2].y).toBeCloseTo(792 - 138 * 0.85);
+    });
+  });
+
+  describe("buildPdf", () => {
+    it("writes one page per image with a valid cross-reference table", () => {
+      const jpeg = Uint8Array.from([0xff, 0xd8, 0xff, 0xd9]);
+      const page = {
+        jpeg,
+        pixelWidth: 1,
+        pixelHeight: 1,
+        x: 36,
+        y: 36,
+        width: 100,
+        height: 50,
+      };
+      const pdf = buildPdf([page, page], 612, 792);
+      const text = String.fromCharCode(...Array.from(pdf));
+
+      expect(text.startsWith("%PDF-1.4")).toBe(true);
+      expect(text.match(/\/Type \/Page\b/g)).toHaveLength(2);
+      expect(text).toContain("/Count 2");
+      expect(text).toContain("/MediaBox [0 0 612 792]");
+      expect(text).toContain("q 100 0 0 50 36 36 cm /Im0 Do Q");
+
+      const startxref = Number(/startxref\n(\d+)/.exec(text)![1]);
+      expect(text.slice(startxref, startxref + 4)).toBe("xref");
+      const offsets = text
+        .slice(startxref)
+        .split("\n")
+        .slice(3, 11)
+        .map((line) => Number(line.slice(0, 10)));
+      offsets.forEach((offset, index) => {
+        expect(text.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj`));
+      });
+    });
+  });
+
+  describe("exportPng", () => {
+    it("reports when the chart cannot be drawn", async () => {
+      const error = jest.spyOn(console, "error").mockImplementation(() => {});
+      const result = await exportPng(
+        createSvg('<svg viewBox="0 0 10 10"></svg>')
+      );
+      error.mockRestore();
+
+      expect(result).toEqual({
+        success: false,
+        error: "Canvas is not supported in this browser",
+      });
+    });
+  });
+});
@@ -0,0 +1,618 @@
+import {
+  ExportResult,
+  PdfExportOptions,
+  PdfPageLayout,
+  PdfPageSize,
+  PngExportOptions,
+} from "../types";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const XLINK_NS = "http://www.w3.org/1999/xlink";
+const XMLNS_NS = "http://www.w3.org/2000/xmlns/";
+
+/**
+ * CSS pixels per inch, the resolution of an SVG drawn at scale 1.
+ */
+const CSS_DPI = 96;
+
+/**
+ * Computed style properties copied onto every element, so the exported
+ * SVG looks the same without the page's style sheets.
+ */
+const INLINED_PROPERTIES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-opacity",
+  "stroke-dasharray",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "font-style",
+  "text-anchor",
+  "dominant-baseline",
+  "visibility",
+  "display",
+];
+
+/**
+ * Paper sizes in points (1/72 inch), portrait.
+ */
+const PAGE_SIZES: Record<PdfPageSize, [number, number]> = {
+  a4: [595.28, 841.89],
+  a3: [841.89, 1190.55],
+  letter: [612, 792],
+  legal: [612, 1008],
+};
+
+/**
+ * Returns the size an SVG is drawn at: its viewBox, else its width and
+ * height attributes, else its size on the page.
+ * @param svg - The SVG element
+ * @returns Width and height in CSS pixels
+ */
+export function getSvgSize(svg: SVGSVGElement): {
+  width: number;
+  height: number;
+} {
+  const viewBox = (svg.getAttribute("viewBox") ?? "")
+    .split(/[\s,]+/)
+    .map(Number);
+  if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { width: viewBox[2], height: viewBox[3] };
+  }
+  const width = parseFloat(svg.getAttribute("width") ?? "");
+  const height = parseFloat(svg.getAttribute("height") ?? "");
+  if (width > 0 && height > 0 && !/%/.test(svg.getAttribute("width")!)) {
+    return { width, height };
+  }
+  const rect = svg.getBoundingClientRect();
+  return { width: rect.width || 800, height: rect.height || 600 };
+}
+
+/**
+ * Font file types by extension, for servers that send no content type.
+ */
+const FONT_TYPES: Record<string, string> = {
+  woff2: "font/woff2",
+  woff: "font/woff",
+  ttf: "font/ttf",
+  otf: "font/otf",
+};
+
+/**
+ * Encodes bytes as base64.
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked so String.fromCharCode is not given too many arguments
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(
+      ...Array.from(bytes.subarray(offset, offset + 0x8000))
+    );
+  }
+  return btoa(binary);
+}
+
+/**
+ * Downloads a font file as a data URL.
+ */
+async function fetchAsDataUrl(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Font ${url} could not be loaded`);
+  }
+  const extension = /\.(\w+)(?:[?#]|$)/.exec(url)?.[1].toLowerCase() ?? "";
+  const type =
+    response.headers.get("content-type") ??
+    FONT_TYPES[extension] ??
+    "application/octet-stream";
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  return `data:${type};base64,${bytesToBase64(bytes)}`;
+}
+
+/**
+ * Replaces the font files an @font-face rule links to with data URLs.
+ * @param cssText - The rule
+ * @param baseUrl - URL that relative sources are resolved against
+ * @returns The rule, or null if one of its files could not be downloaded
+ */
+async function inlineFontSources(
+  cssText: string,
+  baseUrl: string
+): Promise<string | null> {
+  const pattern = /url\(\s*(["']?)([^"')]+)\1\s*\)/g;
+  const urls = Array.from(new Set(cssText.match(pattern) ?? []));
+  try {
+    const inlined = await Promise.all(
+      urls.map(async (match) => {
+        const src = match.replace(pattern, "$2");
+        return src.startsWith("data:")
+          ? match
+          : `url("${await fetchAsDataUrl(new URL(src, baseUrl).href)}")`;
+      })
+    );
+    return urls.reduce(
+      (text, match, index) => text.split(match).join(inlined[index]),
+      cssText
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collects the @font-face rules of the page's style sheets for the given
+ * font families, with their font files embedded as data URLs: an SVG drawn
+ * as an image cannot load anything else. Style sheets from other origins
+ * cannot be read and are skipped, as are fonts that cannot be downloaded,
+ * which then fall back to the next font in the family list.
+ */
+async function embedFontFaces(families: Set<string>): Promise<string> {
+  const rules: Promise<string | null>[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
+      continue;
+    }
+    for (const rule of Array.from(cssRules)) {
+      if (!/^@font-face/i.test(rule.cssText)) {
+        continue;
+      }
+      const family = /font-family:\s*([^;]+)/i.exec(rule.cssText)?.[1];
+      if (family && families.has(family.trim().replace(/^["']|["']$/g, ""))) {
+        rules.push(
+          inlineFontSources(rule.cssText, sheet.href ?? document.baseURI)
+        );
+      }
+    }
+  }
+  return (await Promise.all(rules)).filter(Boolean).join("\n");
+}
+
+/**
+ * Serializes a rendered chart as a standalone SVG document. Computed
+ * styles are inlined on every element and the fonts it uses are embedded,
+ * font files included, so it looks the same outside the page.
+ * @param svg - The rendered SVG element
+ * @returns The SVG document as text
+ */
+export async function serializeSvg(svg: SVGSVGElement): Promise<string> {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const sources = [svg, ...Array.from(svg.querySelectorAll("*"))];
+  const targets = [clone, ...Array.from(clone.querySelectorAll("*"))];
+  const families = new Set<string>();
+
+  sources.forEach((source, index) => {
+    const computed = window.getComputedStyle(source);
+    const declarations = INLINED_PROPERTIES.map((property) => [
+      property,
+      computed.getPropertyValue(property),
+    ]).filter(([, value]) => value);
+    if (declarations.length === 0) {
+      return;
+    }
+    computed
+      .getPropertyValue("font-family")
+      .split(",")
+      .forEach((family) =>
+        families.add(family.trim().replace(/^["']|["']$/g, ""))
+      );
+    // The element's own inline style comes last so it still wins
+    const target = targets[index];
+    const inline = target.getAttribute("style");
+    target.setAttribute(
+      "style",
+      declarations
+        .map(([property, value]) => `${property}: ${value}`)
+        .join("; ") + (inline ? `; ${inline}` : "")
+    );
+  });
+
+  const { width, height } = getSvgSize(svg);
+  // Namespace declarations, so the serializer does not write them twice
+  clone.setAttributeNS(XMLNS_NS, "xmlns", SVG_NS);
+  clone.setAttributeNS(XMLNS_NS, "xmlns:xlink", XLINK_NS);
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  clone.style.removeProperty("max-width");
+
+  const fontFaces = await embedFontFaces(families);
+  if (fontFaces) {
+    const style = document.createElementNS(SVG_NS, "style");
+    style.textContent = fontFaces;
+    clone.insertBefore(style, clone.firstChild);
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(
+    clone
+  )}`;
+}
+
+/**
+ * Draws serialized SVG onto a canvas with a background.
+ */
+function renderToCanvas(
+  svgText: string,
+  width: number,
+  height: number,
+  scale: number,
+  background: string
+): Promise<HTMLCanvasElement> {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) {
+      reject(new Error("Canvas is not supported in this browser"));
+      return;
+    }
+    const image = new Image();
+    image.onload = () => {
+      context.fillStyle = background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas);
+    };
+    image.onerror = () =>
+      reject(new Error("The chart could not be drawn as an image"));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+      svgText
+    )}`;
+  });
+}
+
+/**
+ * Decodes a base64 data URL.
+ */
+function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Encodes text as bytes, one byte per character (PDF syntax is ASCII).
+ */
+function asciiBytes(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0));
+}
+
+let crcTable: number[] | null = null;
+
+/**
+ * Computes the CRC-32 of bytes, as used by PNG chunks.
+ */
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      return c >>> 0;
+    });
+  }
+  let crc = 0xffffffff;
+  for (let index = 0; index < bytes.length; index++) {
+    crc = crcTable[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Records a resolution in a PNG file by adding (or replacing) its pHYs
+ * chunk, so apps that place images by physical size get the intended size.
+ * @param png - The PNG file
+ * @param dpi - Dots per inch
+ * @returns A copy of the file with the resolution set
+ */
+export function setPngDpi(png: Uint8Array, dpi: number): Uint8Array {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+
+  const chunk = new Uint8Array(21);
+  const chunkView = new DataView(chunk.buffer);
+  chunkView.setUint32(0, 9);
+  chunk.set(asciiBytes("pHYs"), 4);
+  chunkView.setUint32(8, pixelsPerMeter);
+  chunkView.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // Unit: meter
+  chunkView.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  // Copy every chunk except an existing pHYs, inserting ours after IHDR
+  const parts: Uint8Array[] = [png.subarray(0, 8)];
+  let offset = 8;
+  while (offset < png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(
+      ...Array.from(png.subarray(offset + 4, offset + 8))
+    );
+    const end = offset + 12 + length;
+    if (type !== "pHYs") {
+      parts.push(png.subarray(offset, end));
+    }
+    if (type === "IHDR") {
+      parts.push(chunk);
+    }
+    offset = end;
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * Joins byte arrays.
+ */
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Splits a chart image across PDF pages. The image is scaled to the width
+ * between the margins and cut into page-high slices, top first.
+ * @param imageWidth - Image width in pixels
+ * @param imageHeight - Image height in pixels
+ * @param options - Page size, orientation and margin
+ * @returns The page size and one slice per page
+ */
+export function layoutPdfPages(
+  imageWidth: number,
+  imageHeight: number,
+  options: PdfExportOptions = {}
+): PdfPageLayout {
+  const [shortSide, longSide] = PAGE_SIZES[options.pageSize ?? "a4"];
+  const landscape = (options.orientation ?? "landscape") === "landscape";
+  const pageWidth = landscape ? longSide : shortSide;
+  const pageHeight = landscape ? shortSide : longSide;
+  const margin = options.margin ?? 36;
+
+  const contentWidth = pageWidth - 2 * margin;
+  const contentHeight = pageHeight - 2 * margin;
+  const pointsPerPixel = contentWidth / imageWidth;
+  const sliceHeight = Math.max(1, Math.floor(contentHeight / pointsPerPixel));
+
+  const slices: PdfPageLayout["slices"] = [];
+  for (let sourceY = 0; sourceY < imageHeight; sourceY += sliceHeight) {
+    const sourceHeight = Math.min(sliceHeight, imageHeight - sourceY);
+    const height = sourceHeight * pointsPerPixel;
+    slices.push({
+      sourceY,
+      sourceHeight,
+      x: margin,
+      y: pageHeight - margin - height,
+      width: contentWidth,
+      height,
+    });
+  }
+  return { pageWidth, pageHeight, slices };
+}
+
+/**
+ * A JPEG image placed on a PDF page.
+ */
+interface PdfPageImage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Writes a PDF with one JPEG image per page.
+ * @param pages - The image of each page and where it is drawn, in points
+ * @param pageWidth - Page width in points
+ * @param pageHeight - Page height in points
+ * @returns The PDF file
+ */
+export function buildPdf(
+  pages: PdfPageImage[],
+  pageWidth: number,
+  pageHeight: number
+): Uint8Array {
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (part: Uint8Array | string) => {
+    const bytes = typeof part === "string" ? asciiBytes(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    push(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      push("stream\n");
+      push(stream);
+      push("\nendstream\n");
+    }
+    push("endobj\n");
+  };
+
+  // Objects: 1 catalog, 2 page tree, then page, contents and image per page
+  const pageId = (index: number) => 3 + index * 3;
+  push("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+  object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  object(
+    2,
+    `<< /Type /Pages /Kids [${pages
+      .map((_, index) => `${pageId(index)} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`
+  );
+
+  const format = (value: number) => Number(value.toFixed(2)).toString();
+  pages.forEach((page, index) => {
+    const id = pageId(index);
+    const contents = asciiBytes(
+      `q ${format(page.width)} 0 0 ${format(page.height)} ${format(
+        page.x
+      )} ${format(page.y)} cm /Im0 Do Q`
+    );
+    object(
+      id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${format(
+        pageWidth
+      )} ${format(pageHeight)}] /Resources << /XObject << /Im0 ${
+        id + 2
+      } 0 R >> >> /Contents ${id + 1} 0 R >>`
+    );
+    object(id + 1, `<< /Length ${contents.length} >>`, contents);
+    object(
+      id + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`,
+      page.jpeg
+    );
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  push(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    push(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  }
+  push(
+    `trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  );
+  return concatBytes(parts);
+}
+
+/**
+ * Turns a failed export into an ExportResult.
+ */
+function exportError(err: unknown): ExportResult {
+  return {
+    success: false,
+    error: err instanceof Error ? err.message : "Export failed",
+  };
+}
+
+/**
+ * Exports a rendered chart as a standalone SVG file.
+ * @param svg - The rendered SVG element
+ * @returns ExportResult with the file
+ */
+export async function exportSvg(svg: SVGSVGElement): Promise<ExportResult> {
+  try {
+    return {
+      success: true,
+      blob: new Blob([await serializeSvg(svg)], { type: "image/svg+xml" }),
+    };
+  } catch (err) {
+    return exportError(err);
+  }
+}
+
+/**
+ * Exports a rendered chart as a PNG image.
+ * @param svg - The rendered SVG element
+ * @param options - Scale, resolution and background
+ * @returns ExportResult with the file
+ */
+export async function exportPng(
+  svg: SVGSVGElement,
+  options: PngExportOptions = {}
+): Promise<ExportResult> {
+  const scale = options.scale ?? (options.dpi ? options.dpi / CSS_DPI : 2);
+  const dpi = options.dpi ?? CSS_DPI * scale;
+  try {
+    const { width, height } = getSvgSize(svg);
+    const canvas = await renderToCanvas(
+      await serializeSvg(svg),
+      width,
+      height,
+      scale,
+      options.background ?? "#ffffff"
+    );
+    const png = setPngDpi(dataUrlToBytes(canvas.toDataURL("image/png")), dpi);
+    return { success: true, blob: new Blob([png], { type: "image/png" }) };
+  } catch (err) {
+    return exportError(err);
+  }
+}
+
+/**
+ * Exports a rendered chart as a PDF. The chart is scaled to the page width
+ * and split across as many pages as its height needs.
+ * @param svg - The rendered SVG element
+ * @param options - Page size, orientation, margin and image scale
+ * @returns ExportResult with the file
+ */
+export async function exportPdf(
+  svg: SVGSVGElement,
+  options: PdfExportOptions = {}
+): Promise<ExportResult> {
+  try {
+    const { width, height } = getSvgSize(svg);
+    const canvas = await renderToCanvas(
+      await serializeSvg(svg),
+      width,
+      height,
+      options.scale ?? 2,
+      "#ffffff"
+    );
+    const layout = layoutPdfPages(canvas.width, canvas.height, options);
+
+    const pages = layout.slices.map((slice) => {
+      const page = document.createElement("canvas");
+      page.width = canvas.width;
+      page.height = slice.sourceHeight;
+      page
+        .getContext("2d")!
+        .drawImage(
+          canvas,
+          0,
+          slice.sourceY,
+          canvas.width,
+          slice.sourceHeight,
+          0,
+          0,
+          canvas.width,
+          slice.sourceHeight
+        );
+      return {
+        jpeg: dataUrlToBytes(page.toDataURL("image/jpeg", 0.95)),
+        pixelWidth: page.width,
+        pixelHeight: page.height,
+        ...slice,
+      };
+    });
+
+    const pdf = buildPdf(pages, layout.pageWidth, layout.pageHeight);
+    return {
+      success: true,
+      blob: new Blob([pdf], { type: "application/pdf" }),
+    };
+  } catch (err) {
+    return exportError(err);
+  }
+}
+
+/**
+ * Saves a file through the browser's download prompt.
+ * @param blob - The file contents
+ * @param filename - The suggested file name
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,139 @@
+import { computeCriticalPath, markCriticalTasks } from "./criticalPath";
+import { createTask, createDependentTask } from "./ganttConverter";
+import { GanttData, TaskFloat } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A small plan with a long and a short branch:
+ *
+ *   design (2d) -> backend (5d)  -> integration (1d) -> launch
+ *               -> frontend (3d) /
+ */
+const plan: GanttData = {
+  sections: [
+    {
+      name: "Planning",
+      tasks: [createTask("design", "Design", "2024-01-01", 2)],
+    },
+    {
+      name: "Development",
+      tasks: [
+        createDependentTask("backend", "Backend", "design", 5),
+        createDependentTask("frontend", "Frontend", "design", 3, "d", [
+          "active",
+        ]),
+        createDependentTask("integration", "Integration", [
+          "backend",
+          "frontend",
+        ], 1),
+      ],
+    },
+    {
+      name: "Release",
+      tasks: [
+        {
+          id: "launch",
+          name: "Launch",
+          start: "",
+          duration: { value: 0, unit: "d" },
+          after: "integration",
+          status: ["milestone"],
+        },
+      ],
+    },
+  ],
+};
+
+/**
+ * Computes the critical path and returns float figures keyed by task ID.
+ */
+function floatsById(data: GanttData): Record<string, TaskFloat> {
+  const result = computeCriticalPath(data);
+  expect(result.error).toBeUndefined();
+  return Object.fromEntries(result.tasks!.map((task) => [task.id, task]));
+}
+
+describe("criticalPath", () => {
+  describe("computeCriticalPath", () => {
+    it("returns the critical chain in order", () => {
+      expect(computeCriticalPath(plan).criticalPath).toEqual([
+        "design",
+        "backend",
+        "integration",
+        "launch",
+      ]);
+    });
+
+    it("computes total float for each task", () => {
+      const floats = floatsById(plan);
+
+      expect(floats.design.totalFloat).toBe(0);
+      expect(floats.backend.totalFloat).toBe(0);
+      expect(floats.frontend.totalFloat).toBe(2 * DAY_MS);
+      expect(floats.frontend.isCritical).toBe(false);
+      expect(floats.frontend.lateStart).toEqual(new Date(2024, 0, 5));
+      expect(floats.frontend.lateFinish).toEqual(new Date(2024, 0, 8));
+      expect(floats.launch.isCritical).toBe(true);
+    });
+
+    it("gives float to independent tasks that finish early", () => {
+      const floats = floatsById({
+        sections: [
+          {
+            name: "Main",
+            tasks: [
+              createTask("long", "Long", "2024-01-01", 10),
+              createTask("short", "Short", "2024-01-01", 4),
+            ],
+          },
+        ],
+      });
+
+      expect(floats.long.isCritical).toBe(true);
+      expect(floats.short.totalFloat).toBe(6 * DAY_MS);
+    });
+
+    it("returns schedule errors", () => {
+      const result = computeCriticalPath({ sections: [] });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("at least one section");
+    });
+  });
+
+  describe("markCriticalTasks", () => {
+    it("adds crit to tasks without float", () => {
+      const marked = markCriticalTasks(plan);
+      const statuses = Object.fromEntries(
+        marked.sections
+          .flatMap((section) => section.tasks)
+          .map((task) => [task.id, task.status])
+      );
+
+      expect(statuses.design).toEqual(["crit"]);
+      expect(statuses.backend).toEqual(["crit"]);
+      expect(statuses.frontend).toEqual(["active"]);
+      expect(statuses.launch).toEqual(["crit", "milestone"]);
+    });
+
+    it("does not duplicate existing crit tags or modify the input", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "Main",
+            tasks: [createTask("a", "A", "2024-01-01", 1, "d", ["crit"])],
+          },
+        ],
+      };
+      const marked = markCriticalTasks(data);
+      expect(marked.sections[0].tasks[0].status).toEqual(["crit"]);
+      expect(markCriticalTasks(plan)).not.toBe(plan);
+      expect(plan.sections[0].tasks[0].status).toBeUndefined();
+    });
+
+    it("returns the data unchanged when it cannot be scheduled", () => {
+      const data: GanttData = { sections: [] };
+      expect(markCriticalTasks(data)).toBe(data);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  GanttData,
+  TaskStatus,
+  TaskFloat,
+  CriticalPathResult,
+} from "../types";
+import { resolveSchedule, getTaskDependencies } from "./schedule";
+
+/**
+ * Computes the critical path of a chart from its `after` graph and durations.
+ *
+ * The forward pass is the resolved schedule. The backward pass works from
+ * the latest finish in the chart: a task's late finish is the earliest late
+ * start of the tasks that start after it. Tasks whose late start equals
+ * their scheduled start have no float and are critical. Durations are
+ * measured in elapsed time, so a task moved across excluded days keeps the
+ * span it was scheduled with.
+ *
+ * @param data - The Gantt data to analyse
+ * @returns CriticalPathResult with the critical chain and per-task float
+ */
+export function computeCriticalPath(data: GanttData): CriticalPathResult {
+  const schedule = resolveSchedule(data);
+  if (!schedule.success) {
+    return { success: false, error: schedule.error };
+  }
+
+  const scheduled = schedule.tasks!;
+  const byId = new Map(scheduled.map((task) => [task.id, task]));
+  const dependencies = new Map<string, string[]>();
+  const successors = new Map<string, string[]>();
+
+  for (const section of data.sections) {
+    for (const task of section.tasks) {
+      const dependencyIds = getTaskDependencies(task);
+      dependencies.set(task.id, dependencyIds);
+      for (const dependencyId of dependencyIds) {
+        successors.set(dependencyId, [
+          ...(successors.get(dependencyId) ?? []),
+          task.id,
+        ]);
+      }
+    }
+  }
+
+  const projectEnd = Math.max(...scheduled.map((task) => task.end.getTime()));
+  const lateFinishes = new Map<string, number>();
+
+  const lateFinish = (id: string): number => {
+    const cached = lateFinishes.get(id);
+    if (cached !== undefined) {
+      return cached;
+    }
+    let result = projectEnd;
+    for (const successorId of successors.get(id) ?? []) {
+      const successor = byId.get(successorId)!;
+      const successorSpan = successor.end.getTime() - successor.start.getTime();
+      result = Math.min(result, lateFinish(successorId) - successorSpan);
+    }
+    lateFinishes.set(id, result);
+    return result;
+  };
+
+  const tasks: TaskFloat[] = scheduled.map((task) => {
+    const span = task.end.getTime() - task.start.getTime();
+    const finish = lateFinish(task.id);
+    const totalFloat = finish - task.end.getTime();
+    return {
+      id: task.id,
+      earlyStart: task.start,
+      earlyFinish: task.end,
+      lateStart: new Date(finish - span),
+      lateFinish: new Date(finish),
+      totalFloat,
+      isCritical: totalFloat <= 0,
+    };
+  });
+
+  // Walk back from the first task that finishes the project and has
+  // nothing after it (e.g., a closing milestone)
+  const floats = new Map(tasks.map((task) => [task.id, task]));
+  const criticalPath: string[] = [];
+  let current = tasks.find(
+    (task) =>
+      task.earlyFinish.getTime() === projectEnd && !successors.has(task.id)
+  );
+  while (current) {
+    criticalPath.unshift(current.id);
+    const start = current.earlyStart.getTime();
+    current = (dependencies.get(current.id) ?? [])
+      .map((id) => floats.get(id)!)
+      .find((task) => task.isCritical && task.earlyFinish.getTime() === start);
+  }
+
+  return { success: true, criticalPath, tasks };
+}
+
+/**
+ * Returns a copy of the chart with `crit` added to every task that has no
+ * float. Existing statuses, including manual `crit` tags, are kept.
+ * If the schedule cannot be resolved the data is returned unchanged.
+ * @param data - The Gantt data to mark
+ * @returns Gantt data with critical tasks marked
+ */
+export function markCriticalTasks(data: GanttData): GanttData {
+  const result = computeCriticalPath(data);
+  if (!result.success) {
+    return data;
+  }
+
+  const critical = new Set(
+    result.tasks!.filter((task) => task.isCritical).map((task) => task.id)
+  );
+
+  return {
+    ...data,
+    sections: data.sections.map((section) => ({
+      ...section,
+      tasks: section.tasks.map((task) => {
+        if (!critical.has(task.id) || task.status?.includes("crit")) {
+          return task;
+        }
+        const status: TaskStatus[] = ["crit", ...(task.status ?? [])];
+        return { ...task, status };
+      }),
+    })),
+  };
+}
@@ -0,0 +1,360 @@
+import {
+  exportCsvTasks,
+  importCsvTasks,
+  parseCsv,
+  suggestCsvMapping,
+} from "./csvTasks";
+import { GanttData } from "../types";
+
+const data: GanttData = {
+  config: { title: "Launch", dateFormat: "YYYY-MM-DD" },
+  sections: [
+    {
+      name: "Plan, design",
+      tasks: [
+        {
+          id: "spec",
+          name: 'Write the "spec"',
+          start: "2024-01-01",
+          duration: { value: 5, unit: "d" },
+          status: ["done", "crit"],
+        },
+        {
+          id: "review",
+          name: "Review",
+          start: "2024-01-08",
+          duration: "2024-01-10",
+          status: ["active"],
+          progress: 40,
+        },
+      ],
+    },
+    { name: "Later", tasks: [] },
+    {
+      name: "Build",
+      tasks: [
+        {
+          id: "code",
+          name: "Code",
+          start: "",
+          duration: { value: 2, unit: "w" },
+          after: ["spec", "review"],
+        },
+        {
+          id: "ship",
+          name: "Ship",
+          start: "",
+          duration: { value: 0, unit: "d" },
+          after: "code",
+          status: ["milestone"],
+        },
+      ],
+    },
+  ],
+};
+
+describe("csvTasks", () => {
+  describe("parseCsv", () => {
+    it("reads quoted cells with delimiters, quotes and line breaks", () => {
+      expect(parseCsv('a,"b, ""c""","d\r\ne"\r\n1,2,3\r\n')).toEqual([
+        ["a", 'b, "c"', "d\r\ne"],
+        ["1", "2", "3"],
+      ]);
+    });
+
+    it("detects semicolon and tab delimiters and skips a byte order mark", () => {
+      expect(parseCsv("\uFEFFa;b\n1;2")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+      ]);
+      expect(parseCsv("a\tb\n1\t2")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+      ]);
+    });
+  });
+
+  describe("suggestCsvMapping", () => {
+    it("matches common header names", () => {
+      expect(
+        suggestCsvMapping([
+          "Phase",
+          "Task name",
+          "Key",
+          "Start date",
+          "Finish",
+          "Predecessors",
+          "Notes",
+        ])
+      ).toEqual({
+        section: 0,
+        name: 1,
+        id: 2,
+        start: 3,
+        end: 4,
+        dependsOn: 5,
+      });
+    });
+  });
+
+  describe("importCsvTasks", () => {
+    it("reads tasks through the suggested mapping", () => {
+      const csv = [
+        "Section,ID,Name,Start,Duration,Status,% Complete,Depends on",
+        "Build,a,Alpha,2024-01-01,3,done,,",
+        ",b,Beta,,1w,Active Crit,25%,a",
+        "Test,c,Gamma,,2d,,,a; b",
+      ].join("\n");
+
+      const result = importCsvTasks(csv);
+
+      expect(result.errors).toEqual([]);
+      expect(result.data).toEqual({
+        sections: [
+          {
+            name: "Build",
+            tasks: [
+              {
+                id: "a",
+                name: "Alpha",
+                start: "2024-01-01",
+                duration: { value: 3, unit: "d" },
+                status: ["done"],
+              },
+              {
+                id: "b",
+                name: "Beta",
+                start: "",
+                duration: { value: 1, unit: "w" },
+                status: ["active", "crit"],
+                progress: 25,
+                after: "a",
+              },
+            ],
+          },
+          {
+            name: "Test",
+            tasks: [
+              {
+                id: "c",
+                name: "Gamma",
+                start: "",
+                duration: { value: 2, unit: "d" },
+                after: ["a", "b"],
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("uses a given column mapping and config", () => {
+      const csv = "Title,Begins,Ends\nKickoff,15-01-2024,16-01-2024\n";
+
+      const result = importCsvTasks(csv, {
+        mapping: { name: 0, id: 0, start: 1, end: 2 },
+        config: { dateFormat: "DD-MM-YYYY" },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.headers).toEqual(["Title", "Begins", "Ends"]);
+      expect(result.data).toEqual({
+        config: { dateFormat: "DD-MM-YYYY" },
+        sections: [
+          {
+            name: "Tasks",
+            tasks: [
+              {
+                id: "Kickoff",
+                name: "Kickoff",
+                start: "15-01-2024",
+                duration: "16-01-2024",
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("reports row errors from validateTask and chart-wide checks", () => {
+      const csv = [
+        "Section,ID,Name,Start,Duration,Status,Progress,Depends on",
+        "Build,a,,2024-01-01,3d,,,",
+        "Build,b,Beta,2024-01-01,3d,urgent,,",
+        "Build,c,Gamma,,3d,,,missing",
+        "Build,c,Gamma again,2024-02-30,3d,,,",
+        "Build,d,Delta,2024-01-01,3d,,half,",
+        "Build,e,Epsilon,2024-01-01,3d,,120,",
+      ].join("\n");
+
+      const result = importCsvTasks(csv);
+
+      expect(result.success).toBe(false);
+      expect(result.data).toBeUndefined();
+      expect(result.errors).toEqual([
+        { row: 2, message: 'Task "a" in section "Build" is missing a name' },
+        { row: 3, message: 'Unknown status "urgent"' },
+        {
+          row: 4,
+          message: 'Task "c" depends on non-existent task: "missing"',
+        },
+        {
+          row: 5,
+          message:
+            'Task "c" has invalid start date: "2024-02-30" (expected YYYY-MM-DD)',
+        },
+        { row: 5, message: 'Duplicate task ID found: "c"' },
+        { row: 6, message: 'Invalid progress "half"' },
+        {
+          row: 7,
+          message: 'Task "e" has invalid progress: 120 (expected 0 to 100)',
+        },
+      ]);
+    });
+
+    it("reports a file without tasks", () => {
+      expect(importCsvTasks("Section,ID,Name\n").errors).toEqual([
+        { message: "The file has no tasks" },
+      ]);
+    });
+  });
+
+  describe("exportCsvTasks", () => {
+    it("writes one row per task with the standard headers", () => {
+      expect(exportCsvTasks(data).split("\r\n")).toEqual([
+        "Section,ID,Name,Start,End,Duration,Status,Progress,Depends on,Assignees",
+        '"Plan, design",spec,"Write the ""spec""",2024-01-01,,5d,done crit,,,',
+        '"Plan, design",review,Review,2024-01-08,2024-01-10,,active,40,,',
+        "Later,,,,,,,,,",
+        "Build,code,Code,,,2w,,,spec review,",
+        "Build,ship,Ship,,,0d,milestone,,code,",
+        "",
+      ]);
+    });
+
+    it("round-trips through importCsvTasks", () => {
+      const result = importCsvTasks(exportCsvTasks(data), {
+        config: data.config,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(data);
+    });
+
+    it("round-trips every task field and repeated section names", () => {
+      const chart: GanttData = {
+        config: {
+          title: "Software Development Project",
+          dateFormat: "YYYY-MM-DD",
+          excludes: ["saturday", "sunday"],
+        },
+        resources: [
+          { id: "alice", name: "Alice" },
+          { id: "bob", name: "Bob" },
+        ],
+        sections: [
+          {
+            name: "Development",
+            tasks: [
+              {
+                id: "backend",
+                name: " Backend Development ",
+                start: "2024-01-01",
+                duration: { value: 14, unit: "d" },
+                status: ["active"],
+                progress: 25,
+                assignees: [{ resourceId: "bob" }],
+              },
+            ],
+          },
+          {
+            name: "Development",
+            tasks: [
+              {
+                id: "frontend",
+                name: "Frontend Development",
+                start: "",
+                duration: { value: 14, unit: "d" },
+                after: "backend",
+                assignees: [
+                  { resourceId: "alice" },
+                  { resourceId: "bob", allocation: 25 },
+                ],
+              },
+            ],
+          },
+          { name: "Development", tasks: [] },
+        ],
+      };
+
+      const result = importCsvTasks(exportCsvTasks(chart), {
+        config: chart.config,
+        resources: chart.resources,
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.data).toEqual(chart);
+    });
+
+    it("keeps cells from being read as formulas", () => {
+      const chart: GanttData = {
+        sections: [
+          {
+            name: "=SUM(A1:A2)",
+            tasks: [
+              {
+                id: "t1",
+                name: "+cmd|' /C calc'!A0",
+                start: "2024-01-01",
+                duration: "1d",
+              },
+              {
+                id: "t2",
+                name: "@risk",
+                start: "2024-01-02",
+                duration: "1d",
+              },
+              {
+                id: "t3",
+                name: "'-already quoted",
+                start: "2024-01-03",
+                duration: "1d",
+              },
+            ],
+          },
+        ],
+      };
+
+      const csv = exportCsvTasks(chart);
+      const cells = parseCsv(csv).slice(1).flat();
+
+      expect(cells.filter((cell) => /^[=+\-@\t\r]/.test(cell))).toEqual([]);
+      expect(cells).toContain("'=SUM(A1:A2)");
+      const names = importCsvTasks(csv)
+        .data!.sections.flatMap((section) => section.tasks)
+        .map((task) => task.name);
+      expect(names).toEqual([
+        "+cmd|' /C calc'!A0",
+        "@risk",
+        "'-already quoted",
+      ]);
+    });
+
+    it("adds resources for assignees the chart does not have", () => {
+      const result = importCsvTasks(
+        "Section,ID,Name,Start,Duration,Assignees\n" +
+          "Work,a,A,2024-01-01,1d,alice dana:50%\n",
+        { resources: [{ id: "alice", name: "Alice" }] }
+      );
+
+      expect(result.data!.resources).toEqual([
+        { id: "alice", name: "Alice" },
+        { id: "dana", name: "dana" },
+      ]);
+      expect(result.data!.sections[0].tasks[0].assignees).toEqual([
+        { resourceId: "alice" },
+        { resourceId: "dana", allocation: 50 },
+      ]);
+    });
+  });
+});
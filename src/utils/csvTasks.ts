@@ -0,0 +1,488 @@
+import {
+  CsvColumnMapping,
+  CsvField,
+  CsvImportOptions,
+  CsvImportResult,
+  CsvRowError,
+  DateFormat,
+  GanttData,
+  GanttResource,
+  GanttSection,
+  GanttTask,
+  TaskAssignment,
+  TaskStatus,
+  ValidationCode,
+} from "../types";
+import { DATE_FORMATS } from "./dates";
+import {
+  collectValidationIssues,
+  formatDuration,
+  getAfterIds,
+  parseDuration,
+  validateTask,
+} from "./ganttConverter";
+
+const TASK_STATUSES: TaskStatus[] = ["done", "active", "crit", "milestone"];
+
+/**
+ * Header written for each field by exportCsvTasks, in column order.
+ */
+export const CSV_HEADERS: Record<CsvField, string> = {
+  section: "Section",
+  id: "ID",
+  name: "Name",
+  start: "Start",
+  end: "End",
+  duration: "Duration",
+  status: "Status",
+  progress: "Progress",
+  dependsOn: "Depends on",
+  assignees: "Assignees",
+};
+
+/**
+ * Headers recognized for each field, lowercased with punctuation and
+ * spaces removed.
+ */
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  section: ["section", "group", "phase", "workstream"],
+  id: ["id", "taskid", "key"],
+  name: ["name", "task", "taskname", "title"],
+  start: ["start", "startdate", "begin"],
+  end: ["end", "enddate", "finish", "due", "duedate"],
+  duration: ["duration", "length"],
+  status: ["status", "statuses", "flags"],
+  progress: ["progress", "percentcomplete", "complete"],
+  dependsOn: [
+    "dependson",
+    "depends",
+    "dependencies",
+    "after",
+    "predecessors",
+  ],
+  assignees: ["assignees", "assignee", "assignedto", "resources", "owner"],
+};
+
+/**
+ * Characters that make spreadsheets read a cell as a formula when it starts
+ * with them. Exported cells starting with one (after any apostrophes) get
+ * an apostrophe in front, which spreadsheets hide and importCsvTasks drops.
+ */
+const FORMULA_START = /^'*[=+\-@\t\r]/;
+
+/**
+ * Chart-wide problems that are reported on the row of the task they name.
+ */
+const CROSS_ROW_CODES: ValidationCode[] = [
+  "DUPLICATE_TASK_ID",
+  "UNKNOWN_DEPENDENCY",
+  "CIRCULAR_DEPENDENCY",
+];
+
+/**
+ * Picks the delimiter used in the first line: a comma, a semicolon (as
+ * written by spreadsheets in some locales) or a tab.
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+  const counts = [",", ";", "\t"].map(
+    (delimiter) => firstLine.split(delimiter).length
+  );
+  const best = Math.max(...counts);
+  return best > 1 ? [",", ";", "\t"][counts.indexOf(best)] : ",";
+}
+
+/**
+ * A cell read from CSV, and whether any of it was quoted.
+ */
+interface CsvCell {
+  value: string;
+  quoted: boolean;
+}
+
+/**
+ * Splits CSV text into rows of cells, noting which cells were quoted.
+ */
+function tokenizeCsv(text: string, delimiter?: string): CsvCell[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const separator = delimiter ?? detectDelimiter(source);
+  const rows: CsvCell[][] = [];
+  let row: CsvCell[] = [];
+  let cell = "";
+  let quoted = false;
+  let wasQuoted = false;
+  const endCell = () => {
+    row.push({ value: cell, quoted: wasQuoted });
+    cell = "";
+    wasQuoted = false;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+      wasQuoted = true;
+    } else if (char === separator) {
+      endCell();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") {
+        i++;
+      }
+      endCell();
+      rows.push(row);
+      row = [];
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || wasQuoted || row.length > 0) {
+    endCell();
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Splits CSV text into rows of cells. Quoted cells may contain delimiters,
+ * line breaks and doubled quotes (""). A leading byte order mark is ignored.
+ * @param text - The CSV text
+ * @param delimiter - Cell separator (defaults to the one used in the first line)
+ * @returns The rows, without the line break at the end of the file
+ */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  return tokenizeCsv(text, delimiter).map((row) =>
+    row.map((cell) => cell.value)
+  );
+}
+
+/**
+ * Matches CSV headers to task fields by name (e.g. "Task name" to name,
+ * "Predecessors" to dependsOn). Each column is used for one field at most.
+ * @param headers - The file's header row
+ * @returns The column of every recognized field
+ */
+export function suggestCsvMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map((header) =>
+    header.toLowerCase().replace(/[^a-z0-9]/g, "")
+  );
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<number>();
+  (Object.keys(HEADER_ALIASES) as CsvField[]).forEach((field) => {
+    const column = normalized.findIndex(
+      (header, index) =>
+        !used.has(index) && HEADER_ALIASES[field].includes(header)
+    );
+    if (column !== -1) {
+      mapping[field] = column;
+      used.add(column);
+    }
+  });
+  return mapping;
+}
+
+/**
+ * Builds a task from the cells of one row.
+ * @returns The task, or why a cell cannot be read
+ */
+function readTask(
+  cell: (field: CsvField) => string
+): { task: GanttTask } | { error: string } {
+  const status = cell("status")
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map((value) => value.toLowerCase());
+  const unknown = status.find(
+    (value) => !(TASK_STATUSES as string[]).includes(value)
+  );
+  if (unknown) {
+    return { error: `Unknown status "${unknown}"` };
+  }
+
+  const progress = cell("progress").replace(/%$/, "");
+  if (progress && !/^\d+(\.\d+)?$/.test(progress)) {
+    return { error: `Invalid progress "${cell("progress")}"` };
+  }
+
+  const after = cell("dependsOn").split(/[\s,;]+/).filter(Boolean);
+  const assignees: TaskAssignment[] = [];
+  for (const value of cell("assignees").split(/[\s,;]+/).filter(Boolean)) {
+    const match = /^([^:]+)(?::(\d+(?:\.\d+)?)%?)?$/.exec(value);
+    if (!match) {
+      return { error: `Invalid assignee "${value}"` };
+    }
+    assignees.push(
+      match[2] === undefined
+        ? { resourceId: match[1] }
+        : { resourceId: match[1], allocation: Number(match[2]) }
+    );
+  }
+  const end = cell("end");
+  const duration = cell("duration");
+
+  const task: GanttTask = {
+    id: cell("id"),
+    name: cell("name"),
+    start: cell("start"),
+    // An end date wins over a duration, which spreadsheets often derive
+    duration:
+      end ||
+      (/^\d+$/.test(duration)
+        ? { value: parseInt(duration, 10), unit: "d" }
+        : parseDuration(duration) ?? duration),
+  };
+  if (status.length > 0) {
+    task.status = status as TaskStatus[];
+  }
+  if (progress) {
+    task.progress = Number(progress);
+  }
+  if (after.length > 0) {
+    task.after = after.length === 1 ? after[0] : after;
+  }
+  if (assignees.length > 0) {
+    task.assignees = assignees;
+  }
+  return { task };
+}
+
+/**
+ * Imports a task list from a table of cells, such as the rows of a CSV file
+ * or a spreadsheet. Every row below the headers is a task, read through the
+ * column mapping, and is numbered as in the file, the headers being row 1.
+ * Rows with an empty section cell, or the same section as the row above,
+ * belong to the section above them, and a row with only a section always
+ * starts a new section. When no column is mapped to the section, every task
+ * goes into a section called "Tasks".
+ *
+ * Durations are written like "5d" (a bare number is read as days); an end
+ * date takes precedence over a duration. Progress is a percentage, with or
+ * without "%". Statuses, dependencies and assignees are lists separated by
+ * spaces, commas or semicolons; an assignee may be followed by its
+ * allocation, as in "bob:50". Assignees missing from `options.resources`
+ * are added to the chart's resources.
+ *
+ * Each task is checked with validateTask, and the chart as a whole for
+ * duplicate IDs, unknown dependencies and cycles. Problems are reported
+ * with the row they were found on.
+ *
+ * @param headers - The header row
+ * @param rows - The cells of the rows below it
+ * @param options - Column mapping and config for the imported chart
+ * @returns CsvImportResult with the chart, or the problems found
+ */
+export function importTaskTable(
+  headers: string[],
+  rows: string[][],
+  options: CsvImportOptions = {}
+): CsvImportResult {
+  const mapping = options.mapping ?? suggestCsvMapping(headers);
+  const config = options.config;
+  const dateFormat: DateFormat =
+    config?.dateFormat && DATE_FORMATS.includes(config.dateFormat)
+      ? config.dateFormat
+      : "YYYY-MM-DD";
+
+  const sections: GanttSection[] = [];
+  const errors: CsvRowError[] = [];
+  // Row of each task, keyed by its path in the chart
+  const taskRows = new Map<string, number>();
+
+  rows.forEach((cells, index) => {
+    const row = index + 2;
+    const cell = (field: CsvField) => {
+      const column = mapping[field];
+      return (column === undefined ? undefined : cells[column]) ?? "";
+    };
+    const fields = (Object.keys(CSV_HEADERS) as CsvField[]).filter(
+      (field) => field !== "section"
+    );
+    const isEmptyTask = fields.every((field) => cell(field) === "");
+    if (isEmptyTask && !cell("section")) {
+      return;
+    }
+
+    const sectionName =
+      mapping.section === undefined ? "Tasks" : cell("section");
+    const previous = sections[sections.length - 1];
+    if (
+      sectionName &&
+      (isEmptyTask || !previous || previous.name !== sectionName)
+    ) {
+      sections.push({ name: sectionName, tasks: [] });
+    } else if (!sectionName && !previous) {
+      errors.push({ row, message: "Missing a section" });
+      return;
+    }
+    if (isEmptyTask) {
+      return;
+    }
+
+    const section = sections[sections.length - 1];
+    const read = readTask(cell);
+    if ("error" in read) {
+      errors.push({ row, message: read.error });
+      return;
+    }
+    const message = validateTask(read.task, section.name, dateFormat);
+    if (message) {
+      errors.push({ row, message });
+    }
+    taskRows.set(
+      `sections[${sections.length - 1}].tasks[${section.tasks.length}]`,
+      row
+    );
+    section.tasks.push(read.task);
+  });
+
+  const resources: GanttResource[] = [...(options.resources ?? [])];
+  sections.forEach((section) =>
+    section.tasks.forEach((task) =>
+      (task.assignees ?? []).forEach(({ resourceId }) => {
+        if (!resources.some((resource) => resource.id === resourceId)) {
+          resources.push({ id: resourceId, name: resourceId });
+        }
+      })
+    )
+  );
+  const data: GanttData = {
+    ...(config && { config }),
+    ...(resources.length > 0 && { resources }),
+    sections,
+  };
+  if (sections.length === 0) {
+    errors.push({ message: "The file has no tasks" });
+  }
+  collectValidationIssues(data)
+    .filter((issue) => CROSS_ROW_CODES.includes(issue.code))
+    .forEach((issue) => {
+      const taskPath = issue.path.match(/^sections\[\d+\]\.tasks\[\d+\]/);
+      errors.push({
+        row: taskPath ? taskRows.get(taskPath[0]) : undefined,
+        message: issue.message,
+      });
+    });
+  errors.sort((a, b) => (a.row ?? 0) - (b.row ?? 0));
+
+  return errors.length > 0
+    ? { success: false, headers, mapping, errors }
+    : { success: true, data, headers, mapping, errors };
+}
+
+/**
+ * Imports a task list from CSV with importTaskTable. The first row holds
+ * the headers. Cells are trimmed unless they are quoted, and the apostrophe
+ * exportCsvTasks puts before cells that would read as formulas is dropped.
+ *
+ * @param text - The CSV text
+ * @param options - Column mapping and config for the imported chart
+ * @returns CsvImportResult with the chart, or the problems found
+ */
+export function importCsvTasks(
+  text: string,
+  options: CsvImportOptions = {}
+): CsvImportResult {
+  const [headerCells = [], ...rows] = tokenizeCsv(text);
+  const cellText = (cell: CsvCell) => {
+    const value = cell.quoted ? cell.value : cell.value.trim();
+    return FORMULA_START.test(value.slice(1)) && value.startsWith("'")
+      ? value.slice(1)
+      : value;
+  };
+  return importTaskTable(
+    headerCells.map((cell) => cell.value),
+    rows.map((cells) => cells.map(cellText)),
+    options
+  );
+}
+
+/**
+ * Puts an apostrophe before a cell that spreadsheets would read as a
+ * formula, and quotes it if it contains a delimiter, quote or line break
+ * or starts or ends with a space.
+ */
+function formatCell(value: string): string {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",;\t\r\n]|^\s|\s$/.test(safe)
+    ? `"${safe.replace(/"/g, '""')}"`
+    : safe;
+}
+
+/**
+ * Writes a chart's tasks as a table with the CSV_HEADERS columns, one row
+ * per task after the header row, so that importTaskTable reads back the
+ * same sections and tasks. Sections without tasks, and sections named like
+ * the one before them, get a row with only the section name, which starts a
+ * new section on import.
+ *
+ * The table has no room for chart-wide fields: the config, resources and
+ * baselines are not written, and are given back to importTaskTable through
+ * its options (baselines are lost). Durations written as strings, such as
+ * "5d", are read back as Duration objects, and a single dependency given as
+ * a one-item list is read back as a plain ID.
+ *
+ * @param data - The chart to export
+ * @returns The header row and the rows of the tasks
+ */
+export function exportTaskTable(data: GanttData): string[][] {
+  const fields = Object.keys(CSV_HEADERS) as CsvField[];
+  const rows = [fields.map((field) => CSV_HEADERS[field])];
+
+  data.sections.forEach((section, index) => {
+    const previous = data.sections[index - 1];
+    if (section.tasks.length === 0 || previous?.name === section.name) {
+      rows.push(
+        fields.map((field) => (field === "section" ? section.name : ""))
+      );
+    }
+    section.tasks.forEach((task) => {
+      const duration =
+        typeof task.duration === "object"
+          ? formatDuration(task.duration)
+          : task.duration;
+      const isEndDate = !parseDuration(duration);
+      const values: Record<CsvField, string> = {
+        section: section.name,
+        id: task.id,
+        name: task.name,
+        start: task.start,
+        end: isEndDate ? duration : "",
+        duration: isEndDate ? "" : duration,
+        status: (task.status ?? []).join(" "),
+        progress: task.progress === undefined ? "" : String(task.progress),
+        dependsOn: getAfterIds(task).join(" "),
+        assignees: (task.assignees ?? [])
+          .map(({ resourceId, allocation }) =>
+            allocation === undefined
+              ? resourceId
+              : `${resourceId}:${allocation}`
+          )
+          .join(" "),
+      };
+      rows.push(fields.map((field) => values[field]));
+    });
+  });
+  return rows;
+}
+
+/**
+ * Writes a chart's tasks as CSV with exportTaskTable, so that
+ * importCsvTasks reads back the same sections and tasks.
+ * @param data - The chart to export
+ * @returns CSV text with CRLF line breaks
+ */
+export function exportCsvTasks(data: GanttData): string {
+  return exportTaskTable(data)
+    .map((cells) => cells.map(formatCell).join(","))
+    .join("\r\n")
+    .concat("\r\n");
+}
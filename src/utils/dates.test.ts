@@ -0,0 +1,69 @@
+import { parseDate, formatDate, getDatePart } from "./dates";
+
+describe("dates", () => {
+  describe("parseDate", () => {
+    it("parses each supported format", () => {
+      const expected = new Date(2024, 2, 15);
+      expect(parseDate("2024-03-15", "YYYY-MM-DD")).toEqual(expected);
+      expect(parseDate("15-03-2024", "DD-MM-YYYY")).toEqual(expected);
+      expect(parseDate("03-15-2024", "MM-DD-YYYY")).toEqual(expected);
+      expect(parseDate("2024/03/15", "YYYY/MM/DD")).toEqual(expected);
+    });
+
+    it("returns null for values in another format", () => {
+      expect(parseDate("2024-03-15", "DD-MM-YYYY")).toBeNull();
+      expect(parseDate("2024/03/15", "YYYY-MM-DD")).toBeNull();
+    });
+
+    it("returns null for impossible calendar dates", () => {
+      expect(parseDate("2024-02-30", "YYYY-MM-DD")).toBeNull();
+      expect(parseDate("2023-02-29", "YYYY-MM-DD")).toBeNull();
+      expect(parseDate("2024-13-01", "YYYY-MM-DD")).toBeNull();
+    });
+
+    it("accepts leap days", () => {
+      expect(parseDate("2024-02-29", "YYYY-MM-DD")).toEqual(
+        new Date(2024, 1, 29)
+      );
+    });
+
+    it("parses times in datetime formats", () => {
+      expect(parseDate("2024-03-15 09:30", "YYYY-MM-DD HH:mm")).toEqual(
+        new Date(2024, 2, 15, 9, 30)
+      );
+      expect(parseDate("15-03-2024 23:59", "DD-MM-YYYY HH:mm")).toEqual(
+        new Date(2024, 2, 15, 23, 59)
+      );
+    });
+
+    it("returns null for impossible times or missing times", () => {
+      expect(parseDate("2024-03-15 24:00", "YYYY-MM-DD HH:mm")).toBeNull();
+      expect(parseDate("2024-03-15 10:60", "YYYY-MM-DD HH:mm")).toBeNull();
+      expect(parseDate("2024-03-15", "YYYY-MM-DD HH:mm")).toBeNull();
+      expect(parseDate("2024-03-15 10:00", "YYYY-MM-DD")).toBeNull();
+    });
+  });
+
+  describe("formatDate", () => {
+    it("formats each supported format", () => {
+      const date = new Date(2024, 0, 5);
+      expect(formatDate(date, "YYYY-MM-DD")).toBe("2024-01-05");
+      expect(formatDate(date, "DD-MM-YYYY")).toBe("05-01-2024");
+      expect(formatDate(date, "MM-DD-YYYY")).toBe("01-05-2024");
+      expect(formatDate(date, "YYYY/MM/DD")).toBe("2024/01/05");
+    });
+
+    it("formats times", () => {
+      expect(
+        formatDate(new Date(2024, 0, 5, 7, 5), "YYYY-MM-DD HH:mm")
+      ).toBe("2024-01-05 07:05");
+    });
+  });
+
+  describe("getDatePart", () => {
+    it("drops the time from datetime formats", () => {
+      expect(getDatePart("DD-MM-YYYY HH:mm")).toBe("DD-MM-YYYY");
+      expect(getDatePart("YYYY/MM/DD")).toBe("YYYY/MM/DD");
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { DateFormat } from "../types";
+
+/**
+ * Every supported DateFormat.
+ */
+export const DATE_FORMATS: DateFormat[] = [
+  "YYYY-MM-DD",
+  "DD-MM-YYYY",
+  "MM-DD-YYYY",
+  "YYYY/MM/DD",
+  "YYYY-MM-DD HH:mm",
+  "DD-MM-YYYY HH:mm",
+  "MM-DD-YYYY HH:mm",
+  "YYYY/MM/DD HH:mm",
+];
+
+/**
+ * Date tokens supported in a DateFormat, with the pattern each one matches.
+ */
+const DATE_TOKENS: Record<string, string> = {
+  YYYY: "(\\d{4})",
+  MM: "(\\d{2})",
+  DD: "(\\d{2})",
+  HH: "(\\d{2})",
+  mm: "(\\d{2})",
+};
+
+/**
+ * Splits a DateFormat into its tokens and literal separators.
+ */
+function tokenizeFormat(format: string): string[] {
+  return format.split(/(YYYY|MM|DD|HH|mm)/).filter((part) => part !== "");
+}
+
+/**
+ * Returns the date-only part of a DateFormat (e.g., "YYYY-MM-DD" for
+ * "YYYY-MM-DD HH:mm").
+ */
+export function getDatePart(format: DateFormat): DateFormat {
+  return format.split(" ")[0] as DateFormat;
+}
+
+/**
+ * Parses a date string according to a DateFormat.
+ * Dates are created in local time, matching how Mermaid interprets them.
+ * @param value - The date string (e.g., "2024-01-15" or "2024-01-15 09:30")
+ * @param format - The expected format
+ * @returns The parsed Date, or null if the value does not match the format
+ *   or is not a real calendar date or time (e.g., 2024-02-30 or 25:00)
+ */
+export function parseDate(value: string, format: DateFormat): Date | null {
+  const tokens = tokenizeFormat(format);
+  const pattern = tokens
+    .map((token) =>
+      DATE_TOKENS[token] ?? token.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&")
+    )
+    .join("");
+  const match = new RegExp(`^${pattern}$`).exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const parts: Record<string, number> = { HH: 0, mm: 0 };
+  tokens
+    .filter((token) => token in DATE_TOKENS)
+    .forEach((token, index) => {
+      parts[token] = parseInt(match[index + 1], 10);
+    });
+
+  if (parts.HH > 23 || parts.mm > 59) {
+    return null;
+  }
+
+  const date = new Date(parts.YYYY, parts.MM - 1, parts.DD, parts.HH, parts.mm);
+  if (
+    date.getFullYear() !== parts.YYYY ||
+    date.getMonth() !== parts.MM - 1 ||
+    date.getDate() !== parts.DD
+  ) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Formats a Date according to a DateFormat, using local time.
+ * @param date - The date to format
+ * @param format - The target format
+ * @returns The formatted date string
+ */
+export function formatDate(date: Date, format: DateFormat): string {
+  const values: Record<string, string> = {
+    YYYY: String(date.getFullYear()).padStart(4, "0"),
+    MM: String(date.getMonth() + 1).padStart(2, "0"),
+    DD: String(date.getDate()).padStart(2, "0"),
+    HH: String(date.getHours()).padStart(2, "0"),
+    mm: String(date.getMinutes()).padStart(2, "0"),
+  };
+  return tokenizeFormat(format)
+    .map((token) => values[token] ?? token)
+    .join("");
+}
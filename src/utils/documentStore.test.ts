@@ -0,0 +1,245 @@
+import {
+  DOCUMENT_SCHEMA_VERSION,
+  createDocument,
+  deleteDocument,
+  duplicateDocument,
+  getLastOpenDocumentId,
+  listDocuments,
+  loadDocument,
+  migrateStoredDocument,
+  renameDocument,
+  saveDocument,
+  setLastOpenDocumentId,
+} from "./documentStore";
+import { GanttData } from "../types";
+
+const data: GanttData = {
+  sections: [
+    {
+      name: "Build",
+      tasks: [{ id: "a", name: "A", start: "2024-01-01", duration: "1d" }],
+    },
+  ],
+};
+
+/**
+ * localStorage that refuses values containing some text, as if full.
+ */
+function storageRejecting(text: string): Storage {
+  return {
+    getItem: (key: string) => localStorage.getItem(key),
+    setItem: (key: string, value: string) => {
+      if (value.includes(text)) {
+        throw new Error("QuotaExceededError");
+      }
+      localStorage.setItem(key, value);
+    },
+    removeItem: (key: string) => localStorage.removeItem(key),
+  } as unknown as Storage;
+}
+
+describe("documentStore", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("creates documents and lists them, most recent first", () => {
+    const first = createDocument("First", data);
+    jest.spyOn(Date.prototype, "toISOString").mockReturnValueOnce(
+      "2999-01-01T00:00:00.000Z"
+    );
+    const second = createDocument("Second", data);
+    jest.restoreAllMocks();
+
+    expect(first.success).toBe(true);
+    expect(listDocuments().map((item) => item.name)).toEqual([
+      "Second",
+      "First",
+    ]);
+    expect(getLastOpenDocumentId()).toBe(second.document!.id);
+    expect(loadDocument(first.document!.id).document!.data).toEqual(data);
+  });
+
+  it("stores documents with the schema version", () => {
+    const { document } = createDocument("Plan", data);
+    const stored = JSON.parse(
+      localStorage.getItem(`ganttifier:document:${document!.id}`)!
+    );
+    expect(stored).toEqual({
+      schemaVersion: DOCUMENT_SCHEMA_VERSION,
+      document: expect.objectContaining({ name: "Plan", data }),
+    });
+  });
+
+  it("saves, renames and duplicates documents", () => {
+    const { document } = createDocument("Plan", data);
+    const id = document!.id;
+    const updated = { ...data, config: { title: "Updated" } };
+
+    expect(saveDocument(id, updated).success).toBe(true);
+    expect(renameDocument(id, "Renamed").document).toEqual(
+      expect.objectContaining({ name: "Renamed", data: updated })
+    );
+    expect(renameDocument(id, "  ")).toEqual({
+      success: false,
+      error: "Document name is required",
+    });
+
+    const copy = duplicateDocument(id);
+    expect(copy.document).toEqual(
+      expect.objectContaining({ name: "Renamed (copy)", data: updated })
+    );
+    expect(copy.document!.id).not.toBe(id);
+    expect(getLastOpenDocumentId()).toBe(copy.document!.id);
+  });
+
+  it("counts the saves that change the chart", () => {
+    const { document } = createDocument("Plan", data);
+    const id = document!.id;
+    const updated = { ...data, config: { title: "Updated" } };
+
+    expect(document!.revision).toBe(0);
+    expect(saveDocument(id, updated).document!.revision).toBe(1);
+    expect(saveDocument(id, { ...updated }).document!.revision).toBe(1);
+    expect(renameDocument(id, "Renamed").document!.revision).toBe(1);
+    expect(saveDocument(id, data).document!.revision).toBe(2);
+    expect(duplicateDocument(id).document!.revision).toBe(0);
+    expect(listDocuments()[0]).not.toHaveProperty("revision");
+  });
+
+  it("starts documents saved before revisions at revision 0", () => {
+    const { revision, ...document } = createDocument("Plan", data).document!;
+
+    expect(migrateStoredDocument({ schemaVersion: 1, document })).toEqual({
+      success: true,
+      document: { ...document, revision: 0 },
+    });
+  });
+
+  it("saves the undo history with the chart but not in the list", () => {
+    const { document } = createDocument("Plan", data);
+    const id = document!.id;
+    const updated = { ...data, config: { title: "Updated" } };
+    const history = {
+      past: [
+        {
+          label: "Change title",
+          changes: [{ path: ["config"], after: { title: "Updated" } }],
+          size: 50,
+          time: 0,
+        },
+      ],
+      future: [],
+      maxSize: 1000,
+    };
+
+    saveDocument(id, updated, localStorage, history);
+
+    expect(loadDocument(id).document!.history).toEqual(history);
+    expect(renameDocument(id, "Renamed").document!.history).toEqual(history);
+    expect(listDocuments()[0]).not.toHaveProperty("history");
+
+    saveDocument(id, data);
+    expect(loadDocument(id).document).not.toHaveProperty("history");
+  });
+
+  it("drops the oldest history entries when storage is full", () => {
+    const { document } = createDocument("Plan", data);
+    const id = document!.id;
+    const entry = (label: string, size: number) => ({
+      label,
+      changes: [{ path: ["config", "title"], after: label }],
+      size,
+      time: 0,
+    });
+    const history = {
+      past: [entry("Old", 3000), entry("New", 500)],
+      future: [entry("Next", 500)],
+      maxSize: 10000,
+    };
+    const limited = storageRejecting('"Old"');
+
+    expect(saveDocument(id, data, limited, history).success).toBe(true);
+    expect(loadDocument(id).document!.history).toEqual({
+      ...history,
+      past: [history.past[1]],
+    });
+  });
+
+  it("saves the chart without its history when nothing else fits", () => {
+    const { document } = createDocument("Plan", data);
+    const id = document!.id;
+    const history = {
+      past: [
+        {
+          label: "Change title",
+          changes: [{ path: ["config", "title"], after: "Updated" }],
+          size: 40,
+          time: 0,
+        },
+      ],
+      future: [],
+      maxSize: 1000,
+    };
+    const limited = storageRejecting('"history"');
+
+    expect(saveDocument(id, data, limited, history).success).toBe(true);
+    expect(loadDocument(id).document).not.toHaveProperty("history");
+  });
+
+  it("deletes documents and forgets them as the last open one", () => {
+    const { document } = createDocument("Plan", data);
+
+    expect(deleteDocument(document!.id)).toBeNull();
+    expect(listDocuments()).toEqual([]);
+    expect(getLastOpenDocumentId()).toBeNull();
+    expect(loadDocument(document!.id)).toEqual({
+      success: false,
+      error: `Document "${document!.id}" does not exist`,
+    });
+  });
+
+  it("records the last open document", () => {
+    const first = createDocument("First", data).document!;
+    createDocument("Second", data);
+
+    expect(setLastOpenDocumentId(first.id)).toBeNull();
+    expect(getLastOpenDocumentId()).toBe(first.id);
+  });
+
+  it("reports unreadable and newer documents", () => {
+    const { document } = createDocument("Plan", data);
+    const key = `ganttifier:document:${document!.id}`;
+
+    localStorage.setItem(key, "{not json");
+    expect(loadDocument(document!.id).error).toBe(
+      "Stored document is not readable"
+    );
+
+    localStorage.setItem(
+      key,
+      JSON.stringify({ schemaVersion: DOCUMENT_SCHEMA_VERSION + 1, document })
+    );
+    expect(loadDocument(document!.id).error).toBe(
+      `Document "Plan" was saved by a newer version (schema ${
+        DOCUMENT_SCHEMA_VERSION + 1
+      })`
+    );
+    expect(migrateStoredDocument({ document }).success).toBe(false);
+  });
+
+  it("reports storage errors instead of throwing", () => {
+    const full = {
+      getItem: () => null,
+      setItem: () => {
+        throw new Error("QuotaExceededError");
+      },
+      removeItem: () => undefined,
+    } as unknown as Storage;
+
+    expect(createDocument("Plan", data, full)).toEqual({
+      success: false,
+      error: "Could not save to storage: QuotaExceededError",
+    });
+  });
+});
@@ -0,0 +1,335 @@
+import {
+  DocumentResult,
+  GanttData,
+  GanttDocument,
+  GanttDocumentSummary,
+  SavedHistory,
+  StoredDocumentIndex,
+  StoredGanttDocument,
+} from "../types";
+import { trimHistory } from "./history";
+
+/**
+ * Version of the stored document format. Bump it, and add a migration from
+ * the previous version, whenever GanttData changes in a way that old saves
+ * no longer fit.
+ */
+export const DOCUMENT_SCHEMA_VERSION = 2;
+
+/**
+ * Upgrades a stored document from the version it is keyed by to the next.
+ */
+const MIGRATIONS: Record<number, (document: GanttDocument) => GanttDocument> =
+  {
+    // Version 2 counts revisions
+    1: (document) => ({ ...document, revision: 0 }),
+  };
+
+const INDEX_KEY = "ganttifier:documents";
+
+/**
+ * Storage key of a document's payload.
+ */
+function documentKey(id: string): string {
+  return `ganttifier:document:${id}`;
+}
+
+/**
+ * Generates an ID for a new document.
+ */
+function generateDocumentId(): string {
+  return `doc-${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .substring(2, 8)}`;
+}
+
+/**
+ * Reads the document list, treating a missing or unreadable list as empty.
+ */
+function readIndex(storage: Storage): StoredDocumentIndex {
+  try {
+    const index = JSON.parse(storage.getItem(INDEX_KEY) ?? "null");
+    if (index && Array.isArray(index.documents)) {
+      return index;
+    }
+  } catch {
+    // Fall through to an empty list
+  }
+  return { schemaVersion: DOCUMENT_SCHEMA_VERSION, documents: [] };
+}
+
+/**
+ * Writes a value to storage.
+ * @returns An error message if the write failed (e.g. storage is full)
+ */
+function write(storage: Storage, key: string, value: unknown): string | null {
+  try {
+    storage.setItem(key, JSON.stringify(value));
+    return null;
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    return `Could not save to storage: ${reason}`;
+  }
+}
+
+/**
+ * Writes a document and records it in the document list.
+ */
+function writeDocument(
+  storage: Storage,
+  document: GanttDocument,
+  lastOpenId?: string
+): DocumentResult {
+  const payload: StoredGanttDocument = {
+    schemaVersion: DOCUMENT_SCHEMA_VERSION,
+    document,
+  };
+  const error = write(storage, documentKey(document.id), payload);
+  if (error) {
+    return { success: false, error };
+  }
+
+  const index = readIndex(storage);
+  const { data, history, revision, ...summary } = document;
+  const documents = index.documents.filter((item) => item.id !== document.id);
+  const indexError = write(storage, INDEX_KEY, {
+    ...index,
+    schemaVersion: DOCUMENT_SCHEMA_VERSION,
+    documents: [...documents, summary],
+    lastOpenId: lastOpenId ?? index.lastOpenId,
+  });
+  return indexError
+    ? { success: false, error: indexError }
+    : { success: true, document };
+}
+
+/**
+ * Brings a stored document up to the current schema version.
+ *
+ * @param payload - A parsed stored document
+ * @returns DocumentResult with the migrated document, or why it cannot be
+ *   read (e.g. it was saved by a newer version)
+ */
+export function migrateStoredDocument(payload: unknown): DocumentResult {
+  const stored = payload as Partial<StoredGanttDocument> | null;
+  if (
+    !stored ||
+    typeof stored.schemaVersion !== "number" ||
+    !stored.document ||
+    !stored.document.data
+  ) {
+    return { success: false, error: "Stored document is not readable" };
+  }
+  if (stored.schemaVersion > DOCUMENT_SCHEMA_VERSION) {
+    return {
+      success: false,
+      error: `Document "${stored.document.name}" was saved by a newer version (schema ${stored.schemaVersion})`,
+    };
+  }
+
+  let document = stored.document;
+  for (
+    let version = stored.schemaVersion;
+    version < DOCUMENT_SCHEMA_VERSION;
+    version++
+  ) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      return {
+        success: false,
+        error: `No migration from schema ${version} for document "${document.name}"`,
+      };
+    }
+    document = migrate(document);
+  }
+  return { success: true, document };
+}
+
+/**
+ * Lists the stored documents, most recently saved first.
+ * @param storage - Where documents are stored (defaults to localStorage)
+ */
+export function listDocuments(
+  storage: Storage = window.localStorage
+): GanttDocumentSummary[] {
+  return [...readIndex(storage).documents].sort((a, b) =>
+    b.updatedAt.localeCompare(a.updatedAt)
+  );
+}
+
+/**
+ * Reads a document, migrating it if it was saved by an older version.
+ * @param id - ID of the document
+ * @param storage - Where documents are stored (defaults to localStorage)
+ */
+export function loadDocument(
+  id: string,
+  storage: Storage = window.localStorage
+): DocumentResult {
+  const raw = storage.getItem(documentKey(id));
+  if (raw === null) {
+    return { success: false, error: `Document "${id}" does not exist` };
+  }
+  try {
+    return migrateStoredDocument(JSON.parse(raw));
+  } catch {
+    return { success: false, error: "Stored document is not readable" };
+  }
+}
+
+/**
+ * Saves a chart as a new document and makes it the last open one.
+ * @param name - Name of the document
+ * @param data - The chart to save
+ * @param storage - Where documents are stored (defaults to localStorage)
+ */
+export function createDocument(
+  name: string,
+  data: GanttData,
+  storage: Storage = window.localStorage
+): DocumentResult {
+  const id = generateDocumentId();
+  return writeDocument(
+    storage,
+    { id, name, data, updatedAt: new Date().toISOString(), revision: 0 },
+    id
+  );
+}
+
+/**
+ * Replaces the chart saved in a document, with its undo history if given.
+ * A history saved earlier is dropped when none is given, since it no
+ * longer leads to the saved chart. The document's revision goes up when
+ * the chart differs from the one saved before.
+ *
+ * When storage is too full for the history, it is saved again with half as
+ * many characters of entries at a time, the oldest dropped first, and
+ * finally without a history, so the chart itself is still saved.
+ *
+ * @param id - ID of the document
+ * @param data - The chart to save
+ * @param storage - Where documents are stored (defaults to localStorage)
+ * @param history - The chart's undo history, from saveHistory
+ */
+export function saveDocument(
+  id: string,
+  data: GanttData,
+  storage: Storage = window.localStorage,
+  history?: SavedHistory
+): DocumentResult {
+  const existing = loadDocument(id, storage);
+  if (!existing.success) {
+    return existing;
+  }
+  const { history: _previous, ...document } = existing.document!;
+  const changed = JSON.stringify(document.data) !== JSON.stringify(data);
+  const attempt = (saved?: SavedHistory) =>
+    writeDocument(storage, {
+      ...document,
+      data,
+      revision: document.revision + (changed ? 1 : 0),
+      ...(saved && { history: saved }),
+      updatedAt: new Date().toISOString(),
+    });
+
+  let result = attempt(history);
+  let size = history
+    ? [...history.past, ...history.future].reduce(
+        (sum, entry) => sum + entry.size,
+        0
+      )
+    : 0;
+  while (!result.success && history && size > 0) {
+    size = Math.floor(size / 2);
+    result = attempt(size > 0 ? trimHistory(history, size) : undefined);
+  }
+  return result;
+}
+
+/**
+ * Renames a document.
+ * @param id - ID of the document
+ * @param name - The new name
+ * @param storage - Where documents are stored (defaults to localStorage)
+ */
+export function renameDocument(
+  id: string,
+  name: string,
+  storage: Storage = window.localStorage
+): DocumentResult {
+  if (!name.trim()) {
+    return { success: false, error: "Document name is required" };
+  }
+  const existing = loadDocument(id, storage);
+  if (!existing.success) {
+    return existing;
+  }
+  return writeDocument(storage, {
+    ...existing.document!,
+    name,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Copies a document under the name "<name> (copy)" and makes the copy the
+ * last open one.
+ * @param id - ID of the document to copy
+ * @param storage - Where documents are stored (defaults to localStorage)
+ */
+export function duplicateDocument(
+  id: string,
+  storage: Storage = window.localStorage
+): DocumentResult {
+  const existing = loadDocument(id, storage);
+  if (!existing.success) {
+    return existing;
+  }
+  const { name, data } = existing.document!;
+  return createDocument(`${name} (copy)`, data, storage);
+}
+
+/**
+ * Deletes a document.
+ * @param id - ID of the document
+ * @param storage - Where documents are stored (defaults to localStorage)
+ * @returns An error message if the document list could not be updated
+ */
+export function deleteDocument(
+  id: string,
+  storage: Storage = window.localStorage
+): string | null {
+  storage.removeItem(documentKey(id));
+  const index = readIndex(storage);
+  return write(storage, INDEX_KEY, {
+    ...index,
+    documents: index.documents.filter((item) => item.id !== id),
+    lastOpenId: index.lastOpenId === id ? undefined : index.lastOpenId,
+  });
+}
+
+/**
+ * Returns the ID of the document that was open last, if it still exists.
+ * @param storage - Where documents are stored (defaults to localStorage)
+ */
+export function getLastOpenDocumentId(
+  storage: Storage = window.localStorage
+): string | null {
+  const index = readIndex(storage);
+  return index.documents.some((item) => item.id === index.lastOpenId)
+    ? index.lastOpenId!
+    : null;
+}
+
+/**
+ * Records which document is open, so it can be reopened on the next load.
+ * @param id - ID of the document
+ * @param storage - Where documents are stored (defaults to localStorage)
+ * @returns An error message if the write failed
+ */
+export function setLastOpenDocumentId(
+  id: string,
+  storage: Storage = window.localStorage
+): string | null {
+  return write(storage, INDEX_KEY, { ...readIndex(storage), lastOpenId: id });
+}
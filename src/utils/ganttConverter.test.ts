@@ -1,9 +1,12 @@
+import { execFileSync } from "child_process";
 import {
   formatDuration,
   formatTaskStatus,
   convertTask,
   convertSection,
   convertConfig,
+  convertInitDirective,
+  convertClickDirectives,
   validateTask,
   validateSection,
   validateGanttData,
@@ -11,7 +14,15 @@ import {
   createTask,
   createDependentTask,
   createMilestone,
+  getAfterIds,
+  findDependencyCycle,
+  collectTaskIssues,
+  collectSectionIssues,
+  collectValidationIssues,
+  collectConfigIssues,
+  PROGRESS_COMMENT,
 } from "./ganttConverter";
+import { resolveSchedule } from "./schedule";
 import { GanttTask, GanttSection, GanttData, GanttConfig } from "../types";
 
 describe("ganttConverter", () => {
@@ -101,6 +112,31 @@ describe("ganttConverter", () => {
       );
     });
 
+    it("converts a task with multiple dependencies", () => {
+      const task: GanttTask = {
+        id: "task3",
+        name: "Task Three",
+        start: "",
+        duration: { value: 3, unit: "d" },
+        after: ["task1", "task2"],
+      };
+      expect(convertTask(task)).toBe(
+        "    Task Three : task3 : after task1 task2 : 3d"
+      );
+    });
+
+    it("escapes task names that would break the task line", () => {
+      const task: GanttTask = {
+        id: "task1",
+        name: "API: v2 #1; %%\nsection Injected",
+        start: "2024-01-01",
+        duration: { value: 5, unit: "d" },
+      };
+      expect(convertTask(task)).toBe(
+        "    API#58; v2 #35;1#59; #37;#37; section Injected : task1 : 2024-01-01 : 5d"
+      );
+    });
+
     it("converts a task with string duration", () => {
       const task: GanttTask = {
         id: "task1",
@@ -111,6 +147,23 @@ describe("ganttConverter", () => {
       expect(convertTask(task)).toBe("    Task One : task1 : 2024-01-01 : 5d");
     });
 
+    it("shows progress after the name and marks complete tasks done", () => {
+      const task: GanttTask = {
+        id: "task1",
+        name: "Build",
+        start: "2024-01-01",
+        duration: "5d",
+        status: ["active"],
+        progress: 40,
+      };
+      expect(convertTask(task)).toBe(
+        "    Build (40%) : active : task1 : 2024-01-01 : 5d"
+      );
+      expect(convertTask({ ...task, status: ["crit"], progress: 100 })).toBe(
+        "    Build (100%) : done, crit : task1 : 2024-01-01 : 5d"
+      );
+    });
+
     it("converts a task with end date as duration", () => {
       const task: GanttTask = {
         id: "task1",
@@ -150,6 +203,16 @@ describe("ganttConverter", () => {
       expect(lines[1]).toBe("    Task One : task1 : 2024-01-01 : 5d");
       expect(lines[2]).toBe("    Task Two : task2 : after task1 : 3d");
     });
+
+    it("escapes section names", () => {
+      const section: GanttSection = {
+        name: "Phase 1\n    Injected : x : 2024-01-01 : 1d",
+        tasks: [createTask("task1", "Task", "2024-01-01", 1)],
+      };
+      expect(convertSection(section)[0]).toBe(
+        "    section Phase 1     Injected #58; x #58; 2024-01-01 #58; 1d"
+      );
+    });
   });
 
   describe("convertConfig", () => {
@@ -158,6 +221,13 @@ describe("ganttConverter", () => {
       expect(convertConfig(config)).toContain("    title My Project");
     });
 
+    it("escapes the title", () => {
+      const config: GanttConfig = { title: "Q1\ndateFormat DD-MM-YYYY" };
+      expect(convertConfig(config)).toEqual([
+        "    title Q1 dateFormat DD-MM-YYYY",
+      ]);
+    });
+
     it("converts dateFormat", () => {
       const config: GanttConfig = { dateFormat: "YYYY-MM-DD" };
       expect(convertConfig(config)).toContain("    dateFormat YYYY-MM-DD");
@@ -178,6 +248,45 @@ describe("ganttConverter", () => {
       expect(convertConfig(config)).toContain("    tickInterval 1week");
     });
 
+    it("converts excludeDates into the excludes directive", () => {
+      const config: GanttConfig = {
+        excludes: ["sunday"],
+        excludeDates: ["2024-12-25", "2024-12-26"],
+      };
+      expect(convertConfig(config)).toContain(
+        "    excludes sunday, 2024-12-25, 2024-12-26"
+      );
+    });
+
+    it("formats excludeDates with the chart's dateFormat", () => {
+      const config: GanttConfig = {
+        dateFormat: "DD-MM-YYYY",
+        excludeDates: ["2024-12-25"],
+      };
+      expect(convertConfig(config)).toContain("    excludes 25-12-2024");
+    });
+
+    it("converts includes", () => {
+      const config: GanttConfig = {
+        dateFormat: "YYYY/MM/DD",
+        includes: ["2024-01-06"],
+      };
+      expect(convertConfig(config)).toContain("    includes 2024/01/06");
+    });
+
+    it("converts weekday, topAxis and todayMarker", () => {
+      const config: GanttConfig = {
+        weekday: "monday",
+        topAxis: true,
+        todayMarker: "off",
+      };
+      expect(convertConfig(config)).toEqual([
+        "    weekday monday",
+        "    topAxis",
+        "    todayMarker off",
+      ]);
+    });
+
     it("returns empty array for empty config", () => {
       expect(convertConfig({})).toHaveLength(0);
     });
@@ -193,6 +302,38 @@ describe("ganttConverter", () => {
     });
   });
 
+  describe("convertInitDirective", () => {
+    it("returns null unless compact mode is requested", () => {
+      expect(convertInitDirective({})).toBeNull();
+      expect(convertInitDirective({ displayMode: "default" })).toBeNull();
+    });
+
+    it("configures compact display mode", () => {
+      expect(convertInitDirective({ displayMode: "compact" })).toBe(
+        '%%{init: {"gantt":{"displayMode":"compact"}}}%%'
+      );
+    });
+  });
+
+  describe("convertClickDirectives", () => {
+    it("emits a click line for every task", () => {
+      const sections: GanttSection[] = [
+        {
+          name: "A",
+          tasks: [createTask("a1", "One", "2024-01-01", 1)],
+        },
+        {
+          name: "B",
+          tasks: [createTask("b1", "Two", "2024-01-01", 1)],
+        },
+      ];
+      expect(convertClickDirectives(sections)).toEqual([
+        "    click a1 call onTaskClick()",
+        "    click b1 call onTaskClick()",
+      ]);
+    });
+  });
+
   describe("validateTask", () => {
     it("returns null for valid task", () => {
       const task: GanttTask = {
@@ -245,6 +386,28 @@ describe("ganttConverter", () => {
       expect(validateTask(task, "Test")).toBeNull();
     });
 
+    it("accepts task with multiple dependencies instead of start", () => {
+      const task: GanttTask = {
+        id: "task1",
+        name: "Task",
+        start: "",
+        duration: { value: 5, unit: "d" },
+        after: ["task0", "taskA"],
+      };
+      expect(validateTask(task, "Test")).toBeNull();
+    });
+
+    it("returns error for empty dependency list without start", () => {
+      const task: GanttTask = {
+        id: "task1",
+        name: "Task",
+        start: "",
+        duration: { value: 5, unit: "d" },
+        after: [],
+      };
+      expect(validateTask(task, "Test")).toContain("missing a start date");
+    });
+
     it("returns error for invalid duration string", () => {
       const task: GanttTask = {
         id: "task1",
@@ -277,6 +440,23 @@ describe("ganttConverter", () => {
       expect(validateTask(task, "Test")).toBeNull();
     });
 
+    it("rejects progress outside 0 to 100", () => {
+      const task: GanttTask = {
+        id: "task1",
+        name: "Task",
+        start: "2024-01-01",
+        duration: "1d",
+      };
+      expect(validateTask({ ...task, progress: 0 }, "Test")).toBeNull();
+      expect(validateTask({ ...task, progress: 100 }, "Test")).toBeNull();
+      expect(validateTask({ ...task, progress: 101 }, "Test")).toBe(
+        'Task "task1" has invalid progress: 101 (expected 0 to 100)'
+      );
+      expect(validateTask({ ...task, progress: NaN }, "Test")).toContain(
+        "invalid progress"
+      );
+    });
+
     it("rejects zero duration for non-milestone tasks", () => {
       const task: GanttTask = {
         id: "task1",
@@ -423,6 +603,475 @@ describe("ganttConverter", () => {
       };
       expect(validateGanttData(data)).toContain("non-existent task");
     });
+
+    it("returns error for circular dependencies", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "Development",
+            tasks: [
+              createDependentTask("a", "A", "b", 1),
+              createDependentTask("b", "B", "a", 1),
+            ],
+          },
+        ],
+      };
+      expect(validateGanttData(data)).toBe(
+        "Circular dependency detected: a -> b -> a"
+      );
+    });
+
+    it("returns error for self-dependencies", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "Development",
+            tasks: [
+              createTask("start", "Start", "2024-01-01", 1),
+              createDependentTask("a", "A", ["start", "a"], 1),
+            ],
+          },
+        ],
+      };
+      expect(validateGanttData(data)).toBe(
+        "Circular dependency detected: a -> a"
+      );
+    });
+
+    it("checks every dependency in a list", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "Development",
+            tasks: [
+              createTask("task1", "Task", "2024-01-01", 5),
+              createDependentTask("task2", "Task 2", ["task1", "ghost"], 2),
+            ],
+          },
+        ],
+      };
+      expect(validateGanttData(data)).toBe(
+        'Task "task2" depends on non-existent task: "ghost"'
+      );
+    });
+  });
+
+  describe("collectTaskIssues", () => {
+    it("returns an empty list for a valid task", () => {
+      expect(
+        collectTaskIssues(createTask("a", "A", "2024-01-01", 1), "Test")
+      ).toEqual([]);
+    });
+
+    it("returns every problem with code, severity and path", () => {
+      const task = {
+        id: "",
+        name: "",
+        start: "",
+        duration: { value: -1, unit: "x" },
+      } as unknown as GanttTask;
+
+      const issues = collectTaskIssues(task, "Test", 2, 3);
+
+      expect(issues.map((issue) => issue.code)).toEqual([
+        "TASK_MISSING_ID",
+        "TASK_MISSING_NAME",
+        "TASK_MISSING_START",
+        "INVALID_DURATION_VALUE",
+        "INVALID_DURATION_UNIT",
+      ]);
+      expect(issues[0]).toEqual({
+        code: "TASK_MISSING_ID",
+        severity: "error",
+        message: 'Task in section "Test" is missing an ID',
+        path: "sections[2].tasks[3].id",
+        sectionIndex: 2,
+        taskId: undefined,
+      });
+      expect(issues[1].message).toBe(
+        'Task 4 in section "Test" is missing a name'
+      );
+      expect(issues[3].path).toBe("sections[2].tasks[3].duration.value");
+    });
+
+    it("stops at a missing duration", () => {
+      const task = {
+        id: "a",
+        name: "A",
+        start: "2024-01-01",
+      } as GanttTask;
+      const issues = collectTaskIssues(task, "Test");
+      expect(issues).toHaveLength(1);
+      expect(issues[0].code).toBe("TASK_MISSING_DURATION");
+    });
+
+    it("warns when a start date is ignored in favour of a dependency", () => {
+      const task: GanttTask = {
+        id: "b",
+        name: "B",
+        start: "2024-01-01",
+        duration: "1d",
+        after: "a",
+      };
+      const issues = collectTaskIssues(task, "Test", 1, 0);
+      expect(issues).toEqual([
+        expect.objectContaining({
+          code: "TASK_START_IGNORED",
+          severity: "warning",
+          sectionIndex: 1,
+          taskId: "b",
+        }),
+      ]);
+      expect(validateTask(task, "Test")).toBeNull();
+    });
+
+    it("rejects impossible start and end dates", () => {
+      const task: GanttTask = {
+        id: "a",
+        name: "A",
+        start: "2024-02-30",
+        duration: "2024-13-01",
+      };
+      const issues = collectTaskIssues(task, "Test");
+      expect(issues.map((issue) => issue.code)).toEqual([
+        "INVALID_START_DATE",
+        "INVALID_END_DATE",
+      ]);
+      expect(issues[0].message).toBe(
+        'Task "a" has invalid start date: "2024-02-30" (expected YYYY-MM-DD)'
+      );
+      expect(issues[1].path).toBe("sections[0].tasks[0].duration");
+    });
+
+    it("checks dates against the given date format", () => {
+      const task: GanttTask = {
+        id: "a",
+        name: "A",
+        start: "15-01-2024",
+        duration: "20-01-2024",
+      };
+      expect(collectTaskIssues(task, "Test", 0, 0, "DD-MM-YYYY")).toEqual([]);
+      expect(validateTask(task, "Test")).toContain("invalid start date");
+    });
+
+    it("accepts datetime starts and end dates", () => {
+      const task: GanttTask = {
+        id: "a",
+        name: "A",
+        start: "2024-01-15 09:00",
+        duration: "2024-01-15 17:30",
+      };
+      expect(
+        collectTaskIssues(task, "Test", 0, 0, "YYYY-MM-DD HH:mm")
+      ).toEqual([]);
+    });
+
+    it("rejects end dates before the start date", () => {
+      const task = createTask("a", "A", "2024-01-15", 1);
+      task.duration = "2024-01-10";
+      expect(collectTaskIssues(task, "Test")).toEqual([
+        expect.objectContaining({ code: "END_BEFORE_START" }),
+      ]);
+    });
+
+    it("does not check the start of dependent tasks", () => {
+      const task: GanttTask = {
+        id: "b",
+        name: "B",
+        start: "after a",
+        duration: "1d",
+      };
+      expect(collectTaskIssues(task, "Test")).toEqual([]);
+    });
+  });
+
+  describe("task ID validation", () => {
+    it.each(["a b", "a,b", "a:b", "x;y", "after\nsection z", "a#1"])(
+      "rejects %j",
+      (id) => {
+        const issues = collectTaskIssues(
+          createTask(id, "Task", "2024-01-01", 1),
+          "Test"
+        );
+        expect(issues).toEqual([
+          expect.objectContaining({
+            code: "INVALID_TASK_ID",
+            path: "sections[0].tasks[0].id",
+            taskId: id,
+          }),
+        ]);
+      }
+    );
+  });
+
+  describe("collectConfigIssues", () => {
+    it("accepts typical values", () => {
+      expect(
+        collectConfigIssues({
+          axisFormat: "%Y-%m-%d",
+          tickInterval: "1week",
+          todayMarker: "stroke-width:5px,stroke:#0f0",
+        })
+      ).toEqual([]);
+    });
+
+    it("rejects values that would inject directives", () => {
+      const issues = collectConfigIssues({
+        axisFormat: "%d\nsection Injected",
+        tickInterval: "1day;",
+        todayMarker: "off\ntitle x",
+      });
+      expect(issues.map((issue) => issue.path)).toEqual([
+        "config.axisFormat",
+        "config.tickInterval",
+        "config.todayMarker",
+      ]);
+      expect(issues[0].code).toBe("INVALID_CONFIG_VALUE");
+      expect(issues[0].sectionIndex).toBeUndefined();
+    });
+
+    it("rejects unsupported date formats", () => {
+      const config = { dateFormat: "DD.MM.YY" } as unknown as GanttConfig;
+      expect(collectConfigIssues(config)).toEqual([
+        expect.objectContaining({
+          code: "INVALID_CONFIG_VALUE",
+          path: "config.dateFormat",
+        }),
+      ]);
+    });
+
+    it("rejects excluded and included dates for datetime formats", () => {
+      const config: GanttConfig = {
+        dateFormat: "YYYY-MM-DD HH:mm",
+        excludes: ["saturday", "sunday"],
+        excludeDates: ["2024-12-25"],
+        includes: ["2024-12-28"],
+      };
+      expect(collectConfigIssues(config)).toEqual([
+        expect.objectContaining({
+          code: "INVALID_CONFIG_VALUE",
+          path: "config.excludeDates",
+        }),
+        expect.objectContaining({
+          code: "INVALID_CONFIG_VALUE",
+          path: "config.includes",
+        }),
+      ]);
+      expect(
+        collectConfigIssues({ ...config, excludeDates: [], includes: [] })
+      ).toEqual([]);
+    });
+
+    it("is part of collectValidationIssues", () => {
+      const data: GanttData = {
+        config: { axisFormat: "%d;" },
+        sections: [
+          {
+            name: "Main",
+            tasks: [createTask("a", "A", "2024-01-01", 1)],
+          },
+        ],
+      };
+      expect(validateGanttData(data)).toContain("axisFormat");
+    });
+
+    it("validates task dates in the chart's date format", () => {
+      const data: GanttData = {
+        config: { dateFormat: "MM-DD-YYYY" },
+        sections: [
+          {
+            name: "Main",
+            tasks: [createTask("a", "A", "2024-01-15", 1)],
+          },
+        ],
+      };
+      expect(validateGanttData(data)).toContain("expected MM-DD-YYYY");
+      data.sections[0].tasks[0].start = "01-15-2024";
+      expect(validateGanttData(data)).toBeNull();
+    });
+  });
+
+  describe("collectSectionIssues", () => {
+    it("reports a missing name alongside task problems", () => {
+      const section = {
+        name: "",
+        tasks: [{ id: "a", name: "", start: "2024-01-01", duration: "1d" }],
+      } as GanttSection;
+      const issues = collectSectionIssues(section, 4);
+      expect(issues.map((issue) => issue.code)).toEqual([
+        "SECTION_MISSING_NAME",
+        "TASK_MISSING_NAME",
+      ]);
+      expect(issues[0].path).toBe("sections[4].name");
+      expect(issues[0].sectionIndex).toBe(4);
+    });
+
+    it("reports empty sections", () => {
+      const issues = collectSectionIssues({ name: "Empty", tasks: [] }, 1);
+      expect(issues).toEqual([
+        expect.objectContaining({
+          code: "SECTION_EMPTY",
+          path: "sections[1].tasks",
+        }),
+      ]);
+    });
+  });
+
+  describe("collectValidationIssues", () => {
+    it("reports chart-level problems without a section", () => {
+      expect(collectValidationIssues({ sections: [] })).toEqual([
+        {
+          code: "NO_SECTIONS",
+          severity: "error",
+          message: "Gantt data must have at least one section",
+          path: "sections",
+        },
+      ]);
+      expect(
+        collectValidationIssues(null as unknown as GanttData)[0].code
+      ).toBe("MISSING_DATA");
+    });
+
+    it("reports all problems across sections at once", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "One",
+            tasks: [
+              createTask("a", "", "2024-01-01", 1),
+              createDependentTask("b", "B", ["a", "ghost"], 1),
+            ],
+          },
+          {
+            name: "Two",
+            tasks: [
+              createTask("a", "Again", "2024-01-01", 1),
+              createDependentTask("c", "C", "d", 1),
+              createDependentTask("d", "D", "c", 1),
+            ],
+          },
+        ],
+      };
+
+      const issues = collectValidationIssues(data);
+
+      expect(
+        issues.map((issue) => [issue.code, issue.sectionIndex, issue.path])
+      ).toEqual([
+        ["TASK_MISSING_NAME", 0, "sections[0].tasks[0].name"],
+        ["DUPLICATE_TASK_ID", 1, "sections[1].tasks[0].id"],
+        ["UNKNOWN_DEPENDENCY", 0, "sections[0].tasks[1].after[1]"],
+        ["CIRCULAR_DEPENDENCY", 1, "sections[1].tasks[1].after"],
+      ]);
+      expect(issues[3].taskId).toBe("c");
+    });
+
+    it("checks resources and task assignments", () => {
+      const data: GanttData = {
+        resources: [
+          { id: "ada", name: "Ada" },
+          { id: "ada", name: "Ada again" },
+        ],
+        sections: [
+          {
+            name: "One",
+            tasks: [
+              {
+                ...createTask("a", "A", "2024-01-01", 1),
+                assignees: [
+                  { resourceId: "ada", allocation: 0 },
+                  { resourceId: "grace", allocation: 50 },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      expect(
+        collectValidationIssues(data).map((issue) => [
+          issue.code,
+          issue.severity,
+          issue.path,
+        ])
+      ).toEqual([
+        [
+          "INVALID_ALLOCATION",
+          "error",
+          "sections[0].tasks[0].assignees[0].allocation",
+        ],
+        ["DUPLICATE_RESOURCE_ID", "warning", "resources[1].id"],
+        [
+          "UNKNOWN_RESOURCE",
+          "warning",
+          "sections[0].tasks[0].assignees[1].resourceId",
+        ],
+      ]);
+    });
+  });
+
+  describe("findDependencyCycle", () => {
+    it("returns null for an acyclic graph", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "Development",
+            tasks: [
+              createTask("a", "A", "2024-01-01", 1),
+              createDependentTask("b", "B", "a", 1),
+              createDependentTask("c", "C", ["a", "b"], 1),
+            ],
+          },
+        ],
+      };
+      expect(findDependencyCycle(data)).toBeNull();
+    });
+
+    it("reports a self-dependency", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "Development",
+            tasks: [createDependentTask("a", "A", "a", 1)],
+          },
+        ],
+      };
+      expect(findDependencyCycle(data)).toEqual(["a", "a"]);
+    });
+
+    it("reports the full cycle path across sections", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "One",
+            tasks: [
+              createTask("start", "Start", "2024-01-01", 1),
+              createDependentTask("a", "A", ["start", "b"], 1),
+            ],
+          },
+          {
+            name: "Two",
+            tasks: [
+              createDependentTask("b", "B", "c", 1),
+              createDependentTask("c", "C", "a", 1),
+            ],
+          },
+        ],
+      };
+      expect(findDependencyCycle(data)).toEqual(["a", "b", "c", "a"]);
+    });
+
+    it("ignores references to unknown tasks", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "Development",
+            tasks: [createDependentTask("a", "A", "ghost", 1)],
+          },
+        ],
+      };
+      expect(findDependencyCycle(data)).toBeNull();
+    });
   });
 
   describe("convertToMermaidSyntax", () => {
@@ -475,6 +1124,81 @@ describe("ganttConverter", () => {
       expect(result.syntax).toContain("dateFormat YYYY-MM-DD");
     });
 
+    it("tags the critical path as crit with autoCritical", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "Build",
+            tasks: [
+              createTask("a", "A", "2024-01-01", 5),
+              createTask("b", "B", "2024-01-01", 2),
+              createDependentTask("c", "C", "a", 1),
+            ],
+          },
+        ],
+      };
+
+      const result = convertToMermaidSyntax(data, { autoCritical: true });
+
+      expect(result.syntax!.split("\n")).toEqual([
+        "gantt",
+        "    section Build",
+        "    A : crit : a : 2024-01-01 : 5d",
+        "    B : b : 2024-01-01 : 2d",
+        "    C : crit : c : after a : 1d",
+      ]);
+      expect(convertToMermaidSyntax(data).syntax).not.toContain("crit");
+      expect(data.sections[0].tasks[0].status).toBeUndefined();
+    });
+
+    it("marks charts whose task names are followed by progress", () => {
+      const task = createTask("task1", "Task", "2024-01-01", 5);
+      const chart = (progress?: number): GanttData => ({
+        sections: [{ name: "Build", tasks: [{ ...task, progress }] }],
+      });
+
+      expect(convertToMermaidSyntax(chart(40)).syntax).toBe(
+        [
+          "gantt",
+          PROGRESS_COMMENT,
+          "    section Build",
+          "    Task (40%) : task1 : 2024-01-01 : 5d",
+        ].join("\n")
+      );
+      expect(convertToMermaidSyntax(chart()).syntax).not.toContain(
+        PROGRESS_COMMENT
+      );
+    });
+
+    it("places the init directive before the gantt declaration", () => {
+      const data: GanttData = {
+        config: { displayMode: "compact" },
+        sections: [
+          {
+            name: "Development",
+            tasks: [createTask("task1", "Task", "2024-01-01", 5)],
+          },
+        ],
+      };
+      const lines = convertToMermaidSyntax(data).syntax!.split("\n");
+      expect(lines[0]).toContain("displayMode");
+      expect(lines[1]).toBe("gantt");
+    });
+
+    it("adds click directives when enableClick is set", () => {
+      const data: GanttData = {
+        config: { enableClick: true },
+        sections: [
+          {
+            name: "Development",
+            tasks: [createTask("task1", "Task", "2024-01-01", 5)],
+          },
+        ],
+      };
+      const result = convertToMermaidSyntax(data);
+      expect(result.syntax).toContain("click task1 call onTaskClick()");
+    });
+
     it("returns error for invalid data", () => {
       const data: GanttData = { sections: [] };
       const result = convertToMermaidSyntax(data);
@@ -482,6 +1206,59 @@ describe("ganttConverter", () => {
       expect(result.error).toBeDefined();
     });
 
+    it("exposes every validation issue on failure", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "Development",
+            tasks: [
+              createDependentTask("a", "", "ghost", 1),
+              createTask("b", "B", "2024-01-01", 0),
+            ],
+          },
+        ],
+      };
+      const result = convertToMermaidSyntax(data);
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(result.issues![0].message);
+      expect(result.issues!.map((issue) => issue.code)).toEqual([
+        "TASK_MISSING_NAME",
+        "INVALID_DURATION_VALUE",
+        "UNKNOWN_DEPENDENCY",
+      ]);
+    });
+
+    it("exposes warnings on success", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "Development",
+            tasks: [
+              createTask("a", "A", "2024-01-01", 1),
+              { ...createDependentTask("b", "B", "a", 1), start: "2024-02-01" },
+            ],
+          },
+        ],
+      };
+      const result = convertToMermaidSyntax(data);
+      expect(result.success).toBe(true);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ code: "TASK_START_IGNORED" }),
+      ]);
+    });
+
+    it("omits issues when there are none", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "Development",
+            tasks: [createTask("a", "A", "2024-01-01", 1)],
+          },
+        ],
+      };
+      expect(convertToMermaidSyntax(data).issues).toBeUndefined();
+    });
+
     it("converts multiple sections", () => {
       const data: GanttData = {
         sections: [
@@ -517,6 +1294,86 @@ describe("ganttConverter", () => {
     });
   });
 
+  describe("excluded dates in Mermaid", () => {
+    /**
+     * Parses syntax with Mermaid's own gantt parser and returns the end of
+     * each task, in milliseconds. Jest cannot load Mermaid's ES modules, so
+     * it runs in a separate Node process.
+     */
+    function mermaidTaskEnds(syntax: string): number[] {
+      const script = `
+        import mermaid from "mermaid";
+        const text = ${JSON.stringify(syntax)};
+        await mermaid.parse(text);
+        const { db } = await mermaid.mermaidAPI.getDiagramFromText(text);
+        console.log(JSON.stringify(db.getTasks().map((task) => +task.endTime)));
+      `;
+      const output = execFileSync(
+        process.execPath,
+        ["--input-type=module", "-e", script],
+        { encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] }
+      );
+      return JSON.parse(output.trim().split("\n").pop()!);
+    }
+
+    /**
+     * A chart of one task with the directives convertConfig writes.
+     */
+    function chartWithTask(config: GanttConfig, task: string): string {
+      return [
+        "gantt",
+        ...convertConfig(config),
+        "    section Holidays",
+        `    Wrap up :wrap, ${task}`,
+      ].join("\n");
+    }
+
+    it("skips excluded dates the way resolveSchedule does", () => {
+      const config: GanttConfig = {
+        dateFormat: "DD-MM-YYYY",
+        excludes: ["saturday", "sunday"],
+        excludeDates: ["2024-12-25", "2024-12-26"],
+      };
+      const schedule = resolveSchedule({
+        config,
+        sections: [
+          {
+            name: "Holidays",
+            tasks: [createTask("wrap", "Wrap up", "23-12-2024", 4)],
+          },
+        ],
+      });
+
+      expect(schedule.tasks![0].end).toEqual(new Date(2024, 11, 31));
+      expect(mermaidTaskEnds(chartWithTask(config, "23-12-2024, 4d"))).toEqual(
+        [schedule.tasks![0].end.getTime()]
+      );
+    });
+
+    it("refuses excluded dates that Mermaid would not match", () => {
+      const config: GanttConfig = {
+        dateFormat: "YYYY-MM-DD HH:mm",
+        excludeDates: ["2024-12-25"],
+      };
+      // Mermaid does not skip the day, so the task would end a day early
+      expect(
+        mermaidTaskEnds(chartWithTask(config, "2024-12-24 00:00, 2d"))
+      ).toEqual([new Date(2024, 11, 26).getTime()]);
+
+      const result = convertToMermaidSyntax({
+        config,
+        sections: [
+          {
+            name: "Holidays",
+            tasks: [createTask("wrap", "Wrap up", "2024-12-24 00:00", 2)],
+          },
+        ],
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("excludeDates");
+    });
+  });
+
   describe("helper functions", () => {
     describe("createTask", () => {
       it("creates a basic task", () => {
@@ -559,6 +1416,18 @@ describe("ganttConverter", () => {
       });
     });
 
+    describe("getAfterIds", () => {
+      it("normalizes single and multiple dependencies", () => {
+        expect(getAfterIds(createTask("a", "A", "2024-01-01", 1))).toEqual([]);
+        expect(getAfterIds(createDependentTask("b", "B", "a", 1))).toEqual([
+          "a",
+        ]);
+        expect(
+          getAfterIds(createDependentTask("c", "C", ["a", "b"], 1))
+        ).toEqual(["a", "b"]);
+      });
+    });
+
     describe("createMilestone", () => {
       it("creates a milestone", () => {
         const milestone = createMilestone("m1", "Release", "task1");
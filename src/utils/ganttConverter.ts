@@ -3,9 +3,23 @@ import {
   GanttTask,
   GanttSection,
   GanttConfig,
+  DateFormat,
   Duration,
+  ConversionOptions,
   ConversionResult,
+  ValidationCode,
+  ValidationIssue,
 } from "../types";
+import { DATE_FORMATS, parseDate, formatDate } from "./dates";
+import { escapeMermaidText, isValidTaskId } from "./sanitize";
+import { markCriticalTasks } from "./criticalPath";
+
+/**
+ * Comment written by convertToMermaidSyntax when task names are followed by
+ * their progress. Without it, a name ending in e.g. " (40%)" is read as
+ * part of the name.
+ */
+export const PROGRESS_COMMENT = "%% ganttifier: progress after task names";
 
 /**
  * Formats a Duration object to Mermaid duration string.
@@ -23,6 +37,33 @@ function isDurationString(value: string): boolean {
   return /^\d+[dwmh]$/.test(value);
 }
 
+/**
+ * Parses a Duration-like string (e.g., "5d", "2w") to a Duration object.
+ * @param value - The duration string
+ * @returns The Duration, or null if the value is not a duration string
+ */
+export function parseDuration(value: string): Duration | null {
+  if (!isDurationString(value)) {
+    return null;
+  }
+  return {
+    value: parseInt(value.slice(0, -1), 10),
+    unit: value.slice(-1) as Duration["unit"],
+  };
+}
+
+/**
+ * Normalizes a task's `after` property to a list of task IDs.
+ * @param task - The task to inspect
+ * @returns IDs of the tasks this task starts after
+ */
+export function getAfterIds(task: GanttTask): string[] {
+  if (!task.after) {
+    return [];
+  }
+  return Array.isArray(task.after) ? task.after : [task.after];
+}
+
 /**
  * Formats task status indicators for Mermaid syntax.
  * @param status - Array of status indicators
@@ -35,19 +76,33 @@ export function formatTaskStatus(status?: GanttTask["status"]): string {
   return status.join(", ");
 }
 
+/**
+ * Returns a task's statuses, adding `done` when its progress is 100.
+ * @param task - The task to inspect
+ * @returns The task's statuses (the task's own array if nothing is added)
+ */
+export function getTaskStatus(task: GanttTask): GanttTask["status"] {
+  if (task.progress !== 100 || task.status?.includes("done")) {
+    return task.status;
+  }
+  return ["done", ...(task.status ?? [])];
+}
+
 /**
  * Converts a single GanttTask to Mermaid syntax.
+ * Progress is shown after the name, e.g. "Build (40%)".
  * @param task - The task to convert
  * @returns Mermaid task line
  */
 export function convertTask(task: GanttTask): string {
   const parts: string[] = [];
 
-  // Task name
-  parts.push(task.name);
+  // Task name, with its progress; a "%" in the name itself is escaped
+  const progress = task.progress === undefined ? "" : ` (${task.progress}%)`;
+  parts.push(`${escapeMermaidText(task.name)}${progress}`);
 
   // Status indicators (if any)
-  const statusStr = formatTaskStatus(task.status);
+  const statusStr = formatTaskStatus(getTaskStatus(task));
   if (statusStr) {
     parts.push(statusStr);
   }
@@ -55,9 +110,10 @@ export function convertTask(task: GanttTask): string {
   // Task ID
   parts.push(task.id);
 
-  // Start reference (either date or "after taskId")
-  if (task.after) {
-    parts.push(`after ${task.after}`);
+  // Start reference (either date or "after taskId [taskId...]")
+  const after = getAfterIds(task);
+  if (after.length > 0) {
+    parts.push(`after ${after.join(" ")}`);
   } else {
     parts.push(task.start);
   }
@@ -82,13 +138,27 @@ export function convertTask(task: GanttTask): string {
  */
 export function convertSection(section: GanttSection): string[] {
   const lines: string[] = [];
-  lines.push(`    section ${section.name}`);
+  lines.push(`    section ${escapeMermaidText(section.name)}`);
   section.tasks.forEach((task) => {
     lines.push(convertTask(task));
   });
   return lines;
 }
 
+/**
+ * Converts ISO dates to the chart's full date format, which is how Mermaid
+ * compares `excludes` and `includes` dates with each day of a task (at
+ * midnight for formats with a time). Unparseable values are kept.
+ * collectConfigIssues rejects formats whose dates Mermaid cannot match.
+ */
+function formatConfigDates(dates: string[], config: GanttConfig): string[] {
+  const dateFormat = config.dateFormat ?? "YYYY-MM-DD";
+  return dates.map((value) => {
+    const date = parseDate(value, "YYYY-MM-DD");
+    return date ? formatDate(date, dateFormat) : value;
+  });
+}
+
 /**
  * Converts GanttConfig to Mermaid directive lines.
  * @param config - The configuration object
@@ -98,7 +168,7 @@ export function convertConfig(config: GanttConfig): string[] {
   const lines: string[] = [];
 
   if (config.title) {
-    lines.push(`    title ${config.title}`);
+    lines.push(`    title ${escapeMermaidText(config.title)}`);
   }
 
   if (config.dateFormat) {
@@ -113,46 +183,243 @@ export function convertConfig(config: GanttConfig): string[] {
     lines.push(`    tickInterval ${config.tickInterval}`);
   }
 
-  if (config.excludes && config.excludes.length > 0) {
-    lines.push(`    excludes ${config.excludes.join(", ")}`);
+  if (config.weekday) {
+    lines.push(`    weekday ${config.weekday}`);
+  }
+
+  if (config.topAxis) {
+    lines.push("    topAxis");
+  }
+
+  if (config.todayMarker) {
+    lines.push(`    todayMarker ${config.todayMarker}`);
+  }
+
+  const excludes = [
+    ...(config.excludes ?? []),
+    ...formatConfigDates(config.excludeDates ?? [], config),
+  ];
+  if (excludes.length > 0) {
+    lines.push(`    excludes ${excludes.join(", ")}`);
+  }
+
+  if (config.includes && config.includes.length > 0) {
+    lines.push(
+      `    includes ${formatConfigDates(config.includes, config).join(", ")}`
+    );
   }
 
   return lines;
 }
 
 /**
- * Validates a GanttTask for required fields and consistency.
+ * Converts config options that Mermaid only accepts as configuration
+ * (not as gantt directives) to an init directive.
+ * @param config - The configuration object
+ * @returns The `%%{init}%%` line, or null if nothing needs configuring
+ */
+export function convertInitDirective(config: GanttConfig): string | null {
+  if (config.displayMode !== "compact") {
+    return null;
+  }
+  return `%%{init: ${JSON.stringify({ gantt: { displayMode: "compact" } })}}%%`;
+}
+
+/**
+ * Converts the chart's tasks to Mermaid click directives.
+ * Under Mermaid's strict security level these only mark the tasks as
+ * clickable; GanttChart attaches the actual click handling.
+ * @param sections - The chart sections
+ * @returns Array of Mermaid click lines
+ */
+export function convertClickDirectives(sections: GanttSection[]): string[] {
+  return sections.flatMap((section) =>
+    section.tasks.map((task) => `    click ${task.id} call onTaskClick()`)
+  );
+}
+
+/**
+ * Creates a validation issue with error severity.
+ */
+function error(
+  code: ValidationCode,
+  message: string,
+  path: string,
+  location: Pick<ValidationIssue, "sectionIndex" | "taskId"> = {}
+): ValidationIssue {
+  return { code, severity: "error", message, path, ...location };
+}
+
+/**
+ * Returns the message of the first error-severity issue, if any.
+ */
+function firstErrorMessage(issues: ValidationIssue[]): string | null {
+  const firstError = issues.find((issue) => issue.severity === "error");
+  return firstError ? firstError.message : null;
+}
+
+/**
+ * Collects every validation issue for a single GanttTask.
  * @param task - The task to validate
- * @param sectionName - Name of the containing section (for error messages)
- * @returns Error message if invalid, null if valid
+ * @param sectionName - Name of the containing section (for messages)
+ * @param sectionIndex - Index of the containing section (for paths)
+ * @param taskIndex - Index of the task within its section (for paths)
+ * @param dateFormat - Format of start and end dates
+ * @returns All issues found, in a stable order
  */
-export function validateTask(
+export function collectTaskIssues(
   task: GanttTask,
-  sectionName: string
-): string | null {
-  if (!task.id || task.id.trim() === "") {
-    return `Task in section "${sectionName}" is missing an ID`;
+  sectionName: string,
+  sectionIndex = 0,
+  taskIndex = 0,
+  dateFormat: DateFormat = "YYYY-MM-DD"
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const path = `sections[${sectionIndex}].tasks[${taskIndex}]`;
+  const hasId = !!task.id && task.id.trim() !== "";
+  const location = { sectionIndex, taskId: hasId ? task.id : undefined };
+  const label = hasId ? `Task "${task.id}"` : `Task ${taskIndex + 1}`;
+
+  if (!hasId) {
+    issues.push(
+      error(
+        "TASK_MISSING_ID",
+        `Task in section "${sectionName}" is missing an ID`,
+        `${path}.id`,
+        location
+      )
+    );
   }
 
-  if (!task.name || task.name.trim() === "") {
-    return `Task "${task.id}" in section "${sectionName}" is missing a name`;
+  if (hasId && !isValidTaskId(task.id)) {
+    issues.push(
+      error(
+        "INVALID_TASK_ID",
+        `${label} has an invalid ID; use only letters, digits, "_" and "-"`,
+        `${path}.id`,
+        location
+      )
+    );
   }
 
-  if (!task.after && (!task.start || task.start.trim() === "")) {
-    return `Task "${task.id}" in section "${sectionName}" is missing a start date or dependency`;
+  if (!task.name || task.name.trim() === "") {
+    issues.push(
+      error(
+        "TASK_MISSING_NAME",
+        `${label} in section "${sectionName}" is missing a name`,
+        `${path}.name`,
+        location
+      )
+    );
   }
 
-  if (!task.duration) {
-    return `Task "${task.id}" in section "${sectionName}" is missing a duration`;
+  const hasStart = !!task.start && task.start.trim() !== "";
+  const hasFixedStart =
+    hasStart && getAfterIds(task).length === 0 && !/^after\s/.test(task.start);
+  const startDate = hasFixedStart ? parseDate(task.start, dateFormat) : null;
+  if (getAfterIds(task).length === 0 && !hasStart) {
+    issues.push(
+      error(
+        "TASK_MISSING_START",
+        `${label} in section "${sectionName}" is missing a start date or dependency`,
+        `${path}.start`,
+        location
+      )
+    );
+  } else if (getAfterIds(task).length > 0 && hasStart) {
+    issues.push({
+      code: "TASK_START_IGNORED",
+      severity: "warning",
+      message: `${label} has both a start date and a dependency; the start date is ignored`,
+      path: `${path}.start`,
+      ...location,
+    });
+  } else if (hasFixedStart && !startDate) {
+    issues.push(
+      error(
+        "INVALID_START_DATE",
+        `${label} has invalid start date: "${task.start}" (expected ${dateFormat})`,
+        `${path}.start`,
+        location
+      )
+    );
   }
 
-  // Validate duration format if it's a string
   if (
-    typeof task.duration === "string" &&
-    !isDurationString(task.duration) &&
-    !/^\d{4}-\d{2}-\d{2}$/.test(task.duration)
+    task.progress !== undefined &&
+    (typeof task.progress !== "number" ||
+      !(task.progress >= 0 && task.progress <= 100))
   ) {
-    return `Task "${task.id}" has invalid duration format: "${task.duration}"`;
+    issues.push(
+      error(
+        "INVALID_PROGRESS",
+        `${label} has invalid progress: ${task.progress} (expected 0 to 100)`,
+        `${path}.progress`,
+        location
+      )
+    );
+  }
+
+  (task.assignees ?? []).forEach((assignee, assigneeIndex) => {
+    const { allocation } = assignee;
+    if (
+      allocation !== undefined &&
+      (typeof allocation !== "number" || !(allocation > 0))
+    ) {
+      issues.push(
+        error(
+          "INVALID_ALLOCATION",
+          `${label} has invalid allocation for "${assignee.resourceId}": ${allocation} (expected a percentage above 0)`,
+          `${path}.assignees[${assigneeIndex}].allocation`,
+          location
+        )
+      );
+    }
+  });
+
+  if (!task.duration) {
+    issues.push(
+      error(
+        "TASK_MISSING_DURATION",
+        `${label} in section "${sectionName}" is missing a duration`,
+        `${path}.duration`,
+        location
+      )
+    );
+    return issues;
+  }
+
+  // A string duration is either a duration ("5d") or an end date
+  if (typeof task.duration === "string" && !isDurationString(task.duration)) {
+    const endDate = parseDate(task.duration, dateFormat);
+    if (!endDate && /^\d+[-/]/.test(task.duration)) {
+      issues.push(
+        error(
+          "INVALID_END_DATE",
+          `${label} has invalid end date: "${task.duration}" (expected ${dateFormat})`,
+          `${path}.duration`,
+          location
+        )
+      );
+    } else if (!endDate) {
+      issues.push(
+        error(
+          "INVALID_DURATION_FORMAT",
+          `${label} has invalid duration format: "${task.duration}"`,
+          `${path}.duration`,
+          location
+        )
+      );
+    } else if (startDate && endDate < startDate) {
+      issues.push(
+        error(
+          "END_BEFORE_START",
+          `${label} ends before it starts`,
+          `${path}.duration`,
+          location
+        )
+      );
+    }
   }
 
   // Validate duration object
@@ -160,34 +427,153 @@ export function validateTask(
     // Milestones can have zero duration, regular tasks must have positive duration
     const isMilestone = task.status?.includes("milestone");
     if (task.duration.value < 0 || (!isMilestone && task.duration.value === 0)) {
-      return `Task "${task.id}" has invalid duration value: ${task.duration.value}`;
+      issues.push(
+        error(
+          "INVALID_DURATION_VALUE",
+          `${label} has invalid duration value: ${task.duration.value}`,
+          `${path}.duration.value`,
+          location
+        )
+      );
     }
     if (!["d", "w", "h", "m"].includes(task.duration.unit)) {
-      return `Task "${task.id}" has invalid duration unit: ${task.duration.unit}`;
+      issues.push(
+        error(
+          "INVALID_DURATION_UNIT",
+          `${label} has invalid duration unit: ${task.duration.unit}`,
+          `${path}.duration.unit`,
+          location
+        )
+      );
     }
   }
 
-  return null;
+  return issues;
 }
 
 /**
- * Validates a GanttSection for required fields.
- * @param section - The section to validate
+ * Validates a GanttTask for required fields and consistency.
+ * @param task - The task to validate
+ * @param sectionName - Name of the containing section (for error messages)
+ * @param dateFormat - Format of start and end dates
  * @returns Error message if invalid, null if valid
  */
-export function validateSection(section: GanttSection): string | null {
+export function validateTask(
+  task: GanttTask,
+  sectionName: string,
+  dateFormat: DateFormat = "YYYY-MM-DD"
+): string | null {
+  return firstErrorMessage(
+    collectTaskIssues(task, sectionName, 0, 0, dateFormat)
+  );
+}
+
+/**
+ * Collects every validation issue for a GanttSection and its tasks.
+ * @param section - The section to validate
+ * @param sectionIndex - Index of the section in the chart (for paths)
+ * @param dateFormat - Format of task start and end dates
+ * @returns All issues found, in a stable order
+ */
+export function collectSectionIssues(
+  section: GanttSection,
+  sectionIndex = 0,
+  dateFormat: DateFormat = "YYYY-MM-DD"
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const path = `sections[${sectionIndex}]`;
+
   if (!section.name || section.name.trim() === "") {
-    return "Section is missing a name";
+    issues.push(
+      error("SECTION_MISSING_NAME", "Section is missing a name", `${path}.name`, {
+        sectionIndex,
+      })
+    );
   }
 
   if (!section.tasks || section.tasks.length === 0) {
-    return `Section "${section.name}" has no tasks`;
+    issues.push(
+      error(
+        "SECTION_EMPTY",
+        `Section "${section.name}" has no tasks`,
+        `${path}.tasks`,
+        { sectionIndex }
+      )
+    );
+    return issues;
   }
 
-  for (const task of section.tasks) {
-    const taskError = validateTask(task, section.name);
-    if (taskError) {
-      return taskError;
+  section.tasks.forEach((task, taskIndex) => {
+    issues.push(
+      ...collectTaskIssues(
+        task,
+        section.name,
+        sectionIndex,
+        taskIndex,
+        dateFormat
+      )
+    );
+  });
+
+  return issues;
+}
+
+/**
+ * Validates a GanttSection for required fields.
+ * @param section - The section to validate
+ * @param dateFormat - Format of task start and end dates
+ * @returns Error message if invalid, null if valid
+ */
+export function validateSection(
+  section: GanttSection,
+  dateFormat: DateFormat = "YYYY-MM-DD"
+): string | null {
+  return firstErrorMessage(collectSectionIssues(section, 0, dateFormat));
+}
+
+/**
+ * Finds a cycle in the task dependency graph formed by `after` references.
+ * References to unknown tasks are ignored.
+ * @param data - The Gantt data to inspect
+ * @returns The task IDs along the cycle, starting and ending with the same
+ *   task (e.g., ["a", "b", "a"]), or null if there is no cycle
+ */
+export function findDependencyCycle(data: GanttData): string[] | null {
+  const dependencies = new Map<string, string[]>();
+  for (const section of data.sections) {
+    for (const task of section.tasks ?? []) {
+      dependencies.set(task.id, getAfterIds(task));
+    }
+  }
+
+  const finished = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const index = path.indexOf(id);
+    if (index !== -1) {
+      return [...path.slice(index), id];
+    }
+    if (finished.has(id) || !dependencies.has(id)) {
+      return null;
+    }
+
+    path.push(id);
+    for (const dependencyId of dependencies.get(id)!) {
+      const cycle = visit(dependencyId);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    finished.add(id);
+    return null;
+  };
+
+  for (const id of Array.from(dependencies.keys())) {
+    const cycle = visit(id);
+    if (cycle) {
+      return cycle;
     }
   }
 
@@ -195,78 +581,274 @@ export function validateSection(section: GanttSection): string | null {
 }
 
 /**
- * Validates complete GanttData structure.
+ * Config fields written verbatim into a directive, with the characters
+ * that would end the directive early or start a new one.
+ */
+const VERBATIM_CONFIG_FIELDS: Array<{
+  field: "axisFormat" | "tickInterval" | "todayMarker";
+  unsafe: RegExp;
+}> = [
+  { field: "axisFormat", unsafe: /[\r\n#;]/ },
+  { field: "tickInterval", unsafe: /[\r\n#;]/ },
+  { field: "todayMarker", unsafe: /[\r\n;]/ },
+];
+
+/**
+ * Collects validation issues for GanttConfig values that are written
+ * into Mermaid directives without escaping, and for excluded or included
+ * dates that Mermaid could not match in the chart's date format.
+ * @param config - The configuration to validate
+ * @returns All issues found
+ */
+export function collectConfigIssues(config: GanttConfig): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (config.dateFormat && !DATE_FORMATS.includes(config.dateFormat)) {
+    issues.push(
+      error(
+        "INVALID_CONFIG_VALUE",
+        `Config dateFormat is not supported: "${config.dateFormat}"`,
+        "config.dateFormat"
+      )
+    );
+  }
+
+  // Mermaid lowercases `excludes` and `includes` and splits them at spaces
+  // and commas before comparing each piece with a day in the chart's date
+  // format, so dates written with a time never match
+  const dateFormat = config.dateFormat ?? "YYYY-MM-DD";
+  const sample = formatDate(new Date(2024, 0, 1), dateFormat);
+  if (
+    DATE_FORMATS.includes(dateFormat) &&
+    (/[\s,]/.test(sample) || sample !== sample.toLowerCase())
+  ) {
+    for (const field of ["excludeDates", "includes"] as const) {
+      if (config[field]?.length) {
+        issues.push(
+          error(
+            "INVALID_CONFIG_VALUE",
+            `Config ${field} cannot be used with dateFormat "${dateFormat}": Mermaid cannot match dates written with a time`,
+            `config.${field}`
+          )
+        );
+      }
+    }
+  }
+
+  for (const { field, unsafe } of VERBATIM_CONFIG_FIELDS) {
+    const value = config[field];
+    if (value && unsafe.test(value)) {
+      issues.push(
+        error(
+          "INVALID_CONFIG_VALUE",
+          `Config ${field} contains characters that are not allowed: "${value}"`,
+          `config.${field}`
+        )
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Collects every validation issue in complete GanttData: section and task
+ * fields, duplicate IDs, unknown dependencies, circular dependencies, and
+ * assignments to unknown resources.
  * @param data - The Gantt data to validate
- * @returns Error message if invalid, null if valid
+ * @returns All issues found, in a stable order
  */
-export function validateGanttData(data: GanttData): string | null {
+export function collectValidationIssues(data: GanttData): ValidationIssue[] {
   if (!data) {
-    return "Gantt data is required";
+    return [error("MISSING_DATA", "Gantt data is required", "")];
   }
 
   if (!data.sections || data.sections.length === 0) {
-    return "Gantt data must have at least one section";
+    return [
+      error(
+        "NO_SECTIONS",
+        "Gantt data must have at least one section",
+        "sections"
+      ),
+    ];
   }
 
+  const issues: ValidationIssue[] = data.config
+    ? collectConfigIssues(data.config)
+    : [];
+
+  // Task dates are only checked against a supported format
+  const dateFormat =
+    data.config?.dateFormat && DATE_FORMATS.includes(data.config.dateFormat)
+      ? data.config.dateFormat
+      : "YYYY-MM-DD";
+
   // Check for duplicate task IDs
   const taskIds = new Set<string>();
-  for (const section of data.sections) {
-    const sectionError = validateSection(section);
-    if (sectionError) {
-      return sectionError;
-    }
+  data.sections.forEach((section, sectionIndex) => {
+    issues.push(...collectSectionIssues(section, sectionIndex, dateFormat));
 
-    for (const task of section.tasks) {
+    (section.tasks ?? []).forEach((task, taskIndex) => {
+      if (!task.id) {
+        return;
+      }
       if (taskIds.has(task.id)) {
-        return `Duplicate task ID found: "${task.id}"`;
+        issues.push(
+          error(
+            "DUPLICATE_TASK_ID",
+            `Duplicate task ID found: "${task.id}"`,
+            `sections[${sectionIndex}].tasks[${taskIndex}].id`,
+            { sectionIndex, taskId: task.id }
+          )
+        );
       }
       taskIds.add(task.id);
-    }
-  }
+    });
+  });
 
   // Validate task dependencies exist
-  for (const section of data.sections) {
-    for (const task of section.tasks) {
-      if (task.after && !taskIds.has(task.after)) {
-        return `Task "${task.id}" depends on non-existent task: "${task.after}"`;
-      }
-    }
+  const taskLocations = new Map<
+    string,
+    { path: string; sectionIndex: number }
+  >();
+  data.sections.forEach((section, sectionIndex) => {
+    (section.tasks ?? []).forEach((task, taskIndex) => {
+      const path = `sections[${sectionIndex}].tasks[${taskIndex}].after`;
+      taskLocations.set(task.id, { path, sectionIndex });
+
+      getAfterIds(task).forEach((afterId, afterIndex) => {
+        if (!taskIds.has(afterId)) {
+          issues.push(
+            error(
+              "UNKNOWN_DEPENDENCY",
+              `Task "${task.id}" depends on non-existent task: "${afterId}"`,
+              Array.isArray(task.after) ? `${path}[${afterIndex}]` : path,
+              { sectionIndex, taskId: task.id }
+            )
+          );
+        }
+      });
+    });
+  });
+
+  // Validate there are no circular dependencies
+  const cycle = findDependencyCycle(data);
+  if (cycle) {
+    const { path, sectionIndex } = taskLocations.get(cycle[0])!;
+    issues.push(
+      error(
+        "CIRCULAR_DEPENDENCY",
+        `Circular dependency detected: ${cycle.join(" -> ")}`,
+        path,
+        { sectionIndex, taskId: cycle[0] }
+      )
+    );
   }
 
-  return null;
+  // Validate resources are unique and assignments refer to them
+  const resourceIds = new Set<string>();
+  (data.resources ?? []).forEach((resource, resourceIndex) => {
+    if (resourceIds.has(resource.id)) {
+      issues.push({
+        code: "DUPLICATE_RESOURCE_ID",
+        severity: "warning",
+        message: `Duplicate resource ID found: "${resource.id}"`,
+        path: `resources[${resourceIndex}].id`,
+      });
+    }
+    resourceIds.add(resource.id);
+  });
+  data.sections.forEach((section, sectionIndex) => {
+    (section.tasks ?? []).forEach((task, taskIndex) => {
+      (task.assignees ?? []).forEach((assignee, assigneeIndex) => {
+        if (!resourceIds.has(assignee.resourceId)) {
+          issues.push({
+            code: "UNKNOWN_RESOURCE",
+            severity: "warning",
+            message: `Task "${task.id}" is assigned to unknown resource: "${assignee.resourceId}"`,
+            path: `sections[${sectionIndex}].tasks[${taskIndex}].assignees[${assigneeIndex}].resourceId`,
+            sectionIndex,
+            taskId: task.id,
+          });
+        }
+      });
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Validates complete GanttData structure.
+ * @param data - The Gantt data to validate
+ * @returns Error message if invalid, null if valid
+ */
+export function validateGanttData(data: GanttData): string | null {
+  return firstErrorMessage(collectValidationIssues(data));
 }
 
 /**
  * Converts GanttData to Mermaid Gantt chart syntax.
  * @param data - The Gantt data to convert
- * @returns ConversionResult with syntax or error
+ * @param options - Whether to tag the critical path as `crit` first
+ * @returns ConversionResult with syntax or error, plus every validation issue
  */
-export function convertToMermaidSyntax(data: GanttData): ConversionResult {
+export function convertToMermaidSyntax(
+  data: GanttData,
+  options: ConversionOptions = {}
+): ConversionResult {
   // Validate input
-  const validationError = validateGanttData(data);
+  const issues = collectValidationIssues(data);
+  const validationError = firstErrorMessage(issues);
   if (validationError) {
     return {
       success: false,
       error: validationError,
+      issues,
     };
   }
+  const chart = options.autoCritical ? markCriticalTasks(data) : data;
 
-  const lines: string[] = ["gantt"];
+  const lines: string[] = [];
 
   // Add configuration
-  if (data.config) {
-    lines.push(...convertConfig(data.config));
+  if (chart.config) {
+    const initDirective = convertInitDirective(chart.config);
+    if (initDirective) {
+      lines.push(initDirective);
+    }
+    lines.push("gantt");
+    lines.push(...convertConfig(chart.config));
+  } else {
+    lines.push("gantt");
+  }
+
+  // Tell parseMermaidGantt that " (N%)" after a task name is its progress
+  const hasProgress = chart.sections.some((section) =>
+    section.tasks.some((task) => task.progress !== undefined)
+  );
+  if (hasProgress) {
+    lines.push(PROGRESS_COMMENT);
   }
 
   // Add sections
-  for (const section of data.sections) {
+  for (const section of chart.sections) {
     lines.push(...convertSection(section));
   }
 
-  return {
+  // Mark tasks as clickable
+  if (chart.config?.enableClick) {
+    lines.push(...convertClickDirectives(chart.sections));
+  }
+
+  const result: ConversionResult = {
     success: true,
     syntax: lines.join("\n"),
   };
+  if (issues.length > 0) {
+    result.issues = issues;
+  }
+  return result;
 }
 
 /**
@@ -291,12 +873,12 @@ export function createTask(
 }
 
 /**
- * Creates a task that depends on another task.
+ * Creates a task that depends on another task, or on several tasks.
  */
 export function createDependentTask(
   id: string,
   name: string,
-  afterTaskId: string,
+  afterTaskId: string | string[],
   durationValue: number,
   durationUnit: Duration["unit"] = "d",
   status?: GanttTask["status"]
@@ -317,7 +899,7 @@ export function createDependentTask(
 export function createMilestone(
   id: string,
   name: string,
-  afterTaskId: string
+  afterTaskId: string | string[]
 ): GanttTask {
   return {
     id,
@@ -0,0 +1,368 @@
+import { diffGanttData, mergeGanttData } from "./ganttDiff";
+import { validateGanttData } from "./ganttConverter";
+import { GanttData, GanttTask } from "../types";
+
+const spec: GanttTask = {
+  id: "spec",
+  name: "Spec",
+  start: "2024-01-01",
+  duration: { value: 2, unit: "d" },
+};
+const mock: GanttTask = {
+  id: "mock",
+  name: "Mockups",
+  start: "",
+  after: "spec",
+  duration: { value: 1, unit: "d" },
+};
+const api: GanttTask = {
+  id: "api",
+  name: "API",
+  start: "",
+  after: "spec",
+  duration: { value: 3, unit: "d" },
+};
+const ui: GanttTask = {
+  id: "ui",
+  name: "UI",
+  start: "",
+  after: "mock",
+  duration: { value: 2, unit: "d" },
+};
+
+const base: GanttData = {
+  config: { title: "Plan" },
+  sections: [
+    { name: "Design", tasks: [spec, mock] },
+    { name: "Build", tasks: [api, ui] },
+  ],
+};
+
+describe("ganttDiff", () => {
+  describe("diffGanttData", () => {
+    it("reports renamed sections, moved tasks and changed fields", () => {
+      const later: GanttData = {
+        config: { title: "Plan v2" },
+        resources: [{ id: "ada", name: "Ada" }],
+        sections: [
+          {
+            name: "Discovery",
+            tasks: [{ ...spec, duration: { value: 3, unit: "d" } }],
+          },
+          {
+            name: "Build",
+            tasks: [
+              api,
+              mock,
+              { id: "qa", name: "QA", start: "", after: "api", duration: "1d" },
+            ],
+          },
+        ],
+      };
+
+      expect(diffGanttData(base, later)).toEqual({
+        sections: [
+          {
+            kind: "renamed",
+            name: "Discovery",
+            previousName: "Design",
+            index: 0,
+          },
+        ],
+        tasks: [
+          {
+            id: "spec",
+            kind: "changed",
+            name: "Spec",
+            section: "Discovery",
+            fields: [
+              {
+                field: "duration",
+                before: { value: 2, unit: "d" },
+                after: { value: 3, unit: "d" },
+              },
+            ],
+          },
+          {
+            id: "mock",
+            kind: "changed",
+            name: "Mockups",
+            section: "Build",
+            previousSection: "Design",
+            fields: [],
+          },
+          { id: "qa", kind: "added", name: "QA", section: "Build", fields: [] },
+          {
+            id: "ui",
+            kind: "removed",
+            name: "UI",
+            section: "Build",
+            fields: [],
+          },
+        ],
+        config: [{ field: "title", before: "Plan", after: "Plan v2" }],
+        fields: [
+          {
+            field: "resources",
+            before: undefined,
+            after: [{ id: "ada", name: "Ada" }],
+          },
+        ],
+      });
+    });
+
+    it("reports added and removed sections", () => {
+      const later: GanttData = {
+        ...base,
+        sections: [
+          base.sections[0],
+          { name: "Launch", tasks: [{ ...api, id: "ship", name: "Ship" }] },
+        ],
+      };
+
+      const diff = diffGanttData(base, later);
+
+      expect(diff.sections).toEqual([
+        { kind: "added", name: "Launch", index: 1 },
+        { kind: "removed", name: "Build", index: 1 },
+      ]);
+      expect(diff.tasks.map((task) => [task.id, task.kind])).toEqual([
+        ["ship", "added"],
+        ["api", "removed"],
+        ["ui", "removed"],
+      ]);
+    });
+
+    it("finds no changes between equal charts", () => {
+      expect(diffGanttData(base, JSON.parse(JSON.stringify(base)))).toEqual({
+        sections: [],
+        tasks: [],
+        config: [],
+        fields: [],
+      });
+    });
+  });
+
+  describe("mergeGanttData", () => {
+    it("combines changes made on different sides", () => {
+      const ours: GanttData = {
+        ...base,
+        sections: [
+          {
+            name: "Discovery",
+            tasks: [{ ...spec, duration: { value: 3, unit: "d" } }, mock],
+          },
+          base.sections[1],
+        ],
+      };
+      const theirs: GanttData = {
+        config: { title: "Plan v2" },
+        sections: [
+          base.sections[0],
+          {
+            name: "Build",
+            tasks: [
+              { ...api, progress: 50 },
+              { id: "qa", name: "QA", start: "", after: "api", duration: "1d" },
+              { ...ui, name: "Web UI" },
+            ],
+          },
+          { name: "Launch", tasks: [{ ...api, id: "ship", name: "Ship" }] },
+        ],
+      };
+
+      const result = mergeGanttData(base, ours, theirs);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.data).toEqual({
+        config: { title: "Plan v2" },
+        sections: [
+          {
+            name: "Discovery",
+            tasks: [{ ...spec, duration: { value: 3, unit: "d" } }, mock],
+          },
+          {
+            name: "Build",
+            tasks: [
+              { ...api, progress: 50 },
+              { id: "qa", name: "QA", start: "", after: "api", duration: "1d" },
+              { ...ui, name: "Web UI" },
+            ],
+          },
+          { name: "Launch", tasks: [{ ...api, id: "ship", name: "Ship" }] },
+        ],
+      });
+    });
+
+    it("keeps our change when both sides change a field", () => {
+      const edit = (days: number, title: string): GanttData => ({
+        config: { title },
+        sections: [
+          {
+            name: "Design",
+            tasks: [{ ...spec, duration: { value: days, unit: "d" } }, mock],
+          },
+          base.sections[1],
+        ],
+      });
+
+      const result = mergeGanttData(base, edit(3, "Ours"), edit(4, "Theirs"));
+
+      expect(result.data).toEqual(edit(3, "Ours"));
+      expect(result.conflicts).toEqual([
+        {
+          kind: "edit",
+          path: "sections[0].tasks[0].duration",
+          taskId: "spec",
+          base: { value: 2, unit: "d" },
+          ours: { value: 3, unit: "d" },
+          theirs: { value: 4, unit: "d" },
+          resolution: "ours",
+          message: 'Both sides changed "duration" of task "spec"; kept ours',
+        },
+        {
+          kind: "edit",
+          path: "config.title",
+          base: "Plan",
+          ours: "Ours",
+          theirs: "Theirs",
+          resolution: "ours",
+          message: 'Both sides changed config "title"; kept ours',
+        },
+      ]);
+    });
+
+    it("keeps our name when both sides rename a section", () => {
+      const rename = (name: string): GanttData => ({
+        ...base,
+        sections: [base.sections[0], { ...base.sections[1], name }],
+      });
+
+      const result = mergeGanttData(base, rename("Dev"), rename("Code"));
+
+      expect(result.data!.sections[1].name).toBe("Dev");
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({
+          kind: "edit",
+          path: "sections[1].name",
+          message: 'Both sides renamed section "Build"; kept "Dev"',
+        }),
+      ]);
+    });
+
+    it("keeps a task removed on one side and changed on the other", () => {
+      const ours: GanttData = {
+        ...base,
+        sections: [base.sections[0], { name: "Build", tasks: [api] }],
+      };
+      const theirs: GanttData = {
+        ...base,
+        sections: [
+          base.sections[0],
+          { name: "Build", tasks: [api, { ...ui, name: "Web UI" }] },
+        ],
+      };
+
+      const result = mergeGanttData(base, ours, theirs);
+
+      expect(result.data!.sections[1].tasks).toEqual([
+        api,
+        { ...ui, name: "Web UI" },
+      ]);
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({
+          kind: "delete",
+          path: "sections[1].tasks[1]",
+          taskId: "ui",
+          resolution: "theirs",
+          message: 'Task "ui" was removed in ours but changed in theirs; kept it',
+        }),
+      ]);
+    });
+
+    it("restores a removed task that the other side depends on", () => {
+      const review: GanttTask = {
+        id: "review",
+        name: "Review",
+        start: "",
+        after: "mock",
+        duration: "1d",
+      };
+      const ours: GanttData = {
+        ...base,
+        sections: [
+          { name: "Design", tasks: [spec, mock, review] },
+          base.sections[1],
+        ],
+      };
+      const theirs: GanttData = {
+        ...base,
+        sections: [
+          { name: "Design", tasks: [spec] },
+          { name: "Build", tasks: [api, { ...ui, after: "spec" }] },
+        ],
+      };
+
+      const result = mergeGanttData(base, ours, theirs);
+
+      expect(validateGanttData(result.data!)).toBeNull();
+      expect(result.data!.sections[0].tasks).toEqual([spec, mock, review]);
+      expect(result.data!.sections[1].tasks[1]).toEqual({
+        ...ui,
+        after: "spec",
+      });
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({
+          kind: "invalid",
+          path: "sections[0].tasks[1]",
+          taskId: "mock",
+          resolution: "ours",
+          message:
+            'Restored task "mock": Task "review" depends on non-existent task: "mock"',
+        }),
+      ]);
+    });
+
+    it("breaks circular dependencies made by both sides", () => {
+      const start: GanttData = {
+        sections: [
+          {
+            name: "Work",
+            tasks: [
+              { id: "x", name: "X", start: "2024-01-01", duration: "1d" },
+              { id: "y", name: "Y", start: "2024-01-02", duration: "1d" },
+            ],
+          },
+        ],
+      };
+      const [x, y] = start.sections[0].tasks;
+      const ours: GanttData = {
+        sections: [
+          { name: "Work", tasks: [x, { ...y, start: "", after: "x" }] },
+        ],
+      };
+      const theirs: GanttData = {
+        sections: [
+          { name: "Work", tasks: [{ ...x, start: "", after: "y" }, y] },
+        ],
+      };
+
+      const result = mergeGanttData(start, ours, theirs);
+
+      expect(result.data).toEqual(ours);
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({ kind: "invalid", taskId: "x" }),
+      ]);
+      expect(result.conflicts![0].message).toMatch(
+        /^Used our version of task "x": Circular dependency detected/
+      );
+    });
+
+    it("rejects invalid versions", () => {
+      expect(mergeGanttData(base, { sections: [] }, base)).toEqual({
+        success: false,
+        error: "Our version is invalid: Gantt data must have at least one section",
+      });
+    });
+  });
+});
@@ -0,0 +1,726 @@
+import {
+  FieldChange,
+  GanttConfig,
+  GanttData,
+  GanttDiff,
+  GanttSection,
+  GanttTask,
+  MergeConflict,
+  MergeResult,
+  SectionChange,
+  TaskChange,
+  ValidationIssue,
+} from "../types";
+import {
+  collectValidationIssues,
+  findDependencyCycle,
+  getAfterIds,
+  validateGanttData,
+} from "./ganttConverter";
+
+/**
+ * Chart fields other than sections and config, compared as a whole.
+ */
+type ChartField = Exclude<keyof GanttData, "sections" | "config">;
+
+/**
+ * A task with the key of the section it is in.
+ */
+interface PlacedTask {
+  task: GanttTask;
+  sectionKey: string;
+}
+
+/**
+ * A merge conflict before its path in the merged chart is known.
+ */
+interface PendingConflict extends Omit<MergeConflict, "path"> {
+  /** Path outside the sections, such as "config.title" */
+  path?: string;
+
+  /** Key of the section the conflict is about */
+  sectionKey?: string;
+
+  /** Task field the conflict is about */
+  field?: string;
+}
+
+/**
+ * Checks whether two JSON values are equal, comparing arrays and objects by
+ * content. Object keys set to undefined count as missing.
+ */
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return (
+      a.length === other.length &&
+      a.every((item, index) => isEqualValue(item, other[index]))
+    );
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  return fieldNames(left, right).every((key) =>
+    isEqualValue(left[key], right[key])
+  );
+}
+
+/**
+ * Lists the keys of several objects, each once, in order of appearance.
+ */
+function fieldNames(...records: (object | undefined)[]): string[] {
+  const names: string[] = [];
+  records.forEach((record) =>
+    Object.keys(record ?? {}).forEach((key) => {
+      if (!names.includes(key)) {
+        names.push(key);
+      }
+    })
+  );
+  return names;
+}
+
+/**
+ * Lists the fields that differ between two objects.
+ */
+function changedFields<K extends string>(
+  before: object,
+  after: object,
+  skip: string[] = []
+): FieldChange<K>[] {
+  const left = before as Record<string, unknown>;
+  const right = after as Record<string, unknown>;
+  return fieldNames(left, right)
+    .filter((field) => !skip.includes(field))
+    .filter((field) => !isEqualValue(left[field], right[field]))
+    .map((field) => ({
+      field: field as K,
+      before: left[field],
+      after: right[field],
+    }));
+}
+
+/**
+ * Copies an object without the keys set to undefined.
+ */
+function withoutUndefined<T extends object>(record: T): T {
+  return Object.fromEntries(
+    Object.entries(record).filter(([, value]) => value !== undefined)
+  ) as T;
+}
+
+/**
+ * Pairs each section of one chart with a section of another. Sections have
+ * no IDs, so a section is matched first to one with the same name, then to
+ * the one it shares the most tasks with, which makes it a rename.
+ * @returns For each section of `to`, the index of its match in `from`
+ */
+function matchSections(
+  from: GanttSection[],
+  to: GanttSection[]
+): (number | undefined)[] {
+  const matches: (number | undefined)[] = to.map(() => undefined);
+  const used = new Set<number>();
+
+  to.forEach((section, index) => {
+    const match = from.findIndex(
+      (candidate, fromIndex) =>
+        !used.has(fromIndex) && candidate.name === section.name
+    );
+    if (match !== -1) {
+      matches[index] = match;
+      used.add(match);
+    }
+  });
+
+  to.forEach((section, index) => {
+    if (matches[index] !== undefined) {
+      return;
+    }
+    const ids = section.tasks.map((task) => task.id);
+    let best = -1;
+    let bestCount = 0;
+    from.forEach((candidate, fromIndex) => {
+      const count = used.has(fromIndex)
+        ? 0
+        : candidate.tasks.filter((task) => ids.includes(task.id)).length;
+      if (count > bestCount) {
+        best = fromIndex;
+        bestCount = count;
+      }
+    });
+    if (best !== -1) {
+      matches[index] = best;
+      used.add(best);
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * Finds every task of a chart by ID, with the index of its section. Only
+ * the first task with a given ID counts.
+ */
+function locateTasks(
+  data: GanttData
+): Map<string, { task: GanttTask; sectionIndex: number }> {
+  const located = new Map<string, { task: GanttTask; sectionIndex: number }>();
+  data.sections.forEach((section, sectionIndex) =>
+    section.tasks.forEach((task) => {
+      if (!located.has(task.id)) {
+        located.set(task.id, { task, sectionIndex });
+      }
+    })
+  );
+  return located;
+}
+
+/**
+ * Compares two versions of a chart section by section and task by task.
+ *
+ * Tasks are matched by ID, so a renamed task is a changed `name` field.
+ * Sections have no IDs: a section matches one with the same name, or else
+ * the one it shares the most tasks with, in which case it was renamed. A
+ * task whose section is matched to a different section than before moved
+ * between sections. Changes to the order of sections or tasks are not
+ * reported.
+ *
+ * @param a - The earlier version
+ * @param b - The later version
+ * @returns GanttDiff with the sections, tasks, config fields and other
+ *   fields that differ
+ */
+export function diffGanttData(a: GanttData, b: GanttData): GanttDiff {
+  const matches = matchSections(a.sections, b.sections);
+
+  const sections: SectionChange[] = [];
+  b.sections.forEach((section, index) => {
+    const match = matches[index];
+    if (match === undefined) {
+      sections.push({ kind: "added", name: section.name, index });
+    } else if (a.sections[match].name !== section.name) {
+      sections.push({
+        kind: "renamed",
+        name: section.name,
+        previousName: a.sections[match].name,
+        index,
+      });
+    }
+  });
+  a.sections.forEach((section, index) => {
+    if (!matches.includes(index)) {
+      sections.push({ kind: "removed", name: section.name, index });
+    }
+  });
+
+  const before = locateTasks(a);
+  const after = locateTasks(b);
+  const tasks: TaskChange[] = [];
+  after.forEach(({ task, sectionIndex }, id) => {
+    const section = b.sections[sectionIndex].name;
+    const previous = before.get(id);
+    if (!previous) {
+      tasks.push({ id, kind: "added", name: task.name, section, fields: [] });
+      return;
+    }
+    const fields = changedFields<keyof GanttTask>(previous.task, task, ["id"]);
+    const moved = matches[sectionIndex] !== previous.sectionIndex;
+    if (moved || fields.length > 0) {
+      tasks.push({
+        id,
+        kind: "changed",
+        name: task.name,
+        section,
+        ...(moved && {
+          previousSection: a.sections[previous.sectionIndex].name,
+        }),
+        fields,
+      });
+    }
+  });
+  before.forEach(({ task, sectionIndex }, id) => {
+    if (!after.has(id)) {
+      tasks.push({
+        id,
+        kind: "removed",
+        name: task.name,
+        section: a.sections[sectionIndex].name,
+        fields: [],
+      });
+    }
+  });
+
+  const { sections: _a, config: configA = {}, ...restA } = a;
+  const { sections: _b, config: configB = {}, ...restB } = b;
+
+  return {
+    sections,
+    tasks,
+    config: changedFields<keyof GanttConfig>(configA, configB),
+    fields: changedFields<ChartField>(restA, restB),
+  };
+}
+
+/**
+ * Merges one value changed on two sides: a change made on one side only
+ * wins, and when both sides changed it differently ours wins.
+ */
+function mergeValue(
+  base: unknown,
+  ours: unknown,
+  theirs: unknown
+): { value: unknown; isConflict: boolean } {
+  if (isEqualValue(ours, theirs) || isEqualValue(base, theirs)) {
+    return { value: ours, isConflict: false };
+  }
+  if (isEqualValue(base, ours)) {
+    return { value: theirs, isConflict: false };
+  }
+  return { value: ours, isConflict: true };
+}
+
+/**
+ * Inserts the items of a sequence missing from an order, each right after
+ * the closest item before it in the sequence that is already in the order
+ * (or first, if there is none).
+ */
+function insertInOrder(order: string[], sequence: string[]): string[] {
+  const result = [...order];
+  sequence.forEach((item, index) => {
+    if (result.includes(item)) {
+      return;
+    }
+    const previous = sequence
+      .slice(0, index)
+      .reverse()
+      .find((candidate) => result.includes(candidate));
+    result.splice(
+      previous === undefined ? 0 : result.indexOf(previous) + 1,
+      0,
+      item
+    );
+  });
+  return result;
+}
+
+/**
+ * Keys every task of a chart by ID, with the key of its section.
+ */
+function placeTasks(
+  data: GanttData,
+  sectionKeys: string[]
+): Map<string, PlacedTask> {
+  const placed = new Map<string, PlacedTask>();
+  locateTasks(data).forEach(({ task, sectionIndex }, id) =>
+    placed.set(id, { task, sectionKey: sectionKeys[sectionIndex] })
+  );
+  return placed;
+}
+
+/**
+ * Merges two versions of a chart edited separately from a common ancestor.
+ *
+ * Sections are matched as in diffGanttData and tasks by ID. A change made
+ * on one side only is kept, field by field, including a task moving to
+ * another section. When both sides changed a field, section name or config
+ * field differently, ours wins and the conflict is recorded. A task removed
+ * on one side and changed on the other is kept with its changes, also as a
+ * conflict, and so is the section it is in. Other fields such as
+ * `resources` merge as a whole. Sections and tasks keep our order, with
+ * their additions placed after the item they follow on their side.
+ *
+ * If the combined changes make the chart invalid, such as a dependency on a
+ * task the other side removed or a circular dependency made by `after`
+ * links from both sides, the tasks involved go back to our version (or are
+ * left out if they are theirs alone) until the chart validates. Each of
+ * those is recorded as an `invalid` conflict.
+ *
+ * @param base - The common ancestor of both versions
+ * @param ours - Our version, which wins conflicts
+ * @param theirs - Their version
+ * @returns MergeResult with the merged chart, which passes
+ *   validateGanttData, and every conflict, or why the versions could not
+ *   be merged
+ */
+export function mergeGanttData(
+  base: GanttData,
+  ours: GanttData,
+  theirs: GanttData
+): MergeResult {
+  const oursError = validateGanttData(ours);
+  if (oursError) {
+    return { success: false, error: `Our version is invalid: ${oursError}` };
+  }
+  const theirsError = validateGanttData(theirs);
+  if (theirsError) {
+    return {
+      success: false,
+      error: `Their version is invalid: ${theirsError}`,
+    };
+  }
+
+  const baseSections = base.sections ?? [];
+  const conflicts: PendingConflict[] = [];
+
+  // Sections of all three versions share a key when they match
+  const baseKeys = baseSections.map((_, index) => `base:${index}`);
+  const oursMatches = matchSections(baseSections, ours.sections);
+  const oursKeys = ours.sections.map((_, index) => {
+    const match = oursMatches[index];
+    return match === undefined ? `ours:${index}` : baseKeys[match];
+  });
+  const theirsMatches = matchSections(baseSections, theirs.sections);
+  const oursAdded = oursKeys
+    .map((_, index) => index)
+    .filter((index) => oursMatches[index] === undefined);
+  const theirsAdded = theirs.sections
+    .map((_, index) => index)
+    .filter((index) => theirsMatches[index] === undefined);
+  // Sections added on both sides are the same section if they match
+  const addedMatches = matchSections(
+    oursAdded.map((index) => ours.sections[index]),
+    theirsAdded.map((index) => theirs.sections[index])
+  );
+  const theirsKeys = theirs.sections.map((_, index) => {
+    const match = theirsMatches[index];
+    if (match !== undefined) {
+      return baseKeys[match];
+    }
+    const added = addedMatches[theirsAdded.indexOf(index)];
+    return added === undefined
+      ? `theirs:${index}`
+      : oursKeys[oursAdded[added]];
+  });
+
+  const sectionOrder = insertInOrder(
+    insertInOrder(oursKeys, theirsKeys),
+    baseKeys
+  );
+  const sectionNames = new Map<string, string>();
+  sectionOrder.forEach((key) => {
+    const name = (sections: GanttSection[], keys: string[]) =>
+      keys.includes(key) ? sections[keys.indexOf(key)].name : undefined;
+    const baseName = name(baseSections, baseKeys);
+    const oursName = name(ours.sections, oursKeys);
+    const theirsName = name(theirs.sections, theirsKeys);
+    if (oursName === undefined || theirsName === undefined) {
+      sectionNames.set(key, oursName ?? theirsName ?? baseName!);
+      return;
+    }
+    const merged = mergeValue(baseName, oursName, theirsName);
+    sectionNames.set(key, merged.value as string);
+    if (merged.isConflict) {
+      conflicts.push({
+        kind: "edit",
+        sectionKey: key,
+        base: baseName,
+        ours: oursName,
+        theirs: theirsName,
+        resolution: "ours",
+        message: `Both sides renamed section "${baseName ?? oursName}"; kept "${oursName}"`,
+      });
+    }
+  });
+
+  // Tasks
+  const baseTasks = placeTasks({ ...base, sections: baseSections }, baseKeys);
+  const oursTasks = placeTasks(ours, oursKeys);
+  const theirsTasks = placeTasks(theirs, theirsKeys);
+  const taskOrder = insertInOrder(
+    Array.from(oursTasks.keys()),
+    Array.from(theirsTasks.keys())
+  );
+  const merged = new Map<string, PlacedTask>();
+
+  taskOrder.forEach((id) => {
+    const baseTask = baseTasks.get(id);
+    const oursTask = oursTasks.get(id);
+    const theirsTask = theirsTasks.get(id);
+
+    if (!oursTask || !theirsTask) {
+      const kept = (oursTask ?? theirsTask)!;
+      const side = oursTask ? "ours" : "theirs";
+      const other = oursTask ? "theirs" : "ours";
+      if (!baseTask) {
+        merged.set(id, kept);
+      } else if (!isEqualValue(baseTask, kept)) {
+        merged.set(id, kept);
+        conflicts.push({
+          kind: "delete",
+          taskId: id,
+          base: baseTask.task,
+          ours: oursTask?.task,
+          theirs: theirsTask?.task,
+          resolution: side,
+          message: `Task "${id}" was removed in ${other} but changed in ${side}; kept it`,
+        });
+      }
+      return;
+    }
+
+    const task: Record<string, unknown> = { id };
+    const fields = fieldNames(oursTask.task, theirsTask.task, baseTask?.task);
+    fields
+      .filter((field) => field !== "id")
+      .forEach((field) => {
+        const value = (placed?: PlacedTask) =>
+          (placed?.task as unknown as Record<string, unknown> | undefined)?.[
+            field
+          ];
+        const result = mergeValue(
+          value(baseTask),
+          value(oursTask),
+          value(theirsTask)
+        );
+        task[field] = result.value;
+        if (result.isConflict) {
+          conflicts.push({
+            kind: "edit",
+            taskId: id,
+            field,
+            base: value(baseTask),
+            ours: value(oursTask),
+            theirs: value(theirsTask),
+            resolution: "ours",
+            message: `Both sides changed "${field}" of task "${id}"; kept ours`,
+          });
+        }
+      });
+
+    const section = mergeValue(
+      baseTask?.sectionKey,
+      oursTask.sectionKey,
+      theirsTask.sectionKey
+    );
+    if (section.isConflict) {
+      conflicts.push({
+        kind: "edit",
+        taskId: id,
+        base: baseTask && sectionNames.get(baseTask.sectionKey),
+        ours: sectionNames.get(oursTask.sectionKey),
+        theirs: sectionNames.get(theirsTask.sectionKey),
+        resolution: "ours",
+        message: `Both sides moved task "${id}" to a different section; kept ours`,
+      });
+    }
+    merged.set(id, {
+      task: withoutUndefined(task) as unknown as GanttTask,
+      sectionKey: section.value as string,
+    });
+  });
+
+  // Config fields merge one by one, other chart fields as a whole
+  const baseConfig = base.config ?? {};
+  const oursConfig = ours.config ?? {};
+  const theirsConfig = theirs.config ?? {};
+  const mergedConfig: Record<string, unknown> = {};
+  fieldNames(oursConfig, theirsConfig, baseConfig).forEach((field) => {
+    const value = (config: GanttConfig) =>
+      (config as Record<string, unknown>)[field];
+    const result = mergeValue(
+      value(baseConfig),
+      value(oursConfig),
+      value(theirsConfig)
+    );
+    mergedConfig[field] = result.value;
+    if (result.isConflict) {
+      conflicts.push({
+        kind: "edit",
+        path: `config.${field}`,
+        base: value(baseConfig),
+        ours: value(oursConfig),
+        theirs: value(theirsConfig),
+        resolution: "ours",
+        message: `Both sides changed config "${field}"; kept ours`,
+      });
+    }
+  });
+  let config: GanttConfig | undefined =
+    ours.config || theirs.config
+      ? withoutUndefined(mergedConfig as GanttConfig)
+      : undefined;
+
+  const { sections: _base, config: _baseConfig, ...baseRest } = base;
+  const { sections: _ours, config: _oursConfig, ...oursRest } = ours;
+  const { sections: _theirs, config: _theirsConfig, ...theirsRest } = theirs;
+  const rest: Record<string, unknown> = {};
+  fieldNames(oursRest, theirsRest, baseRest).forEach((field) => {
+    const value = (record: object) =>
+      (record as Record<string, unknown>)[field];
+    const result = mergeValue(
+      value(baseRest),
+      value(oursRest),
+      value(theirsRest)
+    );
+    rest[field] = result.value;
+    if (result.isConflict) {
+      conflicts.push({
+        kind: "edit",
+        path: field,
+        base: value(baseRest),
+        ours: value(oursRest),
+        theirs: value(theirsRest),
+        resolution: "ours",
+        message: `Both sides changed "${field}"; kept ours`,
+      });
+    }
+  });
+
+  // Sections left without tasks are dropped
+  const keptSectionKeys = () =>
+    sectionOrder.filter((key) =>
+      taskOrder.some((id) => merged.get(id)?.sectionKey === key)
+    );
+  const build = (): GanttData => {
+    const sections = keptSectionKeys().map((key) => ({
+      name: sectionNames.get(key)!,
+      tasks: taskOrder
+        .filter((id) => merged.get(id)?.sectionKey === key)
+        .map((id) => merged.get(id)!.task),
+    }));
+    return withoutUndefined({ ...rest, config, sections } as GanttData);
+  };
+
+  // Undo changes from their side until the chart validates
+  let data = build();
+  let issue: ValidationIssue | undefined;
+  for (let repairs = 0; repairs <= taskOrder.length + 1; repairs++) {
+    issue = collectValidationIssues(data).find(
+      (item) => item.severity === "error"
+    );
+    if (!issue) {
+      break;
+    }
+    const candidates = [
+      ...(issue.taskId ? [issue.taskId] : []),
+      ...(issue.code === "CIRCULAR_DEPENDENCY"
+        ? findDependencyCycle(data) ?? []
+        : []),
+      ...(issue.taskId && merged.has(issue.taskId)
+        ? getAfterIds(merged.get(issue.taskId)!.task)
+        : []),
+    ];
+    const id = candidates.find(
+      (candidate) =>
+        !isEqualValue(merged.get(candidate), oursTasks.get(candidate))
+    );
+
+    if (id !== undefined) {
+      const oursTask = oursTasks.get(id);
+      const action = !oursTask
+        ? "Left out task"
+        : merged.has(id)
+        ? "Used our version of task"
+        : "Restored task";
+      if (oursTask) {
+        merged.set(id, oursTask);
+        if (!taskOrder.includes(id)) {
+          taskOrder.push(id);
+        }
+      } else {
+        merged.delete(id);
+      }
+      conflicts.push({
+        kind: "invalid",
+        taskId: id,
+        ours: oursTask?.task,
+        theirs: theirsTasks.get(id)?.task,
+        resolution: "ours",
+        message: `${action} "${id}": ${issue.message}`,
+      });
+    } else if (!isEqualValue(config, ours.config)) {
+      config = ours.config;
+      conflicts.push({
+        kind: "invalid",
+        path: "config",
+        ours: ours.config,
+        theirs: theirs.config,
+        resolution: "ours",
+        message: `Used our config: ${issue.message}`,
+      });
+    } else {
+      break;
+    }
+    data = build();
+  }
+
+  if (issue) {
+    return {
+      success: true,
+      data: ours,
+      conflicts: [
+        {
+          kind: "invalid",
+          path: "",
+          resolution: "ours",
+          message: `Kept our version of the chart: ${issue.message}`,
+        },
+      ],
+    };
+  }
+
+  // Sections removed on one side but kept for the other side's tasks
+  const keptKeys = keptSectionKeys();
+  keptKeys.forEach((key) => {
+    if (!baseKeys.includes(key)) {
+      return;
+    }
+    const missingIn = !oursKeys.includes(key)
+      ? "ours"
+      : !theirsKeys.includes(key)
+      ? "theirs"
+      : null;
+    if (missingIn) {
+      const side = missingIn === "ours" ? "theirs" : "ours";
+      const name = sectionNames.get(key);
+      conflicts.push({
+        kind: "delete",
+        sectionKey: key,
+        resolution: side,
+        message: `Section "${name}" was removed in ${missingIn} but still has tasks from ${side}; kept it`,
+      });
+    }
+  });
+
+  const taskPaths = new Map<string, string>();
+  data.sections.forEach((section, sectionIndex) =>
+    section.tasks.forEach((task, taskIndex) =>
+      taskPaths.set(task.id, `sections[${sectionIndex}].tasks[${taskIndex}]`)
+    )
+  );
+  const sectionPaths = new Map(
+    keptKeys.map((key, index): [string, string] => [
+      key,
+      `sections[${index}]`,
+    ])
+  );
+
+  return {
+    success: true,
+    data,
+    conflicts: conflicts.map(({ sectionKey, field, path, ...conflict }) => ({
+      ...conflict,
+      path:
+        path ??
+        (sectionKey !== undefined
+          ? sectionPaths.has(sectionKey)
+            ? `${sectionPaths.get(sectionKey)}.name`
+            : ""
+          : taskPaths.has(conflict.taskId!)
+          ? `${taskPaths.get(conflict.taskId!)}${field ? `.${field}` : ""}`
+          : ""),
+    })),
+  };
+}
@@ -0,0 +1,116 @@
+import {
+  addSection,
+  addTask,
+  nextTaskId,
+  removeSection,
+  removeTask,
+  reorderSection,
+  reorderTask,
+  updateSection,
+  updateTask,
+} from "./ganttEdits";
+import { GanttData } from "../types";
+
+const data: GanttData = {
+  config: { title: "Plan" },
+  sections: [
+    {
+      name: "One",
+      tasks: [
+        { id: "a", name: "A", start: "2024-01-01", duration: "1d" },
+        { id: "b", name: "B", start: "", duration: "1d", after: "a" },
+      ],
+    },
+    {
+      name: "Two",
+      tasks: [
+        { id: "c", name: "C", start: "", duration: "1d", after: ["a", "b"] },
+      ],
+    },
+  ],
+};
+
+describe("ganttEdits", () => {
+  describe("nextTaskId", () => {
+    it("returns an unused task ID", () => {
+      expect(nextTaskId(data)).toBe("task4");
+      expect(
+        nextTaskId(
+          addTask(data, 0, {
+            id: "task4",
+            name: "D",
+            start: "2024-01-01",
+            duration: "1d",
+          })
+        )
+      ).toBe("task5");
+    });
+  });
+
+  describe("sections", () => {
+    it("adds, renames and reorders sections without mutating", () => {
+      const added = addSection(data, "Three");
+      expect(added.sections.map((section) => section.name)).toEqual([
+        "One",
+        "Two",
+        "Three",
+      ]);
+      expect(updateSection(added, 2, { name: "Last" }).sections[2].name).toBe(
+        "Last"
+      );
+      expect(
+        reorderSection(data, 1, -1).sections.map((section) => section.name)
+      ).toEqual(["Two", "One"]);
+      expect(reorderSection(data, 0, -1)).toBe(data);
+      expect(data.sections).toHaveLength(2);
+      expect(added.config).toBe(data.config);
+    });
+
+    it("drops references to the tasks of a removed section", () => {
+      const result = removeSection(data, 0);
+      expect(result.sections).toHaveLength(1);
+      expect(result.sections[0].tasks[0].after).toBeUndefined();
+    });
+  });
+
+  describe("tasks", () => {
+    it("reorders tasks within a section", () => {
+      const result = reorderTask(data, 0, 0, 1);
+      expect(result.sections[0].tasks.map((task) => task.id)).toEqual([
+        "b",
+        "a",
+      ]);
+    });
+
+    it("drops references to a removed task", () => {
+      const result = removeTask(data, 0, 1);
+      expect(result.sections[0].tasks.map((task) => task.id)).toEqual(["a"]);
+      expect(result.sections[1].tasks[0].after).toBe("a");
+    });
+
+    it("updates fields and removes fields set to undefined", () => {
+      const result = updateTask(data, 0, 1, {
+        name: "Build",
+        after: undefined,
+        start: "2024-01-05",
+      });
+      expect(result.sections[0].tasks[1]).toEqual({
+        id: "b",
+        name: "Build",
+        start: "2024-01-05",
+        duration: "1d",
+      });
+    });
+
+    it("renames references when the ID changes", () => {
+      const result = updateTask(data, 0, 0, { id: "design" });
+      expect(result.sections[0].tasks[1].after).toBe("design");
+      expect(result.sections[1].tasks[0].after).toEqual(["design", "b"]);
+    });
+
+    it("keeps references when the ID is cleared", () => {
+      const result = updateTask(data, 0, 0, { id: "" });
+      expect(result.sections[0].tasks[1].after).toBe("a");
+    });
+  });
+});
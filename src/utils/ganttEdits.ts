@@ -0,0 +1,242 @@
+import { GanttData, GanttSection, GanttTask } from "../types";
+import { getAfterIds } from "./ganttConverter";
+
+/**
+ * Returns a copy of the chart with the sections replaced.
+ */
+function withSections(data: GanttData, sections: GanttSection[]): GanttData {
+  return { ...data, sections };
+}
+
+/**
+ * Moves an item in a list by an offset, clamped to the list's bounds.
+ */
+function reorder<T>(items: T[], index: number, offset: number): T[] {
+  const target = Math.min(Math.max(index + offset, 0), items.length - 1);
+  if (target === index) {
+    return items;
+  }
+  const result = [...items];
+  const [item] = result.splice(index, 1);
+  result.splice(target, 0, item);
+  return result;
+}
+
+/**
+ * Renames or removes a task ID in every `after` reference.
+ * @param newId - The replacement ID, or null to drop the reference
+ */
+function replaceReferences(
+  sections: GanttSection[],
+  oldId: string,
+  newId: string | null
+): GanttSection[] {
+  return sections.map((section) => ({
+    ...section,
+    tasks: section.tasks.map((task) => {
+      const afterIds = getAfterIds(task);
+      if (!afterIds.includes(oldId)) {
+        return task;
+      }
+      const updatedIds = afterIds.flatMap((id) =>
+        id !== oldId ? [id] : newId !== null ? [newId] : []
+      );
+      const { after, ...rest } = task;
+      if (updatedIds.length === 0) {
+        return rest;
+      }
+      return {
+        ...rest,
+        after: updatedIds.length === 1 ? updatedIds[0] : updatedIds,
+      };
+    }),
+  }));
+}
+
+/**
+ * Generates a task ID ("task1", "task2", ...) not used in the chart.
+ * @param data - The Gantt data
+ * @returns An unused task ID
+ */
+export function nextTaskId(data: GanttData): string {
+  const ids = new Set(
+    data.sections.flatMap((section) => section.tasks.map((task) => task.id))
+  );
+  let n = ids.size + 1;
+  while (ids.has(`task${n}`)) {
+    n += 1;
+  }
+  return `task${n}`;
+}
+
+/**
+ * Appends an empty section.
+ * @param data - The Gantt data
+ * @param name - Name of the new section
+ */
+export function addSection(data: GanttData, name: string): GanttData {
+  return withSections(data, [...data.sections, { name, tasks: [] }]);
+}
+
+/**
+ * Removes a section and its tasks. References to the removed tasks are
+ * dropped from the `after` lists of the remaining tasks.
+ * @param data - The Gantt data
+ * @param sectionIndex - Index of the section to remove
+ */
+export function removeSection(data: GanttData, sectionIndex: number): GanttData {
+  let sections = data.sections.filter((_, index) => index !== sectionIndex);
+  for (const task of data.sections[sectionIndex]?.tasks ?? []) {
+    sections = replaceReferences(sections, task.id, null);
+  }
+  return withSections(data, sections);
+}
+
+/**
+ * Moves a section up (negative offset) or down (positive offset). The data
+ * is returned as-is when the section cannot move further.
+ * @param data - The Gantt data
+ * @param sectionIndex - Index of the section to move
+ * @param offset - Number of places to move it
+ */
+export function reorderSection(
+  data: GanttData,
+  sectionIndex: number,
+  offset: number
+): GanttData {
+  const sections = reorder(data.sections, sectionIndex, offset);
+  return sections === data.sections ? data : withSections(data, sections);
+}
+
+/**
+ * Changes fields of a section.
+ * @param data - The Gantt data
+ * @param sectionIndex - Index of the section to change
+ * @param changes - Fields to overwrite
+ */
+export function updateSection(
+  data: GanttData,
+  sectionIndex: number,
+  changes: Partial<Omit<GanttSection, "tasks">>
+): GanttData {
+  return withSections(
+    data,
+    data.sections.map((section, index) =>
+      index === sectionIndex ? { ...section, ...changes } : section
+    )
+  );
+}
+
+/**
+ * Appends a task to a section.
+ * @param data - The Gantt data
+ * @param sectionIndex - Index of the section to add to
+ * @param task - The task to add
+ */
+export function addTask(
+  data: GanttData,
+  sectionIndex: number,
+  task: GanttTask
+): GanttData {
+  return withSections(
+    data,
+    data.sections.map((section, index) =>
+      index === sectionIndex
+        ? { ...section, tasks: [...section.tasks, task] }
+        : section
+    )
+  );
+}
+
+/**
+ * Removes a task. References to it are dropped from the `after` lists of
+ * the remaining tasks.
+ * @param data - The Gantt data
+ * @param sectionIndex - Index of the task's section
+ * @param taskIndex - Index of the task within its section
+ */
+export function removeTask(
+  data: GanttData,
+  sectionIndex: number,
+  taskIndex: number
+): GanttData {
+  const removed = data.sections[sectionIndex]?.tasks[taskIndex];
+  const sections = data.sections.map((section, index) =>
+    index === sectionIndex
+      ? {
+          ...section,
+          tasks: section.tasks.filter((_, position) => position !== taskIndex),
+        }
+      : section
+  );
+  return withSections(
+    data,
+    removed ? replaceReferences(sections, removed.id, null) : sections
+  );
+}
+
+/**
+ * Moves a task up (negative offset) or down (positive offset) within its
+ * section.
+ * @param data - The Gantt data
+ * @param sectionIndex - Index of the task's section
+ * @param taskIndex - Index of the task within its section
+ * @param offset - Number of places to move it
+ */
+export function reorderTask(
+  data: GanttData,
+  sectionIndex: number,
+  taskIndex: number,
+  offset: number
+): GanttData {
+  return withSections(
+    data,
+    data.sections.map((section, index) =>
+      index === sectionIndex
+        ? { ...section, tasks: reorder(section.tasks, taskIndex, offset) }
+        : section
+    )
+  );
+}
+
+/**
+ * Changes fields of a task. When the ID changes to a non-empty value,
+ * `after` references to the old ID are renamed too.
+ * @param data - The Gantt data
+ * @param sectionIndex - Index of the task's section
+ * @param taskIndex - Index of the task within its section
+ * @param changes - Fields to overwrite; `undefined` values remove the field
+ */
+export function updateTask(
+  data: GanttData,
+  sectionIndex: number,
+  taskIndex: number,
+  changes: Partial<GanttTask>
+): GanttData {
+  const task = data.sections[sectionIndex]?.tasks[taskIndex];
+  if (!task) {
+    return data;
+  }
+
+  const updated = { ...task, ...changes } as GanttTask;
+  (Object.keys(changes) as (keyof GanttTask)[]).forEach((key) => {
+    if (changes[key] === undefined) {
+      delete updated[key];
+    }
+  });
+
+  let sections = data.sections.map((section, index) =>
+    index === sectionIndex
+      ? {
+          ...section,
+          tasks: section.tasks.map((current, position) =>
+            position === taskIndex ? updated : current
+          ),
+        }
+      : section
+  );
+  if (task.id && updated.id && updated.id !== task.id) {
+    sections = replaceReferences(sections, task.id, updated.id);
+  }
+  return withSections(data, sections);
+}
@@ -0,0 +1,166 @@
+import { computeGanttLayout, DEFAULT_LAYOUT_OPTIONS } from "./ganttLayout";
+import { GanttData } from "../types";
+
+const data: GanttData = {
+  config: { title: "Plan", axisFormat: "%d/%m", tickInterval: "2day" },
+  sections: [
+    {
+      name: "Build",
+      tasks: [
+        {
+          id: "a",
+          name: "Design",
+          start: "2024-01-01",
+          duration: { value: 4, unit: "d" },
+          status: ["done"],
+        },
+        {
+          id: "b",
+          name: "Code",
+          start: "",
+          duration: { value: 4, unit: "d" },
+          after: "a",
+        },
+      ],
+    },
+    {
+      name: "Ship",
+      tasks: [
+        {
+          id: "c",
+          name: "Release",
+          start: "",
+          duration: { value: 0, unit: "d" },
+          after: "b",
+          status: ["milestone"],
+        },
+      ],
+    },
+  ],
+};
+
+describe("ganttLayout", () => {
+  describe("computeGanttLayout", () => {
+    it("places bars on the time scale, one row per task", () => {
+      const { layout } = computeGanttLayout(data);
+      const { plotLeft, plotRight, plotTop } = layout!;
+      const dayWidth = (plotRight - plotLeft) / 8;
+      const [a, b, c] = layout!.bars;
+
+      expect(a.x).toBeCloseTo(plotLeft);
+      expect(a.width).toBeCloseTo(4 * dayWidth);
+      expect(a.status).toEqual(["done"]);
+      expect(b.x).toBeCloseTo(plotLeft + 4 * dayWidth);
+      expect(b.row).toBe(1);
+      expect(b.y).toBe(plotTop + 24 + 2);
+      expect(c).toEqual(
+        expect.objectContaining({ isMilestone: true, width: 0, row: 2 })
+      );
+      expect(c.x).toBeCloseTo(plotRight);
+    });
+
+    it("lays out sections as bands around their rows", () => {
+      const { layout } = computeGanttLayout(data);
+      expect(layout!.sections).toEqual([
+        { name: "Build", index: 0, y: layout!.plotTop, height: 48 },
+        { name: "Ship", index: 1, y: layout!.plotTop + 48, height: 24 },
+      ]);
+      expect(layout!.plotBottom).toBe(layout!.plotTop + 72);
+    });
+
+    it("draws an arrow for every dependency", () => {
+      const { layout } = computeGanttLayout(data);
+      expect(
+        layout!.arrows.map((arrow) => [arrow.fromId, arrow.toId])
+      ).toEqual([
+        ["a", "b"],
+        ["b", "c"],
+      ]);
+      expect(layout!.arrows[0].path).toMatch(/^M /);
+    });
+
+    it("labels ticks with axisFormat at tickInterval", () => {
+      const { layout } = computeGanttLayout(data);
+      expect(layout!.ticks.map((tick) => tick.label)).toEqual([
+        "01/01",
+        "03/01",
+        "05/01",
+        "07/01",
+        "09/01",
+      ]);
+    });
+
+    it("falls back to an automatic interval", () => {
+      const { layout } = computeGanttLayout({
+        ...data,
+        config: {},
+      });
+      expect(layout!.ticks[0].label).toBe("2024-01-01");
+      expect(layout!.ticks.length).toBeLessThanOrEqual(
+        (DEFAULT_LAYOUT_OPTIONS.width - 170) / 80
+      );
+    });
+
+    it("packs non-overlapping tasks onto one row in compact mode", () => {
+      const { layout } = computeGanttLayout({
+        ...data,
+        config: { displayMode: "compact" },
+      });
+      expect(layout!.bars.map((bar) => bar.row)).toEqual([0, 0, 1]);
+      expect(layout!.sections[0].height).toBe(24);
+    });
+
+    it("makes room for a top axis and applies size options", () => {
+      const { layout } = computeGanttLayout(
+        { ...data, config: { topAxis: true } },
+        { width: 500, topPadding: 10 }
+      );
+      expect(layout!.width).toBe(500);
+      expect(layout!.plotTop).toBe(10 + DEFAULT_LAYOUT_OPTIONS.axisHeight);
+    });
+
+    it("places baseline ghost bars below the bars", () => {
+      const { layout } = computeGanttLayout(data, {}, {
+        name: "Approved",
+        createdAt: "2023-12-01T00:00:00.000Z",
+        tasks: [
+          {
+            id: "a",
+            name: "Design",
+            sectionName: "Build",
+            start: "2023-12-31 00:00",
+            end: "2024-01-04 00:00",
+            isMilestone: false,
+          },
+          {
+            id: "gone",
+            name: "Removed",
+            sectionName: "Build",
+            start: "2023-12-01 00:00",
+            end: "2023-12-02 00:00",
+            isMilestone: false,
+          },
+        ],
+      });
+      const { plotLeft, plotRight, plotTop } = layout!;
+      const dayWidth = (plotRight - plotLeft) / 9;
+      const [a, b] = layout!.bars;
+
+      expect(layout!.rangeStart).toEqual(new Date(2023, 11, 31));
+      expect(a.x).toBeCloseTo(plotLeft + dayWidth);
+      expect(a.baseline).toEqual(
+        expect.objectContaining({ y: a.y + 20, height: 10 })
+      );
+      expect(a.baseline!.x).toBeCloseTo(plotLeft);
+      expect(a.baseline!.width).toBeCloseTo(4 * dayWidth);
+      expect(b.baseline).toBeUndefined();
+      expect(b.y).toBe(plotTop + 34 + 2);
+    });
+
+    it("returns the schedule error for invalid data", () => {
+      const result = computeGanttLayout({ sections: [] });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("at least one section");
+    });
+  });
+});
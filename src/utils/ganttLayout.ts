@@ -0,0 +1,267 @@
+import {
+  GanttData,
+  GanttTask,
+  GanttLayoutOptions,
+  GanttLayoutResult,
+  SectionLayout,
+  TaskBarLayout,
+  DependencyArrowLayout,
+  AxisTick,
+  ResolvedTask,
+  GanttBaseline,
+  ParsedBaselineTask,
+} from "../types";
+import { parseBaselineTasks } from "./baseline";
+import { resolveSchedule, getTaskDependencies } from "./schedule";
+import { getTaskStatus } from "./ganttConverter";
+import {
+  DEFAULT_AXIS_FORMAT,
+  formatAxisDate,
+  parseTickInterval,
+  generateTickDates,
+  chooseTickInterval,
+} from "./timeAxis";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Minimum space between automatic axis ticks, in pixels.
+ */
+const MIN_TICK_SPACING = 80;
+
+/**
+ * Default sizes for the native renderer, close to Mermaid's own.
+ */
+export const DEFAULT_LAYOUT_OPTIONS: GanttLayoutOptions = {
+  width: 960,
+  barHeight: 20,
+  barGap: 4,
+  leftPadding: 150,
+  rightPadding: 20,
+  topPadding: 50,
+  axisHeight: 24,
+};
+
+/**
+ * Assigns each task in a section to a row relative to the section.
+ * In compact mode a task goes on the first row it does not overlap;
+ * otherwise every task gets its own row.
+ */
+function assignRows(tasks: ResolvedTask[], compact: boolean): number[] {
+  if (!compact) {
+    return tasks.map((_, index) => index);
+  }
+  const rowEnds: number[] = [];
+  return tasks.map((task) => {
+    const start = task.start.getTime();
+    let row = rowEnds.findIndex((end) => end <= start);
+    if (row === -1) {
+      row = rowEnds.length;
+    }
+    rowEnds[row] = Math.max(task.end.getTime(), start);
+    return row;
+  });
+}
+
+/**
+ * Builds the path of an arrow from the end of one bar to the start of
+ * another. When the dependent starts too close to (or before) the end of
+ * its dependency, the arrow detours through the gap above the dependent.
+ */
+function arrowPath(
+  from: TaskBarLayout,
+  to: TaskBarLayout,
+  barGap: number
+): string {
+  const x1 = from.x + from.width;
+  const y1 = from.y + from.height / 2;
+  const x2 = to.x;
+  const y2 = to.y + to.height / 2;
+
+  if (x2 - x1 >= 16) {
+    return `M ${x1} ${y1} H ${x1 + 8} V ${y2} H ${x2}`;
+  }
+  const detourY =
+    to.y > from.y ? to.y - barGap / 2 : to.y + to.height + barGap / 2;
+  return `M ${x1} ${y1} h 8 V ${detourY} H ${x2 - 8} V ${y2} H ${x2}`;
+}
+
+/**
+ * Lays out a chart for the native SVG renderer: resolves the schedule,
+ * then places section bands, task bars, dependency arrows and axis ticks.
+ *
+ * The time axis uses `axisFormat` for labels and `tickInterval` for tick
+ * spacing, falling back to an interval that fits the chart width when
+ * `tickInterval` is missing or would produce too many ticks. Week ticks
+ * start on `weekday`. Compact display mode packs non-overlapping tasks of
+ * a section onto shared rows.
+ *
+ * With a baseline, every row grows by half a bar to fit a ghost bar of the
+ * task's baseline dates below its bar, and the time range also covers the
+ * baseline dates. Tasks that are not in the baseline get no ghost bar.
+ *
+ * @param data - The Gantt data to lay out
+ * @param options - Sizes to override the defaults with
+ * @param baseline - Optional baseline to lay out ghost bars for
+ * @returns GanttLayoutResult with the layout, or the schedule error
+ */
+export function computeGanttLayout(
+  data: GanttData,
+  options: Partial<GanttLayoutOptions> = {},
+  baseline?: GanttBaseline
+): GanttLayoutResult {
+  const schedule = resolveSchedule(data);
+  if (!schedule.success) {
+    return { success: false, error: schedule.error };
+  }
+
+  const sizes = { ...DEFAULT_LAYOUT_OPTIONS, ...options };
+  const config = data.config ?? {};
+  const resolved = schedule.tasks!;
+  const planned = baseline
+    ? parseBaselineTasks(baseline)
+    : new Map<string, ParsedBaselineTask>();
+  const ghostHeight = baseline ? sizes.barHeight / 2 : 0;
+  const rowHeight = sizes.barHeight + ghostHeight + sizes.barGap;
+
+  const tasksById = new Map<string, GanttTask>();
+  data.sections.forEach((section) =>
+    section.tasks.forEach((task) => tasksById.set(task.id, task))
+  );
+
+  const ghosts = resolved.flatMap((task) => {
+    const base = planned.get(task.id);
+    return base ? [{ start: base.from, end: base.to }] : [];
+  });
+  const spans = [...resolved, ...ghosts];
+  const rangeStart = new Date(
+    Math.min(...spans.map((task) => task.start.getTime()))
+  );
+  let rangeEndTime = Math.max(...spans.map((task) => task.end.getTime()));
+  if (rangeEndTime <= rangeStart.getTime()) {
+    rangeEndTime = rangeStart.getTime() + DAY_MS;
+  }
+  const rangeEnd = new Date(rangeEndTime);
+
+  const plotLeft = sizes.leftPadding;
+  const plotRight = sizes.width - sizes.rightPadding;
+  const plotTop = sizes.topPadding + (config.topAxis ? sizes.axisHeight : 0);
+  const scale = (date: Date): number =>
+    plotLeft +
+    ((date.getTime() - rangeStart.getTime()) /
+      (rangeEnd.getTime() - rangeStart.getTime())) *
+      (plotRight - plotLeft);
+
+  const sections: SectionLayout[] = [];
+  const bars: TaskBarLayout[] = [];
+  let nextRow = 0;
+
+  data.sections.forEach((section, sectionIndex) => {
+    const sectionTasks = resolved.filter(
+      (task) => task.sectionIndex === sectionIndex
+    );
+    const rows = assignRows(sectionTasks, config.displayMode === "compact");
+    const rowCount = Math.max(0, ...rows.map((row) => row + 1));
+
+    sectionTasks.forEach((task, index) => {
+      const row = nextRow + rows[index];
+      const midpoint = (task.start.getTime() + task.end.getTime()) / 2;
+      const x = task.isMilestone ? scale(new Date(midpoint)) : scale(task.start);
+      const source = tasksById.get(task.id)!;
+      const y = plotTop + row * rowHeight + sizes.barGap / 2;
+      const base = planned.get(task.id);
+      bars.push({
+        id: task.id,
+        name: task.name,
+        sectionIndex,
+        row,
+        x,
+        y,
+        width: task.isMilestone ? 0 : scale(task.end) - x,
+        height: sizes.barHeight,
+        status: getTaskStatus(source) ?? [],
+        progress: source.progress,
+        isMilestone: task.isMilestone,
+        start: task.start,
+        end: task.end,
+        ...(base && {
+          baseline: {
+            x: task.isMilestone
+              ? scale(new Date((base.from.getTime() + base.to.getTime()) / 2))
+              : scale(base.from),
+            y: y + sizes.barHeight,
+            width: task.isMilestone ? 0 : scale(base.to) - scale(base.from),
+            height: ghostHeight,
+            start: base.from,
+            end: base.to,
+          },
+        }),
+      });
+    });
+
+    sections.push({
+      name: section.name,
+      index: sectionIndex,
+      y: plotTop + nextRow * rowHeight,
+      height: rowCount * rowHeight,
+    });
+    nextRow += rowCount;
+  });
+
+  const barsById = new Map(bars.map((bar) => [bar.id, bar]));
+  const arrows: DependencyArrowLayout[] = [];
+  for (const bar of bars) {
+    for (const dependencyId of getTaskDependencies(tasksById.get(bar.id)!)) {
+      arrows.push({
+        fromId: dependencyId,
+        toId: bar.id,
+        path: arrowPath(barsById.get(dependencyId)!, bar, sizes.barGap),
+      });
+    }
+  }
+
+  const weekday = config.weekday ?? "sunday";
+  const configuredInterval = config.tickInterval
+    ? parseTickInterval(config.tickInterval)
+    : null;
+  const tickDates =
+    (configuredInterval &&
+      generateTickDates(rangeStart, rangeEnd, configuredInterval, weekday)) ??
+    generateTickDates(
+      rangeStart,
+      rangeEnd,
+      chooseTickInterval(
+        rangeStart,
+        rangeEnd,
+        Math.max(1, Math.floor((plotRight - plotLeft) / MIN_TICK_SPACING))
+      ),
+      weekday
+    ) ??
+    [];
+  const axisFormat = config.axisFormat ?? DEFAULT_AXIS_FORMAT;
+  const ticks: AxisTick[] = tickDates.map((date) => ({
+    date,
+    x: scale(date),
+    label: formatAxisDate(date, axisFormat),
+  }));
+
+  const plotBottom = plotTop + nextRow * rowHeight;
+
+  return {
+    success: true,
+    layout: {
+      width: sizes.width,
+      height: plotBottom + sizes.axisHeight,
+      plotLeft,
+      plotRight,
+      plotTop,
+      plotBottom,
+      rangeStart,
+      rangeEnd,
+      sections,
+      bars,
+      arrows,
+      ticks,
+    },
+  };
+}
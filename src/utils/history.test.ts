@@ -0,0 +1,292 @@
+import {
+  beginTransaction,
+  cancelTransaction,
+  commitTransaction,
+  createHistory,
+  recordChange,
+  redo,
+  restoreHistory,
+  saveHistory,
+  trimHistory,
+  undo,
+} from "./history";
+import {
+  addSection,
+  addTask,
+  removeTask,
+  updateSection,
+  updateTask,
+} from "./ganttEdits";
+import { GanttData } from "../types";
+
+const chart: GanttData = {
+  sections: [
+    {
+      name: "Design",
+      tasks: [
+        {
+          id: "spec",
+          name: "Spec",
+          start: "2024-01-01",
+          duration: { value: 2, unit: "d" },
+        },
+      ],
+    },
+  ],
+};
+
+const longer = updateTask(chart, 0, 0, {
+  duration: { value: 3, unit: "d" },
+});
+const renamed = updateSection(longer, 0, { name: "Discovery" });
+const lengthen = { label: 'Change duration of "Spec"' };
+const rename = { label: 'Rename section "Design"' };
+
+describe("history", () => {
+  describe("recordChange, undo and redo", () => {
+    it("undoes and redoes changes in order", () => {
+      let history = createHistory(chart);
+      history = recordChange(history, longer, lengthen, 0);
+      history = recordChange(history, renamed, rename, 5000);
+
+      expect(history.past.map((entry) => entry.label)).toEqual([
+        'Change duration of "Spec"',
+        'Rename section "Design"',
+      ]);
+
+      history = undo(history);
+      expect(history.present).toEqual(longer);
+      history = undo(history);
+      expect(history.present).toEqual(chart);
+      expect(undo(history)).toBe(history);
+
+      history = redo(history);
+      expect(history.present).toEqual(longer);
+      expect(history.future.map((entry) => entry.label)).toEqual([
+        'Rename section "Design"',
+      ]);
+    });
+
+    it("drops the redo entries when a new change is recorded", () => {
+      let history = recordChange(createHistory(chart), longer, lengthen, 0);
+      history = recordChange(undo(history), renamed, { label: "Rename" }, 5000);
+
+      expect(history.future).toEqual([]);
+      expect(history.past.map((entry) => entry.label)).toEqual(["Rename"]);
+    });
+
+    it("merges quick commands of the same group", () => {
+      const typed = (name: string) => updateTask(chart, 0, 0, { name });
+      const command = { label: 'Rename task "Spec"', group: "spec:name" };
+      let history = createHistory(chart);
+      history = recordChange(history, typed("S"), command, 0);
+      history = recordChange(history, typed("Sp"), command, 400);
+      history = recordChange(history, typed("Spe"), command, 800);
+      history = recordChange(history, typed("Spec 2"), command, 5000);
+
+      expect(history.past).toHaveLength(2);
+      expect(history.past[0].changes).toEqual([
+        {
+          path: ["sections", 0, "tasks", 0, "name"],
+          before: "Spec",
+          after: "Spe",
+        },
+      ]);
+      expect(undo(undo(history)).present).toEqual(chart);
+    });
+
+    it("never merges commands of different or no groups", () => {
+      const typed = (name: string) => updateTask(chart, 0, 0, { name });
+      let history = createHistory(chart);
+      history = recordChange(history, typed("S"), { label: "Type" }, 0);
+      history = recordChange(history, typed("Sp"), { label: "Type" }, 100);
+      history = recordChange(
+        history,
+        updateSection(history.present, 0, { name: "Discovery" }),
+        { label: "Rename section", group: "section:0:name" },
+        200
+      );
+      history = recordChange(
+        history,
+        updateTask(history.present, 0, 0, { start: "2024-01-02" }),
+        { label: "Change start", group: "spec:start" },
+        300
+      );
+
+      expect(history.past.map((entry) => entry.label)).toEqual([
+        "Type",
+        "Type",
+        "Rename section",
+        "Change start",
+      ]);
+    });
+
+    it("keeps only the values that changed", () => {
+      const big = Array.from({ length: 50 }, (_, i) => i).reduce(
+        (data, i) =>
+          addTask(data, 1, {
+            id: `t${i}`,
+            name: `Task ${i}`,
+            start: "2024-02-01",
+            duration: "1d",
+          }),
+        addSection(chart, "Build")
+      );
+      let history = recordChange(
+        createHistory(big),
+        updateSection(big, 0, { name: "Discovery" }),
+        rename
+      );
+      history = recordChange(history, removeTask(history.present, 1, 10), {
+        label: 'Remove task "Task 10"',
+      });
+      expect(history.past[1].changes).toEqual([
+        {
+          path: ["sections", 1, "tasks"],
+          index: 10,
+          before: [big.sections[1].tasks[10]],
+          after: [],
+        },
+      ]);
+      expect(history.past[1].size).toBeLessThan(200);
+      expect(undo(history).present.sections[1].tasks).toEqual(
+        big.sections[1].tasks
+      );
+      expect(undo(undo(history)).present).toEqual(big);
+      expect(redo(redo(undo(undo(history)))).present).toEqual(
+        history.present
+      );
+    });
+
+    it("drops the oldest entries past the size limit", () => {
+      const [start, ...durations] = [1, 2, 3, 4].map((value) =>
+        updateTask(chart, 0, 0, { duration: { value, unit: "d" } })
+      );
+      const size = recordChange(createHistory(start), durations[0], lengthen)
+        .past[0].size;
+      let history = createHistory(start, size * 2);
+      durations.forEach((data) => {
+        history = recordChange(history, data, lengthen);
+      });
+
+      expect(history.past).toHaveLength(2);
+      expect(history.past[0].changes).toEqual([
+        {
+          path: ["sections", 0, "tasks", 0, "duration", "value"],
+          before: 2,
+          after: 3,
+        },
+      ]);
+    });
+
+    it("records nothing for data equal to the current chart", () => {
+      const history = createHistory(chart);
+      const copy = JSON.parse(JSON.stringify(chart));
+
+      const updated = recordChange(history, copy, { label: "Edit" });
+
+      expect(updated.present).toBe(copy);
+      expect(updated.past).toEqual([]);
+    });
+  });
+
+  describe("transactions", () => {
+    it("records the changes of a transaction as one entry", () => {
+      let history = beginTransaction(createHistory(chart));
+      history = recordChange(history, longer, { label: "Resize" });
+      history = recordChange(history, renamed, { label: "Drag" });
+      history = commitTransaction(history);
+
+      expect(history.transaction).toBeUndefined();
+      expect(history.past.map((entry) => entry.label)).toEqual(["Drag"]);
+      expect(commitTransaction(beginTransaction(history))).toEqual(history);
+      expect(undo(history).present).toEqual(chart);
+    });
+
+    it("reverts the changes of a cancelled transaction", () => {
+      let history = beginTransaction(createHistory(chart));
+      history = recordChange(history, longer, { label: "Drag" });
+      history = cancelTransaction(history);
+
+      expect(history.present).toBe(chart);
+      expect(history.past).toEqual([]);
+      expect(history.transaction).toBeUndefined();
+    });
+  });
+
+  describe("saveHistory and restoreHistory", () => {
+    it("saves the entries and restores them around the saved chart", () => {
+      let history = recordChange(createHistory(chart), longer, lengthen, 0);
+      history = undo(recordChange(history, renamed, rename, 5000));
+
+      const saved = JSON.parse(JSON.stringify(saveHistory(history)));
+      const restored = restoreHistory(longer, saved);
+
+      expect(restored).toEqual(history);
+      expect(undo(restored).present).toEqual(chart);
+      expect(redo(restored).present).toEqual(renamed);
+    });
+
+    it("starts a new history when the saved one is not readable", () => {
+      expect(restoreHistory(chart, { past: "nope" }, 10)).toEqual(
+        createHistory(chart, 10)
+      );
+      expect(restoreHistory(chart, undefined)).toEqual(createHistory(chart));
+      // Histories that stored whole charts
+      expect(
+        restoreHistory(chart, {
+          past: [{ label: "Edit", data: chart, time: 0 }],
+          future: [],
+          limit: 100,
+        })
+      ).toEqual(createHistory(chart));
+    });
+
+    it("starts a new history when the saved one does not fit the chart", () => {
+      let history = recordChange(createHistory(chart), longer, lengthen, 0);
+      history = undo(recordChange(history, renamed, rename, 5000));
+      const saved = saveHistory(history);
+      // The chart was changed elsewhere after the history was saved
+      const other = updateTask(longer, 0, 0, {
+        duration: { value: 9, unit: "d" },
+      });
+      const removed = removeTask(longer, 0, 0);
+
+      expect(restoreHistory(other, saved)).toEqual(createHistory(other));
+      expect(restoreHistory(removed, saved)).toEqual(createHistory(removed));
+      expect(
+        restoreHistory(chart, {
+          ...saved,
+          past: [{ ...saved.past[0], changes: [{ path: ["sections", 5] }] }],
+        })
+      ).toEqual(createHistory(chart));
+    });
+
+    it("drops the history when a change does not apply", () => {
+      const history = recordChange(createHistory(chart), longer, lengthen);
+      const moved = { ...history, present: removeTask(longer, 0, 0) };
+
+      expect(undo(moved)).toEqual(createHistory(moved.present));
+      expect(redo({ ...undo(history), present: moved.present })).toEqual(
+        createHistory(moved.present)
+      );
+    });
+
+    it("trims a saved history to a size, oldest entries first", () => {
+      let history = recordChange(createHistory(chart), longer, lengthen, 0);
+      history = recordChange(history, renamed, rename, 5000);
+      history = undo(history);
+      const saved = saveHistory(history);
+      const [first] = saved.past;
+      const [next] = saved.future;
+
+      expect(trimHistory(saved, next.size)).toEqual({
+        past: [],
+        future: [next],
+        maxSize: saved.maxSize,
+      });
+      expect(trimHistory(saved, first.size + next.size)).toEqual(saved);
+      expect(trimHistory(saved, 0).future).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,573 @@
+import {
+  ChartCommand,
+  ChartHistory,
+  GanttData,
+  HistoryChange,
+  HistoryEntry,
+  SavedHistory,
+} from "../types";
+
+/**
+ * Default largest size of an undo history, in characters of JSON. Browsers
+ * allow a few megabytes of localStorage per site, shared by every saved
+ * document.
+ */
+export const DEFAULT_HISTORY_SIZE = 250_000;
+
+/**
+ * Longest pause, in milliseconds, between two changes of the same group for
+ * them to still be undone together.
+ */
+const GROUP_WINDOW = 1000;
+
+type Path = HistoryChange["path"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Builds a change, leaving out the values that are not set.
+ */
+function change(path: Path, before: unknown, after: unknown): HistoryChange {
+  return {
+    path,
+    ...(before !== undefined && { before }),
+    ...(after !== undefined && { after }),
+  };
+}
+
+/**
+ * Collects the values that differ between two versions of a chart. Values
+ * the edit functions kept are the same objects in both, so only the
+ * branches an edit went through are compared.
+ */
+function collectChanges(
+  before: unknown,
+  after: unknown,
+  path: Path,
+  changes: HistoryChange[]
+): void {
+  if (before === after) {
+    return;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (before.length === after.length) {
+      before.forEach((item, index) => {
+        // Items moved from elsewhere in the array or with another ID, such
+        // as reordered sections and tasks, are replaced whole rather than
+        // field by field
+        const next = after[index];
+        const isReplaced =
+          next !== item &&
+          (before.includes(next) ||
+            (isRecord(item) && isRecord(next) && item.id !== next.id));
+        if (isReplaced) {
+          changes.push(change([...path, index], item, next));
+        } else {
+          collectChanges(item, next, [...path, index], changes);
+        }
+      });
+      return;
+    }
+    // Items were removed or inserted: keep the ones shared at both ends
+    let start = 0;
+    while (
+      start < before.length &&
+      start < after.length &&
+      before[start] === after[start]
+    ) {
+      start++;
+    }
+    let end = 0;
+    while (
+      end < before.length - start &&
+      end < after.length - start &&
+      before[before.length - 1 - end] === after[after.length - 1 - end]
+    ) {
+      end++;
+    }
+    changes.push({
+      path,
+      index: start,
+      before: before.slice(start, before.length - end),
+      after: after.slice(start, after.length - end),
+    });
+    return;
+  }
+  if (isRecord(before) && isRecord(after)) {
+    const keys = Object.keys(before).concat(
+      Object.keys(after).filter((key) => !(key in before))
+    );
+    keys.forEach((key) =>
+      collectChanges(before[key], after[key], [...path, key], changes)
+    );
+    return;
+  }
+  changes.push(change(path, before, after));
+}
+
+/**
+ * Returns a copy of a value with the value at a path replaced by `update`,
+ * copying only the objects along the path. A key updated to undefined is
+ * removed.
+ */
+function updateAt(
+  value: unknown,
+  path: Path,
+  update: (current: unknown) => unknown
+): unknown {
+  if (path.length === 0) {
+    return update(value);
+  }
+  const [key, ...rest] = path;
+  if (Array.isArray(value)) {
+    const copy = value.slice();
+    copy[key as number] = updateAt(value[key as number], rest, update);
+    return copy;
+  }
+  const copy: Record<string, unknown> = isRecord(value) ? { ...value } : {};
+  const updated = updateAt(copy[key], rest, update);
+  if (updated === undefined) {
+    delete copy[key];
+  } else {
+    copy[key] = updated;
+  }
+  return copy;
+}
+
+/**
+ * Whether two values are equal as saved in JSON, where keys set to
+ * undefined are left out.
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = (value: Record<string, unknown>) =>
+      Object.keys(value).filter((key) => value[key] !== undefined);
+    return (
+      keys(a).length === keys(b).length &&
+      keys(a).every((key) => isEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Returns the value at a path, or undefined if there is none.
+ */
+function valueAt(value: unknown, path: Path): unknown {
+  return path.reduce<unknown>(
+    (current, key) =>
+      Array.isArray(current) || isRecord(current)
+        ? (current as Record<string | number, unknown>)[key]
+        : undefined,
+    value
+  );
+}
+
+/**
+ * Whether a change can be applied to a value: the place it changes exists
+ * and holds what the change removes from it.
+ */
+function canApply(
+  value: unknown,
+  item: HistoryChange,
+  removed: unknown,
+  inserted: unknown
+): boolean {
+  if (item.path.length === 0) {
+    return false;
+  }
+  const current = valueAt(value, item.path);
+  if (item.index !== undefined) {
+    return (
+      Array.isArray(current) &&
+      Array.isArray(removed) &&
+      Array.isArray(inserted) &&
+      item.index <= current.length &&
+      isEqual(current.slice(item.index, item.index + removed.length), removed)
+    );
+  }
+  const parent = valueAt(value, item.path.slice(0, -1));
+  const key = item.path[item.path.length - 1];
+  const hasPlace = Array.isArray(parent)
+    ? typeof key === "number" && key < parent.length
+    : isRecord(parent);
+  return hasPlace && isEqual(current, removed);
+}
+
+/**
+ * Applies an entry's changes to a chart: forwards to redo it, or backwards,
+ * with the values from before each change, to undo it.
+ * @returns The updated chart, or null if the changes were not made to this
+ * chart, such as a history saved with another version of it
+ */
+function applyChanges(
+  data: GanttData,
+  changes: HistoryChange[],
+  direction: "undo" | "redo"
+): GanttData | null {
+  const ordered = direction === "undo" ? changes.slice().reverse() : changes;
+  let current: unknown = data;
+  for (const item of ordered) {
+    const [removed, inserted] =
+      direction === "undo"
+        ? [item.after, item.before]
+        : [item.before, item.after];
+    if (!canApply(current, item, removed, inserted)) {
+      return null;
+    }
+    current = updateAt(current, item.path, (value) => {
+      if (item.index === undefined) {
+        return inserted;
+      }
+      const copy = (value as unknown[]).slice();
+      copy.splice(
+        item.index,
+        (removed as unknown[]).length,
+        ...(inserted as unknown[])
+      );
+      return copy;
+    });
+  }
+  return current as GanttData;
+}
+
+/**
+ * Size of changes as counted towards a history's size.
+ */
+function sizeOf(changes: HistoryChange[]): number {
+  return JSON.stringify(changes).length;
+}
+
+/**
+ * Drops the oldest undo entries, then the furthest redo entries, until the
+ * entries fit in a size.
+ */
+function trimEntries(
+  past: HistoryEntry[],
+  future: HistoryEntry[],
+  maxSize: number
+): Pick<ChartHistory, "past" | "future"> {
+  let size = [...past, ...future].reduce((sum, entry) => sum + entry.size, 0);
+  let first = 0;
+  while (size > maxSize && first < past.length) {
+    size -= past[first++].size;
+  }
+  let last = future.length;
+  while (size > maxSize && last > 0) {
+    size -= future[--last].size;
+  }
+  return { past: past.slice(first), future: future.slice(0, last) };
+}
+
+/**
+ * Finds what changed between two versions of a chart.
+ * @param before - The chart before the change
+ * @param after - The chart after the change
+ * @returns The changed values, which undo and redo the change
+ */
+export function diffHistory(
+  before: GanttData,
+  after: GanttData
+): HistoryChange[] {
+  const changes: HistoryChange[] = [];
+  collectChanges(before, after, [], changes);
+  return changes;
+}
+
+/**
+ * Starts an empty undo history.
+ * @param data - The current chart
+ * @param maxSize - Largest size of the entries kept, in characters of JSON
+ * @returns The history
+ */
+export function createHistory(
+  data: GanttData,
+  maxSize: number = DEFAULT_HISTORY_SIZE
+): ChartHistory {
+  return { present: data, past: [], future: [], maxSize };
+}
+
+/**
+ * Merges the changes of an entry with the next changes of the same group,
+ * keeping the value from before the first of them.
+ */
+function mergeChanges(
+  previous: HistoryChange[],
+  next: HistoryChange[]
+): HistoryChange[] {
+  const [first] = previous;
+  const [second] = next;
+  const isSameValue =
+    previous.length === 1 &&
+    next.length === 1 &&
+    first.index === undefined &&
+    second.index === undefined &&
+    first.path.join("/") === second.path.join("/");
+  return isSameValue
+    ? [change(first.path, first.before, second.after)]
+    : [...previous, ...next];
+}
+
+/**
+ * Records a change in the history under the command that made it. The
+ * change can be undone, and anything that could be redone is dropped. Only
+ * the values that changed are kept, so an entry is about the size of the
+ * edit rather than of the chart.
+ *
+ * A command with the same `group` as the previous one, made within a second
+ * of it, is merged with it, so typing in a field is undone in one step.
+ * While a transaction is open, and for data equal to the current chart,
+ * only the current chart is updated. When the entries grow past the
+ * history's `maxSize`, the oldest are dropped.
+ *
+ * @param history - The history
+ * @param data - The chart after the change
+ * @param command - The command that made the change
+ * @param time - When the change was made (defaults to now)
+ * @returns The updated history (the same one if nothing changed)
+ */
+export function recordChange(
+  history: ChartHistory,
+  data: GanttData,
+  command: ChartCommand,
+  time: number = Date.now()
+): ChartHistory {
+  if (data === history.present) {
+    return history;
+  }
+  // Transactions become one entry, named after their last command, when
+  // committed, and edits that change nothing, such as reformatting the
+  // source, are not worth an undo step
+  if (history.transaction) {
+    return {
+      ...history,
+      present: data,
+      transaction: { ...history.transaction, label: command.label },
+    };
+  }
+  const changes = diffHistory(history.present, data);
+  if (changes.length === 0) {
+    return { ...history, present: data };
+  }
+
+  const { label, group } = command;
+  const previous = history.past[history.past.length - 1];
+  const isSameGroup =
+    group !== undefined &&
+    previous?.group === group &&
+    history.future.length === 0 &&
+    time - previous.time <= GROUP_WINDOW;
+  // A merged entry keeps the label of its first command, which names the
+  // task or section as it was before the edit
+  const merged = isSameGroup ? mergeChanges(previous.changes, changes) : [];
+  const entry: HistoryEntry = isSameGroup
+    ? { ...previous, changes: merged, size: sizeOf(merged), time }
+    : {
+        label,
+        changes,
+        size: sizeOf(changes),
+        ...(group !== undefined && { group }),
+        time,
+      };
+  const past = isSameGroup ? history.past.slice(0, -1) : history.past;
+  return {
+    ...history,
+    present: data,
+    ...trimEntries([...past, entry], [], history.maxSize),
+  };
+}
+
+/**
+ * Opens a transaction: changes recorded until it is committed become one
+ * entry, such as the steps of a drag, labelled by the last command recorded.
+ * Does nothing if one is already open.
+ * @param history - The history
+ * @returns The updated history
+ */
+export function beginTransaction(history: ChartHistory): ChartHistory {
+  if (history.transaction) {
+    return history;
+  }
+  return { ...history, transaction: { data: history.present } };
+}
+
+/**
+ * Closes the open transaction, recording its changes as one entry.
+ * @param history - The history
+ * @returns The updated history
+ */
+export function commitTransaction(history: ChartHistory): ChartHistory {
+  const { transaction, ...rest } = history;
+  if (!transaction) {
+    return history;
+  }
+  // Without a command recorded, the chart is the one it began with
+  if (transaction.label === undefined) {
+    return rest;
+  }
+  return recordChange(
+    { ...rest, present: transaction.data },
+    history.present,
+    { label: transaction.label }
+  );
+}
+
+/**
+ * Closes the open transaction and reverts the changes made during it.
+ * @param history - The history
+ * @returns The updated history
+ */
+export function cancelTransaction(history: ChartHistory): ChartHistory {
+  const { transaction, ...rest } = history;
+  if (!transaction) {
+    return history;
+  }
+  return { ...rest, present: transaction.data };
+}
+
+/**
+ * Undoes the last change, committing any open transaction first. A history
+ * whose last change does not apply to the current chart is dropped.
+ * @param history - The history
+ * @returns The updated history (the same one if there is nothing to undo)
+ */
+export function undo(history: ChartHistory): ChartHistory {
+  const committed = commitTransaction(history);
+  const entry = committed.past[committed.past.length - 1];
+  if (!entry) {
+    return committed;
+  }
+  const present = applyChanges(committed.present, entry.changes, "undo");
+  if (!present) {
+    return createHistory(committed.present, committed.maxSize);
+  }
+  return {
+    ...committed,
+    present,
+    past: committed.past.slice(0, -1),
+    future: [entry, ...committed.future],
+  };
+}
+
+/**
+ * Redoes the last undone change. A history whose next change does not
+ * apply to the current chart is dropped.
+ * @param history - The history
+ * @returns The updated history (the same one if there is nothing to redo)
+ */
+export function redo(history: ChartHistory): ChartHistory {
+  const committed = commitTransaction(history);
+  const [entry, ...future] = committed.future;
+  if (!entry) {
+    return committed;
+  }
+  const present = applyChanges(committed.present, entry.changes, "redo");
+  if (!present) {
+    return createHistory(committed.present, committed.maxSize);
+  }
+  return {
+    ...committed,
+    present,
+    past: [...committed.past, entry],
+    future,
+  };
+}
+
+/**
+ * Returns the history in the form saved with a document: its entries
+ * without the current chart, which is saved as the document's data.
+ * An open transaction is committed first.
+ * @param history - The history
+ * @returns The history to save
+ */
+export function saveHistory(history: ChartHistory): SavedHistory {
+  const { past, future, maxSize } = commitTransaction(history);
+  return { past, future, maxSize };
+}
+
+/**
+ * Shrinks a saved history to fit in a size, dropping the oldest undo
+ * entries first and then the furthest redo entries.
+ * @param history - The saved history
+ * @param maxSize - Largest size of the entries kept, in characters of JSON
+ * @returns The history, with the entries that fit
+ */
+export function trimHistory(
+  history: SavedHistory,
+  maxSize: number
+): SavedHistory {
+  return {
+    ...trimEntries(history.past, history.future, maxSize),
+    maxSize: history.maxSize,
+  };
+}
+
+/**
+ * Rebuilds a history saved with saveHistory. Saved histories that cannot be
+ * read, or whose changes cannot all be undone and redone from the chart,
+ * such as one saved with another version of it, are ignored.
+ * @param data - The chart the history was saved with
+ * @param saved - The saved history, as read from storage
+ * @param maxSize - Size of a new history if the saved one is ignored
+ * @returns The history
+ */
+export function restoreHistory(
+  data: GanttData,
+  saved: unknown,
+  maxSize: number = DEFAULT_HISTORY_SIZE
+): ChartHistory {
+  const history = saved as Partial<SavedHistory> | null | undefined;
+  const isEntry = (entry: Partial<HistoryEntry> | null) =>
+    !!entry &&
+    typeof entry.label === "string" &&
+    typeof entry.time === "number" &&
+    typeof entry.size === "number" &&
+    Array.isArray(entry.changes) &&
+    entry.changes.every(
+      (item) =>
+        isRecord(item) &&
+        Array.isArray(item.path) &&
+        item.path.every(
+          (key) => typeof key === "string" || typeof key === "number"
+        ) &&
+        (item.index === undefined || typeof item.index === "number")
+    );
+  if (
+    !history ||
+    typeof history.maxSize !== "number" ||
+    !Array.isArray(history.past) ||
+    !Array.isArray(history.future) ||
+    !history.past.every(isEntry) ||
+    !history.future.every(isEntry)
+  ) {
+    return createHistory(data, maxSize);
+  }
+  // Every entry is replayed from the chart, back to the oldest undo entry
+  // and forward to the furthest redo entry
+  const replay = (entries: HistoryEntry[], direction: "undo" | "redo") =>
+    entries.reduce<GanttData | null>(
+      (current, entry) =>
+        current && applyChanges(current, entry.changes, direction),
+      data
+    );
+  if (
+    !replay(history.past.slice().reverse(), "undo") ||
+    !replay(history.future, "redo")
+  ) {
+    return createHistory(data, maxSize);
+  }
+  return {
+    present: data,
+    past: history.past,
+    future: history.future,
+    maxSize: history.maxSize,
+  };
+}
@@ -0,0 +1,191 @@
+import { exportIcs } from "./icsExport";
+import { GanttData } from "../types";
+
+const data: GanttData = {
+  config: { title: "Launch, v2", dateFormat: "YYYY-MM-DD" },
+  sections: [
+    {
+      name: "Build; test",
+      tasks: [
+        {
+          id: "code",
+          name: "Write code",
+          start: "2024-01-01",
+          duration: { value: 5, unit: "d" },
+        },
+        {
+          id: "review",
+          name: "Review",
+          start: "",
+          duration: "3h",
+          after: "code",
+        },
+        {
+          id: "ship",
+          name: "Ship",
+          start: "",
+          duration: { value: 0, unit: "d" },
+          after: "review",
+          status: ["milestone"],
+        },
+      ],
+    },
+  ],
+};
+
+const timestamp = new Date(Date.UTC(2024, 0, 1, 12, 0, 0));
+const options = { uidDomain: "launch.example.com", timestamp };
+
+/**
+ * Writes a local time as a UTC iCalendar DATE-TIME.
+ */
+function utc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+}
+
+/**
+ * Splits an export into the property lines of each event.
+ */
+function events(ics: string): string[][] {
+  return ics
+    .split("\r\n")
+    .join("\n")
+    .split("BEGIN:VEVENT\n")
+    .slice(1)
+    .map((event) => event.split("\nEND:VEVENT")[0].split("\n"));
+}
+
+describe("exportIcs", () => {
+  it("writes a calendar with one event per task", () => {
+    const result = exportIcs(data, options);
+
+    expect(result.success).toBe(true);
+    const lines = result.ics!.split("\r\n");
+    expect(lines.slice(0, 6)).toEqual([
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//Ganttifier//Gantt chart export//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:Launch\\, v2",
+    ]);
+    expect(lines.slice(-2)).toEqual(["END:VCALENDAR", ""]);
+
+    expect(events(result.ics!)).toEqual([
+      [
+        "UID:code@launch.example.com",
+        "DTSTAMP:20240101T120000Z",
+        "SEQUENCE:0",
+        "SUMMARY:Write code",
+        "CATEGORIES:Build\\; test",
+        "DTSTART;VALUE=DATE:20240101",
+        "DTEND;VALUE=DATE:20240106",
+      ],
+      [
+        "UID:review@launch.example.com",
+        "DTSTAMP:20240101T120000Z",
+        "SEQUENCE:0",
+        "SUMMARY:Review",
+        "CATEGORIES:Build\\; test",
+        `DTSTART:${utc(new Date(2024, 0, 6))}`,
+        `DTEND:${utc(new Date(2024, 0, 6, 3))}`,
+      ],
+      [
+        "UID:ship@launch.example.com",
+        "DTSTAMP:20240101T120000Z",
+        "SEQUENCE:0",
+        "SUMMARY:Ship",
+        "CATEGORIES:Build\\; test",
+        `DTSTART:${utc(new Date(2024, 0, 6, 3))}`,
+        "DURATION:PT0S",
+      ],
+    ]);
+  });
+
+  it("keeps UIDs and writes the revision as SEQUENCE", () => {
+    const edited = {
+      ...data,
+      config: { ...data.config, title: "Roadmap" },
+      sections: [{ ...data.sections[0], name: "Build" }],
+    };
+    const later = events(exportIcs(edited, { ...options, sequence: 3 }).ics!);
+
+    expect(later.map((event) => event[0])).toEqual([
+      "UID:code@launch.example.com",
+      "UID:review@launch.example.com",
+      "UID:ship@launch.example.com",
+    ]);
+    expect(later.map((event) => event[2])).toEqual([
+      "SEQUENCE:3",
+      "SEQUENCE:3",
+      "SEQUENCE:3",
+    ]);
+  });
+
+  it("makes all-day events from end dates and timed events from times", () => {
+    const withTimes: GanttData = {
+      config: { dateFormat: "YYYY-MM-DD HH:mm" },
+      sections: [
+        {
+          name: "Day",
+          tasks: [
+            {
+              id: "call",
+              name: "Call",
+              start: "2024-03-04 09:30",
+              duration: "2024-03-04 10:00",
+            },
+            {
+              id: "trip",
+              name: "Trip",
+              start: "2024-03-04 09:30",
+              duration: { value: 2, unit: "d" },
+            },
+          ],
+        },
+      ],
+    };
+
+    const [call, trip] = events(exportIcs(withTimes, options).ics!);
+
+    expect(call.slice(-2)).toEqual([
+      `DTSTART:${utc(new Date(2024, 2, 4, 9, 30))}`,
+      `DTEND:${utc(new Date(2024, 2, 4, 10))}`,
+    ]);
+    expect(trip.slice(-2)).toEqual([
+      "DTSTART;VALUE=DATE:20240304",
+      "DTEND;VALUE=DATE:20240307",
+    ]);
+  });
+
+  it("folds long lines at 75 octets", () => {
+    const name = "Überprüfung ".repeat(10).trim();
+    const long: GanttData = {
+      sections: [
+        {
+          name: "S",
+          tasks: [{ id: "a", name, start: "2024-01-01", duration: "1d" }],
+        },
+      ],
+    };
+
+    const ics = exportIcs(long, options).ics!;
+    const summary = ics
+      .slice(ics.indexOf("SUMMARY:"))
+      .split("\r\nCATEGORIES")[0];
+
+    const lines = summary.split("\r\n");
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach((line) =>
+      expect(new Blob([line]).size).toBeLessThanOrEqual(75)
+    );
+    expect(summary.replace(/\r\n /g, "")).toBe(`SUMMARY:${name}`);
+  });
+
+  it("returns the scheduling error for charts that cannot be resolved", () => {
+    const result = exportIcs({ sections: [] }, options);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Gantt data must have at least one section");
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  DateFormat,
+  GanttData,
+  GanttTask,
+  IcsExportOptions,
+  IcsExportResult,
+  ResolvedTask,
+} from "../types";
+import { getDatePart } from "./dates";
+import { parseDuration } from "./ganttConverter";
+import { resolveSchedule } from "./schedule";
+
+/**
+ * Longest content line allowed by RFC 5545, in octets.
+ */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Pads a number with leading zeros.
+ */
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+/**
+ * Writes a local date as an iCalendar DATE, e.g. "20240115".
+ */
+function formatIcsDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(
+    date.getDate()
+  )}`;
+}
+
+/**
+ * Writes a time as a UTC iCalendar DATE-TIME, e.g. "20240115T093000Z".
+ */
+function formatIcsDateTime(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}` +
+    `${pad(date.getUTCDate())}T${pad(date.getUTCHours())}` +
+    `${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+/**
+ * Escapes a TEXT value: backslashes, semicolons, commas and line breaks.
+ */
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Number of octets a character takes in UTF-8.
+ */
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+/**
+ * Folds a content line into lines of at most 75 octets, continuing each
+ * with a space. Characters are never split.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const length = utf8Length(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + length > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += length;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * Determines whether a task is shown at a time of day rather than across
+ * whole days: tasks measured in hours or minutes, and tasks with an end
+ * date in a format with a time.
+ */
+function isTimed(task: GanttTask, dateFormat: DateFormat): boolean {
+  const duration =
+    typeof task.duration === "object"
+      ? task.duration
+      : parseDuration(task.duration);
+  if (duration) {
+    return duration.unit === "h" || duration.unit === "m";
+  }
+  return getDatePart(dateFormat) !== dateFormat;
+}
+
+/**
+ * Writes the properties of one event.
+ */
+function eventLines(
+  resolved: ResolvedTask,
+  task: GanttTask,
+  dateFormat: DateFormat,
+  uidDomain: string,
+  sequence: number,
+  timestamp: Date
+): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${task.id}@${uidDomain}`,
+    `DTSTAMP:${formatIcsDateTime(timestamp)}`,
+    `SEQUENCE:${sequence}`,
+    `SUMMARY:${escapeIcsText(task.name)}`,
+    `CATEGORIES:${escapeIcsText(resolved.sectionName)}`,
+  ];
+
+  if (resolved.isMilestone) {
+    lines.push(
+      `DTSTART:${formatIcsDateTime(resolved.start)}`,
+      "DURATION:PT0S"
+    );
+  } else if (isTimed(task, dateFormat)) {
+    lines.push(
+      `DTSTART:${formatIcsDateTime(resolved.start)}`,
+      `DTEND:${formatIcsDateTime(resolved.end)}`
+    );
+  } else {
+    // All-day events end on the day after their last day, as resolved ends
+    // do; a task ending during a day takes up that day too
+    const { start, end } = resolved;
+    const endDay = new Date(end.getFullYear(), end.getMonth(), end.getDate());
+    if (endDay < end) {
+      endDay.setDate(endDay.getDate() + 1);
+    }
+    const firstDay = new Date(
+      start.getFullYear(),
+      start.getMonth(),
+      start.getDate() + 1
+    );
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatIcsDate(start)}`,
+      `DTEND;VALUE=DATE:${formatIcsDate(
+        endDay > firstDay ? endDay : firstDay
+      )}`
+    );
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Exports a chart's tasks as an iCalendar (.ics) file with one VEVENT per
+ * task, at the dates resolveSchedule gives them.
+ *
+ * Tasks measured in days or weeks become all-day events; tasks measured in
+ * hours or minutes become timed events in UTC. Milestones become events
+ * with no length, and each event's category is its section. Events are
+ * identified by "<task id>@<uidDomain>", so importing or subscribing to a
+ * later export updates the events from an earlier one instead of adding
+ * new ones, as long as each export of a changed chart has a higher
+ * `sequence`, such as the revision of the document it is saved in.
+ *
+ * @param data - The chart to export
+ * @param options - UID domain, revision and time of the export
+ * @returns IcsExportResult with the calendar text, or why the chart could
+ *   not be scheduled
+ */
+export function exportIcs(
+  data: GanttData,
+  options: IcsExportOptions
+): IcsExportResult {
+  const schedule = resolveSchedule(data);
+  if (!schedule.success) {
+    return { success: false, error: schedule.error };
+  }
+
+  const { uidDomain, sequence = 0 } = options;
+  const timestamp = options.timestamp ?? new Date();
+  const dateFormat = data.config?.dateFormat ?? "YYYY-MM-DD";
+  const tasks = new Map<string, GanttTask>();
+  data.sections.forEach((section) =>
+    section.tasks.forEach((task) => tasks.set(task.id, task))
+  );
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Ganttifier//Gantt chart export//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+  if (data.config?.title) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(data.config.title)}`);
+  }
+  for (const resolved of schedule.tasks!) {
+    lines.push(
+      ...eventLines(
+        resolved,
+        tasks.get(resolved.id)!,
+        dateFormat,
+        uidDomain,
+        sequence,
+        timestamp
+      )
+    );
+  }
+  lines.push("END:VCALENDAR");
+
+  return {
+    success: true,
+    ics: lines.map(foldLine).join("\r\n").concat("\r\n"),
+  };
+}
@@ -1 +1,22 @@
 export * from "./ganttConverter";
+export * from "./mermaidParser";
+export * from "./dates";
+export * from "./schedule";
+export * from "./criticalPath";
+export * from "./sanitize";
+export * from "./timeAxis";
+export * from "./ganttLayout";
+export * from "./reschedule";
+export * from "./ganttEdits";
+export * from "./sourceDiagnostics";
+export * from "./documentStore";
+export * from "./chartExport";
+export * from "./csvTasks";
+export * from "./xlsxTasks";
+export * from "./mspdiImport";
+export * from "./icsExport";
+export * from "./workload";
+export * from "./resourceLeveling";
+export * from "./baseline";
+export * from "./ganttDiff";
+export * from "./history";
@@ -0,0 +1,452 @@
+import {
+  parseMermaidGantt,
+  parseMermaidGanttSource,
+  MermaidParseError,
+} from "./mermaidParser";
+import { PROGRESS_COMMENT, convertToMermaidSyntax } from "./ganttConverter";
+import { GanttData } from "../types";
+
+/**
+ * Runs the parser and returns the thrown MermaidParseError.
+ */
+function parseError(syntax: string): MermaidParseError {
+  try {
+    parseMermaidGantt(syntax);
+  } catch (err) {
+    if (err instanceof MermaidParseError) {
+      return err;
+    }
+    throw err;
+  }
+  throw new Error("Expected parseMermaidGantt to throw");
+}
+
+describe("mermaidParser", () => {
+  describe("parseMermaidGantt", () => {
+    it("parses config directives", () => {
+      const data = parseMermaidGantt(
+        [
+          "gantt",
+          "    title My Project",
+          "    dateFormat YYYY-MM-DD",
+          "    axisFormat %m/%d",
+          "    tickInterval 1week",
+          "    excludes saturday, sunday",
+          "    section Dev",
+          "    Build : b1 : 2024-01-01 : 5d",
+        ].join("\n")
+      );
+
+      expect(data.config).toEqual({
+        title: "My Project",
+        dateFormat: "YYYY-MM-DD",
+        axisFormat: "%m/%d",
+        tickInterval: "1week",
+        excludes: ["saturday", "sunday"],
+      });
+    });
+
+    it("parses excludes with weekends and dates", () => {
+      const data = parseMermaidGantt(
+        [
+          "gantt",
+          "excludes weekends 2024-12-25",
+          "section A",
+          "Task : t1, 2024-01-01, 1d",
+        ].join("\n")
+      );
+
+      expect(data.config?.excludes).toEqual(["saturday", "sunday"]);
+      expect(data.config?.excludeDates).toEqual(["2024-12-25"]);
+    });
+
+    it("parses excluded and included dates in the chart's date format", () => {
+      const data = parseMermaidGantt(
+        [
+          "gantt",
+          "dateFormat DD-MM-YYYY",
+          "excludes sunday, 25-12-2024",
+          "includes 06-01-2024",
+          "section A",
+          "Task : t1, 01-01-2024, 1d",
+        ].join("\n")
+      );
+
+      expect(data.config?.excludes).toEqual(["sunday"]);
+      expect(data.config?.excludeDates).toEqual(["2024-12-25"]);
+      expect(data.config?.includes).toEqual(["2024-01-06"]);
+    });
+
+    it("parses excluded dates written with a time", () => {
+      const data = parseMermaidGantt(
+        [
+          "gantt",
+          "dateFormat YYYY-MM-DD HH:mm",
+          "excludes weekends, 2024-12-25 00:00 2024-12-26",
+          "section A",
+          "Task : t1, 2024-12-23 09:00, 1d",
+        ].join("\n")
+      );
+
+      expect(data.config?.excludes).toEqual(["saturday", "sunday"]);
+      expect(data.config?.excludeDates).toEqual(["2024-12-25", "2024-12-26"]);
+    });
+
+    it("parses weekday, topAxis, todayMarker, click and compact mode", () => {
+      const data = parseMermaidGantt(
+        [
+          '%%{init: {"gantt":{"displayMode":"compact"}}}%%',
+          "gantt",
+          "weekday monday",
+          "topAxis",
+          "todayMarker stroke-width:5px",
+          "section A",
+          "weekday sync : t1, 2024-01-01, 1d",
+          "click t1 call onTaskClick()",
+        ].join("\n")
+      );
+
+      expect(data.config).toEqual({
+        displayMode: "compact",
+        weekday: "monday",
+        topAxis: true,
+        todayMarker: "stroke-width:5px",
+        enableClick: true,
+      });
+      expect(data.sections[0].tasks[0].name).toBe("weekday sync");
+    });
+
+    it("reports invalid weekday values", () => {
+      const error = parseError("gantt\nweekday someday");
+      expect(error.line).toBe(2);
+      expect(error.column).toBe(9);
+    });
+
+    it("reports invalid includes values", () => {
+      const error = parseError("gantt\nincludes monday");
+      expect(error.message).toContain("Invalid includes value");
+    });
+
+    it("parses tasks in converter syntax", () => {
+      const data = parseMermaidGantt(
+        [
+          "gantt",
+          "    section Planning",
+          "    Requirements : done : req : 2024-01-01 : 5d",
+          "    Design : crit, active : design : after req : 2024-01-20",
+        ].join("\n")
+      );
+
+      expect(data.sections).toEqual([
+        {
+          name: "Planning",
+          tasks: [
+            {
+              id: "req",
+              name: "Requirements",
+              start: "2024-01-01",
+              duration: { value: 5, unit: "d" },
+              status: ["done"],
+            },
+            {
+              id: "design",
+              name: "Design",
+              start: "",
+              duration: "2024-01-20",
+              after: "req",
+              status: ["crit", "active"],
+            },
+          ],
+        },
+      ]);
+    });
+
+    it("parses tasks in Mermaid comma syntax", () => {
+      const data = parseMermaidGantt(
+        [
+          "gantt",
+          "section A",
+          "First :a1, 2024-01-01, 30d",
+          "Second :after a1, 20d",
+          "Third :milestone, 1d",
+        ].join("\n")
+      );
+
+      const [first, second, third] = data.sections[0].tasks;
+      expect(first).toEqual({
+        id: "a1",
+        name: "First",
+        start: "2024-01-01",
+        duration: { value: 30, unit: "d" },
+      });
+      expect(second.id).toBe("task2");
+      expect(second.after).toBe("a1");
+      expect(second.duration).toEqual({ value: 20, unit: "d" });
+      expect(third.after).toBe("task2");
+      expect(third.status).toEqual(["milestone"]);
+    });
+
+    it("skips comments and unsupported directives", () => {
+      const data = parseMermaidGantt(
+        [
+          "%% leading comment",
+          "gantt",
+          "    accTitle: Accessible title",
+          "    inclusiveEndDates",
+          "    section A",
+          "    %% another comment",
+          "    Task : t1 : 2024-01-01 : 1d",
+          "    click t1 href \"https://example.com\"",
+        ].join("\n")
+      );
+
+      expect(data.config).toBeUndefined();
+      expect(data.sections[0].tasks).toHaveLength(1);
+    });
+
+    it("reports a missing gantt header with its position", () => {
+      const error = parseError("  graph TD\nA-->B");
+      expect(error.line).toBe(1);
+      expect(error.column).toBe(3);
+      expect(error.message).toContain('Expected "gantt"');
+    });
+
+    it("reports unexpected lines", () => {
+      const error = parseError("gantt\n  section A\n  nonsense here");
+      expect(error.line).toBe(3);
+      expect(error.column).toBe(3);
+    });
+
+    it("parses datetime formats and date-only excludes", () => {
+      const data = parseMermaidGantt(
+        [
+          "gantt",
+          "dateFormat DD-MM-YYYY HH:mm",
+          "excludes 25-12-2024",
+          "section Day",
+          "Standup : s1, 16-12-2024 09:00, 15m",
+        ].join("\n")
+      );
+      expect(data.config).toEqual({
+        dateFormat: "DD-MM-YYYY HH:mm",
+        excludeDates: ["2024-12-25"],
+      });
+      expect(data.sections[0].tasks[0]).toEqual({
+        id: "s1",
+        name: "Standup",
+        start: "16-12-2024 09:00",
+        duration: { value: 15, unit: "m" },
+      });
+    });
+
+    it("reports unsupported dateFormat at the value column", () => {
+      const error = parseError("gantt\ndateFormat X");
+      expect(error.line).toBe(2);
+      expect(error.column).toBe(12);
+    });
+
+    it("reports invalid excludes values", () => {
+      const error = parseError("gantt\nexcludes monday, holiday");
+      expect(error.line).toBe(2);
+      expect(error.column).toBe(18);
+    });
+
+    it("reports tasks outside of a section", () => {
+      const error = parseError("gantt\nTask : t1, 2024-01-01, 1d");
+      expect(error.message).toContain("inside a section");
+    });
+
+    it("reports a first task without a start", () => {
+      const error = parseError("gantt\nsection A\nTask : 5d");
+      expect(error.line).toBe(3);
+      expect(error.column).toBe(8);
+    });
+
+    it("reports too many task fields", () => {
+      const error = parseError("gantt\nsection A\nTask : a, b, c, d");
+      expect(error.message).toContain("between one and three fields");
+    });
+
+    it("reports duplicate task IDs", () => {
+      const error = parseError(
+        "gantt\nsection A\nOne : t1, 2024-01-01, 1d\nTwo : t1, 2024-01-02, 1d"
+      );
+      expect(error.line).toBe(4);
+      expect(error.column).toBe(7);
+    });
+
+    it("parses multiple after references", () => {
+      const data = parseMermaidGantt(
+        "gantt\nsection A\nOne : a, 2024-01-01, 1d\nTwo : b, 2024-01-01, 1d\nThree : c, after a b, 1d"
+      );
+      expect(data.sections[0].tasks[2].after).toEqual(["a", "b"]);
+    });
+
+    it("reports empty input", () => {
+      const error = parseError("");
+      expect(error.line).toBe(1);
+    });
+  });
+
+  describe("parseMermaidGanttSource", () => {
+    it("records the line of each directive, section and task", () => {
+      const { data, lines } = parseMermaidGanttSource(
+        [
+          "gantt",
+          "  title Plan: Q1",
+          "  excludes weekends, 2024-01-15",
+          "",
+          "  section Build",
+          "  Design : a, 2024-01-01, 2d",
+          "  %% comment",
+          "  Code : b, after a, 1d",
+          "  section Ship",
+          "  Release : milestone, r, after b, 0d",
+        ].join("\n")
+      );
+
+      expect(data.sections[1].tasks[0].id).toBe("r");
+      expect(lines).toEqual({
+        "config.title": 2,
+        "config.excludes": 3,
+        "config.excludeDates": 3,
+        "sections[0]": 5,
+        "sections[0].tasks[0]": 6,
+        "sections[0].tasks[1]": 8,
+        "sections[1]": 9,
+        "sections[1].tasks[0]": 10,
+      });
+    });
+  });
+
+  describe("round trip", () => {
+    it("round trips names with special characters", () => {
+      const data: GanttData = {
+        config: { title: "Plan: 2024 #1" },
+        sections: [
+          {
+            name: "Section; one",
+            tasks: [
+              {
+                id: "api",
+                name: "API: v2, 50% done",
+                start: "2024-01-01",
+                duration: { value: 1, unit: "d" },
+              },
+              {
+                id: "title",
+                name: "Title page",
+                start: "",
+                duration: { value: 1, unit: "d" },
+                after: "api",
+              },
+            ],
+          },
+        ],
+      };
+
+      const syntax = convertToMermaidSyntax(data).syntax!;
+      expect(parseMermaidGantt(syntax)).toEqual(data);
+    });
+
+    it("round trips progress, keeping a typed percentage in the name", () => {
+      const data: GanttData = {
+        sections: [
+          {
+            name: "Build",
+            tasks: [
+              {
+                id: "a",
+                name: "Migrate (50%)",
+                start: "2024-01-01",
+                duration: { value: 1, unit: "d" },
+                status: ["active"],
+                progress: 12.5,
+              },
+            ],
+          },
+        ],
+      };
+
+      const syntax = convertToMermaidSyntax(data).syntax!;
+      expect(syntax).toContain("Migrate (50#37;) (12.5%) : active");
+      expect(parseMermaidGantt(syntax)).toEqual(data);
+    });
+
+    it("keeps a percentage in names of charts written by hand", () => {
+      const syntax = [
+        "gantt",
+        "section Test",
+        "Reach coverage (80%) : cov, 2024-01-01, 3d",
+      ].join("\n");
+
+      const [task] = parseMermaidGantt(syntax).sections[0].tasks;
+      expect(task.name).toBe("Reach coverage (80%)");
+      expect(task.progress).toBeUndefined();
+      expect(
+        parseMermaidGantt(
+          syntax.replace("gantt", `gantt\n${PROGRESS_COMMENT}`)
+        ).sections[0].tasks[0]
+      ).toMatchObject({ name: "Reach coverage", progress: 80 });
+    });
+
+    it("returns equivalent syntax through convertToMermaidSyntax", () => {
+      const data: GanttData = {
+        config: {
+          title: "Roundtrip",
+          dateFormat: "YYYY-MM-DD",
+          axisFormat: "%Y-%m-%d",
+          tickInterval: "1week",
+          excludes: ["saturday", "sunday"],
+          excludeDates: ["2024-01-15"],
+          includes: ["2024-01-13"],
+          weekday: "monday",
+          topAxis: true,
+          todayMarker: "off",
+          displayMode: "compact",
+          enableClick: true,
+        },
+        sections: [
+          {
+            name: "Planning",
+            tasks: [
+              {
+                id: "req",
+                name: "Requirements",
+                start: "2024-01-01",
+                duration: { value: 5, unit: "d" },
+                status: ["done"],
+              },
+              {
+                id: "design",
+                name: "Design",
+                start: "",
+                duration: "2024-01-20",
+                after: "req",
+              },
+            ],
+          },
+          {
+            name: "Release",
+            tasks: [
+              {
+                id: "launch",
+                name: "Launch",
+                start: "",
+                duration: { value: 0, unit: "d" },
+                after: "design",
+                status: ["crit", "milestone"],
+              },
+            ],
+          },
+        ],
+      };
+
+      const syntax = convertToMermaidSyntax(data).syntax!;
+      const parsed = parseMermaidGantt(syntax);
+
+      expect(parsed).toEqual(data);
+      expect(convertToMermaidSyntax(parsed).syntax).toBe(syntax);
+    });
+  });
+});
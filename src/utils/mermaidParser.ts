@@ -0,0 +1,428 @@
+import {
+  GanttData,
+  GanttTask,
+  GanttSection,
+  GanttConfig,
+  DateFormat,
+  ParsedMermaidSource,
+  TaskStatus,
+  WeekDay,
+} from "../types";
+import { PROGRESS_COMMENT, parseDuration } from "./ganttConverter";
+import { DATE_FORMATS, parseDate, formatDate, getDatePart } from "./dates";
+import { unescapeMermaidText } from "./sanitize";
+
+/**
+ * Error thrown when Mermaid gantt syntax cannot be parsed.
+ * Line and column are 1-based and point at the offending token.
+ */
+export class MermaidParseError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`Line ${line}, column ${column}: ${message}`);
+    this.name = "MermaidParseError";
+    this.line = line;
+    this.column = column;
+    Object.setPrototypeOf(this, MermaidParseError.prototype);
+  }
+}
+
+const WEEK_DAYS: WeekDay[] = [
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+];
+
+const TASK_STATUSES: TaskStatus[] = ["done", "active", "crit", "milestone"];
+
+/**
+ * Progress written after a task name by convertTask, e.g. " (40%)". Only
+ * read as progress in charts with PROGRESS_COMMENT.
+ */
+const PROGRESS_SUFFIX = /\s*\((\d+(?:\.\d+)?)%\)$/;
+
+/**
+ * Mermaid gantt directives that have no GanttData equivalent.
+ * They are accepted and skipped so real-world documents still parse.
+ * Only lines without a colon count, so a task whose name starts with one
+ * of them is still read as a task.
+ */
+const IGNORED_DIRECTIVES = ["inclusiveEndDates"];
+
+/**
+ * Directives that may contain a colon (URLs, accessibility text), which
+ * Mermaid always treats as directives rather than tasks.
+ */
+const COLON_DIRECTIVE = /^(click\s|acc(Title|Descr)\s*[:{])/;
+
+/**
+ * Compact display mode inside a `%%{init}%%` directive.
+ */
+const COMPACT_INIT_DIRECTIVE = /^%%\{\s*init.*["']?displayMode["']?\s*:\s*["']compact["']/;
+
+/**
+ * A piece of a line together with its 1-based column.
+ */
+interface Token {
+  text: string;
+  column: number;
+}
+
+/**
+ * Splits a task's metadata into fields.
+ * Accepts both Mermaid's comma separators and the ` : ` separators
+ * produced by convertToMermaidSyntax.
+ */
+function splitTaskFields(meta: string, offset: number): Token[] {
+  const tokens: Token[] = [];
+  const separator = /,|\s+:\s+/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  const pushToken = (end: number) => {
+    const raw = meta.slice(start, end);
+    const text = raw.trim();
+    if (text) {
+      tokens.push({ text, column: offset + start + raw.indexOf(text) + 1 });
+    }
+  };
+
+  while ((match = separator.exec(meta)) !== null) {
+    pushToken(match.index);
+    start = match.index + match[0].length;
+  }
+  pushToken(meta.length);
+
+  return tokens;
+}
+
+/**
+ * Parses a date written in the chart's date format, or in its date part, to
+ * an ISO date string.
+ * @returns The ISO date, or null if the value is not a date
+ */
+function parseConfigDate(value: string, config: GanttConfig): string | null {
+  const dateFormat = config.dateFormat ?? "YYYY-MM-DD";
+  const date =
+    parseDate(value, dateFormat) ?? parseDate(value, getDatePart(dateFormat));
+  return date ? formatDate(date, "YYYY-MM-DD") : null;
+}
+
+/**
+ * Parses the value of an `excludes` or `includes` directive into
+ * config fields. Only `excludes` accepts week days.
+ */
+function parseDateList(
+  directive: "excludes" | "includes",
+  value: string,
+  lineNumber: number,
+  offset: number,
+  config: GanttConfig
+): void {
+  // Items are separated by commas or spaces, except the time of a date
+  const pattern = /[^,\s]+(?:\s+\d{2}:\d{2}(?=[,\s]|$))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(value)) !== null) {
+    const item = match[0];
+    const lower = item.toLowerCase();
+    const isoDate = parseConfigDate(item, config);
+
+    if (directive === "excludes" && lower === "weekends") {
+      config.excludes = [...(config.excludes ?? []), "saturday", "sunday"];
+    } else if (
+      directive === "excludes" &&
+      (WEEK_DAYS as string[]).includes(lower)
+    ) {
+      config.excludes = [...(config.excludes ?? []), lower as WeekDay];
+    } else if (isoDate && directive === "excludes") {
+      config.excludeDates = [...(config.excludeDates ?? []), isoDate];
+    } else if (isoDate) {
+      config.includes = [...(config.includes ?? []), isoDate];
+    } else {
+      throw new MermaidParseError(
+        `Invalid ${directive} value: "${item}"`,
+        lineNumber,
+        offset + match.index + 1
+      );
+    }
+  }
+}
+
+/**
+ * Parses a Mermaid gantt chart definition back into GanttData.
+ *
+ * Supports `title`, `dateFormat`, `axisFormat`, `tickInterval`, `excludes`,
+ * `includes`, `weekday`, `topAxis`, `todayMarker`, click callbacks,
+ * compact display mode init directives, `section` and task lines. Tasks may
+ * use Mermaid's comma-separated syntax or the ` : `-separated form emitted
+ * by convertToMermaidSyntax. Entity codes in names (e.g. "#58;") are
+ * decoded, and a percentage after a name (e.g. "Build (40%)") is read as
+ * the task's progress.
+ *
+ * @param syntax - Mermaid gantt syntax
+ * @returns The parsed Gantt data
+ * @throws MermaidParseError if the syntax is malformed
+ */
+export function parseMermaidGantt(syntax: string): GanttData {
+  return parseMermaidGanttSource(syntax).data;
+}
+
+/**
+ * Parses Mermaid gantt syntax like parseMermaidGantt, and also records the
+ * line each config field, section and task came from so problems found
+ * later (e.g. by collectValidationIssues) can be shown next to that line.
+ *
+ * @param syntax - Mermaid gantt syntax
+ * @returns The parsed data and a map from data path (e.g. "config.title",
+ *   "sections[0]", "sections[0].tasks[1]") to 1-based line number
+ * @throws MermaidParseError if the syntax is malformed
+ */
+export function parseMermaidGanttSource(syntax: string): ParsedMermaidSource {
+  const lines = syntax.split(/\r?\n/);
+  const lineMap: Record<string, number> = {};
+  const config: GanttConfig = {};
+  const sections: GanttSection[] = [];
+  const taskIds = new Set<string>();
+  let currentSection: GanttSection | null = null;
+  let previousTaskId: string | null = null;
+  let taskCount = 0;
+  let sawHeader = false;
+  const hasProgress = lines.some((line) => line.trim() === PROGRESS_COMMENT);
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+    const offset = rawLine.indexOf(line);
+
+    if (COMPACT_INIT_DIRECTIVE.test(line)) {
+      config.displayMode = "compact";
+      lineMap["config.displayMode"] = lineNumber;
+      return;
+    }
+
+    if (!line || line.startsWith("%%")) {
+      return;
+    }
+
+    if (!sawHeader) {
+      if (line !== "gantt") {
+        throw new MermaidParseError(
+          `Expected "gantt" but found "${line}"`,
+          lineNumber,
+          offset + 1
+        );
+      }
+      sawHeader = true;
+      return;
+    }
+
+    const keywordMatch = /^(\S+)\s*(.*)$/.exec(line)!;
+    const keyword = keywordMatch[1];
+    const value = keywordMatch[2].trim();
+    const valueColumn = offset + line.indexOf(value, keyword.length) + 1;
+    const recordConfigLine = (...fields: (keyof GanttConfig)[]) =>
+      fields.forEach((field) => (lineMap[`config.${field}`] = lineNumber));
+
+    switch (keyword) {
+      case "title":
+        recordConfigLine("title");
+        config.title = unescapeMermaidText(value);
+        return;
+      case "dateFormat":
+        if (!(DATE_FORMATS as string[]).includes(value)) {
+          throw new MermaidParseError(
+            `Unsupported dateFormat: "${value}"`,
+            lineNumber,
+            valueColumn
+          );
+        }
+        recordConfigLine("dateFormat");
+        config.dateFormat = value as DateFormat;
+        return;
+      case "axisFormat":
+        recordConfigLine("axisFormat");
+        config.axisFormat = value;
+        return;
+      case "tickInterval":
+        recordConfigLine("tickInterval");
+        config.tickInterval = value;
+        return;
+      case "excludes":
+      case "includes":
+        if (keyword === "excludes") {
+          recordConfigLine("excludes", "excludeDates");
+        } else {
+          recordConfigLine("includes");
+        }
+        parseDateList(keyword, value, lineNumber, valueColumn - 1, config);
+        return;
+      case "weekday":
+        if (line.includes(":")) {
+          // A task named e.g. "weekday sync"
+          break;
+        }
+        if (!(WEEK_DAYS as string[]).includes(value)) {
+          throw new MermaidParseError(
+            `Invalid weekday: "${value}"`,
+            lineNumber,
+            valueColumn
+          );
+        }
+        recordConfigLine("weekday");
+        config.weekday = value as WeekDay;
+        return;
+      case "topAxis":
+        recordConfigLine("topAxis");
+        config.topAxis = true;
+        return;
+      case "todayMarker":
+        recordConfigLine("todayMarker");
+        config.todayMarker = value;
+        return;
+      case "section":
+        if (!value) {
+          throw new MermaidParseError(
+            "Section is missing a name",
+            lineNumber,
+            offset + 1
+          );
+        }
+        currentSection = { name: unescapeMermaidText(value), tasks: [] };
+        lineMap[`sections[${sections.length}]`] = lineNumber;
+        sections.push(currentSection);
+        return;
+    }
+
+    const colonIndex = line.indexOf(":");
+
+    if (/^click\s+\S+\s+call\s/.test(line)) {
+      if (!config.enableClick) {
+        recordConfigLine("enableClick");
+      }
+      config.enableClick = true;
+      return;
+    }
+
+    if (
+      COLON_DIRECTIVE.test(line) ||
+      (colonIndex === -1 && IGNORED_DIRECTIVES.includes(keyword))
+    ) {
+      return;
+    }
+
+    if (colonIndex === -1) {
+      throw new MermaidParseError(
+        `Unexpected line: "${line}"`,
+        lineNumber,
+        offset + 1
+      );
+    }
+
+    if (!currentSection) {
+      throw new MermaidParseError(
+        "Task must be declared inside a section",
+        lineNumber,
+        offset + 1
+      );
+    }
+
+    // Charts written by convertToMermaidSyntax give progress after the
+    // name, e.g. "Build (40%)", and escape a "%" typed in the name itself;
+    // in other charts a name like "Reach coverage (80%)" is kept whole
+    const rawName = line.slice(0, colonIndex).trim();
+    const progressMatch = hasProgress ? PROGRESS_SUFFIX.exec(rawName) : null;
+    const name = unescapeMermaidText(
+      progressMatch ? rawName.slice(0, progressMatch.index) : rawName
+    );
+    if (!name) {
+      throw new MermaidParseError("Task is missing a name", lineNumber, offset + 1);
+    }
+
+    const fields = splitTaskFields(
+      line.slice(colonIndex + 1),
+      offset + colonIndex + 1
+    );
+
+    const status: TaskStatus[] = [];
+    while (
+      fields.length > 0 &&
+      (TASK_STATUSES as string[]).includes(fields[0].text)
+    ) {
+      status.push(fields.shift()!.text as TaskStatus);
+    }
+
+    if (fields.length === 0 || fields.length > 3) {
+      throw new MermaidParseError(
+        `Task "${name}" must have between one and three fields after its tags`,
+        lineNumber,
+        offset + colonIndex + 2
+      );
+    }
+
+    taskCount += 1;
+    const idToken = fields.length === 3 ? fields.shift()! : null;
+    const startToken = fields.length === 2 ? fields.shift()! : null;
+    const endToken = fields.shift()!;
+
+    const id = idToken ? idToken.text : `task${taskCount}`;
+    if (taskIds.has(id)) {
+      throw new MermaidParseError(
+        `Duplicate task ID: "${id}"`,
+        lineNumber,
+        idToken ? idToken.column : offset + 1
+      );
+    }
+
+    const task: GanttTask = { id, name, start: "", duration: "" };
+
+    if (!startToken) {
+      // Mermaid starts tasks without a start field after the previous task
+      if (!previousTaskId) {
+        throw new MermaidParseError(
+          `Task "${name}" has no start and no previous task to follow`,
+          lineNumber,
+          endToken.column
+        );
+      }
+      task.after = previousTaskId;
+    } else if (/^after\s/.test(startToken.text)) {
+      const refs = startToken.text.slice(5).trim().split(/\s+/);
+      task.after = refs.length === 1 ? refs[0] : refs;
+    } else {
+      task.start = startToken.text;
+    }
+
+    task.duration = parseDuration(endToken.text) ?? endToken.text;
+
+    if (status.length > 0) {
+      task.status = status;
+    }
+    if (progressMatch) {
+      task.progress = Number(progressMatch[1]);
+    }
+
+    taskIds.add(id);
+    previousTaskId = id;
+    lineMap[
+      `sections[${sections.length - 1}].tasks[${currentSection.tasks.length}]`
+    ] = lineNumber;
+    currentSection.tasks.push(task);
+  });
+
+  if (!sawHeader) {
+    throw new MermaidParseError('Expected "gantt" declaration', 1, 1);
+  }
+
+  const data: GanttData = { sections };
+  if (Object.keys(config).length > 0) {
+    data.config = config;
+  }
+  return { data, lines: lineMap };
+}
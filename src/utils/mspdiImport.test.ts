@@ -0,0 +1,273 @@
+import { importMspdi } from "./mspdiImport";
+import { validateGanttData } from "./ganttConverter";
+
+/**
+ * Wraps task, calendar and resource elements in an MSPDI project.
+ */
+function project(body: string, header = ""): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Project xmlns="http://schemas.microsoft.com/project">
+  <Name>launch.xml</Name>
+  <MinutesPerDay>480</MinutesPerDay>
+  ${header}
+  ${body}
+</Project>`;
+}
+
+/**
+ * Writes an MSPDI task.
+ */
+function task(fields: Record<string, string | number>, links = ""): string {
+  const elements = Object.entries(fields)
+    .map(([name, value]) => `<${name}>${value}</${name}>`)
+    .join("");
+  return `<Task>${elements}${links}</Task>`;
+}
+
+/**
+ * Writes an MSPDI predecessor link.
+ */
+function link(uid: number, type = 1, lag = 0): string {
+  return `<PredecessorLink><PredecessorUID>${uid}</PredecessorUID><Type>${type}</Type><LinkLag>${lag}</LinkLag></PredecessorLink>`;
+}
+
+const schedule = project(
+  `<Tasks>
+    ${task({ UID: 0, ID: 0, Name: "Launch", OutlineLevel: 0, Summary: 1 })}
+    ${task({ UID: 1, ID: 1, Name: "Design", OutlineLevel: 1, Summary: 1 })}
+    ${task({
+      UID: 2,
+      ID: 2,
+      Name: "Spec",
+      OutlineLevel: 2,
+      Start: "2024-01-01T08:00:00",
+      Duration: "PT40H0M0S",
+      PercentComplete: 100,
+    })}
+    ${task(
+      {
+        UID: 3,
+        ID: 3,
+        Name: "Review",
+        OutlineLevel: 2,
+        Start: "2024-01-08T08:00:00",
+        Duration: "PT4H0M0S",
+        PercentComplete: 50,
+        Critical: 1,
+      },
+      link(2)
+    )}
+    ${task({ UID: 4, ID: 4, Name: "Build", OutlineLevel: 1, Summary: 1 })}
+    ${task(
+      {
+        UID: 5,
+        ID: 5,
+        Name: "Code",
+        OutlineLevel: 2,
+        Start: "2024-01-10T08:00:00",
+        Duration: "PT80H0M0S",
+      },
+      link(2, 3) + link(3, 1, 4800)
+    )}
+    ${task(
+      {
+        UID: 6,
+        ID: 6,
+        Name: "Done",
+        OutlineLevel: 2,
+        Start: "2024-01-24T17:00:00",
+        Duration: "PT0H0M0S",
+        Milestone: 1,
+      },
+      link(5) + link(3)
+    )}
+  </Tasks>
+  <Resources>
+    <Resource><UID>0</UID></Resource>
+    <Resource><UID>1</UID><Name>Ada</Name></Resource>
+  </Resources>
+  <Assignments>
+    <Assignment><TaskUID>2</TaskUID><ResourceUID>1</ResourceUID></Assignment>
+  </Assignments>`,
+  `<CalendarUID>1</CalendarUID>
+  <Calendars>
+    <Calendar>
+      <UID>1</UID>
+      <Name>Standard</Name>
+      <IsBaseCalendar>1</IsBaseCalendar>
+      <WeekDays>
+        <WeekDay><DayType>1</DayType><DayWorking>0</DayWorking></WeekDay>
+        <WeekDay><DayType>2</DayType><DayWorking>1</DayWorking></WeekDay>
+        <WeekDay><DayType>7</DayType><DayWorking>0</DayWorking></WeekDay>
+      </WeekDays>
+      <Exceptions><Exception><Name>Holiday</Name></Exception></Exceptions>
+    </Calendar>
+  </Calendars>`
+);
+
+describe("importMspdi", () => {
+  it("turns summary tasks into sections and links into dependencies", () => {
+    const result = importMspdi(schedule);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({
+      config: {
+        title: "launch",
+        dateFormat: "YYYY-MM-DD",
+        excludes: ["sunday", "saturday"],
+      },
+      sections: [
+        {
+          name: "Design",
+          tasks: [
+            {
+              id: "task2",
+              name: "Spec",
+              start: "2024-01-01",
+              duration: { value: 5, unit: "d" },
+              status: ["done"],
+              progress: 100,
+            },
+            {
+              id: "task3",
+              name: "Review",
+              start: "",
+              duration: { value: 4, unit: "h" },
+              status: ["active", "crit"],
+              progress: 50,
+              after: "task2",
+            },
+          ],
+        },
+        {
+          name: "Build",
+          tasks: [
+            {
+              id: "task5",
+              name: "Code",
+              start: "2024-01-10",
+              duration: { value: 10, unit: "d" },
+            },
+            {
+              id: "task6",
+              name: "Done",
+              start: "",
+              duration: { value: 0, unit: "d" },
+              status: ["milestone"],
+              after: ["task5", "task3"],
+            },
+          ],
+        },
+      ],
+    });
+    expect(validateGanttData(result.data!)).toBeNull();
+  });
+
+  it("reports what cannot be represented", () => {
+    const result = importMspdi(schedule);
+
+    expect(result.unsupported).toEqual([
+      {
+        code: "LINK_TYPE",
+        message:
+          'Task "Code": the start-to-start link to "Spec" is not imported',
+        taskName: "Code",
+      },
+      {
+        code: "LINK_LAG",
+        message:
+          'Task "Code": the link to "Review" has lag time and is not imported',
+        taskName: "Code",
+      },
+      {
+        code: "RESOURCES",
+        message: "1 resource and 1 assignment are not imported",
+      },
+      {
+        code: "CALENDAR_EXCEPTIONS",
+        message: "1 calendar exception is not imported",
+      },
+    ]);
+  });
+
+  it("flattens nested summary tasks and reports links to summaries", () => {
+    const result = importMspdi(
+      project(`<Tasks>
+        ${task({ UID: 1, Name: "Phase", OutlineLevel: 1, Summary: 1 })}
+        ${task({ UID: 2, Name: "Stage", OutlineLevel: 2, Summary: 1 })}
+        ${task(
+          {
+            UID: 3,
+            Name: "Work",
+            OutlineLevel: 3,
+            Start: "2024-01-01T08:00:00",
+            Duration: "PT8H0M0S",
+          },
+          link(1)
+        )}
+        ${task({
+          UID: 4,
+          Name: "Loose",
+          OutlineLevel: 1,
+          Start: "2024-01-02T08:00:00",
+          Duration: "PT30M0S",
+        })}
+      </Tasks>`)
+    );
+
+    expect(result.data!.sections).toEqual([
+      {
+        name: "Phase / Stage",
+        tasks: [
+          {
+            id: "task3",
+            name: "Work",
+            start: "2024-01-01",
+            duration: { value: 1, unit: "d" },
+          },
+        ],
+      },
+      {
+        name: "launch",
+        tasks: [
+          {
+            id: "task4",
+            name: "Loose",
+            start: "2024-01-02",
+            duration: { value: 30, unit: "m" },
+          },
+        ],
+      },
+    ]);
+    expect(result.unsupported.map((warning) => warning.code)).toEqual([
+      "NESTED_SUMMARY",
+      "SUMMARY_LINK",
+    ]);
+  });
+
+  it("explains why an imported chart does not validate", () => {
+    const result = importMspdi(
+      project(`<Tasks>
+        ${task({
+          UID: 1,
+          Name: "Instant",
+          OutlineLevel: 1,
+          Start: "2024-01-01T08:00:00",
+          Duration: "PT0H0M0S",
+        })}
+      </Tasks>`)
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.data).toBeDefined();
+    expect(result.error).toBe('Task "task1" has invalid duration value: 0');
+    expect(result.issues?.[0].code).toBe("INVALID_DURATION_VALUE");
+  });
+
+  it("refuses files that are not MSPDI", () => {
+    expect(importMspdi("<Project>").error).toBe("The file is not valid XML");
+    expect(importMspdi("<Schedule/>").error).toBe(
+      "The file is not a Microsoft Project XML (MSPDI) file"
+    );
+  });
+});
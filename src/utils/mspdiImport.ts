@@ -0,0 +1,394 @@
+import {
+  Duration,
+  GanttConfig,
+  GanttData,
+  GanttSection,
+  GanttTask,
+  ImportWarning,
+  MspdiImportResult,
+  TaskStatus,
+  WeekDay,
+} from "../types";
+import { collectValidationIssues } from "./ganttConverter";
+
+/**
+ * Week days by MSPDI DayType (1 is Sunday).
+ */
+const DAY_TYPES: Record<string, WeekDay> = {
+  "1": "sunday",
+  "2": "monday",
+  "3": "tuesday",
+  "4": "wednesday",
+  "5": "thursday",
+  "6": "friday",
+  "7": "saturday",
+};
+
+/**
+ * Names of the MSPDI link types, by Type. Only finish-to-start ("1") can
+ * be drawn as `after`.
+ */
+const LINK_TYPES: Record<string, string> = {
+  "0": "finish-to-finish",
+  "1": "finish-to-start",
+  "2": "start-to-finish",
+  "3": "start-to-start",
+};
+
+/**
+ * ISO 8601 duration, e.g. "PT40H0M0S" or "P2DT4H".
+ */
+const ISO_DURATION =
+  /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+/**
+ * A task as read from the file.
+ */
+interface MspdiTask {
+  uid: string;
+  name: string;
+  outlineLevel: number;
+  isSummary: boolean;
+  element: Element;
+}
+
+/**
+ * Returns the child elements of a parent with the given local name.
+ */
+function childElements(parent: Element | undefined, name: string): Element[] {
+  if (!parent) {
+    return [];
+  }
+  return Array.from(parent.children).filter(
+    (child) => child.localName === name
+  );
+}
+
+/**
+ * Returns the trimmed text of the first child element with the given local
+ * name, or "" if there is none.
+ */
+function childText(parent: Element | undefined, name: string): string {
+  return childElements(parent, name)[0]?.textContent?.trim() ?? "";
+}
+
+/**
+ * Reads an MSPDI duration (an ISO 8601 duration like "PT40H0M0S") in
+ * working minutes.
+ * @returns The minutes, or null if the value is not a duration
+ */
+function parseMspdiDuration(
+  value: string,
+  minutesPerDay: number
+): number | null {
+  const match = ISO_DURATION.exec(value);
+  if (!match || value === "P" || value === "PT") {
+    return null;
+  }
+  const [, days = "0", hours = "0", minutes = "0", seconds = "0"] = match;
+  return Math.round(
+    Number(days) * minutesPerDay +
+      Number(hours) * 60 +
+      Number(minutes) +
+      Number(seconds) / 60
+  );
+}
+
+/**
+ * Expresses working minutes in the largest unit that divides them evenly:
+ * working days, hours or minutes.
+ */
+function toDuration(minutes: number, minutesPerDay: number): Duration {
+  if (minutes % minutesPerDay === 0) {
+    return { value: minutes / minutesPerDay, unit: "d" };
+  }
+  if (minutes % 60 === 0) {
+    return { value: minutes / 60, unit: "h" };
+  }
+  return { value: minutes, unit: "m" };
+}
+
+/**
+ * Reads the non-working week days of the project calendar, following
+ * base calendars for days a calendar does not define.
+ */
+function readCalendar(
+  project: Element,
+  unsupported: ImportWarning[]
+): WeekDay[] {
+  const calendars = childElements(
+    childElements(project, "Calendars")[0],
+    "Calendar"
+  );
+  const byUid = new Map(
+    calendars.map((calendar) => [childText(calendar, "UID"), calendar])
+  );
+  const working = new Map<WeekDay, boolean>();
+  let exceptions = 0;
+
+  let calendar = byUid.get(childText(project, "CalendarUID"));
+  const visited = new Set<Element>();
+  while (calendar && !visited.has(calendar)) {
+    visited.add(calendar);
+    for (const day of childElements(
+      childElements(calendar, "WeekDays")[0],
+      "WeekDay"
+    )) {
+      const weekDay = DAY_TYPES[childText(day, "DayType")];
+      if (!weekDay) {
+        // DayType 0 holds an exception in older files
+        exceptions++;
+      } else if (!working.has(weekDay)) {
+        working.set(weekDay, childText(day, "DayWorking") === "1");
+      }
+    }
+    exceptions += childElements(
+      childElements(calendar, "Exceptions")[0],
+      "Exception"
+    ).length;
+    calendar = byUid.get(childText(calendar, "BaseCalendarUID"));
+  }
+
+  if (exceptions > 0) {
+    unsupported.push({
+      code: "CALENDAR_EXCEPTIONS",
+      message: `${exceptions} calendar ${
+        exceptions === 1 ? "exception is" : "exceptions are"
+      } not imported`,
+    });
+  }
+  return Object.values(DAY_TYPES).filter((day) => working.get(day) === false);
+}
+
+/**
+ * Reports resources and assignments, which charts cannot show.
+ */
+function reportResources(project: Element, unsupported: ImportWarning[]) {
+  // Resource 0 is the placeholder for unassigned work
+  const resources = childElements(
+    childElements(project, "Resources")[0],
+    "Resource"
+  ).filter((resource) => childText(resource, "UID") !== "0");
+  const assignments = childElements(
+    childElements(project, "Assignments")[0],
+    "Assignment"
+  ).filter((assignment) => childText(assignment, "ResourceUID") !== "-65535");
+  if (resources.length > 0 || assignments.length > 0) {
+    unsupported.push({
+      code: "RESOURCES",
+      message: `${resources.length} ${
+        resources.length === 1 ? "resource" : "resources"
+      } and ${assignments.length} ${
+        assignments.length === 1 ? "assignment" : "assignments"
+      } are not imported`,
+    });
+  }
+}
+
+/**
+ * Imports a Microsoft Project XML (MSPDI) file, as saved by MS Project or
+ * exported by ProjectLibre.
+ *
+ * Summary tasks become sections (nested summaries are flattened into
+ * sections named "Parent / Child"), other tasks become tasks with the ID
+ * "task<UID>", and tasks outside any summary go into a section named after
+ * the project. Finish-to-start links without lag become `after`
+ * dependencies; tasks without one start on their scheduled start date.
+ * Durations are converted from working time using the project's minutes
+ * per day, and the project calendar's non-working days become `excludes`.
+ * Percent complete becomes `progress`. Milestones keep the milestone
+ * status, complete tasks are marked `done`, tasks in progress `active` and
+ * critical tasks `crit`.
+ *
+ * Anything else that affects the schedule (other link types, lag, links
+ * to summary tasks, calendar exceptions and resources) is left out and
+ * listed in `unsupported`.
+ *
+ * @param xml - Contents of the XML file
+ * @returns MspdiImportResult with the chart, or why the file or the chart
+ *   is not valid
+ */
+export function importMspdi(xml: string): MspdiImportResult {
+  const unsupported: ImportWarning[] = [];
+  const xmlDocument = new DOMParser().parseFromString(xml, "application/xml");
+  if (xmlDocument.getElementsByTagName("parsererror").length > 0) {
+    return { success: false, error: "The file is not valid XML", unsupported };
+  }
+  const project = xmlDocument.documentElement;
+  if (project.localName !== "Project") {
+    return {
+      success: false,
+      error: "The file is not a Microsoft Project XML (MSPDI) file",
+      unsupported,
+    };
+  }
+
+  const minutesPerDay = Number(childText(project, "MinutesPerDay")) || 480;
+  const title =
+    childText(project, "Title") ||
+    childText(project, "Name").replace(/\.xml$/i, "");
+
+  // Task 0 is the project summary, and blank rows are saved as null tasks
+  const tasks: MspdiTask[] = childElements(
+    childElements(project, "Tasks")[0],
+    "Task"
+  )
+    .filter(
+      (element) =>
+        childText(element, "OutlineLevel") !== "0" &&
+        childText(element, "IsNull") !== "1"
+    )
+    .map((element) => ({
+      uid: childText(element, "UID"),
+      name: childText(element, "Name") || `Task ${childText(element, "ID")}`,
+      outlineLevel: Number(childText(element, "OutlineLevel")) || 1,
+      isSummary: childText(element, "Summary") === "1",
+      element,
+    }));
+  const byUid = new Map(tasks.map((task) => [task.uid, task]));
+
+  const sections = new Map<string, GanttSection>();
+  // Enclosing summary tasks of the current task, outermost first
+  const summaries: MspdiTask[] = [];
+
+  for (const task of tasks) {
+    while (
+      summaries.length > 0 &&
+      summaries[summaries.length - 1].outlineLevel >= task.outlineLevel
+    ) {
+      summaries.pop();
+    }
+
+    const links = childElements(task.element, "PredecessorLink");
+    if (task.isSummary) {
+      if (links.length > 0) {
+        unsupported.push({
+          code: "SUMMARY_LINK",
+          message: `Links to summary task "${task.name}" are not imported`,
+          taskName: task.name,
+        });
+      }
+      if (summaries.length > 0) {
+        unsupported.push({
+          code: "NESTED_SUMMARY",
+          message: `Summary task "${task.name}" is nested in "${
+            summaries[summaries.length - 1].name
+          }" and becomes a section of its own`,
+          taskName: task.name,
+        });
+      }
+      summaries.push(task);
+      continue;
+    }
+
+    const after: string[] = [];
+    for (const link of links) {
+      const predecessor = byUid.get(childText(link, "PredecessorUID"));
+      const type = childText(link, "Type") || "1";
+      const lag = Number(childText(link, "LinkLag")) || 0;
+      const warn = (code: ImportWarning["code"], reason: string) =>
+        unsupported.push({
+          code,
+          message: `Task "${task.name}": ${reason}`,
+          taskName: task.name,
+        });
+
+      if (!predecessor) {
+        warn("MISSING_LINK", "a predecessor is not in the file");
+      } else if (predecessor.isSummary) {
+        warn(
+          "SUMMARY_LINK",
+          `the link to summary task "${predecessor.name}" is not imported`
+        );
+      } else if (type !== "1") {
+        warn(
+          "LINK_TYPE",
+          `the ${LINK_TYPES[type] ?? "unknown"} link to "${
+            predecessor.name
+          }" is not imported`
+        );
+      } else if (lag !== 0) {
+        warn(
+          "LINK_LAG",
+          `the link to "${predecessor.name}" has ${
+            lag < 0 ? "lead" : "lag"
+          } time and is not imported`
+        );
+      } else {
+        after.push(`task${predecessor.uid}`);
+      }
+    }
+
+    const isMilestone = childText(task.element, "Milestone") === "1";
+    const minutes = parseMspdiDuration(
+      childText(task.element, "Duration"),
+      minutesPerDay
+    );
+    const percentComplete = Number(
+      childText(task.element, "PercentComplete")
+    );
+    const status: TaskStatus[] = [];
+    if (percentComplete >= 100) {
+      status.push("done");
+    } else if (percentComplete > 0) {
+      status.push("active");
+    }
+    if (childText(task.element, "Critical") === "1") {
+      status.push("crit");
+    }
+    if (isMilestone) {
+      status.push("milestone");
+    }
+
+    const ganttTask: GanttTask = {
+      id: `task${task.uid}`,
+      name: task.name,
+      start:
+        after.length > 0 ? "" : childText(task.element, "Start").slice(0, 10),
+      duration: isMilestone
+        ? { value: 0, unit: "d" }
+        : minutes === null
+        ? childText(task.element, "Duration")
+        : toDuration(minutes, minutesPerDay),
+    };
+    if (status.length > 0) {
+      ganttTask.status = status;
+    }
+    if (percentComplete > 0) {
+      ganttTask.progress = percentComplete;
+    }
+    if (after.length > 0) {
+      ganttTask.after = after.length === 1 ? after[0] : after;
+    }
+
+    const key = summaries.map((summary) => summary.uid).join("/");
+    if (!sections.has(key)) {
+      sections.set(key, {
+        name:
+          summaries.map((summary) => summary.name).join(" / ") ||
+          title ||
+          "Tasks",
+        tasks: [],
+      });
+    }
+    sections.get(key)!.tasks.push(ganttTask);
+  }
+
+  reportResources(project, unsupported);
+  const excludes = readCalendar(project, unsupported);
+
+  const config: GanttConfig = { dateFormat: "YYYY-MM-DD" };
+  if (title) {
+    config.title = title;
+  }
+  if (excludes.length > 0) {
+    config.excludes = excludes;
+  }
+  const data: GanttData = { config, sections: Array.from(sections.values()) };
+
+  const issues = collectValidationIssues(data);
+  const firstError = issues.find((issue) => issue.severity === "error");
+  return firstError
+    ? { success: false, data, error: firstError.message, issues, unsupported }
+    : { success: true, data, issues, unsupported };
+}
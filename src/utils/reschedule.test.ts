@@ -0,0 +1,173 @@
+import { moveTask, resizeTask, snapDate } from "./reschedule";
+import { resolveSchedule } from "./schedule";
+import { GanttData, GanttTask } from "../types";
+
+/**
+ * Builds single-section Gantt data from a list of tasks.
+ */
+function chart(tasks: GanttTask[], config: GanttData["config"] = {}): GanttData {
+  return { config, sections: [{ name: "Main", tasks }] };
+}
+
+const plan = chart([
+  {
+    id: "a",
+    name: "A",
+    start: "2024-01-01",
+    duration: { value: 3, unit: "d" },
+  },
+  {
+    id: "b",
+    name: "B",
+    start: "",
+    duration: "2d",
+    after: "a",
+  },
+  {
+    id: "c",
+    name: "C",
+    start: "",
+    duration: { value: 1, unit: "d" },
+    after: "b",
+  },
+]);
+
+/**
+ * Returns a task from the first section by ID.
+ */
+function taskById(data: GanttData, id: string): GanttTask {
+  return data.sections[0].tasks.find((task) => task.id === id)!;
+}
+
+describe("reschedule", () => {
+  describe("snapDate", () => {
+    it("rounds to the nearest day for date-only formats", () => {
+      expect(snapDate(new Date(2024, 0, 1, 11, 59), "YYYY-MM-DD")).toEqual(
+        new Date(2024, 0, 1)
+      );
+      expect(snapDate(new Date(2024, 0, 1, 12, 0), "YYYY-MM-DD")).toEqual(
+        new Date(2024, 0, 2)
+      );
+    });
+
+    it("rounds to 15 minutes for datetime formats", () => {
+      expect(
+        snapDate(new Date(2024, 0, 1, 9, 8), "YYYY-MM-DD HH:mm")
+      ).toEqual(new Date(2024, 0, 1, 9, 15));
+    });
+  });
+
+  describe("moveTask", () => {
+    it("moves a task with a start date and shifts its after chain", () => {
+      const result = moveTask(plan, "a", new Date(2024, 0, 8));
+
+      expect(result.success).toBe(true);
+      expect(taskById(result.data!, "a").start).toBe("2024-01-08");
+      const tasks = resolveSchedule(result.data!).tasks!;
+      expect(tasks.map((task) => task.start)).toEqual([
+        new Date(2024, 0, 8),
+        new Date(2024, 0, 11),
+        new Date(2024, 0, 13),
+      ]);
+    });
+
+    it("refuses to start a dependent task before its predecessor ends", () => {
+      const result = moveTask(plan, "b", new Date(2024, 0, 2));
+      expect(result).toEqual({
+        success: false,
+        error: 'Task "b" cannot start before "a" ends',
+      });
+    });
+
+    it("refuses to move a dependent task later instead of unlinking it", () => {
+      const result = moveTask(plan, "b", new Date(2024, 0, 6));
+      expect(result).toEqual({
+        success: false,
+        error:
+          'Task "b" starts when "a" ends; remove the dependency to move it',
+      });
+    });
+
+    it("returns the data unchanged when the start does not change", () => {
+      expect(moveTask(plan, "a", new Date(2024, 0, 1)).data).toBe(plan);
+      expect(moveTask(plan, "b", new Date(2024, 0, 4)).data).toBe(plan);
+    });
+
+    it("keeps the length of a task with an end date", () => {
+      const data = chart(
+        [{ id: "x", name: "X", start: "01-01-2024", duration: "05-01-2024" }],
+        { dateFormat: "DD-MM-YYYY" }
+      );
+      const moved = taskById(moveTask(data, "x", new Date(2024, 0, 3)).data!, "x");
+      expect(moved).toEqual(
+        expect.objectContaining({ start: "03-01-2024", duration: "07-01-2024" })
+      );
+    });
+
+    it("reports unknown tasks", () => {
+      expect(moveTask(plan, "ghost", new Date()).error).toBe(
+        'Task "ghost" does not exist'
+      );
+    });
+  });
+
+  describe("resizeTask", () => {
+    it("changes the duration in the task's unit and form", () => {
+      const objectResult = resizeTask(plan, "a", new Date(2024, 0, 6));
+      expect(taskById(objectResult.data!, "a").duration).toEqual({
+        value: 5,
+        unit: "d",
+      });
+
+      const stringResult = resizeTask(plan, "b", new Date(2024, 0, 8));
+      expect(taskById(stringResult.data!, "b").duration).toBe("4d");
+    });
+
+    it("counts only working days when weekends are excluded", () => {
+      // 2024-01-05 is a Friday; ending on Tuesday spans 2 working days
+      const data = chart(
+        [
+          {
+            id: "a",
+            name: "A",
+            start: "2024-01-05",
+            duration: { value: 1, unit: "d" },
+          },
+        ],
+        { excludes: ["saturday", "sunday"] }
+      );
+      const result = resizeTask(data, "a", new Date(2024, 0, 9));
+      expect(taskById(result.data!, "a").duration).toEqual({
+        value: 2,
+        unit: "d",
+      });
+    });
+
+    it("moves an end date", () => {
+      const data = chart([
+        { id: "x", name: "X", start: "2024-01-01", duration: "2024-01-05" },
+      ]);
+      const result = resizeTask(data, "x", new Date(2024, 0, 9));
+      expect(taskById(result.data!, "x").duration).toBe("2024-01-09");
+    });
+
+    it("refuses to end a task before it starts", () => {
+      expect(resizeTask(plan, "a", new Date(2024, 0, 1)).error).toBe(
+        'Task "a" must end after it starts'
+      );
+    });
+
+    it("refuses to resize milestones", () => {
+      const data = chart([
+        {
+          id: "m",
+          name: "M",
+          start: "2024-01-01",
+          duration: { value: 0, unit: "d" },
+          status: ["milestone"],
+        },
+      ]);
+      expect(resizeTask(data, "m", new Date(2024, 0, 3)).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import {
+  GanttData,
+  GanttTask,
+  DateFormat,
+  DurationUnit,
+  RescheduleResult,
+} from "../types";
+import {
+  formatDuration,
+  parseDuration,
+  validateGanttData,
+} from "./ganttConverter";
+import {
+  resolveSchedule,
+  getTaskDependencies,
+  computeTaskEnd,
+} from "./schedule";
+import { formatDate } from "./dates";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Nominal length of each duration unit, used to estimate a duration from
+ * a span of time.
+ */
+const UNIT_MS: Record<DurationUnit, number> = {
+  m: MINUTE_MS,
+  h: 60 * MINUTE_MS,
+  d: DAY_MS,
+  w: 7 * DAY_MS,
+};
+
+/**
+ * Snapping step for datetime formats, in minutes.
+ */
+const TIME_SNAP_MINUTES = 15;
+
+/**
+ * Rounds a date to the precision a chart can store: the nearest day for
+ * date-only formats, the nearest 15 minutes for formats with a time.
+ * @param date - The date to round
+ * @param dateFormat - The chart's date format
+ * @returns The rounded date, in local time
+ */
+export function snapDate(date: Date, dateFormat: DateFormat): Date {
+  const minutes =
+    date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+  const step = dateFormat.includes("HH") ? TIME_SNAP_MINUTES : 24 * 60;
+  return new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    0,
+    Math.round(minutes / step) * step
+  );
+}
+
+/**
+ * Returns a copy of the chart with one task replaced.
+ */
+function replaceTask(data: GanttData, updated: GanttTask): GanttData {
+  return {
+    ...data,
+    sections: data.sections.map((section) => ({
+      ...section,
+      tasks: section.tasks.map((task) =>
+        task.id === updated.id ? updated : task
+      ),
+    })),
+  };
+}
+
+/**
+ * Finds a task by ID.
+ */
+function findTask(data: GanttData, taskId: string): GanttTask | undefined {
+  for (const section of data.sections ?? []) {
+    const task = section.tasks.find((candidate) => candidate.id === taskId);
+    if (task) {
+      return task;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validates a rescheduled chart with the same rules as validateGanttData.
+ */
+function finish(data: GanttData): RescheduleResult {
+  const error = validateGanttData(data);
+  return error ? { success: false, error } : { success: true, data };
+}
+
+/**
+ * Moves a task to a new start.
+ *
+ * Tasks that start `after` the moved task follow it, since their start is
+ * derived from its end. A task that itself starts `after` others starts
+ * when they end, so moving it is refused rather than dropping the
+ * dependency; move its predecessors instead. A task with an end date keeps
+ * its length.
+ *
+ * @param data - The Gantt data
+ * @param taskId - ID of the task to move
+ * @param start - The new start
+ * @returns RescheduleResult with the updated data, or why the move was
+ *   refused. The data is returned as-is when nothing changes.
+ */
+export function moveTask(
+  data: GanttData,
+  taskId: string,
+  start: Date
+): RescheduleResult {
+  const schedule = resolveSchedule(data);
+  if (!schedule.success) {
+    return { success: false, error: schedule.error };
+  }
+  const task = findTask(data, taskId);
+  if (!task) {
+    return { success: false, error: `Task "${taskId}" does not exist` };
+  }
+
+  const byId = new Map(
+    schedule.tasks!.map((resolved) => [resolved.id, resolved])
+  );
+  const current = byId.get(taskId)!;
+  const dateFormat = data.config?.dateFormat ?? "YYYY-MM-DD";
+  const dependencies = getTaskDependencies(task);
+
+  if (dependencies.length > 0) {
+    const latest = dependencies
+      .map((id) => byId.get(id)!)
+      .reduce((a, b) => (b.end > a.end ? b : a));
+    if (start.getTime() === latest.end.getTime()) {
+      return { success: true, data };
+    }
+    return {
+      success: false,
+      error:
+        start < latest.end
+          ? `Task "${taskId}" cannot start before "${latest.id}" ends`
+          : `Task "${taskId}" starts when "${latest.id}" ends; remove the dependency to move it`,
+    };
+  }
+  if (formatDate(start, dateFormat) === task.start) {
+    return { success: true, data };
+  }
+
+  const updated: GanttTask = { ...task, start: formatDate(start, dateFormat) };
+
+  if (typeof task.duration === "string" && !parseDuration(task.duration)) {
+    const span = current.end.getTime() - current.start.getTime();
+    updated.duration = formatDate(
+      new Date(start.getTime() + span),
+      dateFormat
+    );
+  }
+
+  return finish(replaceTask(data, updated));
+}
+
+/**
+ * Changes when a task ends by adjusting its duration.
+ *
+ * The duration keeps its unit and string or object form and is rounded to
+ * the whole number of units whose end, after skipping excluded days, is
+ * closest to the requested end. Tasks with an end date get the new date.
+ * Milestones cannot be resized.
+ *
+ * @param data - The Gantt data
+ * @param taskId - ID of the task to resize
+ * @param end - The new end
+ * @returns RescheduleResult with the updated data, or why the resize was
+ *   refused. The data is returned as-is when nothing changes.
+ */
+export function resizeTask(
+  data: GanttData,
+  taskId: string,
+  end: Date
+): RescheduleResult {
+  const schedule = resolveSchedule(data);
+  if (!schedule.success) {
+    return { success: false, error: schedule.error };
+  }
+  const task = findTask(data, taskId);
+  if (!task) {
+    return { success: false, error: `Task "${taskId}" does not exist` };
+  }
+
+  const current = schedule.tasks!.find((resolved) => resolved.id === taskId)!;
+  if (current.isMilestone) {
+    return { success: false, error: `Milestone "${taskId}" cannot be resized` };
+  }
+  if (end <= current.start) {
+    return {
+      success: false,
+      error: `Task "${taskId}" must end after it starts`,
+    };
+  }
+
+  const config = data.config ?? {};
+  const duration =
+    typeof task.duration === "object"
+      ? task.duration
+      : parseDuration(task.duration);
+
+  if (!duration) {
+    const endDate = formatDate(end, config.dateFormat ?? "YYYY-MM-DD");
+    return endDate === task.duration
+      ? { success: true, data }
+      : finish(replaceTask(data, { ...task, duration: endDate }));
+  }
+
+  // Exclusions only ever lengthen a task, so shrink from the nominal estimate
+  const distance = (value: number): number =>
+    Math.abs(
+      computeTaskEnd(current.start, { value, unit: duration.unit }, config)
+        .getTime() - end.getTime()
+    );
+  const span = end.getTime() - current.start.getTime();
+  let value = Math.max(1, Math.round(span / UNIT_MS[duration.unit]));
+  while (value > 1 && distance(value - 1) <= distance(value)) {
+    value -= 1;
+  }
+
+  if (value === duration.value) {
+    return { success: true, data };
+  }
+  const resized = { value, unit: duration.unit };
+  return finish(
+    replaceTask(data, {
+      ...task,
+      duration:
+        typeof task.duration === "string" ? formatDuration(resized) : resized,
+    })
+  );
+}
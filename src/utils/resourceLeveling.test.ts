@@ -0,0 +1,154 @@
+import { levelResources } from "./resourceLeveling";
+import { analyzeWorkload } from "./workload";
+import { GanttData, GanttTask } from "../types";
+
+/**
+ * Builds a task of whole days assigned to Ada.
+ */
+function adaTask(
+  id: string,
+  start: string,
+  days: number,
+  extra: Partial<GanttTask> = {}
+): GanttTask {
+  return {
+    id,
+    name: id,
+    start,
+    duration: { value: days, unit: "d" },
+    assignees: [{ resourceId: "ada" }],
+    ...extra,
+  };
+}
+
+/**
+ * Wraps tasks in a chart with Ada as its only resource.
+ */
+function chart(
+  tasks: GanttTask[],
+  config: GanttData["config"] = {}
+): GanttData {
+  return {
+    config,
+    resources: [{ id: "ada", name: "Ada" }],
+    sections: [{ name: "Work", tasks }],
+  };
+}
+
+describe("resourceLeveling", () => {
+  describe("levelResources", () => {
+    it("moves a task with a start date after the task it clashes with", () => {
+      const data = chart([
+        adaTask("spec", "2024-01-01", 3, { status: ["crit"] }),
+        adaTask("docs", "2024-01-02", 2),
+        { ...adaTask("publish", "", 1), after: "docs", assignees: undefined },
+      ]);
+
+      const result = levelResources(data);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.sections[0].tasks[1].start).toBe("2024-01-04");
+      expect(result.unresolved).toEqual([]);
+      expect(result.changes).toEqual([
+        {
+          taskId: "docs",
+          previousStart: new Date(2024, 0, 2),
+          previousEnd: new Date(2024, 0, 4),
+          start: new Date(2024, 0, 4),
+          end: new Date(2024, 0, 6),
+          reasons: [
+            'Ada is booked at 200% on 2024-01-02; moved to 2024-01-04, after "spec" ends',
+          ],
+        },
+        {
+          taskId: "publish",
+          previousStart: new Date(2024, 0, 4),
+          previousEnd: new Date(2024, 0, 5),
+          start: new Date(2024, 0, 6),
+          end: new Date(2024, 0, 7),
+          reasons: ['Follows "docs", which moved'],
+        },
+      ]);
+      expect(
+        analyzeWorkload(result.data!).resources![0].isOverallocated
+      ).toBe(false);
+    });
+
+    it("delays the task with the most float and keeps its dependencies", () => {
+      const data = chart([
+        adaTask("design", "2024-01-01", 1),
+        { ...adaTask("build", "", 4), after: "design" },
+        { ...adaTask("notes", "", 1), after: "design" },
+        {
+          ...adaTask("ship", "", 1),
+          after: ["build", "notes"],
+          assignees: undefined,
+        },
+      ]);
+
+      const result = levelResources(data);
+      const tasks = result.data!.sections[0].tasks;
+
+      expect(tasks[1].after).toBe("design");
+      expect(tasks[2]).toMatchObject({ start: "", after: ["design", "build"] });
+      expect(result.changes!.map((change) => change.taskId)).toEqual([
+        "notes",
+        "ship",
+      ]);
+      expect(result.changes![0].reasons).toEqual([
+        'Ada is booked at 200% on 2024-01-02; now starts after "build"',
+      ]);
+    });
+
+    it("starts moved tasks on a working day", () => {
+      const data = chart(
+        [
+          adaTask("a", "2024-01-03", 3, { status: ["crit"] }),
+          adaTask("b", "2024-01-04", 1),
+        ],
+        { excludes: ["saturday", "sunday"] }
+      );
+
+      const result = levelResources(data);
+
+      // "a" runs Wednesday to Friday and ends on Saturday
+      expect(result.data!.sections[0].tasks[1].start).toBe("2024-01-08");
+    });
+
+    it("leaves started tasks and single over-booked tasks in place", () => {
+      const data = chart([
+        adaTask("a", "2024-01-01", 2, { status: ["active"] }),
+        adaTask("b", "2024-01-01", 1, { progress: 20 }),
+        adaTask("c", "2024-01-10", 1, {
+          assignees: [{ resourceId: "ada", allocation: 150 }],
+        }),
+      ]);
+
+      const result = levelResources(data);
+
+      expect(result.data).toEqual(data);
+      expect(result.changes).toEqual([]);
+      expect(result.unresolved).toEqual([
+        {
+          resourceId: "ada",
+          date: new Date(2024, 0, 1),
+          load: 200,
+          taskIds: ["a", "b"],
+        },
+        {
+          resourceId: "ada",
+          date: new Date(2024, 0, 10),
+          load: 150,
+          taskIds: ["c"],
+        },
+      ]);
+    });
+
+    it("returns the schedule error for invalid data", () => {
+      expect(levelResources({ sections: [] })).toEqual({
+        success: false,
+        error: "Gantt data must have at least one section",
+      });
+    });
+  });
+});
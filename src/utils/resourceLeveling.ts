@@ -0,0 +1,320 @@
+import {
+  GanttData,
+  GanttTask,
+  LevelingChange,
+  LevelingResult,
+  ResolvedTask,
+  TaskFloat,
+  WorkloadConflict,
+  WorkloadResult,
+} from "../types";
+import { computeCriticalPath } from "./criticalPath";
+import { formatDate, getDatePart, parseDate } from "./dates";
+import { findDependencyCycle, parseDuration } from "./ganttConverter";
+import {
+  getTaskDependencies,
+  isExcludedDate,
+  resolveSchedule,
+} from "./schedule";
+import { analyzeWorkload } from "./workload";
+
+/**
+ * Most delays made per task in the chart before giving up. Every delay
+ * moves a task later, so this is only reached when delayed tasks keep
+ * running into each other again.
+ */
+const MAX_DELAYS_PER_TASK = 20;
+
+/**
+ * A task running on an over-allocated day, with its schedule figures.
+ */
+interface ConflictTask {
+  task: GanttTask;
+  resolved: ResolvedTask;
+  float?: TaskFloat;
+  index: number;
+}
+
+/**
+ * Returns a copy of the chart with one task replaced.
+ */
+function replaceTask(data: GanttData, updated: GanttTask): GanttData {
+  return {
+    ...data,
+    sections: data.sections.map((section) => ({
+      ...section,
+      tasks: section.tasks.map((task) =>
+        task.id === updated.id ? updated : task
+      ),
+    })),
+  };
+}
+
+/**
+ * Lists every day a resource is booked above 100%, earliest first.
+ */
+function findConflicts(workload: WorkloadResult): WorkloadConflict[] {
+  const conflicts = (workload.resources ?? []).flatMap((resource) =>
+    resource.days
+      .filter((day) => day.isOverallocated)
+      .map((day) => ({
+        resourceId: resource.id,
+        date: day.date,
+        load: day.load,
+        taskIds: day.taskIds,
+      }))
+  );
+  // Stable, so resources on the same day stay in the chart's order
+  return conflicts.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Determines whether levelling may move a task. Tasks that are under way
+ * or done stay where they are, and so do tasks with an end date, whose
+ * length would change if they moved.
+ */
+function isMovable(task: GanttTask): boolean {
+  const isStarted =
+    !!task.status?.includes("done") ||
+    !!task.status?.includes("active") ||
+    (task.progress ?? 0) > 0;
+  const hasEndDate =
+    typeof task.duration === "string" && !parseDuration(task.duration);
+  return !isStarted && !hasEndDate;
+}
+
+/**
+ * Orders the tasks of a conflict by how readily they are delayed: tasks
+ * not marked `crit` before those that are, then tasks off the critical
+ * path, then those with the most float, then the latest starting and
+ * finally the last in the chart.
+ */
+function compareDelayPriority(a: ConflictTask, b: ConflictTask): number {
+  const crit = (item: ConflictTask) =>
+    item.task.status?.includes("crit") ? 1 : 0;
+  const critical = (item: ConflictTask) => (item.float?.isCritical ? 1 : 0);
+  const float = (item: ConflictTask) => item.float?.totalFloat ?? 0;
+  return (
+    crit(a) - crit(b) ||
+    critical(a) - critical(b) ||
+    float(b) - float(a) ||
+    b.resolved.start.getTime() - a.resolved.start.getTime() ||
+    b.index - a.index
+  );
+}
+
+/**
+ * Delays a task until another one ends.
+ *
+ * A task with a start date gets a later one, moved on past excluded days
+ * so that it starts on a working day. When that time cannot be written in
+ * the chart's date format, and for tasks that already start after others,
+ * the task waits for the other one with an `after` link instead.
+ *
+ * @returns The updated chart and a description of the change
+ */
+function delayTask(
+  data: GanttData,
+  task: GanttTask,
+  blocker: ResolvedTask
+): { data: GanttData; description: string } {
+  const config = data.config ?? {};
+  const dateFormat = config.dateFormat ?? "YYYY-MM-DD";
+  const dependencies = getTaskDependencies(task);
+
+  if (dependencies.length === 0) {
+    const start = new Date(blocker.end.getTime());
+    while (isExcludedDate(start, config)) {
+      start.setDate(start.getDate() + 1);
+    }
+    const text = formatDate(start, dateFormat);
+    if (parseDate(text, dateFormat)?.getTime() === start.getTime()) {
+      return {
+        data: replaceTask(data, { ...task, start: text }),
+        description: `moved to ${text}, after "${blocker.id}" ends`,
+      };
+    }
+  }
+
+  const { after, ...rest } = task;
+  const afterIds = [...dependencies, blocker.id];
+  return {
+    data: replaceTask(data, {
+      ...rest,
+      start: "",
+      after: afterIds.length === 1 ? afterIds[0] : afterIds,
+    }),
+    description: `now starts after "${blocker.id}"`,
+  };
+}
+
+/**
+ * Delays one task of a conflict until another task of the conflict ends.
+ * Tries the most readily delayed task first, waiting for whichever task
+ * ends soonest, and skips delays that would create a circular dependency.
+ * @returns The updated chart, the delayed task and why it moved, or null
+ *   if no task of the conflict can be delayed
+ */
+function resolveConflict(
+  data: GanttData,
+  conflict: WorkloadConflict
+): { data: GanttData; taskId: string; reason: string } | null {
+  const schedule = resolveSchedule(data);
+  const critical = computeCriticalPath(data);
+  const resolvedById = new Map(
+    (schedule.tasks ?? []).map((resolved) => [resolved.id, resolved])
+  );
+  const floatById = new Map(
+    (critical.tasks ?? []).map((float) => [float.id, float])
+  );
+  const tasks = data.sections.flatMap((section) => section.tasks);
+
+  const items: ConflictTask[] = conflict.taskIds.map((id) => ({
+    task: tasks.find((task) => task.id === id)!,
+    resolved: resolvedById.get(id)!,
+    float: floatById.get(id),
+    index: tasks.findIndex((task) => task.id === id),
+  }));
+
+  const resource = data.resources?.find(
+    (item) => item.id === conflict.resourceId
+  );
+  const day = formatDate(
+    conflict.date,
+    getDatePart(data.config?.dateFormat ?? "YYYY-MM-DD")
+  );
+
+  const candidates = items
+    .filter((item) => isMovable(item.task))
+    .sort(compareDelayPriority);
+  for (const candidate of candidates) {
+    const { start, end } = candidate.resolved;
+    const blockers = items
+      .filter(
+        (item) =>
+          item !== candidate &&
+          item.resolved.start < end &&
+          item.resolved.end > start
+      )
+      .sort((a, b) => a.resolved.end.getTime() - b.resolved.end.getTime());
+
+    for (const blocker of blockers) {
+      const delayed = delayTask(data, candidate.task, blocker.resolved);
+      if (findDependencyCycle(delayed.data)) {
+        continue;
+      }
+      const moved = resolveSchedule(delayed.data).tasks?.find(
+        (task) => task.id === candidate.task.id
+      );
+      if (!moved || moved.start <= start) {
+        continue;
+      }
+      return {
+        data: delayed.data,
+        taskId: candidate.task.id,
+        reason: `${resource?.name ?? conflict.resourceId} is booked at ${
+          conflict.load
+        }% on ${day}; ${delayed.description}`,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Delays tasks until no resource is booked above 100% on any day, as
+ * measured by analyzeWorkload.
+ *
+ * Over-allocations are resolved from the earliest day on. For each one,
+ * the task that matters least waits for another task of the same resource
+ * to end: tasks not marked `crit` and off the critical path go first,
+ * then those with the most float. Tasks with a start date get a later
+ * one, on a working day; tasks that start after others get an extra
+ * `after` link. Existing dependencies are kept, so tasks that follow a
+ * delayed task move with it, and end dates still skip excluded days.
+ *
+ * Tasks that are done, active or have progress, and tasks with an end
+ * date, are never moved. Over-allocations made up only of such tasks, or
+ * of a single task booked above 100%, are left in place and reported in
+ * `unresolved`.
+ *
+ * @param data - The Gantt data, with resources and task assignments
+ * @returns LevelingResult with the levelled chart and every task that
+ *   moved, or why the chart could not be scheduled
+ */
+export function levelResources(data: GanttData): LevelingResult {
+  const original = resolveSchedule(data);
+  if (!original.success) {
+    return { success: false, error: original.error };
+  }
+
+  const taskCount = original.tasks!.length;
+  const reasons = new Map<string, string[]>();
+  // Conflicts no task could be delayed for, by resource and day
+  const stuck = new Set<string>();
+  let current = data;
+
+  for (let delays = 0; delays < MAX_DELAYS_PER_TASK * taskCount; delays++) {
+    const conflict = findConflicts(analyzeWorkload(current)).find(
+      (item) => !stuck.has(`${item.resourceId} ${item.date.getTime()}`)
+    );
+    if (!conflict) {
+      break;
+    }
+    const resolved = resolveConflict(current, conflict);
+    if (!resolved) {
+      stuck.add(`${conflict.resourceId} ${conflict.date.getTime()}`);
+      continue;
+    }
+    current = resolved.data;
+    reasons.set(resolved.taskId, [
+      ...(reasons.get(resolved.taskId) ?? []),
+      resolved.reason,
+    ]);
+  }
+
+  const previousById = new Map(
+    original.tasks!.map((resolved) => [resolved.id, resolved])
+  );
+  const levelled = resolveSchedule(current).tasks!;
+  const movedIds = new Set(
+    levelled
+      .filter((task) => {
+        const previous = previousById.get(task.id)!;
+        return (
+          task.start.getTime() !== previous.start.getTime() ||
+          task.end.getTime() !== previous.end.getTime()
+        );
+      })
+      .map((task) => task.id)
+  );
+  const tasks = current.sections.flatMap((section) => section.tasks);
+
+  const changes: LevelingChange[] = levelled
+    .filter((task) => movedIds.has(task.id))
+    .map((task) => {
+      const previous = previousById.get(task.id)!;
+      const dependency = getTaskDependencies(
+        tasks.find((item) => item.id === task.id)!
+      ).find((id) => movedIds.has(id));
+      return {
+        taskId: task.id,
+        previousStart: previous.start,
+        previousEnd: previous.end,
+        start: task.start,
+        end: task.end,
+        reasons: reasons.get(task.id) ?? [
+          dependency
+            ? `Follows "${dependency}", which moved`
+            : "A task it depends on moved",
+        ],
+      };
+    });
+
+  return {
+    success: true,
+    data: current,
+    changes,
+    unresolved: findConflicts(analyzeWorkload(current)),
+  };
+}
@@ -0,0 +1,75 @@
+import {
+  escapeMermaidText,
+  unescapeMermaidText,
+  isValidTaskId,
+} from "./sanitize";
+
+describe("sanitize", () => {
+  describe("escapeMermaidText", () => {
+    it("leaves plain text unchanged", () => {
+      expect(escapeMermaidText("Backend Development (v2)")).toBe(
+        "Backend Development (v2)"
+      );
+    });
+
+    it("encodes separators and comment characters", () => {
+      expect(escapeMermaidText("API: v2")).toBe("API#58; v2");
+      expect(escapeMermaidText("Fix #12; then ship")).toBe(
+        "Fix #35;12#59; then ship"
+      );
+      expect(escapeMermaidText("%% not a comment")).toBe(
+        "#37;#37; not a comment"
+      );
+    });
+
+    it("replaces line breaks with spaces", () => {
+      expect(escapeMermaidText("Line one\nsection Injected\r\nmore")).toBe(
+        "Line one section Injected more"
+      );
+    });
+
+    it("encodes the first character of leading keywords", () => {
+      expect(escapeMermaidText("Section review")).toBe("#83;ection review");
+      expect(escapeMermaidText("click here")).toBe("#99;lick here");
+      expect(escapeMermaidText("EXCLUDES weekends")).toBe(
+        "#69;XCLUDES weekends"
+      );
+      expect(escapeMermaidText("Review section")).toBe("Review section");
+    });
+  });
+
+  describe("unescapeMermaidText", () => {
+    it("decodes numeric entity codes", () => {
+      expect(unescapeMermaidText("API#58; v2")).toBe("API: v2");
+    });
+
+    it("round trips adversarial text", () => {
+      const inputs = [
+        "API: v2",
+        "a : b : c",
+        "#35; literal entity",
+        "semi;colon#hash%percent",
+        "title: injected",
+        "x, y, z",
+      ];
+      for (const input of inputs) {
+        expect(unescapeMermaidText(escapeMermaidText(input))).toBe(input);
+      }
+    });
+  });
+
+  describe("isValidTaskId", () => {
+    it("accepts letters, digits, underscores and hyphens", () => {
+      expect(isValidTaskId("task_1-a")).toBe(true);
+    });
+
+    it("rejects separators, whitespace and empty IDs", () => {
+      expect(isValidTaskId("")).toBe(false);
+      expect(isValidTaskId("a b")).toBe(false);
+      expect(isValidTaskId("a,b")).toBe(false);
+      expect(isValidTaskId("a:b")).toBe(false);
+      expect(isValidTaskId("a;b")).toBe(false);
+      expect(isValidTaskId("a\nsection x")).toBe(false);
+    });
+  });
+});
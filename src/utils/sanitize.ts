@@ -0,0 +1,67 @@
+/**
+ * Characters that end or alter a Mermaid gantt statement:
+ * - ":" separates a task name from its data
+ * - "#" and ";" delimit entity codes and end task data
+ * - "%" starts a comment ("%%")
+ */
+const UNSAFE_CHARACTERS = /[:#;%]/g;
+
+/**
+ * Keywords Mermaid recognises at the start of a line, case-insensitively.
+ * A task named e.g. "Section review" would otherwise start a new section.
+ */
+const LEADING_KEYWORD =
+  /^(gantt|title|section|dateFormat|axisFormat|tickInterval|excludes|includes|todayMarker|weekday|topAxis|inclusiveEndDates|click|accTitle|accDescr)/i;
+
+/**
+ * Pattern for task IDs Mermaid can reference in `after` and `click`.
+ */
+const TASK_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Encodes a character as a Mermaid entity code, e.g. ":" as "#58;".
+ * Mermaid decodes these after parsing, so they display as the original
+ * character.
+ */
+function encodeCharacter(character: string): string {
+  return `#${character.charCodeAt(0)};`;
+}
+
+/**
+ * Escapes free text (task names, section names, titles) so it cannot
+ * break out of its Mermaid statement. Line breaks become spaces and
+ * characters with syntactic meaning become entity codes.
+ * @param text - The text to escape
+ * @returns Text that is safe to place in a single Mermaid statement
+ */
+export function escapeMermaidText(text: string): string {
+  const escaped = text
+    .replace(/[\r\n]+/g, " ")
+    .replace(UNSAFE_CHARACTERS, encodeCharacter);
+
+  if (LEADING_KEYWORD.test(escaped)) {
+    return encodeCharacter(escaped) + escaped.slice(1);
+  }
+  return escaped;
+}
+
+/**
+ * Reverses escapeMermaidText by decoding numeric entity codes.
+ * @param text - Text as written in Mermaid syntax
+ * @returns The original text
+ */
+export function unescapeMermaidText(text: string): string {
+  return text.replace(/#(\d+);/g, (_, code: string) =>
+    String.fromCharCode(parseInt(code, 10))
+  );
+}
+
+/**
+ * Determines if a task ID can be used in Mermaid syntax.
+ * IDs are referenced by `after` and `click` and become DOM IDs, so they
+ * cannot be escaped and are limited to letters, digits, "_" and "-".
+ * @param id - The task ID to check
+ */
+export function isValidTaskId(id: string): boolean {
+  return TASK_ID_PATTERN.test(id);
+}
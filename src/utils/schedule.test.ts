@@ -0,0 +1,448 @@
+import {
+  resolveSchedule,
+  getTaskDependencies,
+  addDuration,
+  isExcludedDate,
+  countWorkingDays,
+  computeTaskEnd,
+} from "./schedule";
+import { GanttData, GanttTask, ResolvedTask } from "../types";
+
+/**
+ * Builds single-section Gantt data from a list of tasks.
+ */
+function chart(tasks: GanttTask[], config: GanttData["config"] = {}): GanttData {
+  return { config, sections: [{ name: "Main", tasks }] };
+}
+
+/**
+ * Resolves a schedule and returns tasks keyed by ID.
+ */
+function resolveById(data: GanttData): Record<string, ResolvedTask> {
+  const result = resolveSchedule(data);
+  expect(result.error).toBeUndefined();
+  return Object.fromEntries(result.tasks!.map((task) => [task.id, task]));
+}
+
+describe("schedule", () => {
+  describe("getTaskDependencies", () => {
+    it("reads the after property", () => {
+      expect(
+        getTaskDependencies({
+          id: "b",
+          name: "B",
+          start: "",
+          duration: "1d",
+          after: "a",
+        })
+      ).toEqual(["a"]);
+    });
+
+    it("reads multiple after references", () => {
+      expect(
+        getTaskDependencies({
+          id: "c",
+          name: "C",
+          start: "",
+          duration: "1d",
+          after: ["a", "b"],
+        })
+      ).toEqual(["a", "b"]);
+    });
+
+    it("reads an after reference in start", () => {
+      expect(
+        getTaskDependencies({
+          id: "b",
+          name: "B",
+          start: "after a",
+          duration: "1d",
+        })
+      ).toEqual(["a"]);
+    });
+
+    it("returns no dependencies for fixed start dates", () => {
+      expect(
+        getTaskDependencies({
+          id: "a",
+          name: "A",
+          start: "2024-01-01",
+          duration: "1d",
+        })
+      ).toEqual([]);
+    });
+  });
+
+  describe("addDuration", () => {
+    const start = new Date(2024, 0, 1, 9, 0);
+
+    it("adds days and weeks as calendar days", () => {
+      expect(addDuration(start, { value: 3, unit: "d" })).toEqual(
+        new Date(2024, 0, 4, 9, 0)
+      );
+      expect(addDuration(start, { value: 2, unit: "w" })).toEqual(
+        new Date(2024, 0, 15, 9, 0)
+      );
+    });
+
+    it("adds hours and minutes", () => {
+      expect(addDuration(start, { value: 5, unit: "h" })).toEqual(
+        new Date(2024, 0, 1, 14, 0)
+      );
+      expect(addDuration(start, { value: 90, unit: "m" })).toEqual(
+        new Date(2024, 0, 1, 10, 30)
+      );
+    });
+  });
+
+  describe("isExcludedDate", () => {
+    it("matches excluded week days and dates", () => {
+      const config = {
+        excludes: ["saturday" as const],
+        excludeDates: ["2024-01-03"],
+      };
+      expect(isExcludedDate(new Date(2024, 0, 6), config)).toBe(true);
+      expect(isExcludedDate(new Date(2024, 0, 3), config)).toBe(true);
+      expect(isExcludedDate(new Date(2024, 0, 4), config)).toBe(false);
+    });
+  });
+
+  describe("countWorkingDays", () => {
+    const config = { excludes: ["saturday" as const, "sunday" as const] };
+
+    it("counts days that are not excluded, with part days as fractions", () => {
+      // Friday to the following Tuesday
+      expect(
+        countWorkingDays(new Date(2024, 0, 5), new Date(2024, 0, 9), config)
+      ).toBe(2);
+      expect(
+        countWorkingDays(
+          new Date(2024, 0, 5, 12),
+          new Date(2024, 0, 8, 6),
+          config
+        )
+      ).toBe(0.75);
+    });
+
+    it("is negative when the end is before the start", () => {
+      expect(
+        countWorkingDays(new Date(2024, 0, 9), new Date(2024, 0, 5), config)
+      ).toBe(-2);
+    });
+  });
+
+  describe("computeTaskEnd", () => {
+    it("skips excluded days", () => {
+      // 2024-01-05 is a Friday
+      expect(
+        computeTaskEnd(
+          new Date(2024, 0, 5),
+          { value: 2, unit: "d" },
+          { excludes: ["saturday", "sunday"] }
+        )
+      ).toEqual(new Date(2024, 0, 9));
+    });
+  });
+
+  describe("resolveSchedule", () => {
+    it("resolves fixed start dates and durations", () => {
+      const tasks = resolveById(
+        chart([
+          {
+            id: "a",
+            name: "A",
+            start: "2024-01-01",
+            duration: { value: 5, unit: "d" },
+          },
+        ])
+      );
+
+      expect(tasks.a.start).toEqual(new Date(2024, 0, 1));
+      expect(tasks.a.end).toEqual(new Date(2024, 0, 6));
+      expect(tasks.a.sectionName).toBe("Main");
+      expect(tasks.a.sectionIndex).toBe(0);
+    });
+
+    it("follows after chains across sections", () => {
+      const tasks = resolveById({
+        sections: [
+          {
+            name: "One",
+            tasks: [
+              {
+                id: "a",
+                name: "A",
+                start: "2024-01-01",
+                duration: { value: 2, unit: "d" },
+              },
+            ],
+          },
+          {
+            name: "Two",
+            tasks: [
+              {
+                id: "c",
+                name: "C",
+                start: "",
+                duration: { value: 1, unit: "w" },
+                after: "b",
+              },
+              {
+                id: "b",
+                name: "B",
+                start: "",
+                duration: "3d",
+                after: "a",
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(tasks.b.start).toEqual(new Date(2024, 0, 3));
+      expect(tasks.b.end).toEqual(new Date(2024, 0, 6));
+      expect(tasks.c.start).toEqual(new Date(2024, 0, 6));
+      expect(tasks.c.end).toEqual(new Date(2024, 0, 13));
+      expect(tasks.c.sectionIndex).toBe(1);
+    });
+
+    it("starts after the latest of multiple dependencies", () => {
+      const tasks = resolveById(
+        chart([
+          { id: "a", name: "A", start: "2024-01-01", duration: "3d" },
+          { id: "b", name: "B", start: "2024-01-01", duration: "5d" },
+          {
+            id: "c",
+            name: "C",
+            start: "",
+            duration: "1d",
+            after: ["a", "b"],
+          },
+        ])
+      );
+      expect(tasks.c.start).toEqual(new Date(2024, 0, 6));
+    });
+
+    it("returns tasks in chart order", () => {
+      const result = resolveSchedule(
+        chart([
+          { id: "b", name: "B", start: "", duration: "1d", after: "a" },
+          { id: "a", name: "A", start: "2024-01-01", duration: "1d" },
+        ])
+      );
+      expect(result.tasks!.map((task) => task.id)).toEqual(["b", "a"]);
+    });
+
+    it("uses explicit end dates without skipping exclusions", () => {
+      const tasks = resolveById(
+        chart(
+          [
+            {
+              id: "a",
+              name: "A",
+              start: "2024-01-01",
+              duration: "2024-01-10",
+            },
+          ],
+          { excludes: ["saturday", "sunday"] }
+        )
+      );
+      expect(tasks.a.end).toEqual(new Date(2024, 0, 10));
+    });
+
+    it("skips excluded week days like Mermaid", () => {
+      // 2024-01-04 is a Thursday
+      const tasks = resolveById(
+        chart(
+          [
+            {
+              id: "a",
+              name: "A",
+              start: "2024-01-04",
+              duration: { value: 3, unit: "d" },
+            },
+          ],
+          { excludes: ["saturday", "sunday"] }
+        )
+      );
+      expect(tasks.a.end).toEqual(new Date(2024, 0, 9));
+    });
+
+    it("skips excluded dates", () => {
+      const tasks = resolveById(
+        chart(
+          [
+            {
+              id: "a",
+              name: "A",
+              start: "2024-12-23",
+              duration: { value: 3, unit: "d" },
+            },
+          ],
+          { excludeDates: ["2024-12-25"] }
+        )
+      );
+      expect(tasks.a.end).toEqual(new Date(2024, 11, 27));
+    });
+
+    it("does not skip dates listed in includes", () => {
+      // 2024-01-06 is a Saturday
+      const tasks = resolveById(
+        chart(
+          [
+            {
+              id: "a",
+              name: "A",
+              start: "2024-01-04",
+              duration: { value: 3, unit: "d" },
+            },
+          ],
+          { excludes: ["saturday", "sunday"], includes: ["2024-01-06"] }
+        )
+      );
+      expect(tasks.a.end).toEqual(new Date(2024, 0, 8));
+    });
+
+    it("schedules hour and minute durations", () => {
+      const tasks = resolveById(
+        chart([
+          {
+            id: "a",
+            name: "A",
+            start: "2024-01-01",
+            duration: { value: 4, unit: "h" },
+          },
+          {
+            id: "b",
+            name: "B",
+            start: "",
+            duration: { value: 30, unit: "m" },
+            after: "a",
+          },
+        ])
+      );
+      expect(tasks.b.start).toEqual(new Date(2024, 0, 1, 4, 0));
+      expect(tasks.b.end).toEqual(new Date(2024, 0, 1, 4, 30));
+    });
+
+    it("honours the configured date format", () => {
+      const tasks = resolveById(
+        chart(
+          [
+            {
+              id: "a",
+              name: "A",
+              start: "15-01-2024",
+              duration: "5d",
+            },
+          ],
+          { dateFormat: "DD-MM-YYYY" }
+        )
+      );
+      expect(tasks.a.start).toEqual(new Date(2024, 0, 15));
+      expect(tasks.a.end).toEqual(new Date(2024, 0, 20));
+    });
+
+    it("marks milestones", () => {
+      const tasks = resolveById(
+        chart([
+          { id: "a", name: "A", start: "2024-01-01", duration: "2d" },
+          {
+            id: "m",
+            name: "M",
+            start: "",
+            duration: { value: 0, unit: "d" },
+            after: "a",
+            status: ["milestone"],
+          },
+        ])
+      );
+      expect(tasks.m.isMilestone).toBe(true);
+      expect(tasks.m.start).toEqual(tasks.m.end);
+    });
+
+    it("returns validation errors", () => {
+      const result = resolveSchedule({ sections: [] });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("at least one section");
+    });
+
+    it("reports invalid start dates", () => {
+      const result = resolveSchedule(
+        chart([{ id: "a", name: "A", start: "soon", duration: "1d" }])
+      );
+      expect(result.error).toContain("invalid start date");
+    });
+
+    it("reports invalid end dates", () => {
+      const result = resolveSchedule(
+        chart([
+          { id: "a", name: "A", start: "2024-01-01", duration: "2024-02-30" },
+        ])
+      );
+      expect(result.error).toContain("invalid end date");
+    });
+
+    it("schedules hour and minute durations with a datetime format", () => {
+      const tasks = resolveById(
+        chart(
+          [
+            {
+              id: "a",
+              name: "A",
+              start: "2024-01-15 09:00",
+              duration: { value: 3, unit: "h" },
+            },
+            {
+              id: "b",
+              name: "B",
+              start: "",
+              duration: { value: 45, unit: "m" },
+              after: "a",
+            },
+            {
+              id: "c",
+              name: "C",
+              start: "",
+              duration: "2024-01-15 17:00",
+              after: "b",
+            },
+          ],
+          { dateFormat: "YYYY-MM-DD HH:mm" }
+        )
+      );
+      expect(tasks.a.end).toEqual(new Date(2024, 0, 15, 12, 0));
+      expect(tasks.b.end).toEqual(new Date(2024, 0, 15, 12, 45));
+      expect(tasks.c.start).toEqual(new Date(2024, 0, 15, 12, 45));
+      expect(tasks.c.end).toEqual(new Date(2024, 0, 15, 17, 0));
+    });
+
+    it("reports circular dependencies", () => {
+      const result = resolveSchedule(
+        chart([
+          { id: "a", name: "A", start: "", duration: "1d", after: "b" },
+          { id: "b", name: "B", start: "", duration: "1d", after: "a" },
+        ])
+      );
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Circular dependency detected");
+    });
+
+    it("reports circular dependencies referenced from start", () => {
+      const result = resolveSchedule(
+        chart([
+          { id: "a", name: "A", start: "after b", duration: "1d" },
+          { id: "b", name: "B", start: "after a", duration: "1d" },
+        ])
+      );
+      expect(result.error).toContain("circular dependency");
+    });
+
+    it("reports missing dependencies referenced from start", () => {
+      const result = resolveSchedule(
+        chart([{ id: "a", name: "A", start: "after ghost", duration: "1d" }])
+      );
+      expect(result.error).toContain("non-existent task");
+    });
+  });
+});
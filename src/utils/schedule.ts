@@ -0,0 +1,266 @@
+import {
+  GanttData,
+  GanttTask,
+  GanttConfig,
+  Duration,
+  ResolvedTask,
+  ScheduleResult,
+  WeekDay,
+} from "../types";
+import {
+  getAfterIds,
+  parseDuration,
+  validateGanttData,
+} from "./ganttConverter";
+import { parseDate, formatDate } from "./dates";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Week day names indexed by Date#getDay().
+ */
+const DAY_NAMES: WeekDay[] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+/**
+ * Returns the IDs of the tasks a task starts after.
+ * Reads the `after` property, falling back to an "after <id>" start value.
+ * @param task - The task to inspect
+ * @returns Task IDs, empty if the task has a fixed start
+ */
+export function getTaskDependencies(task: GanttTask): string[] {
+  const afterIds = getAfterIds(task);
+  if (afterIds.length > 0) {
+    return afterIds;
+  }
+  const match = /^after\s+(.+)$/.exec(task.start?.trim() ?? "");
+  return match ? match[1].split(/\s+/) : [];
+}
+
+/**
+ * Adds a duration to a date.
+ * Days and weeks are added as calendar days in local time, hours and
+ * minutes as elapsed time, matching Mermaid's date arithmetic.
+ */
+export function addDuration(date: Date, duration: Duration): Date {
+  const result = new Date(date.getTime());
+  switch (duration.unit) {
+    case "w":
+      result.setDate(result.getDate() + duration.value * 7);
+      return result;
+    case "d":
+      result.setDate(result.getDate() + duration.value);
+      return result;
+    case "h":
+      return new Date(date.getTime() + duration.value * HOUR_MS);
+    case "m":
+      return new Date(date.getTime() + duration.value * MINUTE_MS);
+  }
+}
+
+/**
+ * Determines whether a date falls on an excluded week day or date.
+ * Dates listed in `includes` are never excluded.
+ * @param date - The date to check
+ * @param config - Chart configuration with `excludes`, `excludeDates`
+ *   and `includes`
+ */
+export function isExcludedDate(date: Date, config: GanttConfig): boolean {
+  const isoDate = formatDate(date, "YYYY-MM-DD");
+  if (config.includes?.includes(isoDate)) {
+    return false;
+  }
+  if (config.excludes?.includes(DAY_NAMES[date.getDay()])) {
+    return true;
+  }
+  return !!config.excludeDates?.includes(isoDate);
+}
+
+/**
+ * Counts the working days between two times: the days not excluded by
+ * `excludes`, `excludeDates` and `includes`, with part days counted as
+ * fractions. The count is negative when `to` is before `from`.
+ * @param from - Start of the span
+ * @param to - End of the span
+ * @param config - Chart configuration with the exclusions
+ * @returns Working days, rounded to two decimals
+ */
+export function countWorkingDays(
+  from: Date,
+  to: Date,
+  config: GanttConfig
+): number {
+  if (to < from) {
+    return -countWorkingDays(to, from, config);
+  }
+  let days = 0;
+  const day = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  while (day < to) {
+    const next = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+    if (!isExcludedDate(day, config)) {
+      const covered =
+        Math.min(to.getTime(), next.getTime()) -
+        Math.max(from.getTime(), day.getTime());
+      days += covered / (next.getTime() - day.getTime());
+    }
+    day.setTime(next.getTime());
+  }
+  return Math.round(days * 100) / 100;
+}
+
+/**
+ * Pushes a task's end back by one day for every excluded day it spans.
+ * Mirrors Mermaid's checkTaskDates: the start day itself is not checked,
+ * and every day after it up to the (growing) end date is.
+ */
+function skipExcludedDays(start: Date, end: Date, config: GanttConfig): Date {
+  const fixedEnd = new Date(end.getTime());
+  const cursor = new Date(start.getTime());
+  cursor.setDate(cursor.getDate() + 1);
+
+  while (cursor <= fixedEnd) {
+    if (isExcludedDate(cursor, config)) {
+      fixedEnd.setDate(fixedEnd.getDate() + 1);
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  return fixedEnd;
+}
+
+/**
+ * Computes when a task with a duration ends, pushing the end back past
+ * `excludes` week days and `excludeDates` the way Mermaid does.
+ * @param start - When the task starts
+ * @param duration - How long the task takes
+ * @param config - Chart configuration with the exclusions
+ * @returns The exclusive end time
+ */
+export function computeTaskEnd(
+  start: Date,
+  duration: Duration,
+  config: GanttConfig
+): Date {
+  const end = addDuration(start, duration);
+  const hasExclusions =
+    (config.excludes?.length ?? 0) > 0 || (config.excludeDates?.length ?? 0) > 0;
+  return hasExclusions ? skipExcludedDays(start, end, config) : end;
+}
+
+/**
+ * Resolves concrete start and end times for every task in the chart.
+ *
+ * Tasks with a start date begin on that date; tasks with `after` begin
+ * when the latest of their dependencies ends. End times come from the
+ * task's duration, skipping `excludes` week days and `excludeDates` the
+ * way Mermaid does, or from an explicit end date.
+ *
+ * @param data - The Gantt data to schedule
+ * @returns ScheduleResult with resolved tasks in chart order, or an error
+ */
+export function resolveSchedule(data: GanttData): ScheduleResult {
+  const validationError = validateGanttData(data);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const config = data.config ?? {};
+  const dateFormat = config.dateFormat ?? "YYYY-MM-DD";
+
+  const entries = new Map<
+    string,
+    { task: GanttTask; sectionName: string; sectionIndex: number }
+  >();
+  data.sections.forEach((section, sectionIndex) => {
+    section.tasks.forEach((task) => {
+      entries.set(task.id, { task, sectionName: section.name, sectionIndex });
+    });
+  });
+
+  const resolved = new Map<string, ResolvedTask>();
+  const visiting = new Set<string>();
+
+  const resolve = (id: string): ResolvedTask | string => {
+    const existing = resolved.get(id);
+    if (existing) {
+      return existing;
+    }
+    const entry = entries.get(id);
+    if (!entry) {
+      return `Task depends on non-existent task: "${id}"`;
+    }
+    if (visiting.has(id)) {
+      return `Task "${id}" has a circular dependency`;
+    }
+    visiting.add(id);
+
+    const { task } = entry;
+    let start: Date | null = null;
+    const dependencies = getTaskDependencies(task);
+
+    if (dependencies.length > 0) {
+      for (const dependencyId of dependencies) {
+        const dependency = resolve(dependencyId);
+        if (typeof dependency === "string") {
+          return dependency;
+        }
+        if (!start || dependency.end > start) {
+          start = dependency.end;
+        }
+      }
+    } else {
+      start = parseDate(task.start, dateFormat);
+      if (!start) {
+        return `Task "${task.id}" has invalid start date: "${task.start}"`;
+      }
+    }
+
+    const duration =
+      typeof task.duration === "object"
+        ? task.duration
+        : parseDuration(task.duration);
+
+    let end: Date;
+    if (duration) {
+      end = computeTaskEnd(start!, duration, config);
+    } else {
+      const endDate = parseDate(task.duration as string, dateFormat);
+      if (!endDate) {
+        return `Task "${task.id}" has invalid end date: "${task.duration}"`;
+      }
+      end = endDate;
+    }
+
+    visiting.delete(id);
+    const result: ResolvedTask = {
+      id: task.id,
+      name: task.name,
+      sectionName: entry.sectionName,
+      sectionIndex: entry.sectionIndex,
+      start: start!,
+      end,
+      isMilestone: !!task.status?.includes("milestone"),
+    };
+    resolved.set(id, result);
+    return result;
+  };
+
+  const tasks: ResolvedTask[] = [];
+  for (const id of Array.from(entries.keys())) {
+    const result = resolve(id);
+    if (typeof result === "string") {
+      return { success: false, error: result };
+    }
+    tasks.push(result);
+  }
+
+  return { success: true, tasks };
+}
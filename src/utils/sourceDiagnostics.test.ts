@@ -0,0 +1,142 @@
+import {
+  analyzeJsonSource,
+  analyzeMermaidSource,
+  lineForPath,
+  renderErrorDiagnostic,
+} from "./sourceDiagnostics";
+import { GanttData } from "../types";
+
+const data: GanttData = {
+  sections: [
+    {
+      name: "Build",
+      tasks: [
+        { id: "a", name: "A", start: "2024-01-01", duration: "2d" },
+        { id: "b", name: "B", start: "", duration: "1d", after: "a" },
+      ],
+    },
+  ],
+};
+
+/**
+ * Returns the 1-based line of the first line containing a string.
+ */
+function lineOf(text: string, search: string): number {
+  return text.split("\n").findIndex((line) => line.includes(search)) + 1;
+}
+
+describe("sourceDiagnostics", () => {
+  describe("lineForPath", () => {
+    it("falls back to the closest parent path, then line 1", () => {
+      const lines = { sections: 2, "sections[0]": 3, "sections[0].tasks[1]": 7 };
+      expect(lineForPath(lines, "sections[0].tasks[1]")).toBe(7);
+      expect(lineForPath(lines, "sections[0].tasks[1].duration.value")).toBe(7);
+      expect(lineForPath(lines, "sections[0].name")).toBe(3);
+      expect(lineForPath(lines, "config.title")).toBe(1);
+    });
+  });
+
+  describe("analyzeJsonSource", () => {
+    it("returns the data and its syntax when valid", () => {
+      const result = analyzeJsonSource(JSON.stringify(data, null, 2));
+      expect(result.data).toEqual(data);
+      expect(result.syntax).toContain("section Build");
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it("places validation issues on the line of the field", () => {
+      const invalid = {
+        ...data,
+        sections: [
+          {
+            name: "Build",
+            tasks: [
+              data.sections[0].tasks[0],
+              { ...data.sections[0].tasks[1], after: "missing" },
+            ],
+          },
+        ],
+      };
+      const text = JSON.stringify(invalid, null, 2);
+      const result = analyzeJsonSource(text);
+
+      expect(result.syntax).toBeUndefined();
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({
+          line: lineOf(text, '"after": "missing"'),
+          severity: "error",
+          code: "UNKNOWN_DEPENDENCY",
+        }),
+      ]);
+    });
+
+    it("places syntax errors where parsing stopped", () => {
+      const text = '{\n  "sections": [\n    { "name": }\n  ]\n}';
+      const result = analyzeJsonSource(text);
+
+      expect(result.data).toBeUndefined();
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0]).toEqual(
+        expect.objectContaining({ line: 3, column: 15, severity: "error" })
+      );
+      expect(result.diagnostics[0].message).not.toMatch(/position|not valid/);
+    });
+
+    it("reports a missing closing bracket at the end of the text", () => {
+      const result = analyzeJsonSource('{\n  "sections": [\n');
+      expect(result.diagnostics[0].line).toBe(3);
+    });
+
+    it("rejects values that do not have the shape of GanttData", () => {
+      const text = '{\n  "sections": [\n    { "name": "A", "tasks": [\n      { "id": 5 }\n    ] }\n  ]\n}';
+      expect(analyzeJsonSource(text).diagnostics).toEqual([
+        { line: 4, severity: "error", message: "id must be a string" },
+      ]);
+      expect(analyzeJsonSource("[]").diagnostics[0].message).toBe(
+        "Gantt data must be a JSON object"
+      );
+    });
+  });
+
+  describe("analyzeMermaidSource", () => {
+    it("places parse errors on their line and column", () => {
+      const result = analyzeMermaidSource(
+        "gantt\n  section Build\n  not a task"
+      );
+      expect(result.diagnostics).toEqual([
+        {
+          line: 3,
+          column: 3,
+          severity: "error",
+          message: 'Unexpected line: "not a task"',
+        },
+      ]);
+    });
+
+    it("places validation issues on the line of the task", () => {
+      const text = [
+        "gantt",
+        "  dateFormat YYYY-MM-DD",
+        "  section Build",
+        "  Design : a, 2024-01-01, 2d",
+        "  Code : b, after missing, 1d",
+      ].join("\n");
+      const result = analyzeMermaidSource(text);
+
+      expect(result.data?.sections[0].tasks).toHaveLength(2);
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({ line: 5, code: "UNKNOWN_DEPENDENCY" }),
+      ]);
+    });
+  });
+
+  describe("renderErrorDiagnostic", () => {
+    it("uses the line number from Mermaid's message", () => {
+      expect(
+        renderErrorDiagnostic("Parse error on line 4:\n...\nExpecting 'EOF'")
+          .line
+      ).toBe(4);
+      expect(renderErrorDiagnostic("Invalid date").line).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,364 @@
+import {
+  GanttData,
+  SourceAnalysis,
+  SourceDiagnostic,
+} from "../types";
+import { convertToMermaidSyntax } from "./ganttConverter";
+import { MermaidParseError, parseMermaidGanttSource } from "./mermaidParser";
+
+/**
+ * Result of scanning a JSON document.
+ */
+interface JsonScan {
+  /** Map from path (e.g. "sections[0].tasks[1].id") to 1-based line */
+  lines: Record<string, number>;
+
+  /** Index of the first character that is not valid JSON, if any */
+  errorAt?: number;
+}
+
+/**
+ * Scans a JSON document, recording the line on which every value starts,
+ * keyed by the same paths validation issues use. Scanning stops at the
+ * first syntax error, whose position JSON.parse does not always report.
+ */
+function scanJson(text: string): JsonScan {
+  const lines: Record<string, number> = {};
+  let index = 0;
+  let line = 1;
+
+  const fail = (): never => {
+    throw new RangeError(String(index));
+  };
+  const skipWhitespace = () => {
+    while (/[ \t\r\n]/.test(text[index] ?? "")) {
+      if (text[index] === "\n") {
+        line += 1;
+      }
+      index += 1;
+    }
+  };
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (text[index] !== char) {
+      fail();
+    }
+    index += 1;
+  };
+
+  const readString = (): string => {
+    const start = index;
+    expect('"');
+    while (text[index] !== '"') {
+      if (index >= text.length || text.charCodeAt(index) < 0x20) {
+        fail();
+      }
+      index += text[index] === "\\" ? 2 : 1;
+    }
+    index += 1;
+    try {
+      return JSON.parse(text.slice(start, index));
+    } catch {
+      index = start;
+      return fail();
+    }
+  };
+
+  const readValue = (path: string) => {
+    skipWhitespace();
+    if (path) {
+      lines[path] = line;
+    }
+    const char = text[index];
+
+    if (char === "{" || char === "[") {
+      const close = char === "{" ? "}" : "]";
+      index += 1;
+      skipWhitespace();
+      if (text[index] === close) {
+        index += 1;
+        return;
+      }
+      for (let position = 0; ; position++) {
+        if (char === "{") {
+          skipWhitespace();
+          const key = readString();
+          expect(":");
+          readValue(path ? `${path}.${key}` : key);
+        } else {
+          readValue(`${path}[${position}]`);
+        }
+        skipWhitespace();
+        if (text[index] === close) {
+          index += 1;
+          return;
+        }
+        expect(",");
+      }
+    } else if (char === '"') {
+      readString();
+    } else {
+      const literal = /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/.exec(
+        text.slice(index)
+      );
+      if (!literal) {
+        fail();
+      }
+      index += literal![0].length;
+    }
+  };
+
+  try {
+    readValue("");
+    skipWhitespace();
+    if (index < text.length) {
+      fail();
+    }
+    return { lines };
+  } catch (err) {
+    if (!(err instanceof RangeError)) {
+      throw err;
+    }
+    return { lines, errorAt: index };
+  }
+}
+
+/**
+ * Finds the line for a data path, falling back to the closest parent path
+ * that has one (e.g. a task's line for "sections[0].tasks[1].duration"
+ * when only the task's line is known), or line 1.
+ * @param lines - Map from path to line number
+ * @param path - The path to look up
+ * @returns 1-based line number
+ */
+export function lineForPath(
+  lines: Record<string, number>,
+  path: string
+): number {
+  let current = path;
+  while (current) {
+    if (lines[current] !== undefined) {
+      return lines[current];
+    }
+    const parent = current.replace(/(^|\.)[^.[\]]+$|\[\d+\]$/, "");
+    if (parent === current) {
+      break;
+    }
+    current = parent;
+  }
+  return 1;
+}
+
+/**
+ * Turns a Mermaid render error into a diagnostic, using the line number in
+ * Mermaid's message (e.g. "Parse error on line 3:") when there is one.
+ * @param message - The error message from Mermaid
+ * @returns A diagnostic for the reported line, or line 1
+ */
+export function renderErrorDiagnostic(message: string): SourceDiagnostic {
+  const match = /\bline (\d+)/i.exec(message);
+  return {
+    line: match ? Number(match[1]) : 1,
+    severity: "error",
+    message,
+  };
+}
+
+type ShapeError = { path: string; message: string };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): boolean =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+/**
+ * Checks the field types of one task that validation relies on.
+ */
+function findTaskShapeError(task: unknown, path: string): ShapeError | null {
+  if (!isObject(task)) {
+    return { path, message: `${path} must be an object` };
+  }
+  for (const field of ["id", "name", "start"]) {
+    if (task[field] !== undefined && typeof task[field] !== "string") {
+      return { path: `${path}.${field}`, message: `${field} must be a string` };
+    }
+  }
+  const { duration, after, status } = task;
+  if (
+    duration !== undefined &&
+    typeof duration !== "string" &&
+    !isObject(duration)
+  ) {
+    return {
+      path: `${path}.duration`,
+      message: "duration must be a string or an object",
+    };
+  }
+  if (after !== undefined && typeof after !== "string" && !isStringList(after)) {
+    return {
+      path: `${path}.after`,
+      message: "after must be a string or an array of strings",
+    };
+  }
+  if (status !== undefined && !isStringList(status)) {
+    return {
+      path: `${path}.status`,
+      message: "status must be an array of strings",
+    };
+  }
+  return null;
+}
+
+/**
+ * Describes the first place where parsed JSON does not have the shape of
+ * GanttData, so validation can safely walk it.
+ */
+function findShapeError(value: unknown): ShapeError | null {
+  if (!isObject(value)) {
+    return { path: "", message: "Gantt data must be a JSON object" };
+  }
+  const { sections, config } = value;
+  if (config !== undefined && !isObject(config)) {
+    return { path: "config", message: "config must be an object" };
+  }
+  for (const field of ["excludes", "excludeDates", "includes"]) {
+    if (config?.[field] !== undefined && !isStringList(config[field])) {
+      return {
+        path: `config.${field}`,
+        message: `${field} must be an array of strings`,
+      };
+    }
+  }
+  if (sections === undefined) {
+    return null;
+  }
+  if (!Array.isArray(sections)) {
+    return { path: "sections", message: "sections must be an array" };
+  }
+  for (let sectionIndex = 0; sectionIndex < sections.length; sectionIndex++) {
+    const section: unknown = sections[sectionIndex];
+    const path = `sections[${sectionIndex}]`;
+    if (!isObject(section)) {
+      return { path, message: `${path} must be an object` };
+    }
+    if (section.name !== undefined && typeof section.name !== "string") {
+      return { path: `${path}.name`, message: "name must be a string" };
+    }
+    const { tasks } = section;
+    if (tasks === undefined) {
+      continue;
+    }
+    if (!Array.isArray(tasks)) {
+      return { path: `${path}.tasks`, message: "tasks must be an array" };
+    }
+    for (let taskIndex = 0; taskIndex < tasks.length; taskIndex++) {
+      const error = findTaskShapeError(
+        tasks[taskIndex],
+        `${path}.tasks[${taskIndex}]`
+      );
+      if (error) {
+        return error;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates parsed data and places each issue on the line of its path.
+ */
+function analyzeData(
+  data: GanttData,
+  lines: Record<string, number>
+): SourceAnalysis {
+  const result = convertToMermaidSyntax(data);
+  return {
+    data,
+    syntax: result.success ? result.syntax : undefined,
+    diagnostics: (result.issues ?? []).map((issue) => ({
+      line: lineForPath(lines, issue.path),
+      severity: issue.severity,
+      message: issue.message,
+      code: issue.code,
+    })),
+  };
+}
+
+/**
+ * Parses GanttData written as JSON and reports every problem on the line
+ * it belongs to: JSON syntax errors where parsing stopped, and validation
+ * issues on the line of the offending field.
+ * @param text - The JSON source
+ * @returns SourceAnalysis with the data, its Mermaid syntax when it is
+ *   valid, and the diagnostics
+ */
+export function analyzeJsonSource(text: string): SourceAnalysis {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Invalid JSON";
+    const beforeLines = text
+      .slice(0, scanJson(text).errorAt ?? text.length)
+      .split("\n");
+    return {
+      diagnostics: [
+        {
+          line: beforeLines.length,
+          column: beforeLines[beforeLines.length - 1].length + 1,
+          severity: "error",
+          // Drop the position and snippet; the diagnostic is placed instead
+          message: message.replace(
+            /( in JSON at position \d+[\s\S]*|, [\s\S]* is not valid JSON)$/,
+            ""
+          ),
+        },
+      ],
+    };
+  }
+
+  const { lines } = scanJson(text);
+  const shapeError = findShapeError(parsed);
+  if (shapeError) {
+    return {
+      diagnostics: [
+        {
+          line: lineForPath(lines, shapeError.path),
+          severity: "error",
+          message: shapeError.message,
+        },
+      ],
+    };
+  }
+  return analyzeData(parsed as GanttData, lines);
+}
+
+/**
+ * Parses Mermaid gantt syntax and reports every problem on the line it
+ * belongs to: parse errors where parsing stopped, and validation issues on
+ * the line of the offending section, task or directive.
+ * @param text - The Mermaid source
+ * @returns SourceAnalysis with the data, its regenerated Mermaid syntax when
+ *   it is valid, and the diagnostics
+ */
+export function analyzeMermaidSource(text: string): SourceAnalysis {
+  try {
+    const { data, lines } = parseMermaidGanttSource(text);
+    return analyzeData(data, lines);
+  } catch (err) {
+    if (!(err instanceof MermaidParseError)) {
+      throw err;
+    }
+    return {
+      diagnostics: [
+        {
+          line: err.line,
+          column: err.column,
+          severity: "error",
+          message: err.message.replace(/^Line \d+, column \d+: /, ""),
+        },
+      ],
+    };
+  }
+}
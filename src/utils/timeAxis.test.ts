@@ -0,0 +1,110 @@
+import {
+  formatAxisDate,
+  parseTickInterval,
+  generateTickDates,
+  chooseTickInterval,
+} from "./timeAxis";
+
+describe("timeAxis", () => {
+  describe("formatAxisDate", () => {
+    const date = new Date(2024, 1, 5, 14, 7, 9);
+
+    it("formats Mermaid's default axis format", () => {
+      expect(formatAxisDate(date, "%Y-%m-%d")).toBe("2024-02-05");
+    });
+
+    it("formats names, times and padding directives", () => {
+      expect(formatAxisDate(date, "%a %A %b %B")).toBe(
+        "Mon Monday Feb February"
+      );
+      expect(formatAxisDate(date, "%e/%y %H:%M:%S")).toBe(" 5/24 14:07:09");
+      expect(formatAxisDate(date, "%I%p day %j")).toBe("02PM day 036");
+    });
+
+    it("keeps unknown directives and escaped percent signs", () => {
+      expect(formatAxisDate(date, "%Q 100%%")).toBe("%Q 100%");
+    });
+  });
+
+  describe("parseTickInterval", () => {
+    it("parses Mermaid tick intervals", () => {
+      expect(parseTickInterval("1day")).toEqual({ value: 1, unit: "day" });
+      expect(parseTickInterval("2week")).toEqual({ value: 2, unit: "week" });
+      expect(parseTickInterval("30minute")).toEqual({
+        value: 30,
+        unit: "minute",
+      });
+    });
+
+    it("returns null for invalid intervals", () => {
+      expect(parseTickInterval("0day")).toBeNull();
+      expect(parseTickInterval("1 day")).toBeNull();
+      expect(parseTickInterval("1year")).toBeNull();
+    });
+  });
+
+  describe("generateTickDates", () => {
+    it("aligns day ticks to midnight", () => {
+      const ticks = generateTickDates(
+        new Date(2024, 0, 1, 12),
+        new Date(2024, 0, 4),
+        { value: 1, unit: "day" }
+      );
+      expect(ticks).toEqual([
+        new Date(2024, 0, 2),
+        new Date(2024, 0, 3),
+        new Date(2024, 0, 4),
+      ]);
+    });
+
+    it("aligns week ticks to the configured weekday", () => {
+      // 2024-01-03 is a Wednesday
+      const ticks = generateTickDates(
+        new Date(2024, 0, 3),
+        new Date(2024, 0, 20),
+        { value: 1, unit: "week" },
+        "monday"
+      );
+      expect(ticks).toEqual([new Date(2024, 0, 8), new Date(2024, 0, 15)]);
+    });
+
+    it("aligns month ticks to the first of the month", () => {
+      const ticks = generateTickDates(
+        new Date(2024, 0, 1),
+        new Date(2024, 4, 15),
+        { value: 2, unit: "month" }
+      );
+      expect(ticks).toEqual([
+        new Date(2024, 0, 1),
+        new Date(2024, 2, 1),
+        new Date(2024, 4, 1),
+      ]);
+    });
+
+    it("returns null when the interval produces too many ticks", () => {
+      expect(
+        generateTickDates(new Date(2024, 0, 1), new Date(2025, 0, 1), {
+          value: 1,
+          unit: "hour",
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe("chooseTickInterval", () => {
+    it("picks the smallest interval that fits", () => {
+      const start = new Date(2024, 0, 1);
+      expect(chooseTickInterval(start, new Date(2024, 0, 8), 10)).toEqual({
+        value: 1,
+        unit: "day",
+      });
+      expect(chooseTickInterval(start, new Date(2024, 2, 1), 10)).toEqual({
+        value: 1,
+        unit: "week",
+      });
+      expect(
+        chooseTickInterval(start, new Date(2024, 0, 1, 6), 10)
+      ).toEqual({ value: 1, unit: "hour" });
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import { TickInterval, TickUnit, WeekDay } from "../types";
+
+/**
+ * Mermaid's default axis format.
+ */
+export const DEFAULT_AXIS_FORMAT = "%Y-%m-%d";
+
+/**
+ * Upper bound on generated ticks, so a tiny interval over a long chart
+ * cannot produce thousands of grid lines.
+ */
+const MAX_TICKS = 200;
+
+const SHORT_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const LONG_DAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+const SHORT_MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+const LONG_MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+/**
+ * Week day names indexed by Date#getDay().
+ */
+const WEEK_DAYS: WeekDay[] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+/**
+ * Approximate length of each tick unit, used to pick an automatic interval.
+ */
+const UNIT_MS: Record<TickUnit, number> = {
+  millisecond: 1,
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Intervals tried, in order, when the chart has no tickInterval.
+ */
+const AUTO_INTERVALS: TickInterval[] = [
+  { value: 1, unit: "minute" },
+  { value: 15, unit: "minute" },
+  { value: 1, unit: "hour" },
+  { value: 6, unit: "hour" },
+  { value: 1, unit: "day" },
+  { value: 2, unit: "day" },
+  { value: 1, unit: "week" },
+  { value: 2, unit: "week" },
+  { value: 1, unit: "month" },
+  { value: 3, unit: "month" },
+  { value: 6, unit: "month" },
+  { value: 12, unit: "month" },
+];
+
+const pad = (value: number, length = 2): string =>
+  String(value).padStart(length, "0");
+
+/**
+ * Formats a date with a d3-style axisFormat such as "%Y-%m-%d" or "%b %e",
+ * the notation Mermaid uses. Supports %a %A %b %B %d %e %H %I %j %L %m %M
+ * %p %S %y %Y and %%; other directives are kept as written.
+ * @param date - The date to format, in local time
+ * @param format - The axis format
+ * @returns The formatted label
+ */
+export function formatAxisDate(date: Date, format: string): string {
+  return format.replace(/%([a-zA-Z%])/g, (directive, code: string) => {
+    switch (code) {
+      case "a":
+        return SHORT_DAYS[date.getDay()];
+      case "A":
+        return LONG_DAYS[date.getDay()];
+      case "b":
+        return SHORT_MONTHS[date.getMonth()];
+      case "B":
+        return LONG_MONTHS[date.getMonth()];
+      case "d":
+        return pad(date.getDate());
+      case "e":
+        return String(date.getDate()).padStart(2, " ");
+      case "H":
+        return pad(date.getHours());
+      case "I":
+        return pad(date.getHours() % 12 || 12);
+      case "j": {
+        const year = date.getFullYear();
+        const dayOfYear =
+          (Date.UTC(year, date.getMonth(), date.getDate()) -
+            Date.UTC(year, 0, 1)) /
+            UNIT_MS.day +
+          1;
+        return pad(dayOfYear, 3);
+      }
+      case "L":
+        return pad(date.getMilliseconds(), 3);
+      case "m":
+        return pad(date.getMonth() + 1);
+      case "M":
+        return pad(date.getMinutes());
+      case "p":
+        return date.getHours() < 12 ? "AM" : "PM";
+      case "S":
+        return pad(date.getSeconds());
+      case "y":
+        return pad(date.getFullYear() % 100);
+      case "Y":
+        return String(date.getFullYear());
+      case "%":
+        return "%";
+      default:
+        return directive;
+    }
+  });
+}
+
+/**
+ * Parses a Mermaid tickInterval such as "1day" or "2week".
+ * @param value - The tickInterval value
+ * @returns The parsed interval, or null if the value is not valid
+ */
+export function parseTickInterval(value: string): TickInterval | null {
+  const match =
+    /^([1-9][0-9]*)(millisecond|second|minute|hour|day|week|month)$/.exec(
+      value.trim()
+    );
+  if (!match) {
+    return null;
+  }
+  return { value: parseInt(match[1], 10), unit: match[2] as TickUnit };
+}
+
+/**
+ * Adds a number of tick units to a date. Days, weeks and months are added
+ * on the calendar in local time, shorter units as elapsed time.
+ */
+function addUnits(date: Date, unit: TickUnit, count: number): Date {
+  const result = new Date(date.getTime());
+  switch (unit) {
+    case "month":
+      result.setMonth(result.getMonth() + count);
+      return result;
+    case "week":
+      result.setDate(result.getDate() + count * 7);
+      return result;
+    case "day":
+      result.setDate(result.getDate() + count);
+      return result;
+    default:
+      return new Date(date.getTime() + count * UNIT_MS[unit]);
+  }
+}
+
+/**
+ * Rounds a date down to the start of its unit. Weeks start on `weekday`.
+ */
+function startOfUnit(date: Date, unit: TickUnit, weekday: WeekDay): Date {
+  const result = new Date(date.getTime());
+  switch (unit) {
+    case "millisecond":
+      return result;
+    case "second":
+      result.setMilliseconds(0);
+      return result;
+    case "minute":
+      result.setSeconds(0, 0);
+      return result;
+    case "hour":
+      result.setMinutes(0, 0, 0);
+      return result;
+    case "month":
+      result.setDate(1);
+      result.setHours(0, 0, 0, 0);
+      return result;
+    case "week":
+      result.setHours(0, 0, 0, 0);
+      result.setDate(
+        result.getDate() -
+          ((result.getDay() - WEEK_DAYS.indexOf(weekday) + 7) % 7)
+      );
+      return result;
+    case "day":
+      result.setHours(0, 0, 0, 0);
+      return result;
+  }
+}
+
+/**
+ * Generates tick times between two dates, aligned to the interval's unit
+ * (midnight for days, `weekday` for weeks, the 1st for months).
+ * @param start - Start of the range
+ * @param end - End of the range (inclusive)
+ * @param interval - Distance between ticks
+ * @param weekday - Day weeks start on (defaults to Sunday, like Mermaid)
+ * @returns Tick times, or null if the interval would produce too many ticks
+ */
+export function generateTickDates(
+  start: Date,
+  end: Date,
+  interval: TickInterval,
+  weekday: WeekDay = "sunday"
+): Date[] | null {
+  let tick = startOfUnit(start, interval.unit, weekday);
+  if (tick < start) {
+    tick = addUnits(tick, interval.unit, 1);
+  }
+
+  const ticks: Date[] = [];
+  while (tick <= end) {
+    if (ticks.length === MAX_TICKS) {
+      return null;
+    }
+    ticks.push(tick);
+    tick = addUnits(tick, interval.unit, interval.value);
+  }
+  return ticks;
+}
+
+/**
+ * Picks the smallest standard interval that keeps the number of ticks in a
+ * range at or below a limit.
+ * @param start - Start of the range
+ * @param end - End of the range
+ * @param maxTicks - Largest acceptable number of ticks
+ * @returns The chosen interval
+ */
+export function chooseTickInterval(
+  start: Date,
+  end: Date,
+  maxTicks: number
+): TickInterval {
+  const span = end.getTime() - start.getTime();
+  return (
+    AUTO_INTERVALS.find(
+      (interval) => span / (interval.value * UNIT_MS[interval.unit]) <= maxTicks
+    ) ?? AUTO_INTERVALS[AUTO_INTERVALS.length - 1]
+  );
+}
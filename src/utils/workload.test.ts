@@ -0,0 +1,158 @@
+import { analyzeWorkload } from "./workload";
+import { GanttData, ResourceWorkload } from "../types";
+
+/**
+ * Ada works on design and, at half time, on docs while also building;
+ * Grace only reviews.
+ *
+ *   design (Ada)      Mon-Tue
+ *   build  (Ada)      Wed-Fri, then Mon after the weekend
+ *   docs   (Ada 50%)  Thu-Fri
+ *   review (Grace)    Wed, 4 hours
+ */
+const plan: GanttData = {
+  config: { excludes: ["saturday", "sunday"] },
+  resources: [
+    { id: "ada", name: "Ada" },
+    { id: "grace", name: "Grace" },
+    { id: "linus", name: "Linus" },
+  ],
+  sections: [
+    {
+      name: "Work",
+      tasks: [
+        {
+          id: "design",
+          name: "Design",
+          start: "2024-01-01",
+          duration: { value: 2, unit: "d" },
+          assignees: [{ resourceId: "ada" }],
+        },
+        {
+          id: "build",
+          name: "Build",
+          start: "",
+          duration: { value: 4, unit: "d" },
+          after: "design",
+          assignees: [{ resourceId: "ada" }],
+        },
+        {
+          id: "docs",
+          name: "Docs",
+          start: "2024-01-04",
+          duration: { value: 2, unit: "d" },
+          assignees: [{ resourceId: "ada", allocation: 50 }],
+        },
+        {
+          id: "review",
+          name: "Review",
+          start: "2024-01-03",
+          duration: { value: 4, unit: "h" },
+          assignees: [{ resourceId: "grace" }, { resourceId: "nobody" }],
+        },
+        {
+          id: "done",
+          name: "Done",
+          start: "2024-01-09",
+          duration: { value: 0, unit: "d" },
+          status: ["milestone"],
+          assignees: [{ resourceId: "grace" }],
+        },
+      ],
+    },
+  ],
+};
+
+/**
+ * Analyzes the workload and returns each resource's daily loads.
+ */
+function loadsById(data: GanttData): Record<string, number[]> {
+  const result = analyzeWorkload(data);
+  expect(result.error).toBeUndefined();
+  return Object.fromEntries(
+    result.resources!.map((resource: ResourceWorkload) => [
+      resource.id,
+      resource.days.map((day) => day.load),
+    ])
+  );
+}
+
+describe("workload", () => {
+  describe("analyzeWorkload", () => {
+    it("lists every day from the first start to the last end", () => {
+      const { days } = analyzeWorkload(plan);
+      expect(days!.map((day) => day.toDateString())).toEqual([
+        "Mon Jan 01 2024",
+        "Tue Jan 02 2024",
+        "Wed Jan 03 2024",
+        "Thu Jan 04 2024",
+        "Fri Jan 05 2024",
+        "Sat Jan 06 2024",
+        "Sun Jan 07 2024",
+        "Mon Jan 08 2024",
+      ]);
+    });
+
+    it("adds up overlapping allocations and skips excluded days", () => {
+      expect(loadsById(plan)).toEqual({
+        ada: [100, 100, 100, 150, 150, 0, 0, 100],
+        grace: [0, 0, 100, 0, 0, 0, 0, 0],
+        linus: [0, 0, 0, 0, 0, 0, 0, 0],
+      });
+    });
+
+    it("flags days and resources booked above 100%", () => {
+      const [ada, grace] = analyzeWorkload(plan).resources!;
+
+      expect(ada.peakLoad).toBe(150);
+      expect(ada.isOverallocated).toBe(true);
+      expect(ada.days[3]).toEqual({
+        date: new Date(2024, 0, 4),
+        load: 150,
+        taskIds: ["build", "docs"],
+        isOverallocated: true,
+      });
+      expect(grace.isOverallocated).toBe(false);
+    });
+
+    it("does not count tasks one after another in a day as overlapping", () => {
+      const data: GanttData = {
+        config: { dateFormat: "YYYY-MM-DD HH:mm" },
+        resources: [{ id: "ada", name: "Ada" }],
+        sections: [
+          {
+            name: "Day",
+            tasks: [
+              {
+                id: "morning",
+                name: "Morning",
+                start: "2024-01-01 09:00",
+                duration: { value: 3, unit: "h" },
+                assignees: [{ resourceId: "ada" }],
+              },
+              {
+                id: "afternoon",
+                name: "Afternoon",
+                start: "",
+                after: "morning",
+                duration: { value: 4, unit: "h" },
+                assignees: [{ resourceId: "ada" }],
+              },
+            ],
+          },
+        ],
+      };
+
+      const [ada] = analyzeWorkload(data).resources!;
+      expect(ada.days).toHaveLength(1);
+      expect(ada.days[0].load).toBe(100);
+      expect(ada.days[0].taskIds).toEqual(["morning", "afternoon"]);
+    });
+
+    it("returns the schedule error for invalid data", () => {
+      const result = analyzeWorkload({ sections: [] });
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Gantt data must have at least one section");
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  GanttData,
+  ResourceWorkload,
+  WorkloadDay,
+  WorkloadResult,
+} from "../types";
+import { resolveSchedule, isExcludedDate } from "./schedule";
+
+/**
+ * A stretch of time a resource spends on a task.
+ */
+interface Booking {
+  taskId: string;
+  start: Date;
+  end: Date;
+  allocation: number;
+}
+
+/**
+ * Returns local midnight of the day a time falls on.
+ */
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Returns local midnight of the following day.
+ */
+function nextDay(day: Date): Date {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+}
+
+/**
+ * Finds the highest total allocation of bookings running at the same time
+ * between two times.
+ */
+function peakAllocation(bookings: Booking[], from: Date, to: Date): number {
+  // Ends sort before starts at the same time, so back-to-back bookings
+  // do not overlap
+  const events = bookings
+    .flatMap((booking) => [
+      {
+        time: Math.max(booking.start.getTime(), from.getTime()),
+        change: booking.allocation,
+      },
+      {
+        time: Math.min(booking.end.getTime(), to.getTime()),
+        change: -booking.allocation,
+      },
+    ])
+    .sort((a, b) => a.time - b.time || a.change - b.change);
+
+  let load = 0;
+  let peak = 0;
+  for (const event of events) {
+    load += event.change;
+    peak = Math.max(peak, load);
+  }
+  // Rounded so allocations like 33.3 + 66.7 do not come to 100.00000001
+  return Math.round(peak * 1e6) / 1e6;
+}
+
+/**
+ * Works out how busy each of the chart's resources is on every day of the
+ * schedule.
+ *
+ * Each assignment books the resource for the task's resolved start to end
+ * at its allocation (100% unless given). A day's load is the highest total
+ * allocation of tasks running at the same moment that day, so two half-day
+ * tasks one after the other come to 100%, not 200%. Days excluded by the
+ * chart's config carry no load, and milestones book no time. Assignments
+ * to resources that are not in `resources` are ignored.
+ *
+ * @param data - The Gantt data, with resources and task assignments
+ * @returns WorkloadResult with a day-by-day load per resource, or why the
+ *   chart could not be scheduled
+ */
+export function analyzeWorkload(data: GanttData): WorkloadResult {
+  const schedule = resolveSchedule(data);
+  if (!schedule.success) {
+    return { success: false, error: schedule.error };
+  }
+
+  const config = data.config ?? {};
+  const tasks = schedule.tasks!;
+  const days: Date[] = [];
+  if (tasks.length > 0) {
+    const first = Math.min(...tasks.map((task) => task.start.getTime()));
+    const last = Math.max(...tasks.map((task) => task.end.getTime()));
+    for (
+      let day = startOfDay(new Date(first));
+      day.getTime() < last || days.length === 0;
+      day = nextDay(day)
+    ) {
+      days.push(day);
+    }
+  }
+
+  const resolvedById = new Map(tasks.map((task) => [task.id, task]));
+  const bookings = new Map<string, Booking[]>();
+  (data.resources ?? []).forEach((resource) => bookings.set(resource.id, []));
+  data.sections.forEach((section) =>
+    section.tasks.forEach((task) => {
+      const resolved = resolvedById.get(task.id)!;
+      if (resolved.isMilestone) {
+        return;
+      }
+      (task.assignees ?? []).forEach((assignee) =>
+        bookings.get(assignee.resourceId)?.push({
+          taskId: task.id,
+          start: resolved.start,
+          end: resolved.end,
+          allocation: assignee.allocation ?? 100,
+        })
+      );
+    })
+  );
+
+  const resources: ResourceWorkload[] = [];
+  const seen = new Set<string>();
+  for (const resource of data.resources ?? []) {
+    // Duplicate IDs are reported by validation; the first one counts
+    if (seen.has(resource.id)) {
+      continue;
+    }
+    seen.add(resource.id);
+
+    const resourceBookings = bookings.get(resource.id)!;
+    const resourceDays = days.map((date): WorkloadDay => {
+      const end = nextDay(date);
+      const running = isExcludedDate(date, config)
+        ? []
+        : resourceBookings.filter(
+            (booking) => booking.start < end && booking.end > date
+          );
+      const load = peakAllocation(running, date, end);
+      return {
+        date,
+        load,
+        taskIds: running
+          .map((booking) => booking.taskId)
+          .filter((id, index, ids) => ids.indexOf(id) === index),
+        isOverallocated: load > 100,
+      };
+    });
+    const peakLoad = Math.max(0, ...resourceDays.map((day) => day.load));
+
+    resources.push({
+      id: resource.id,
+      name: resource.name,
+      days: resourceDays,
+      peakLoad,
+      isOverallocated: peakLoad > 100,
+    });
+  }
+
+  return { success: true, days, resources };
+}
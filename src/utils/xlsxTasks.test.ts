@@ -0,0 +1,186 @@
+import { read, utils, write } from "xlsx";
+import { exportXlsxTasks, importXlsxTasks } from "./xlsxTasks";
+import { GanttData } from "../types";
+
+const data: GanttData = {
+  config: { title: "Launch", dateFormat: "DD-MM-YYYY" },
+  resources: [{ id: "ada", name: "Ada" }],
+  sections: [
+    {
+      name: "Plan",
+      tasks: [
+        {
+          id: "spec",
+          name: "=Write the spec",
+          start: "01-01-2024",
+          duration: { value: 5, unit: "d" },
+          status: ["done", "crit"],
+          assignees: [{ resourceId: "ada", allocation: 50 }],
+        },
+        {
+          id: "review",
+          name: "Review",
+          start: "08-01-2024",
+          duration: "10-01-2024",
+          status: ["active"],
+          progress: 40,
+        },
+      ],
+    },
+    { name: "Later", tasks: [] },
+    {
+      name: "Build",
+      tasks: [
+        {
+          id: "code",
+          name: "Code",
+          start: "",
+          duration: { value: 2, unit: "w" },
+          after: ["spec", "review"],
+        },
+      ],
+    },
+  ],
+};
+
+/**
+ * Builds an XLSX file with one sheet from rows of cell values, and number
+ * formats keyed by cell address.
+ */
+function workbook(
+  rows: unknown[][],
+  formats: Record<string, string> = {}
+): ArrayBuffer {
+  const sheet = utils.aoa_to_sheet(rows);
+  Object.entries(formats).forEach(([address, format]) => {
+    sheet[address].z = format;
+  });
+  const book = utils.book_new();
+  utils.book_append_sheet(book, sheet, "Sheet1");
+  return write(book, { type: "array", bookType: "xlsx" });
+}
+
+describe("xlsxTasks", () => {
+  describe("exportXlsxTasks", () => {
+    it("writes the task table as text cells", () => {
+      const book = read(exportXlsxTasks(data), { type: "array" });
+      const sheet = book.Sheets.Tasks;
+
+      expect(book.SheetNames).toEqual(["Tasks"]);
+      expect(utils.sheet_to_json(sheet, { header: 1 })).toEqual([
+        [
+          "Section",
+          "ID",
+          "Name",
+          "Start",
+          "End",
+          "Duration",
+          "Status",
+          "Progress",
+          "Depends on",
+          "Assignees",
+        ],
+        [
+          "Plan",
+          "spec",
+          "=Write the spec",
+          "01-01-2024",
+          "",
+          "5d",
+          "done crit",
+          "",
+          "",
+          "ada:50",
+        ],
+        [
+          "Plan",
+          "review",
+          "Review",
+          "08-01-2024",
+          "10-01-2024",
+          "",
+          "active",
+          "40",
+          "",
+          "",
+        ],
+        ["Later", "", "", "", "", "", "", "", "", ""],
+        ["Build", "code", "Code", "", "", "2w", "", "", "spec review", ""],
+      ]);
+      // Text that starts like a formula stays text
+      expect(sheet.C2).toMatchObject({ t: "s", v: "=Write the spec" });
+      expect(sheet.C2.f).toBeUndefined();
+    });
+
+    it("round-trips through importXlsxTasks", () => {
+      const result = importXlsxTasks(exportXlsxTasks(data), {
+        config: data.config,
+        resources: data.resources,
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.data).toEqual(data);
+    });
+  });
+
+  describe("importXlsxTasks", () => {
+    it("reads dates, numbers and percentages", () => {
+      const file = workbook(
+        [
+          ["Task", "ID", "Start", "Duration", "Percent complete"],
+          ["Alpha", "a", new Date(2024, 0, 15), 3, 0.25],
+          [],
+          ["Beta", "b", new Date(2024, 1, 1), "2d", 1],
+        ],
+        { E2: "0%" }
+      );
+
+      const result = importXlsxTasks(file, {
+        config: { dateFormat: "YYYY-MM-DD" },
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.data!.sections[0].tasks).toEqual([
+        {
+          id: "a",
+          name: "Alpha",
+          start: "2024-01-15",
+          duration: { value: 3, unit: "d" },
+          progress: 25,
+        },
+        {
+          id: "b",
+          name: "Beta",
+          start: "2024-02-01",
+          duration: { value: 2, unit: "d" },
+          progress: 1,
+        },
+      ]);
+    });
+
+    it("numbers rows as in the sheet", () => {
+      const result = importXlsxTasks(
+        workbook([
+          ["ID", "Name", "Start", "Duration", "Status"],
+          ["a", "A", "2024-01-01", "1d", ""],
+          [],
+          ["b", "B", "2024-01-01", "1d", "later"],
+        ])
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        { row: 4, message: 'Unknown status "later"' },
+      ]);
+    });
+
+    it("reports a file that is not a workbook", () => {
+      // The start of a ZIP archive, which XLSX files are, cut short
+      const file = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0, 0, 0, 0]);
+
+      expect(importXlsxTasks(file.buffer).errors).toEqual([
+        { message: "The file is not an Excel workbook" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { CellObject, WorkSheet, read, utils, write } from "xlsx";
+import {
+  CsvImportOptions,
+  CsvImportResult,
+  DateFormat,
+  GanttData,
+} from "../types";
+import { exportTaskTable, importTaskTable } from "./csvTasks";
+import { DATE_FORMATS, formatDate } from "./dates";
+
+/**
+ * Name of the sheet written by exportXlsxTasks.
+ */
+const SHEET_NAME = "Tasks";
+
+/**
+ * Reads a cell as the text importTaskTable expects: dates in the chart's
+ * date format, and numbers shown as percentages (0.4 shown as 40%) as the
+ * percentage.
+ */
+function cellText(cell: CellObject | undefined, format: DateFormat): string {
+  if (!cell || cell.v === undefined || cell.v === null) {
+    return "";
+  }
+  if (cell.v instanceof Date) {
+    return formatDate(cell.v, format);
+  }
+  if (typeof cell.v === "number" && cell.z?.toString().includes("%")) {
+    return String(Math.round(cell.v * 10000) / 100);
+  }
+  return String(cell.v).trim();
+}
+
+/**
+ * Returns the cells of a sheet as rows of text, from its first used row and
+ * column to its last, keeping empty rows so the rows below keep their
+ * number.
+ */
+function sheetRows(sheet: WorkSheet, format: DateFormat): string[][] {
+  if (!sheet["!ref"]) {
+    return [];
+  }
+  const range = utils.decode_range(sheet["!ref"]);
+  const rows: string[][] = [];
+  for (let row = range.s.r; row <= range.e.r; row++) {
+    const cells: string[] = [];
+    for (let column = range.s.c; column <= range.e.c; column++) {
+      const cell = sheet[utils.encode_cell({ r: row, c: column })];
+      cells.push(cellText(cell, format));
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+/**
+ * Imports a task list from the first sheet of an Excel workbook (XLSX) with
+ * importTaskTable, which reads the columns as importCsvTasks does. The
+ * sheet's first row holds the headers. Cells are trimmed; date cells are
+ * written in the config's date format, and numbers formatted as
+ * percentages, such as a progress of 40%, are read as percentages.
+ *
+ * @param file - The contents of the XLSX file
+ * @param options - Column mapping and config for the imported chart
+ * @returns CsvImportResult with the chart, or the problems found
+ */
+export function importXlsxTasks(
+  file: ArrayBuffer,
+  options: CsvImportOptions = {}
+): CsvImportResult {
+  const format: DateFormat =
+    options.config?.dateFormat &&
+    DATE_FORMATS.includes(options.config.dateFormat)
+      ? options.config.dateFormat
+      : "YYYY-MM-DD";
+  let rows: string[][];
+  try {
+    const workbook = read(file, {
+      type: "array",
+      cellDates: true,
+      cellNF: true,
+    });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    rows = sheet ? sheetRows(sheet, format) : [];
+  } catch {
+    return {
+      success: false,
+      headers: [],
+      mapping: {},
+      errors: [{ message: "The file is not an Excel workbook" }],
+    };
+  }
+  const [headers = [], ...tasks] = rows;
+  return importTaskTable(headers, tasks, options);
+}
+
+/**
+ * Writes a chart's tasks as an Excel workbook (XLSX) with one sheet, holding
+ * the exportTaskTable columns, so that importXlsxTasks reads back the same
+ * sections and tasks. Every cell is written as text, dates included, so
+ * they keep the chart's date format. As with CSV, the config, resources and
+ * baselines are not written.
+ *
+ * @param data - The chart to export
+ * @returns The contents of the XLSX file
+ */
+export function exportXlsxTasks(data: GanttData): ArrayBuffer {
+  const workbook = utils.book_new();
+  utils.book_append_sheet(
+    workbook,
+    utils.aoa_to_sheet(exportTaskTable(data)),
+    SHEET_NAME
+  );
+  return write(workbook, { type: "array", bookType: "xlsx" });
+}